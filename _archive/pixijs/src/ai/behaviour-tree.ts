@@ -0,0 +1,224 @@
+/**
+ * Behaviour tree runtime – data-declared trees ticked once per frame
+ * against a per-entity Blackboard.
+ *
+ * A tree is a plain BtNodeDef object (no functions), so it can be
+ * written as data, validated up front and ticked headlessly. Leaves are
+ * looked up by name in a registry supplied by the caller, which also
+ * fixes the context type handed to them (see ai/enemy-trees.ts).
+ *
+ * Trees are checked by bt-validate.ts when constructed. Nodes:
+ *   selector          first child that doesn't fail wins; re-evaluated
+ *                     every tick, so a higher-priority branch interrupts
+ *                     a running lower one
+ *   sequence          children in order; resumes at the running child
+ *                     (commits to a multi-step routine once started)
+ *   reactiveSequence  children in order from the first every tick
+ *                     (conditions are re-checked while an action runs)
+ *   parallel          ticks every child; 'all' succeeds once all have,
+ *                     'any' as soon as one does
+ *   invert            swaps success and failure
+ *   succeed           turns failure into success
+ *   cooldown          fails for `seconds` after its child succeeds
+ *   leaf              a named condition or action with params
+ *
+ * A node that stops being ticked while running (interrupted by a
+ * selector) loses its memory and starts fresh next time.
+ */
+
+import type { Blackboard } from './blackboard.js';
+import { validateTree } from './bt-validate.js';
+
+// ---------------------------------------------------------------------------
+// Tree data
+// ---------------------------------------------------------------------------
+
+/** Result of ticking a node. */
+export type BtStatus = 'success' | 'failure' | 'running';
+
+/** A leaf parameter value. */
+export type BtParamValue = number | string | boolean;
+
+/** Parameters of a leaf node. */
+export type BtParams = Readonly<Record<string, BtParamValue>>;
+
+/** One node of a tree, as data. */
+export type BtNodeDef =
+  | { type: 'selector'; children: readonly BtNodeDef[] }
+  | { type: 'sequence'; children: readonly BtNodeDef[] }
+  | { type: 'reactiveSequence'; children: readonly BtNodeDef[] }
+  | { type: 'parallel'; policy: 'all' | 'any'; children: readonly BtNodeDef[] }
+  | { type: 'invert'; child: BtNodeDef }
+  | { type: 'succeed'; child: BtNodeDef }
+  | { type: 'cooldown'; seconds: number; initial?: number; child: BtNodeDef }
+  | { type: 'leaf'; name: string; params?: BtParams };
+
+/** Scratch memory of a running node, cleared when it finishes or is interrupted. */
+export type NodeMemory = Record<string, number>;
+
+/** Accepted type of a leaf parameter; a trailing '?' makes it optional. */
+export type BtParamSpec =
+  | 'number' | 'string' | 'boolean'
+  | 'number?' | 'string?' | 'boolean?';
+
+/** A named leaf implementation. */
+export interface LeafDef<C> {
+  /** Parameters the leaf accepts. */
+  readonly params: Readonly<Record<string, BtParamSpec>>;
+  /**
+   * Run one tick. `memory` is empty on the first tick after the leaf
+   * starts and kept for as long as it keeps returning 'running'.
+   */
+  tick(ctx: C, params: BtParams, memory: NodeMemory): BtStatus;
+}
+
+// ---------------------------------------------------------------------------
+// Runtime
+// ---------------------------------------------------------------------------
+
+/** A node with its id and resolved children / leaf. */
+interface CompiledNode<C> {
+  readonly id: number;
+  readonly def: BtNodeDef;
+  readonly children: readonly CompiledNode<C>[];
+  readonly leaf: LeafDef<C> | null;
+}
+
+/**
+ * A validated tree, shared by every entity that runs it. All per-entity
+ * state lives in the Blackboard passed to tick().
+ */
+export class BehaviourTree<C> {
+  private readonly root: CompiledNode<C>;
+  private nextId = 0;
+
+  /**
+   * @param def    - the tree, as data
+   * @param leaves - leaf registry the tree's leaf names refer to
+   * @param name   - used in validation errors
+   * @throws if the tree is invalid
+   */
+  constructor(def: BtNodeDef, leaves: Readonly<Record<string, LeafDef<C>>>, name = 'root') {
+    validateTree(def, leaves, name);
+    this.root = this.compile(def, leaves);
+  }
+
+  /** Run one tick of the tree for one entity. */
+  tick(blackboard: Blackboard, ctx: C, dt: number): BtStatus {
+    blackboard.clock += dt;
+    const running = new Set<number>();
+    const status = this.tickNode(this.root, blackboard, ctx, running);
+
+    // Nodes running last tick that weren't reached this tick were interrupted
+    for (const id of blackboard.running) {
+      if (!running.has(id)) blackboard.nodeMemory.delete(id);
+    }
+    blackboard.running = running;
+    return status;
+  }
+
+  private compile(def: BtNodeDef, leaves: Readonly<Record<string, LeafDef<C>>>): CompiledNode<C> {
+    const id = this.nextId++;
+    const childDefs = 'children' in def ? def.children : 'child' in def ? [def.child] : [];
+    return {
+      id,
+      def,
+      children: childDefs.map((child) => this.compile(child, leaves)),
+      leaf: def.type === 'leaf' ? leaves[def.name] : null,
+    };
+  }
+
+  private tickNode(node: CompiledNode<C>, bb: Blackboard, ctx: C, running: Set<number>): BtStatus {
+    let memory = bb.nodeMemory.get(node.id);
+    if (!memory) {
+      memory = {};
+      bb.nodeMemory.set(node.id, memory);
+    }
+
+    const status = this.evaluate(node, bb, ctx, running, memory);
+    if (status === 'running') running.add(node.id);
+    else this.reset(node, bb, running);
+    return status;
+  }
+
+  private evaluate(
+    node: CompiledNode<C>,
+    bb: Blackboard,
+    ctx: C,
+    running: Set<number>,
+    memory: NodeMemory,
+  ): BtStatus {
+    const def = node.def;
+    const kids = node.children;
+    switch (def.type) {
+      case 'selector':
+        for (const child of kids) {
+          const status = this.tickNode(child, bb, ctx, running);
+          if (status !== 'failure') return status;
+        }
+        return 'failure';
+
+      case 'sequence':
+      case 'reactiveSequence':
+        for (let i = def.type === 'sequence' ? memory.index ?? 0 : 0; i < kids.length; i++) {
+          const status = this.tickNode(kids[i], bb, ctx, running);
+          if (status === 'failure') return 'failure';
+          if (status === 'running') {
+            memory.index = i;
+            return 'running';
+          }
+        }
+        return 'success';
+
+      case 'parallel': {
+        let succeeded = 0;
+        let failed = 0;
+        kids.forEach((child, i) => {
+          // Under 'all', children that already succeeded aren't re-run
+          if (memory[`done${i}`]) {
+            succeeded++;
+            return;
+          }
+          const status = this.tickNode(child, bb, ctx, running);
+          if (status === 'success') {
+            succeeded++;
+            memory[`done${i}`] = 1;
+          } else if (status === 'failure') {
+            failed++;
+          }
+        });
+        if (def.policy === 'all') {
+          return failed > 0 ? 'failure' : succeeded === kids.length ? 'success' : 'running';
+        }
+        return succeeded > 0 ? 'success' : failed === kids.length ? 'failure' : 'running';
+      }
+
+      case 'invert': {
+        const status = this.tickNode(kids[0], bb, ctx, running);
+        return status === 'running' ? status : status === 'success' ? 'failure' : 'success';
+      }
+
+      case 'succeed':
+        return this.tickNode(kids[0], bb, ctx, running) === 'running' ? 'running' : 'success';
+
+      case 'cooldown': {
+        // A child already under way is always allowed to finish
+        const readyAt = bb.cooldowns.get(node.id) ?? def.initial ?? 0;
+        if (!bb.running.has(kids[0].id) && bb.clock < readyAt) return 'failure';
+        const status = this.tickNode(kids[0], bb, ctx, running);
+        if (status === 'success') bb.cooldowns.set(node.id, bb.clock + def.seconds);
+        return status;
+      }
+
+      case 'leaf':
+        return node.leaf ? node.leaf.tick(ctx, def.params ?? {}, memory) : 'failure';
+    }
+  }
+
+  /** Drop the memory of a finished node and everything under it. */
+  private reset(node: CompiledNode<C>, bb: Blackboard, running: Set<number>): void {
+    bb.nodeMemory.delete(node.id);
+    running.delete(node.id);
+    for (const child of node.children) this.reset(child, bb, running);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Blackboard – the per-entity state of a behaviour tree.
+ *
+ * Holds the values leaves share with each other (and with other
+ * systems, e.g. a shielder's facing), plus the runtime's bookkeeping:
+ * memory of running nodes and cooldown timers. One tree definition is
+ * shared by every entity running it; only blackboards are per entity.
+ */
+
+import type { BtParamValue, NodeMemory } from './behaviour-tree.js';
+
+export class Blackboard {
+  /** Seconds of ticks this blackboard has seen. */
+  clock = 0;
+
+  private readonly values = new Map<string, BtParamValue>();
+
+  /** Node id -> memory of that node while it runs. */
+  readonly nodeMemory = new Map<number, NodeMemory>();
+
+  /** Node id -> clock time a cooldown node is ready again. */
+  readonly cooldowns = new Map<number, number>();
+
+  /** Ids of nodes left running by the previous tick. */
+  running: ReadonlySet<number> = new Set<number>();
+
+  get(key: string): BtParamValue | undefined {
+    return this.values.get(key);
+  }
+
+  set(key: string, value: BtParamValue): void {
+    this.values.set(key, value);
+  }
+}
+
@@ -0,0 +1,75 @@
+/**
+ * Behaviour tree validation – checks a tree given as data (e.g. parsed
+ * JSON) against a leaf registry before it is compiled, so a bad node
+ * fails at load with its path instead of misbehaving in play.
+ */
+
+import type { LeafDef } from './behaviour-tree.js';
+
+const COMPOSITES = ['selector', 'sequence', 'reactiveSequence', 'parallel'];
+const DECORATORS = ['invert', 'succeed', 'cooldown'];
+
+function fail(path: string, msg: string): never {
+  throw new Error(`[BehaviourTree] ${path}: ${msg}.`);
+}
+
+function validateParams(path: string, params: unknown, spec: LeafDef<unknown>['params']): void {
+  if (params !== undefined && (typeof params !== 'object' || params === null)) {
+    fail(path, 'params must be an object');
+  }
+  const given = (params ?? {}) as Record<string, unknown>;
+  for (const key of Object.keys(given)) {
+    if (!(key in spec)) fail(path, `unknown param '${key}'`);
+  }
+  for (const [key, type] of Object.entries(spec)) {
+    const optional = type.endsWith('?');
+    if (given[key] === undefined) {
+      if (!optional) fail(path, `missing param '${key}'`);
+      continue;
+    }
+    const expected = optional ? type.slice(0, -1) : type;
+    if (typeof given[key] !== expected) fail(path, `param '${key}' must be a ${expected}`);
+  }
+}
+
+/**
+ * Check a tree against a leaf registry.
+ * @param path - name used in error messages (usually the tree id)
+ * @throws naming the path to the first bad node
+ */
+export function validateTree<C>(
+  def: unknown,
+  leaves: Readonly<Record<string, LeafDef<C>>>,
+  path = 'root',
+): void {
+  if (typeof def !== 'object' || def === null) fail(path, 'node must be an object');
+  const node = def as Record<string, unknown>;
+  const type = String(node.type);
+
+  if (COMPOSITES.includes(type)) {
+    if (!Array.isArray(node.children) || node.children.length === 0) {
+      fail(path, `${type} needs at least one child`);
+    }
+    if (type === 'parallel' && node.policy !== 'all' && node.policy !== 'any') {
+      fail(path, `parallel policy must be 'all' or 'any'`);
+    }
+    node.children.forEach((child, i) => validateTree(child, leaves, `${path}.${type}[${i}]`));
+  } else if (DECORATORS.includes(type)) {
+    if (type === 'cooldown') {
+      for (const key of ['seconds', 'initial']) {
+        const v = node[key];
+        if ((v !== undefined || key === 'seconds') && (typeof v !== 'number' || v < 0)) {
+          fail(path, `cooldown ${key} must be a number >= 0`);
+        }
+      }
+    }
+    validateTree(node.child, leaves, `${path}.${type}`);
+  } else if (type === 'leaf') {
+    const leaf = typeof node.name === 'string' ? leaves[node.name] : undefined;
+    if (!leaf) fail(path, `unknown leaf '${String(node.name)}'`);
+    validateParams(`${path}.${String(node.name)}`, node.params, leaf.params);
+  } else {
+    fail(path, `unknown node type '${type}'`);
+  }
+}
+
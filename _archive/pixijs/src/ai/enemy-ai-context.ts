@@ -0,0 +1,117 @@
+/**
+ * What an enemy behaviour-tree leaf sees each tick, plus the small
+ * helpers the leaf modules share.
+ */
+
+import type RAPIER from '@dimforge/rapier2d-compat';
+import type { Container } from 'pixi.js';
+import type { Entity } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import type { Pathfinder } from '../nav/pathfinder.js';
+import type {
+  EnemyComponent,
+  EnemyState,
+  PatrolDirection,
+  SpriteComponent,
+  TransformComponent,
+} from '../components/index.js';
+import type { BtParams, BtParamSpec, BtStatus, LeafDef, NodeMemory } from './behaviour-tree.js';
+import type { Blackboard } from './blackboard.js';
+
+/** Per-enemy, per-tick context handed to every leaf. */
+export interface EnemyAIContext {
+  readonly world: World;
+  readonly physicsCtx: PhysicsContext;
+  /** The level's path queries (used through ai/enemy-navigation.ts). */
+  readonly nav: Pathfinder;
+  /** World container, for projectiles and effects. */
+  readonly worldContainer: Container;
+  readonly entity: Entity;
+  readonly enemy: EnemyComponent;
+  readonly body: RAPIER.RigidBody;
+  readonly transform: TransformComponent;
+  readonly sprite: SpriteComponent | undefined;
+  readonly blackboard: Blackboard;
+  /** The player's transform. */
+  readonly player: TransformComponent;
+  /** Distance to the player (pixels). */
+  readonly playerDist: number;
+  /** The player's speed (m/s); hearing-based perception listens for movement. */
+  readonly playerSpeed: number;
+  /** Movement scale from status effects such as slow (1 = unaffected). */
+  readonly speedScale: number;
+  /** Frame delta (seconds). */
+  readonly dt: number;
+  /** Seconds since the AI system started; a shared phase for bobbing and orbits. */
+  readonly time: number;
+}
+
+/** An enemy leaf implementation. */
+export type EnemyLeaf = LeafDef<EnemyAIContext>;
+
+// ---------------------------------------------------------------------------
+// Blackboard keys
+// ---------------------------------------------------------------------------
+
+/** Side the enemy faces (-1 | 1); shielders hold their shield on this side. */
+export const BB_FACING = 'facing';
+
+/** Whether a shielder's shield is up (blocks shots from the facing side). */
+export const BB_SHIELD_RAISED = 'shieldRaised';
+
+/** The side an enemy faces, from its blackboard (default right). */
+export function facingOf(blackboard: Blackboard): PatrolDirection {
+  return blackboard.get(BB_FACING) === -1 ? -1 : 1;
+}
+
+// ---------------------------------------------------------------------------
+// Leaf helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Declare an enemy leaf. Every enemy leaf also takes an optional
+ * `state` param: the EnemyState to report while it runs (drives
+ * animations).
+ */
+export function enemyLeaf(
+  params: Record<string, BtParamSpec>,
+  tick: (ctx: EnemyAIContext, params: BtParams, memory: NodeMemory) => BtStatus,
+): EnemyLeaf {
+  return {
+    params: { ...params, state: 'string?' },
+    tick(ctx, p, memory) {
+      if (typeof p.state === 'string') ctx.enemy.state = p.state as EnemyState;
+      return tick(ctx, p, memory);
+    },
+  };
+}
+
+/** A numeric param (validated by the tree), or `fallback` if omitted. */
+export function num(params: BtParams, key: string, fallback = 0): number {
+  const v = params[key];
+  return typeof v === 'number' ? v : fallback;
+}
+
+/** A leaf's `speed` param (m/s), scaled by the enemy's speed multiplier and any slow. */
+export function moveSpeed(ctx: EnemyAIContext, params: BtParams): number {
+  return num(params, 'speed') * ctx.enemy.speedMultiplier * ctx.speedScale;
+}
+
+/**
+ * Advance a leaf's timer and report whether `seconds` have elapsed
+ * since it started.
+ */
+export function elapsed(ctx: EnemyAIContext, memory: NodeMemory, seconds: number): boolean {
+  memory.t = (memory.t ?? 0) + ctx.dt;
+  return memory.t >= seconds;
+}
+
+/** Unit vector from the enemy to the player, or null when on top of it. */
+export function toPlayer(ctx: EnemyAIContext): { x: number; y: number } | null {
+  if (ctx.playerDist < 1) return null;
+  return {
+    x: (ctx.player.x - ctx.transform.x) / ctx.playerDist,
+    y: (ctx.player.y - ctx.transform.y) / ctx.playerDist,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Sensing and combat leaves for enemy behaviour trees: perception,
+ * range and line-of-sight checks, dash, fire, teleport, fade and shield.
+ *
+ * Conditions succeed or fail in the tick they are asked; actions with
+ * a duration return 'running' until it has passed.
+ */
+
+import { pixelsToMeters } from '../core/physics.js';
+import { gameRandom } from '../core/rng.js';
+import { getWeaponDef } from '../combat/weapon-defs.js';
+import { createProjectileEntity } from '../entities/create-projectile.js';
+import { spawnWarpParticles } from '../effects/warp-particles.js';
+import type { EnemyLeaf } from './enemy-ai-context.js';
+import {
+  BB_FACING,
+  BB_SHIELD_RAISED,
+  elapsed,
+  enemyLeaf,
+  facingOf,
+  moveSpeed,
+  num,
+  toPlayer,
+} from './enemy-ai-context.js';
+import { BB_PLAYER_SENSED, hasLineOfSight, rememberedPlayer } from './perception.js';
+
+export const COMBAT_LEAVES: Readonly<Record<string, EnemyLeaf>> = {
+  /**
+   * The enemy senses the player this tick, by its definition's
+   * perception mode (sight, vision cone or hearing; see ai/perception.ts).
+   */
+  playerDetected: enemyLeaf({}, (ctx) => (
+    ctx.blackboard.get(BB_PLAYER_SENSED) === true ? 'success' : 'failure'
+  )),
+
+  /** The enemy still remembers where it last sensed the player. */
+  rememberPlayer: enemyLeaf({}, (ctx) => (rememberedPlayer(ctx) ? 'success' : 'failure')),
+
+  /** Player within `range` pixels (default: the enemy's detectionRange). */
+  playerInRange: enemyLeaf({ range: 'number?' }, (ctx, p) => (
+    ctx.playerDist < num(p, 'range', ctx.enemy.detectionRange) ? 'success' : 'failure'
+  )),
+
+  /** Player somewhere below, within `rangeX` pixels horizontally. */
+  playerBelow: enemyLeaf({ rangeX: 'number' }, (ctx, p) => {
+    const dx = Math.abs(ctx.player.x - ctx.transform.x);
+    return dx < num(p, 'rangeX') && ctx.player.y > ctx.transform.y ? 'success' : 'failure';
+  }),
+
+  /** No terrain between the enemy and the player. */
+  lineOfSight: enemyLeaf({}, (ctx) => (
+    hasLineOfSight(ctx.physicsCtx, ctx.transform.x, ctx.transform.y, ctx.player.x, ctx.player.y)
+      ? 'success'
+      : 'failure'
+  )),
+
+  /**
+   * Burst of speed for `seconds`. The direction is fixed when the dash
+   * starts: at the player, or (`toward: 'facing'`) the side the enemy
+   * faces. Axis 'x' dashes horizontally and leaves gravity alone.
+   */
+  dash: enemyLeaf(
+    { speed: 'number', seconds: 'number', axis: 'string?', toward: 'string?' },
+    (ctx, p, memory) => {
+      if (!memory.started) {
+        memory.started = 1;
+        if (p.toward === 'facing') {
+          memory.dx = facingOf(ctx.blackboard);
+          memory.dy = 0;
+        } else if (p.axis === 'x') {
+          memory.dx = ctx.player.x > ctx.transform.x ? 1 : -1;
+          memory.dy = 0;
+        } else {
+          const dir = toPlayer(ctx) ?? { x: 0, y: 0 };
+          memory.dx = dir.x;
+          memory.dy = dir.y;
+        }
+      }
+      const speed = moveSpeed(ctx, p);
+      const vy = p.axis === 'x' ? ctx.body.linvel().y : memory.dy * speed;
+      ctx.body.setLinvel({ x: memory.dx * speed, y: vy }, true);
+      return elapsed(ctx, memory, num(p, 'seconds')) ? 'success' : 'running';
+    },
+  ),
+
+  /**
+   * Shoot the enemy's weapon at the player. Fails while the weapon is
+   * cooling down (EnemyAISystem cools it every tick).
+   */
+  fire: enemyLeaf({}, (ctx) => {
+    const weapon = ctx.world.getComponent(ctx.entity, 'weapon');
+    const dir = toPlayer(ctx);
+    if (!weapon || !dir || weapon.cooldownTimer > 0) return 'failure';
+
+    createProjectileEntity(
+      ctx.world,
+      ctx.physicsCtx,
+      ctx.worldContainer,
+      ctx.transform.x,
+      ctx.transform.y,
+      dir.x * weapon.projectileSpeed,
+      dir.y * weapon.projectileSpeed,
+      weapon.damage,
+      ctx.entity,
+      getWeaponDef(weapon.weaponId).style,
+    );
+
+    // 1 / fireRate seconds between shots
+    weapon.cooldownTimer = 1 / weapon.fireRate;
+    return 'success';
+  }),
+
+  /**
+   * Vanish in a burst of warp particles and reappear: at a random spot
+   * `min`..`max` pixels from the player (`to: 'player'`), or back at
+   * the spawn point (`to: 'home'`).
+   */
+  teleport: enemyLeaf({ to: 'string', min: 'number?', max: 'number?' }, (ctx, p) => {
+    spawnWarpParticles(ctx.worldContainer, ctx.transform.x, ctx.transform.y);
+
+    let x = ctx.enemy.patrolOriginX;
+    let y = ctx.enemy.patrolOriginY;
+    if (p.to === 'player') {
+      const angle = gameRandom() * Math.PI * 2;
+      const min = num(p, 'min');
+      const dist = min + gameRandom() * (num(p, 'max', min) - min);
+      x = ctx.player.x + Math.cos(angle) * dist;
+      y = ctx.player.y + Math.sin(angle) * dist;
+    }
+    ctx.body.setTranslation({ x: pixelsToMeters(x), y: pixelsToMeters(y) }, true);
+    return 'success';
+  }),
+
+  /** Fade the sprite's alpha to `to` over `seconds`. */
+  fade: enemyLeaf({ to: 'number', seconds: 'number' }, (ctx, p, memory) => {
+    const display = ctx.sprite?.displayObject;
+    if (!display) return 'success';
+    if (!memory.started) {
+      memory.started = 1;
+      memory.from = display.alpha;
+    }
+    const seconds = num(p, 'seconds');
+    const done = elapsed(ctx, memory, seconds);
+    const progress = done || seconds <= 0 ? 1 : memory.t / seconds;
+    display.alpha = memory.from + (num(p, 'to') - memory.from) * progress;
+    return done ? 'success' : 'running';
+  }),
+
+  /**
+   * Raise or lower a shielder's shield. With `face`, also turn it
+   * toward the player while it senses them.
+   */
+  shield: enemyLeaf({ raised: 'boolean', face: 'boolean?' }, (ctx, p) => {
+    ctx.blackboard.set(BB_SHIELD_RAISED, p.raised === true);
+    if (p.face && ctx.blackboard.get(BB_PLAYER_SENSED) === true) {
+      ctx.blackboard.set(BB_FACING, ctx.player.x > ctx.transform.x ? 1 : -1);
+    }
+    return 'success';
+  }),
+};
@@ -0,0 +1,232 @@
+/**
+ * Movement leaves for enemy behaviour trees: patrol, chase, investigate,
+ * hover, orbit, hold, return home, and the crawler's drop / climb.
+ *
+ * Distances in params are pixels, speeds m/s (scaled by the enemy's
+ * speedMultiplier, except orbit's angular speed), times seconds. Leaves
+ * that move "forever" (patrol, hover, orbit) always return 'running';
+ * the tree decides when something else takes over.
+ *
+ * chase and investigate follow a nav path (ai/enemy-navigation.ts) when
+ * the enemy has a NavAgentComponent, and head straight for the target
+ * otherwise, or while no path is known.
+ */
+
+import type RAPIER from '@dimforge/rapier2d-compat';
+import { pixelsToMeters } from '../core/physics.js';
+import { collisionGroups } from '../core/collision-layers.js';
+import type { PhysicsContext } from '../core/physics.js';
+import type { PatrolDirection } from '../components/index.js';
+import type { EnemyAIContext, EnemyLeaf } from './enemy-ai-context.js';
+import { elapsed, enemyLeaf, moveSpeed, num, toPlayer } from './enemy-ai-context.js';
+import { navigateTo } from './enemy-navigation.js';
+import { rememberedPlayer } from './perception.js';
+
+/** Ground-check ray length below a walker's front edge (m). */
+const EDGE_RAY_LENGTH = 1.0;
+
+/** Horizontal offset from the body centre for the edge-detection ray (m). */
+const EDGE_RAY_OFFSET = 0.3;
+
+/** Gain pulling an orbiting enemy back onto its circle. */
+const ORBIT_CORRECTION = 5;
+
+/** Falling slower than this (m/s) counts as landed for a drop. */
+const LANDED_SPEED = 0.5;
+
+/** How far below its perch a dropping crawler must be to count as landed (pixels). */
+const LANDED_MIN_DROP = 20;
+
+/** How close to its perch a climbing crawler snaps back on (pixels). */
+const PERCH_SNAP_DISTANCE = 15;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Cast a ray downward from the front edge of the body.
+ * Returns true if no ground is found within range (edge detected).
+ */
+function isAtEdge(physicsCtx: PhysicsContext, body: RAPIER.RigidBody, direction: PatrolDirection): boolean {
+  const pos = body.translation();
+
+  // Ray origin: offset horizontally in patrol direction, slightly below feet
+  const rayOrigin = { x: pos.x + direction * EDGE_RAY_OFFSET, y: pos.y + 0.3 };
+  const hit = physicsCtx.world.castRay(
+    new physicsCtx.rapier.Ray(rayOrigin, { x: 0, y: 1 }),
+    EDGE_RAY_LENGTH,
+    true,
+    physicsCtx.rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+    collisionGroups('enemy'),
+  );
+  return hit === null;
+}
+
+/**
+ * Move along a nav path to (x, y) if the enemy has a nav agent.
+ * @returns false when the caller should steer straight there instead
+ */
+function followPath(ctx: EnemyAIContext, x: number, y: number, speed: number): boolean {
+  const agent = ctx.world.getComponent(ctx.entity, 'navAgent');
+  return agent !== undefined && navigateTo(ctx, agent, x, y, speed) === 'moving';
+}
+
+// ---------------------------------------------------------------------------
+// Leaves
+// ---------------------------------------------------------------------------
+
+export const MOVEMENT_LEAVES: Readonly<Record<string, EnemyLeaf>> = {
+  /**
+   * Walk back and forth within patrolDistance of the spawn point.
+   * `edgeCheck` also turns around at platform edges.
+   */
+  patrol: enemyLeaf({ speed: 'number', edgeCheck: 'boolean?' }, (ctx, p) => {
+    const { enemy, body } = ctx;
+    const distFromOrigin = ctx.transform.x - enemy.patrolOriginX;
+    if (Math.abs(distFromOrigin) > enemy.patrolDistance) {
+      enemy.patrolDirection = distFromOrigin > 0 ? -1 : 1;
+    }
+    if (p.edgeCheck && isAtEdge(ctx.physicsCtx, body, enemy.patrolDirection)) {
+      enemy.patrolDirection = (enemy.patrolDirection * -1) as PatrolDirection;
+    }
+    body.setLinvel({ x: enemy.patrolDirection * moveSpeed(ctx, p), y: body.linvel().y }, true);
+    return 'running';
+  }),
+
+  /**
+   * Move toward the player: horizontally (axis 'x', gravity keeps
+   * working) or directly ('xy'). Runs for `seconds` if given.
+   */
+  chase: enemyLeaf({ speed: 'number', axis: 'string?', seconds: 'number?' }, (ctx, p, memory) => {
+    const speed = moveSpeed(ctx, p);
+    const onPath = followPath(ctx, ctx.player.x, ctx.player.y, speed);
+    if (!onPath && p.axis === 'xy') {
+      const dir = toPlayer(ctx);
+      ctx.body.setLinvel(dir ? { x: dir.x * speed, y: dir.y * speed } : { x: 0, y: 0 }, true);
+    } else if (!onPath) {
+      const dirX: PatrolDirection = ctx.player.x > ctx.transform.x ? 1 : -1;
+      ctx.body.setLinvel({ x: dirX * speed, y: ctx.body.linvel().y }, true);
+      ctx.enemy.patrolDirection = dirX;
+    }
+    return p.seconds !== undefined && elapsed(ctx, memory, num(p, 'seconds')) ? 'success' : 'running';
+  }),
+
+  /**
+   * Head for where the player was last sensed, horizontally (axis 'x')
+   * or directly ('xy'). Succeeds on arriving within `tolerance` pixels
+   * (default 10); fails once the enemy has forgotten the player.
+   */
+  investigate: enemyLeaf(
+    { speed: 'number', axis: 'string?', tolerance: 'number?' },
+    (ctx, p) => {
+      const target = rememberedPlayer(ctx);
+      if (!target) return 'failure';
+
+      const dx = target.x - ctx.transform.x;
+      const dy = p.axis === 'xy' ? target.y - ctx.transform.y : 0;
+      const dist = Math.hypot(dx, dy);
+      if (dist < num(p, 'tolerance', 10)) {
+        ctx.body.setLinvel({ x: 0, y: p.axis === 'xy' ? 0 : ctx.body.linvel().y }, true);
+        return 'success';
+      }
+
+      const speed = moveSpeed(ctx, p);
+      if (followPath(ctx, target.x, target.y, speed)) return 'running';
+      if (p.axis === 'xy') {
+        ctx.body.setLinvel({ x: (dx / dist) * speed, y: (dy / dist) * speed }, true);
+      } else {
+        const dirX: PatrolDirection = dx > 0 ? 1 : -1;
+        ctx.body.setLinvel({ x: dirX * speed, y: ctx.body.linvel().y }, true);
+        ctx.enemy.patrolDirection = dirX;
+      }
+      return 'running';
+    },
+  ),
+
+  /** Drift sideways while bobbing on a sine wave (amplitude in pixels). */
+  hover: enemyLeaf({ drift: 'number', amplitude: 'number', frequency: 'number' }, (ctx, p) => {
+    // Bob velocity: d/dt[A*sin(wt)] = A*w*cos(wt), in metres/s
+    const amplitudeM = pixelsToMeters(num(p, 'amplitude'));
+    const omega = 2 * Math.PI * num(p, 'frequency');
+    ctx.body.setLinvel({
+      x: ctx.enemy.patrolDirection * num(p, 'drift') * ctx.speedScale,
+      y: amplitudeM * omega * Math.cos(omega * ctx.time),
+    }, true);
+    return 'running';
+  }),
+
+  /** Circle the spawn point (`radius` pixels, `speed` rad/s). */
+  orbit: enemyLeaf({ radius: 'number', speed: 'number' }, (ctx, p) => {
+    const radiusM = pixelsToMeters(num(p, 'radius'));
+    const speed = num(p, 'speed');
+    const angle = speed * ctx.time;
+    const targetX = pixelsToMeters(ctx.enemy.patrolOriginX) + Math.cos(angle) * radiusM;
+    const targetY = pixelsToMeters(ctx.enemy.patrolOriginY) + Math.sin(angle) * radiusM;
+
+    // Tangent velocity plus a correction toward the circle to prevent drift
+    const pos = ctx.body.translation();
+    ctx.body.setLinvel({
+      x: -Math.sin(angle) * radiusM * speed + (targetX - pos.x) * ORBIT_CORRECTION,
+      y: Math.cos(angle) * radiusM * speed + (targetY - pos.y) * ORBIT_CORRECTION,
+    }, true);
+    return 'running';
+  }),
+
+  /**
+   * Stand still: both axes, or only x ('x', so it can still fall).
+   * Succeeds after `seconds`; runs forever without it. `gravity` sets
+   * the body's gravity scale (0 to cling to a ceiling).
+   */
+  hold: enemyLeaf({ seconds: 'number?', axis: 'string?', gravity: 'number?' }, (ctx, p, memory) => {
+    const { body } = ctx;
+    if (p.gravity !== undefined) body.setGravityScale(num(p, 'gravity'), true);
+    body.setLinvel({ x: 0, y: p.axis === 'x' ? body.linvel().y : 0 }, true);
+    return p.seconds !== undefined && elapsed(ctx, memory, num(p, 'seconds')) ? 'success' : 'running';
+  }),
+
+  /** Fly straight back to the spawn point; succeeds within `tolerance` pixels. */
+  returnHome: enemyLeaf({ speed: 'number', tolerance: 'number' }, (ctx, p) => {
+    const pos = ctx.body.translation();
+    const dx = pixelsToMeters(ctx.enemy.patrolOriginX) - pos.x;
+    const dy = pixelsToMeters(ctx.enemy.patrolOriginY) - pos.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist < pixelsToMeters(num(p, 'tolerance'))) return 'success';
+
+    const speed = moveSpeed(ctx, p);
+    ctx.body.setLinvel({ x: (dx / dist) * speed, y: (dy / dist) * speed }, true);
+    return 'running';
+  }),
+
+  /** Let go of the ceiling and fall at `speed`; succeeds on landing. */
+  drop: enemyLeaf({ speed: 'number' }, (ctx, p, memory) => {
+    const { body } = ctx;
+    if (!memory.started) {
+      memory.started = 1;
+      body.setGravityScale(1, true);
+      body.setLinvel({ x: 0, y: moveSpeed(ctx, p) }, true);
+      return 'running';
+    }
+    const landed = body.linvel().y < LANDED_SPEED
+      && ctx.transform.y > ctx.enemy.patrolOriginY + LANDED_MIN_DROP;
+    return landed ? 'success' : 'running';
+  }),
+
+  /** Leap back up to the spawn height at `speed` and stick there. */
+  climb: enemyLeaf({ speed: 'number' }, (ctx, p, memory) => {
+    const { body, enemy } = ctx;
+    if (!memory.started) {
+      memory.started = 1;
+      body.setGravityScale(0, true);
+      body.setLinvel({ x: 0, y: -moveSpeed(ctx, p) }, true);
+    }
+    const y = ctx.transform.y;
+    if (Math.abs(y - enemy.patrolOriginY) >= PERCH_SNAP_DISTANCE && y >= enemy.patrolOriginY) {
+      return 'running';
+    }
+    // Back at the ceiling: snap to the original height to prevent drift
+    body.setLinvel({ x: 0, y: 0 }, true);
+    body.setTranslation({ x: body.translation().x, y: pixelsToMeters(enemy.patrolOriginY) }, true);
+    return 'success';
+  }),
+};
@@ -0,0 +1,164 @@
+/**
+ * Path following for enemies with a NavAgentComponent.
+ *
+ * navigateTo() is what movement leaves call instead of heading straight
+ * for a point: it asks the level's Pathfinder for a path (queued, see
+ * nav/pathfinder.ts), re-plans every REPLAN_INTERVAL seconds or sooner
+ * when the goal has moved, and steers along the waypoints – walking,
+ * dropping off edges and jumping for walkers, flying cell to cell for
+ * flyers.
+ */
+
+import { GRAVITY } from '../core/constants.js';
+import { pixelsToMeters } from '../core/physics.js';
+import { collisionGroups } from '../core/collision-layers.js';
+import type { NavAgentComponent, PatrolDirection } from '../components/index.js';
+import type { NavWaypoint } from '../nav/pathfinder.js';
+import type { EnemyAIContext } from './enemy-ai-context.js';
+
+/** Outcome of one navigateTo() tick. */
+export type NavStep =
+  /** Steering along a path. */
+  | 'moving'
+  /** At the goal's cell; close the last bit directly. */
+  | 'arrived'
+  /** No path yet, or none exists; the caller should head straight there. */
+  | 'noPath';
+
+/** Seconds before a path is re-planned even if the goal stood still. */
+const REPLAN_INTERVAL = 1.5;
+
+/** Soonest a moving goal triggers a re-plan (seconds). */
+const MIN_REPLAN_INTERVAL = 0.25;
+
+/** How far the goal may move (in cells) before the path counts as stale. */
+const REPLAN_DISTANCE_CELLS = 2;
+
+/** Fraction of a cell from a waypoint's centre that counts as reaching it. */
+const REACH_FRACTION = 0.35;
+
+/** Rows off its path after which a grounded walker re-plans at once. */
+const OFF_PATH_ROWS = 3;
+
+/** Vertical speed (m/s) below which a walker counts as standing. */
+const GROUNDED_SPEED = 0.1;
+
+/** Ground probe length from the body centre (m); reaches just past a walker's feet. */
+const GROUND_RAY_LENGTH = 0.5;
+
+/** Extra launch speed on top of the exact jump height. */
+const JUMP_MARGIN = 1.1;
+
+/**
+ * Move the enemy one tick along a path to (x, y) pixels.
+ *
+ * @param agent - the enemy's nav agent
+ * @param speed - m/s
+ */
+export function navigateTo(
+  ctx: EnemyAIContext,
+  agent: NavAgentComponent,
+  x: number,
+  y: number,
+  speed: number,
+): NavStep {
+  const cell = ctx.nav.cellSize;
+  const sincePlan = ctx.time - agent.plannedAt;
+  const goalMoved = Math.hypot(x - agent.goalX, y - agent.goalY) > cell * REPLAN_DISTANCE_CELLS;
+  if (sincePlan >= REPLAN_INTERVAL || (goalMoved && sincePlan >= MIN_REPLAN_INTERVAL)) {
+    if (agent.request) ctx.nav.cancel(agent.request);
+    agent.request = ctx.nav.request(agent.mode, ctx.transform.x, ctx.transform.y, x, y);
+    agent.goalX = x;
+    agent.goalY = y;
+    agent.plannedAt = ctx.time;
+  }
+
+  if (agent.request?.status === 'done') {
+    agent.path = agent.request.path;
+    agent.request = null;
+    // Waypoint 0 is the cell the enemy was in when it asked
+    agent.waypoint = 1;
+    agent.jumpedFor = -1;
+  }
+
+  const path = agent.path;
+  if (!path) return 'noPath';
+
+  // Advance past waypoints already reached (at most one per tick)
+  if (agent.waypoint < path.length && reached(ctx, agent, path[agent.waypoint], cell)) {
+    agent.waypoint++;
+  }
+  if (agent.waypoint >= path.length) return 'arrived';
+
+  const wp = path[agent.waypoint];
+  if (agent.mode === 'air') {
+    flyToward(ctx, wp, speed);
+  } else {
+    walkToward(ctx, agent, wp, speed);
+  }
+  return 'moving';
+}
+
+// ---------------------------------------------------------------------------
+// Steering
+// ---------------------------------------------------------------------------
+
+/** Standing on something (not hanging at the top of a jump). */
+function isGrounded(ctx: EnemyAIContext): boolean {
+  if (Math.abs(ctx.body.linvel().y) >= GROUNDED_SPEED) return false;
+  const { physicsCtx } = ctx;
+  const hit = physicsCtx.world.castRay(
+    new physicsCtx.rapier.Ray(ctx.body.translation(), { x: 0, y: 1 }),
+    GROUND_RAY_LENGTH,
+    true,
+    physicsCtx.rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+    collisionGroups('enemy'),
+    undefined,
+    ctx.body,
+  );
+  return hit !== null;
+}
+
+function reached(ctx: EnemyAIContext, agent: NavAgentComponent, wp: NavWaypoint, cell: number): boolean {
+  const dx = wp.x - ctx.transform.x;
+  const dy = wp.y - ctx.transform.y;
+  if (agent.mode === 'air') return Math.hypot(dx, dy) < cell * REACH_FRACTION;
+
+  // A walker that has strayed well off its path (knocked back, missed a jump) re-plans
+  if (isGrounded(ctx) && Math.abs(dy) > cell * OFF_PATH_ROWS) agent.plannedAt = -Infinity;
+  return Math.abs(dx) < cell * REACH_FRACTION && Math.abs(dy) < cell && isGrounded(ctx);
+}
+
+function flyToward(ctx: EnemyAIContext, wp: NavWaypoint, speed: number): void {
+  const dx = wp.x - ctx.transform.x;
+  const dy = wp.y - ctx.transform.y;
+  const dist = Math.hypot(dx, dy);
+  if (dist < 1) return;
+  ctx.body.setLinvel({ x: (dx / dist) * speed, y: (dy / dist) * speed }, true);
+}
+
+function walkToward(
+  ctx: EnemyAIContext,
+  agent: NavAgentComponent,
+  wp: NavWaypoint,
+  speed: number,
+): void {
+  const { body } = ctx;
+  const dx = wp.x - ctx.transform.x;
+  const dirX: PatrolDirection = dx > 0 ? 1 : -1;
+  let vx = Math.abs(dx) < 1 ? 0 : dirX * speed;
+  let vy = body.linvel().y;
+
+  if (wp.kind === 'jump') {
+    if (agent.jumpedFor !== agent.waypoint && isGrounded(ctx)) {
+      // v = sqrt(2gh) reaches height h
+      vy = -Math.sqrt(2 * GRAVITY * pixelsToMeters(wp.jumpHeight)) * JUMP_MARGIN;
+      agent.jumpedFor = agent.waypoint;
+    }
+    // Rise clear of the ledge before moving over it
+    if (ctx.transform.y > wp.y && vy < 0) vx = 0;
+  }
+
+  body.setLinvel({ x: vx, y: vy }, true);
+  ctx.enemy.patrolDirection = dirX;
+}
@@ -0,0 +1,164 @@
+/**
+ * Enemy behaviour trees, one per behaviour id (EnemyDef.behaviour).
+ *
+ * The trees are plain data over the leaves in enemy-leaves-*.ts; they
+ * are validated and compiled when this module loads, so a typo in a
+ * leaf name or param fails at startup. Leaves take an optional `state`
+ * param, the EnemyState reported while they run (animations key off it).
+ *
+ * "Detected" means the enemy's perception (sight, vision cone or
+ * hearing, per definition) picked the player up this tick; see
+ * ai/perception.ts.
+ *
+ * Units: distances in pixels, speeds m/s, times seconds.
+ */
+
+import type { EnemyType } from '../components/index.js';
+import type { BtNodeDef, BtParams } from './behaviour-tree.js';
+import { BehaviourTree } from './behaviour-tree.js';
+import type { EnemyAIContext, EnemyLeaf } from './enemy-ai-context.js';
+import { MOVEMENT_LEAVES } from './enemy-leaves-movement.js';
+import { COMBAT_LEAVES } from './enemy-leaves-combat.js';
+
+/** Every leaf enemy trees may use. */
+export const ENEMY_LEAVES: Readonly<Record<string, EnemyLeaf>> = {
+  ...MOVEMENT_LEAVES,
+  ...COMBAT_LEAVES,
+};
+
+// ---------------------------------------------------------------------------
+// Builders (keep the tables below readable)
+// ---------------------------------------------------------------------------
+
+function leaf(name: string, params?: BtParams): BtNodeDef {
+  return params ? { type: 'leaf', name, params } : { type: 'leaf', name };
+}
+
+function selector(...children: BtNodeDef[]): BtNodeDef {
+  return { type: 'selector', children };
+}
+
+function sequence(...children: BtNodeDef[]): BtNodeDef {
+  return { type: 'sequence', children };
+}
+
+function reactive(...children: BtNodeDef[]): BtNodeDef {
+  return { type: 'reactiveSequence', children };
+}
+
+function together(...children: BtNodeDef[]): BtNodeDef {
+  return { type: 'parallel', policy: 'all', children };
+}
+
+function cooldown(seconds: number, child: BtNodeDef, initial?: number): BtNodeDef {
+  return initial === undefined
+    ? { type: 'cooldown', seconds, child }
+    : { type: 'cooldown', seconds, initial, child };
+}
+
+// ---------------------------------------------------------------------------
+// Trees
+// ---------------------------------------------------------------------------
+
+export const ENEMY_TREE_DEFS: Readonly<Record<EnemyType, BtNodeDef>> = {
+  /**
+   * Patrol the platform (turning at edges); chase the player on sight,
+   * and check where they were last seen after losing them.
+   */
+  walker: selector(
+    reactive(
+      leaf('playerDetected'),
+      leaf('chase', { speed: 3, state: 'chasing' }),
+    ),
+    leaf('investigate', { speed: 2, state: 'investigating' }),
+    leaf('patrol', { speed: 2, edgeCheck: true, state: 'patrolling' }),
+  ),
+
+  /** Bob in the air; fly straight at the player when seen, then to where they vanished. */
+  flyer: selector(
+    reactive(
+      leaf('playerDetected'),
+      leaf('chase', { speed: 2, axis: 'xy', state: 'chasing' }),
+    ),
+    leaf('investigate', { speed: 1.5, axis: 'xy', state: 'investigating' }),
+    leaf('hover', { drift: 0.5, amplitude: 20, frequency: 1, state: 'patrolling' }),
+  ),
+
+  /** Fixed gun: shoot whenever the player is in range and in view. */
+  turret: reactive(
+    leaf('playerDetected'),
+    leaf('fire'),
+  ),
+
+  /** Orbit the spawn point; every few seconds dash at the player and fly back. */
+  sentry: selector(
+    cooldown(3, sequence(
+      leaf('playerDetected'),
+      leaf('dash', { speed: 8, seconds: 0.4, state: 'attacking' }),
+      leaf('returnHome', { speed: 4, tolerance: 10, state: 'chasing' }),
+    ), 2),
+    leaf('orbit', { radius: 60, speed: 2, state: 'patrolling' }),
+  ),
+
+  /** Cling to the ceiling; drop on a player heard below, scurry at them, climb back. */
+  crawler: selector(
+    sequence(
+      leaf('playerBelow', { rangeX: 80 }),
+      leaf('playerDetected'),
+      leaf('drop', { speed: 6, state: 'attacking' }),
+      leaf('chase', { speed: 3, seconds: 1.5, state: 'chasing' }),
+      leaf('climb', { speed: 8, state: 'idle' }),
+    ),
+    leaf('hold', { gravity: 0, state: 'patrolling' }),
+  ),
+
+  /**
+   * Slow patrol with the shield turned to the player. Periodically
+   * lowers it to wind up (the opening), then charges the way it faces.
+   */
+  shielder: selector(
+    cooldown(6, sequence(
+      leaf('playerDetected'),
+      leaf('shield', { raised: false }),
+      leaf('hold', { axis: 'x', seconds: 0.6, state: 'idle' }),
+      leaf('shield', { raised: true, face: true }),
+      leaf('dash', { speed: 4.5, seconds: 0.5, axis: 'x', toward: 'facing', state: 'attacking' }),
+    )),
+    reactive(
+      leaf('shield', { raised: true, face: true }),
+      leaf('patrol', { speed: 1.2, state: 'patrolling' }),
+    ),
+  ),
+
+  /**
+   * Hide, warp in near the player, fade in, lunge for a moment, fade
+   * out and warp home.
+   */
+  phantom: sequence(
+    leaf('hold', { seconds: 3, state: 'idle' }),
+    leaf('teleport', { to: 'player', min: 80, max: 150, state: 'chasing' }),
+    together(leaf('fade', { to: 1, seconds: 0.4 }), leaf('hold', { seconds: 0.4 })),
+    leaf('chase', { speed: 2.5, axis: 'xy', seconds: 1.8, state: 'attacking' }),
+    together(leaf('fade', { to: 0, seconds: 0.3, state: 'patrolling' }), leaf('hold', { seconds: 0.3 })),
+    leaf('teleport', { to: 'home' }),
+  ),
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Compiled trees by behaviour id. */
+const TREES = new Map<string, BehaviourTree<EnemyAIContext>>(
+  Object.entries(ENEMY_TREE_DEFS).map(([id, def]) => [id, new BehaviourTree(def, ENEMY_LEAVES, id)]),
+);
+
+/** The compiled tree for a behaviour id, or undefined if there is none. */
+export function getEnemyTree(id: string): BehaviourTree<EnemyAIContext> | undefined {
+  return TREES.get(id);
+}
+
+/** Whether `id` names an enemy behaviour tree. */
+export function isEnemyBehaviour(id: string): id is EnemyType {
+  return TREES.has(id);
+}
@@ -0,0 +1,166 @@
+/**
+ * Enemy perception – decides each tick whether an enemy senses the
+ * player, and remembers where it last did.
+ *
+ * Modes (chosen per enemy definition, `perception.mode`):
+ *   omni     sees all around, within detectionRange, if terrain doesn't
+ *            block the line of sight
+ *   cone     as omni, but only inside a cone around the way it faces
+ *   hearing  blind; hears a moving player within hearingRange, through
+ *            walls
+ *
+ * Results go on the enemy's blackboard (BB_PLAYER_SENSED and the
+ * last-sensed position / time) for tree leaves to act on: chase while
+ * sensed, investigate the last known position for `memory` seconds
+ * after losing track.
+ */
+
+import type { PhysicsContext } from '../core/physics.js';
+import { pixelsToMeters } from '../core/physics.js';
+import { collisionGroups } from '../core/collision-layers.js';
+import type { EnemyAIContext } from './enemy-ai-context.js';
+import { BB_FACING } from './enemy-ai-context.js';
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** How an enemy senses the player. */
+export type PerceptionMode = 'omni' | 'cone' | 'hearing';
+
+/** All perception modes (for validation). */
+export const PERCEPTION_MODES: readonly PerceptionMode[] = ['omni', 'cone', 'hearing'];
+
+/** Perception settings of one enemy definition. */
+export interface PerceptionDef {
+  mode: PerceptionMode;
+  /** Full width of the vision cone (degrees, 'cone' mode). */
+  coneAngle?: number;
+  /** How far it hears a moving player (pixels, 'hearing' mode). Defaults to detectionRange. */
+  hearingRange?: number;
+  /** How long it remembers the last sensed position (seconds). */
+  memory?: number;
+}
+
+/** Perception used when a definition doesn't specify one. */
+export const DEFAULT_PERCEPTION: Readonly<PerceptionDef> = { mode: 'omni' };
+
+/** Default vision cone width (degrees). */
+const DEFAULT_CONE_ANGLE = 120;
+
+/** Default time an enemy remembers where it last sensed the player (seconds). */
+const DEFAULT_MEMORY = 3;
+
+/** Player speed (m/s) above which they are audible. */
+const AUDIBLE_SPEED = 0.5;
+
+// ---------------------------------------------------------------------------
+// Blackboard keys
+// ---------------------------------------------------------------------------
+
+/** Whether the enemy senses the player this tick. */
+export const BB_PLAYER_SENSED = 'playerSensed';
+
+/** Last position the player was sensed at (pixels). */
+export const BB_LAST_SENSED_X = 'lastSensedX';
+export const BB_LAST_SENSED_Y = 'lastSensedY';
+
+/** Blackboard clock time the memory of the player runs out. */
+export const BB_MEMORY_UNTIL = 'memoryUntil';
+
+// ---------------------------------------------------------------------------
+// Line of sight
+// ---------------------------------------------------------------------------
+
+/**
+ * What blocks sight: everything a hostile shot would stop at, i.e.
+ * terrain (never the player, enemies or sensors).
+ */
+const SIGHT_GROUPS = collisionGroups('enemyProjectile', { ignore: ['player'] });
+
+/**
+ * Whether terrain lies between two points (pixels).
+ * @returns true if the segment is clear
+ */
+export function hasLineOfSight(
+  physicsCtx: PhysicsContext,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+): boolean {
+  const dx = toX - fromX;
+  const dy = toY - fromY;
+  const dist = Math.hypot(dx, dy);
+  if (dist < 1) return true;
+
+  const hit = physicsCtx.world.castRay(
+    new physicsCtx.rapier.Ray(
+      { x: pixelsToMeters(fromX), y: pixelsToMeters(fromY) },
+      { x: dx / dist, y: dy / dist },
+    ),
+    pixelsToMeters(dist),
+    true,
+    physicsCtx.rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+    SIGHT_GROUPS,
+  );
+  return hit === null;
+}
+
+// ---------------------------------------------------------------------------
+// Perception
+// ---------------------------------------------------------------------------
+
+/** Side an enemy looks toward: its set facing, else its patrol direction. */
+function lookDirection(ctx: EnemyAIContext): number {
+  const facing = ctx.blackboard.get(BB_FACING);
+  return typeof facing === 'number' ? facing : ctx.enemy.patrolDirection;
+}
+
+/** Whether the player is inside the enemy's vision cone. */
+function inCone(ctx: EnemyAIContext, coneAngle: number): boolean {
+  const dx = ctx.player.x - ctx.transform.x;
+  const dy = ctx.player.y - ctx.transform.y;
+  const angleOff = Math.abs(Math.atan2(dy, dx * lookDirection(ctx)));
+  return angleOff <= (coneAngle * Math.PI) / 360;
+}
+
+/** Whether the enemy senses the player right now. */
+function senses(ctx: EnemyAIContext, def: PerceptionDef): boolean {
+  if (def.mode === 'hearing') {
+    const range = def.hearingRange ?? ctx.enemy.detectionRange;
+    return ctx.playerDist < range && ctx.playerSpeed > AUDIBLE_SPEED;
+  }
+  if (ctx.playerDist >= ctx.enemy.detectionRange) return false;
+  if (def.mode === 'cone' && !inCone(ctx, def.coneAngle ?? DEFAULT_CONE_ANGLE)) return false;
+  return hasLineOfSight(
+    ctx.physicsCtx, ctx.transform.x, ctx.transform.y, ctx.player.x, ctx.player.y,
+  );
+}
+
+/**
+ * Update what the enemy knows about the player on its blackboard.
+ * Called by EnemyAISystem before the enemy's tree ticks.
+ */
+export function updatePerception(ctx: EnemyAIContext): void {
+  const def = ctx.enemy.perception;
+  const sensed = senses(ctx, def);
+  const bb = ctx.blackboard;
+  bb.set(BB_PLAYER_SENSED, sensed);
+  if (sensed) {
+    bb.set(BB_LAST_SENSED_X, ctx.player.x);
+    bb.set(BB_LAST_SENSED_Y, ctx.player.y);
+    bb.set(BB_MEMORY_UNTIL, bb.clock + (def.memory ?? DEFAULT_MEMORY));
+  }
+}
+
+/**
+ * Where the enemy remembers the player, or null if it never sensed
+ * them or the memory has faded.
+ */
+export function rememberedPlayer(ctx: EnemyAIContext): { x: number; y: number } | null {
+  const bb = ctx.blackboard;
+  const until = bb.get(BB_MEMORY_UNTIL);
+  if (typeof until !== 'number' || bb.clock > until) return null;
+  return { x: bb.get(BB_LAST_SENSED_X) as number, y: bb.get(BB_LAST_SENSED_Y) as number };
+}
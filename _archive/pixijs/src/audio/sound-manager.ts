@@ -40,6 +40,7 @@ export class SoundManager {
       { name: 'shield-break', src: ['/assets/sounds/phaserDown3.mp3'], volume: 0.5 },
       { name: 'heal', src: ['/assets/sounds/powerUp7.mp3'], volume: 0.5 },
       { name: 'land', src: ['/assets/sounds/pepSound1.mp3'], volume: 0.15 },
+      { name: 'mech-mode', src: ['/assets/sounds/pepSound2.mp3'], volume: 0.3 },
       // Boss sounds
       { name: 'boss-spawn', src: ['/assets/sounds/phaserDown1.mp3'], volume: 0.6 },
       { name: 'boss-windup', src: ['/assets/sounds/phaseJump3.mp3'], volume: 0.35 },
@@ -48,6 +49,12 @@ export class SoundManager {
       { name: 'boss-phase-up', src: ['/assets/sounds/phaserUp7.mp3'], volume: 0.5 },
       { name: 'boss-death', src: ['/assets/sounds/spaceTrash5.mp3'], volume: 0.6 },
       { name: 'minion-spawn', src: ['/assets/sounds/pepSound3.mp3'], volume: 0.3 },
+      // Pickups
+      { name: 'pickup-scrap', src: ['/assets/sounds/twoTone1.mp3'], volume: 0.2 },
+      { name: 'pickup-item', src: ['/assets/sounds/powerUp5.mp3'], volume: 0.4 },
+      // Projectile behaviours
+      { name: 'explosion', src: ['/assets/sounds/spaceTrash3.mp3'], volume: 0.45 },
+      { name: 'ricochet', src: ['/assets/sounds/zap2.mp3'], volume: 0.2 },
     ];
 
     for (const def of soundDefs) {
@@ -0,0 +1,248 @@
+/**
+ * Biome bosses — the patterns of the bosses beyond the Warden, one per
+ * planet theme. Registered in combat/boss-defs.ts.
+ *
+ * The Prism Moth (Crystal Caverns) — a crystal flyer that holds the
+ * high ground, sprays shard volleys and dives at the player, resting on
+ * the floor after each dive.
+ *
+ * The Bastion (Neon Outpost) — a turret fortress too heavily armoured
+ * to hurt, except while its core vents open between salvos. Its
+ * turrets and mortar launcher can be shot off to silence those attacks,
+ * and breaking the plate over its core leaves the core open for good.
+ *
+ * The Rootmother (Haven) — a lumbering plant beast that makes the
+ * arena itself the threat: thorns burst from the ground and rocks fall
+ * where it points.
+ */
+
+import type { BossPatternDef } from './boss-pattern.js';
+
+// ---------------------------------------------------------------------------
+// The Prism Moth
+// ---------------------------------------------------------------------------
+
+/** Shard colour of the Prism Moth's volleys. */
+const SHARD_COLOR = 0xff66ff;
+
+export const PRISM_MOTH: BossPatternDef = {
+  name: 'THE PRISM MOTH',
+  body: { hp: 260, contactDamage: 20, halfWidth: 40, halfHeight: 28, flying: true },
+  phases: [
+    {
+      hpFraction: 1,
+      tint: 0xffffff,
+      sequence: [
+        { kind: 'hover', duration: 2.5, speed: 3, altitude: 300 },
+        {
+          kind: 'volley', duration: 0.8, sound: 'laser',
+          shots: 3, spread: 0.25, speed: 6, damage: 10, color: SHARD_COLOR,
+        },
+        { kind: 'hover', duration: 1.5, speed: 3, altitude: 300 },
+        {
+          kind: 'telegraph', duration: 0.6, sound: 'boss-windup',
+          flashRate: 20, flashColors: [SHARD_COLOR, 0xffffff],
+        },
+        { kind: 'dive', duration: 1.2, speed: 9, sound: 'boss-charge', tint: 0xff88ff },
+        // Grounded after the dive: the window to hit it
+        { kind: 'rest', duration: 1.2 },
+      ],
+    },
+    {
+      hpFraction: 0.5,
+      tint: 0xffccff,
+      sound: 'boss-phase-up',
+      shake: { amplitude: 6, duration: 0.5 },
+      sequence: [
+        { kind: 'hover', duration: 2.0, speed: 4, altitude: 360 },
+        {
+          kind: 'volley', duration: 0.6, sound: 'laser',
+          shots: 5, spread: 0.2, speed: 7, damage: 10, color: SHARD_COLOR,
+        },
+        {
+          kind: 'telegraph', duration: 0.5, sound: 'boss-windup',
+          flashRate: 25, flashColors: [SHARD_COLOR, 0xffffff],
+        },
+        { kind: 'dive', duration: 1.0, speed: 11, sound: 'boss-charge', tint: 0xff88ff },
+        // Shards burst out as it lands
+        {
+          kind: 'volley', duration: 0.8, sound: 'laser',
+          shots: 7, spread: 0.35, speed: 5, damage: 8, color: SHARD_COLOR,
+        },
+        { kind: 'rest', duration: 0.6 },
+      ],
+      minions: {
+        enemy: 'flyer', count: 2, interval: 10, maxActive: 3, spacing: 120,
+        sound: 'minion-spawn',
+      },
+    },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// The Bastion
+// ---------------------------------------------------------------------------
+
+/** Turret shot colour. */
+const TURRET_COLOR = 0x00ffcc;
+
+/** Bastion tint while its core is open. */
+const CORE_OPEN_TINT = 0x66ffee;
+
+export const BASTION: BossPatternDef = {
+  name: 'THE BASTION',
+  body: {
+    hp: 420, contactDamage: 30, halfWidth: 60, halfHeight: 80, spawnAt: 0.85,
+    armor: 0.2, weakPoint: 1.5,
+  },
+  parts: [
+    {
+      id: 'turret-left', label: 'L-GUN', look: 'turret', hp: 60,
+      x: -46, y: -100, halfWidth: 14, halfHeight: 10, powers: ['volley'],
+    },
+    {
+      id: 'turret-right', label: 'R-GUN', look: 'turret', hp: 60,
+      x: 46, y: -100, halfWidth: 14, halfHeight: 10, powers: ['volley'],
+    },
+    {
+      id: 'launcher', label: 'MORTAR', look: 'launcher', hp: 90,
+      x: 0, y: -102, halfWidth: 20, halfHeight: 12, powers: ['mortar'],
+    },
+    {
+      // Chest band, wider than the hull so it takes shots at core height
+      id: 'core-plate', label: 'PLATE', look: 'plate', hp: 150,
+      x: 0, y: 4, halfWidth: 68, halfHeight: 22, shields: true,
+    },
+  ],
+  phases: [
+    {
+      hpFraction: 1,
+      tint: 0xffffff,
+      sequence: [
+        { kind: 'rest', duration: 1.2 },
+        {
+          kind: 'volley', duration: 0.8, sound: 'laser',
+          shots: 2, spread: 0.15, speed: 7, damage: 12, color: TURRET_COLOR,
+        },
+        {
+          kind: 'volley', duration: 0.8, sound: 'laser',
+          shots: 2, spread: 0.15, speed: 7, damage: 12, color: TURRET_COLOR,
+        },
+        {
+          kind: 'telegraph', duration: 0.8, sound: 'boss-windup',
+          flashRate: 16, flashColors: [CORE_OPEN_TINT, 0xffffff],
+        },
+        // Core vents: the weak point is open
+        { kind: 'rest', duration: 3.0, sound: 'shield-break', tint: CORE_OPEN_TINT, exposed: true },
+      ],
+    },
+    {
+      hpFraction: 0.6,
+      tint: 0xffffff,
+      sound: 'boss-phase-up',
+      shake: { amplitude: 6, duration: 0.5 },
+      sequence: [
+        { kind: 'rest', duration: 1.0 },
+        {
+          kind: 'mortar', duration: 1.0, sound: 'explosion',
+          shells: 3, scatter: 140, flightTime: 1.3, damage: 15, color: 0xffaa00,
+        },
+        {
+          kind: 'volley', duration: 0.8, sound: 'laser',
+          shots: 3, spread: 0.15, speed: 7, damage: 12, color: TURRET_COLOR,
+        },
+        {
+          kind: 'telegraph', duration: 0.8, sound: 'boss-windup',
+          flashRate: 16, flashColors: [CORE_OPEN_TINT, 0xffffff],
+        },
+        { kind: 'rest', duration: 2.6, sound: 'shield-break', tint: CORE_OPEN_TINT, exposed: true },
+      ],
+    },
+    {
+      // Overheating: red, adds a floor laser and calls in walkers
+      hpFraction: 0.25,
+      tint: 0xff5555,
+      sound: 'boss-phase-up',
+      shake: { amplitude: 10, duration: 0.8 },
+      sequence: [
+        { kind: 'rest', duration: 0.8 },
+        { kind: 'laser', duration: 1.2, sound: 'boss-laser', aim: 'player' },
+        {
+          kind: 'mortar', duration: 1.0, sound: 'explosion',
+          shells: 4, scatter: 180, flightTime: 1.1, damage: 15, color: 0xffaa00,
+        },
+        {
+          kind: 'volley', duration: 0.8, sound: 'laser',
+          shots: 3, spread: 0.15, speed: 8, damage: 12, color: TURRET_COLOR,
+        },
+        {
+          kind: 'telegraph', duration: 0.6, sound: 'boss-windup',
+          flashRate: 25, flashColors: [CORE_OPEN_TINT, 0xff5555],
+        },
+        { kind: 'rest', duration: 2.2, sound: 'shield-break', tint: CORE_OPEN_TINT, exposed: true },
+      ],
+      minions: {
+        enemy: 'walker', count: 2, interval: 9, maxActive: 3, spacing: 180,
+        sound: 'minion-spawn',
+      },
+    },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// The Rootmother
+// ---------------------------------------------------------------------------
+
+export const ROOTMOTHER: BossPatternDef = {
+  name: 'THE ROOTMOTHER',
+  body: { hp: 320, contactDamage: 20, halfWidth: 48, halfHeight: 60 },
+  phases: [
+    {
+      hpFraction: 1,
+      tint: 0xffffff,
+      sequence: [
+        { kind: 'patrol', duration: 2.5, speed: 1.0 },
+        {
+          kind: 'hazard', duration: 1.6, sound: 'boss-windup', tint: 0x88ff88,
+          hazard: 'thorns', count: 3, delay: 0.9, damage: 15,
+        },
+        { kind: 'patrol', duration: 2.0, speed: 1.0 },
+        {
+          kind: 'hazard', duration: 1.8, sound: 'boss-windup', tint: 0xccaa66,
+          hazard: 'rockfall', count: 4, delay: 1.0, damage: 12,
+        },
+        { kind: 'rest', duration: 1.2 },
+      ],
+    },
+    {
+      hpFraction: 0.5,
+      tint: 0xccffaa,
+      sound: 'boss-phase-up',
+      shake: { amplitude: 8, duration: 0.6 },
+      sequence: [
+        { kind: 'patrol', duration: 2.0, speed: 1.2 },
+        {
+          kind: 'telegraph', duration: 0.6, sound: 'boss-windup',
+          flashRate: 20, flashColors: [0x44ff44, 0xffffff],
+        },
+        {
+          kind: 'charge', duration: 0.8, speed: 6, sound: 'boss-charge', tint: 0x88ff88,
+          shake: { amplitude: 6, duration: 0.3 },
+        },
+        {
+          kind: 'hazard', duration: 1.4, sound: 'boss-windup', tint: 0x88ff88,
+          hazard: 'thorns', count: 5, delay: 0.7, damage: 15,
+        },
+        {
+          kind: 'hazard', duration: 1.6, sound: 'boss-windup', tint: 0xccaa66,
+          hazard: 'rockfall', count: 6, delay: 0.8, damage: 12,
+        },
+        { kind: 'rest', duration: 1.0 },
+      ],
+      minions: {
+        enemy: 'walker', count: 2, interval: 10, maxActive: 3, spacing: 140,
+        sound: 'minion-spawn',
+      },
+    },
+  ],
+};
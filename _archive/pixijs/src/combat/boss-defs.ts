@@ -0,0 +1,111 @@
+/**
+ * Boss registry — every boss's pattern (format in combat/boss-pattern.ts).
+ * The biome bosses' patterns live in combat/biome-bosses.ts.
+ *
+ * The Warden — a heavy mech that patrols its arena and charges the
+ * player. From 60% HP it follows each charge with a laser sweep behind
+ * it; below 25% it enrages (faster, red) and calls in walkers.
+ */
+
+import type { BossPatternDef, BossStep } from './boss-pattern.js';
+import { validateBossPattern } from './boss-validation.js';
+import { BASTION, PRISM_MOTH, ROOTMOTHER } from './biome-bosses.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** All boss identifiers. */
+export type BossId = 'warden' | 'prism-moth' | 'bastion' | 'rootmother';
+
+// ---------------------------------------------------------------------------
+// The Warden
+// ---------------------------------------------------------------------------
+
+/** Warden telegraph before a charge (phases 1-2). */
+const WARDEN_WINDUP: BossStep = {
+  kind: 'telegraph', duration: 0.8, sound: 'boss-windup',
+  flashRate: 20, flashColors: [0xff4444, 0xffffff],
+};
+
+const WARDEN: BossPatternDef = {
+  name: 'THE WARDEN',
+  body: { hp: 300, contactDamage: 25, halfWidth: 32, halfHeight: 54 },
+  phases: [
+    {
+      hpFraction: 1,
+      tint: 0xffffff,
+      sequence: [
+        { kind: 'patrol', duration: 3.0, speed: 1.5 },
+        WARDEN_WINDUP,
+        {
+          kind: 'charge', duration: 0.6, speed: 8, sound: 'boss-charge', tint: 0xff6644,
+          shake: { amplitude: 8, duration: 0.3 },
+        },
+        { kind: 'rest', duration: 1.5 },
+      ],
+    },
+    {
+      hpFraction: 0.6,
+      tint: 0xffffff,
+      sound: 'boss-phase-up',
+      shake: { amplitude: 6, duration: 0.5 },
+      sequence: [
+        { kind: 'patrol', duration: 3.0, speed: 1.5 },
+        WARDEN_WINDUP,
+        { kind: 'charge', duration: 0.6, speed: 8, sound: 'boss-charge', tint: 0xff6644 },
+        // Laser sweep fired back the way it charged from
+        { kind: 'laser', duration: 1.2, sound: 'boss-laser', aim: 'back', tint: 0xff8844 },
+        { kind: 'rest', duration: 1.5 },
+      ],
+    },
+    {
+      // Enraged: permanently red, snappier timings, faster charges
+      hpFraction: 0.25,
+      tint: 0xff2222,
+      sound: 'boss-phase-up',
+      shake: { amplitude: 10, duration: 0.8 },
+      sequence: [
+        { kind: 'patrol', duration: 1.8, speed: 1.5 },
+        {
+          kind: 'telegraph', duration: 0.5, sound: 'boss-windup',
+          flashRate: 25, flashColors: [0xff0000, 0xaa0000],
+        },
+        { kind: 'charge', duration: 0.6, speed: 11, sound: 'boss-charge' },
+        { kind: 'laser', duration: 1.2, sound: 'boss-laser', aim: 'back' },
+        { kind: 'rest', duration: 0.8 },
+      ],
+      minions: {
+        enemy: 'walker', count: 2, interval: 8, maxActive: 4, spacing: 160,
+        sound: 'minion-spawn',
+      },
+    },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** All boss patterns, keyed by id (validated on load). */
+export const BOSS_DEFS: Record<BossId, BossPatternDef> = {
+  'warden': WARDEN,
+  'prism-moth': PRISM_MOTH,
+  'bastion': BASTION,
+  'rootmother': ROOTMOTHER,
+};
+
+for (const [id, pattern] of Object.entries(BOSS_DEFS)) validateBossPattern(id, pattern);
+
+/** All boss ids, in campaign order. */
+export const ALL_BOSS_IDS: readonly BossId[] = ['warden', 'prism-moth', 'bastion', 'rootmother'];
+
+/** Whether a value is a known boss id (level data validation). */
+export function isBossId(value: unknown): value is BossId {
+  return (ALL_BOSS_IDS as readonly unknown[]).includes(value);
+}
+
+/** Look up a boss pattern by id. */
+export function getBossDef(id: BossId): BossPatternDef {
+  return BOSS_DEFS[id];
+}
@@ -0,0 +1,76 @@
+/**
+ * Boss parts — pieces of a boss (turrets, armour plates, launchers)
+ * that are separate entities with their own hitbox and health, riding
+ * along on the boss (entities/create-boss-part.ts, BossPartSystem).
+ *
+ * Hits on a part wear down the part, not the boss. Destroying parts
+ * is how a fight is taken apart:
+ *   - a part that `powers` a step kind is where that attack fires
+ *     from; once every part powering it is gone, the boss skips the step
+ *   - a part that `shields` the weak point keeps the boss armoured;
+ *     once every shielding part is gone the weak point stays open and
+ *     the boss takes its `weakPoint` bonus damage (BossBodyDef)
+ *
+ * isStepDisabled() and bossDamageScale() apply these rules to a boss's
+ * BossComponent.
+ */
+
+import type { BossComponent } from '../components/boss.js';
+import type { BossStep, BossStepKind } from './boss-pattern.js';
+import { getBossDef } from './boss-defs.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** How a part is drawn (entities/boss-graphics.ts). */
+export type BossPartLook = 'turret' | 'plate' | 'launcher';
+
+export interface BossPartDef {
+  /** Unique within its boss. */
+  id: string;
+  /** Short name on the boss health bar. */
+  label: string;
+  look: BossPartLook;
+  hp: number;
+  /** Centre relative to the boss's centre (pixels; not mirrored with facing). */
+  x: number;
+  y: number;
+  /** Hitbox half-width (pixels). */
+  halfWidth: number;
+  /** Hitbox half-height (pixels). */
+  halfHeight: number;
+  /** Step kinds that fire from this part and stop once all their parts are gone. */
+  powers?: readonly BossStepKind[];
+  /** Covers the weak point: the boss stays armoured while any such part is left. */
+  shields?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a step is out of action: some of the boss's parts power it
+ * and none of them is left.
+ */
+export function isStepDisabled(boss: BossComponent, step: BossStep): boolean {
+  const powering = (getBossDef(boss.bossId).parts ?? [])
+    .filter((part) => part.powers?.includes(step.kind));
+  return powering.length > 0 && !powering.some((part) => boss.parts.has(part.id));
+}
+
+/**
+ * Share of incoming damage a boss takes (combat/boss-pattern.ts
+ * BossBodyDef): its weak-point multiplier while the running step
+ * exposes it or its shielding parts are all broken, its armour
+ * otherwise. 1 for anything that isn't a boss.
+ */
+export function bossDamageScale(boss: BossComponent | undefined): number {
+  if (!boss) return 1;
+  const { body, parts = [] } = getBossDef(boss.bossId);
+  const shields = parts.filter((part) => part.shields);
+  const open = boss.step.exposed
+    || (shields.length > 0 && !shields.some((part) => boss.parts.has(part.id)));
+  return open ? body.weakPoint ?? 1 : body.armor ?? 1;
+}
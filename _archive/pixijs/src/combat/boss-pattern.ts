@@ -0,0 +1,255 @@
+/**
+ * Boss pattern format — bosses described as data and run by the generic
+ * boss runtime (BossAISystem).
+ *
+ * A pattern gives the boss's body (size, HP, whether it flies), any
+ * destructible parts (combat/boss-parts.ts) and a list of phases. The
+ * boss starts in the first phase; each
+ * later phase takes over once HP drops to its threshold (one phase per
+ * tick, in order). A phase loops a sequence of steps — attack
+ * primitives such as patrol, telegraph, charge, laser and rest — and
+ * may summon minions on a timer.
+ *
+ * When the phase changes mid-sequence the running step carries on as
+ * the new phase's step of the same kind (its timer is kept), and the
+ * sequence continues from there, so a charge that is interrupted by a
+ * phase change is followed by whatever the new phase does after its
+ * charge.
+ *
+ * Adding a boss means writing its pattern (combat/boss-defs.ts); adding
+ * an attack means a new step kind here and its handler in
+ * systems/boss-ai-behaviours.ts.
+ */
+
+import type { BossPartDef } from './boss-parts.js';
+
+// ---------------------------------------------------------------------------
+// Steps (attack primitives)
+// ---------------------------------------------------------------------------
+
+/** Fields every step has. */
+interface StepBase {
+  /** Seconds the step lasts (charge and patrol can end sooner). */
+  duration: number;
+  /** Sound played when the step starts. */
+  sound?: string;
+  /** Boss tint while the step runs (default: the phase's tint). */
+  tint?: number;
+  /** Weak point open: an armoured boss takes weak-point damage during the step. */
+  exposed?: boolean;
+}
+
+/** Camera shake (see CameraSystem.shake). */
+export interface ShakeDef {
+  amplitude: number;
+  duration: number;
+}
+
+/**
+ * Walk back and forth across the arena, turning at its edges. Ends by
+ * turning to face the player.
+ */
+export interface PatrolStep extends StepBase {
+  kind: 'patrol';
+  /** Walk speed (m/s). */
+  speed: number;
+}
+
+/** Stand still and flash between two colours, warning of the next attack. */
+export interface TelegraphStep extends StepBase {
+  kind: 'telegraph';
+  /** Flash speed (higher flickers faster). */
+  flashRate: number;
+  /** The two colours it flashes between. */
+  flashColors: readonly [number, number];
+}
+
+/** Dash horizontally the way the boss faces, stopping at the arena edge. */
+export interface ChargeStep extends StepBase {
+  kind: 'charge';
+  /** Dash speed (m/s). */
+  speed: number;
+  /** Shake when the charge ends. */
+  shake?: ShakeDef;
+}
+
+/** Stand still and fire a laser sweep along the arena floor. */
+export interface LaserStep extends StepBase {
+  kind: 'laser';
+  /** Fire the way the boss faces, behind it, or toward the player. */
+  aim: 'forward' | 'back' | 'player';
+}
+
+/**
+ * Fly `altitude` pixels above the arena's spawn line, drifting to stay
+ * over the player. Ends by turning to face the player. Flying bosses only.
+ */
+export interface HoverStep extends StepBase {
+  kind: 'hover';
+  /** Top flight speed (m/s). */
+  speed: number;
+  altitude: number;
+}
+
+/**
+ * Swoop at where the player stood when the dive began, pulling up at the
+ * arena floor. Flying bosses only.
+ */
+export interface DiveStep extends StepBase {
+  kind: 'dive';
+  /** Dive speed (m/s). */
+  speed: number;
+}
+
+/**
+ * Stand still and fire a fan of shots at the player, once: from each
+ * part that powers volleys, or from the boss's centre if none does.
+ */
+export interface VolleyStep extends StepBase {
+  kind: 'volley';
+  shots: number;
+  /** Angle between neighbouring shots (radians). */
+  spread: number;
+  /** Shot speed (m/s). */
+  speed: number;
+  damage: number;
+  /** Shot glow colour. */
+  color: number;
+}
+
+/**
+ * Stand still and lob shells that come down around the player, once:
+ * from each part that powers mortars, or from the boss's top if none does.
+ */
+export interface MortarStep extends StepBase {
+  kind: 'mortar';
+  shells: number;
+  /** How far from the player a shell may land (pixels). */
+  scatter: number;
+  /** Seconds a shell is in the air. */
+  flightTime: number;
+  damage: number;
+  /** Shell glow colour. */
+  color: number;
+}
+
+/** Terrain hazards a boss can summon. */
+export type HazardKind = 'thorns' | 'rockfall';
+
+/**
+ * Stand still and mark spots on the arena floor; after `delay` seconds
+ * a hazard strikes each: thorns burst from the ground, or rocks fall
+ * from the ceiling. The first spot is always under the player.
+ */
+export interface HazardStep extends StepBase {
+  kind: 'hazard';
+  hazard: HazardKind;
+  /** Spots marked per cast. */
+  count: number;
+  /** Warning time before the hazards strike (seconds, within the duration). */
+  delay: number;
+  damage: number;
+}
+
+/** Stand still and recover. */
+export interface RestStep extends StepBase {
+  kind: 'rest';
+}
+
+export type BossStep =
+  | PatrolStep | TelegraphStep | ChargeStep | LaserStep | RestStep
+  | HoverStep | DiveStep | VolleyStep | MortarStep | HazardStep;
+
+/** Every step kind; also the boss's visible attack state. */
+export type BossStepKind = BossStep['kind'];
+
+// ---------------------------------------------------------------------------
+// Phases
+// ---------------------------------------------------------------------------
+
+/** Minions a phase summons on a timer. */
+export interface MinionSpawnDef {
+  /** Enemy definition id (enemy-defs.json). */
+  enemy: string;
+  /** Enemies per wave. */
+  count: number;
+  /** Seconds between waves (the first comes one interval into the phase). */
+  interval: number;
+  /** No wave while this many other enemies are alive. */
+  maxActive: number;
+  /** Horizontal distance between neighbouring minions, centred on the boss (pixels). */
+  spacing: number;
+  /** Sound played per wave. */
+  sound?: string;
+}
+
+export interface BossPhaseDef {
+  /**
+   * Enter this phase at or below this fraction of max HP. Ignored for
+   * the first phase, which the boss starts in.
+   */
+  hpFraction: number;
+  /** Steps looped in order. */
+  sequence: readonly BossStep[];
+  /** Boss tint for steps without their own. */
+  tint: number;
+  /** Sound played on entering the phase. */
+  sound?: string;
+  /** Shake on entering the phase. */
+  shake?: ShakeDef;
+  /** Minion waves while in the phase. */
+  minions?: MinionSpawnDef;
+}
+
+// ---------------------------------------------------------------------------
+// Patterns
+// ---------------------------------------------------------------------------
+
+/** The boss entity itself. */
+export interface BossBodyDef {
+  hp: number;
+  /** Damage dealt to the player on touch. */
+  contactDamage: number;
+  /** Hitbox half-width (pixels). */
+  halfWidth: number;
+  /** Hitbox half-height (pixels). */
+  halfHeight: number;
+  /** Ignores gravity and passes through terrain (needed for hover and dive). */
+  flying?: boolean;
+  /** Spawn point across the arena: 0 = left edge, 1 = right edge (default 0.5). */
+  spawnAt?: number;
+  /**
+   * Fraction of damage taken while the weak point is shut (default 1).
+   * Lower values make the weak point the way to win.
+   */
+  armor?: number;
+  /**
+   * Damage multiplier while the weak point is open: during `exposed`
+   * steps, or for good once its shielding parts are destroyed (default 1).
+   */
+  weakPoint?: number;
+}
+
+export interface BossPatternDef {
+  /** Display name (boss health bar). */
+  name: string;
+  body: BossBodyDef;
+  /** Phases in order; HP thresholds must decrease. */
+  phases: readonly BossPhaseDef[];
+  /** Separately destructible parts (combat/boss-parts.ts). */
+  parts?: readonly BossPartDef[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Where the sequence continues after a phase change: the index of the
+ * new phase's step of the same kind as the running one, or -1 if it has
+ * none (the running step then finishes as it was and the new sequence
+ * starts from the top).
+ */
+export function matchingStepIndex(phase: BossPhaseDef, kind: BossStepKind): number {
+  return phase.sequence.findIndex((s) => s.kind === kind);
+}
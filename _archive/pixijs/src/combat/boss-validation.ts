@@ -0,0 +1,75 @@
+/**
+ * Boss pattern validation — the load-time checks combat/boss-defs.ts
+ * runs on every pattern, so a broken pattern fails on startup rather
+ * than mid-fight. Split from boss-pattern.ts to keep files under 250 lines.
+ */
+
+import { findEnemyDef } from './enemy-defs.js';
+import type { BossPatternDef, BossStepKind } from './boss-pattern.js';
+
+/** Step kinds that need a flying body. */
+const FLYING_STEPS: readonly BossStepKind[] = ['hover', 'dive'];
+
+/**
+ * Check a pattern is runnable: at least one phase, no empty sequences,
+ * thresholds within (0, 1] and decreasing, minions that exist, flight steps only on
+ * flyers, hazards that strike before their step ends, a way past any
+ * armour, and sound parts.
+ * @throws if it isn't
+ */
+export function validateBossPattern(id: string, pattern: BossPatternDef): void {
+  if (pattern.phases.length === 0) {
+    throw new Error(`[BossPattern] Boss "${id}" has no phases.`);
+  }
+  const steps = pattern.phases.flatMap((phase) => phase.sequence);
+  for (const step of steps) {
+    if (FLYING_STEPS.includes(step.kind) && !pattern.body.flying) {
+      throw new Error(`[BossPattern] Boss "${id}" uses '${step.kind}' but doesn't fly.`);
+    }
+    if (step.kind === 'hazard' && step.delay >= step.duration) {
+      throw new Error(`[BossPattern] Boss "${id}" has a hazard that strikes after its step ends.`);
+    }
+  }
+  const shielded = pattern.parts?.some((part) => part.shields) ?? false;
+  if ((pattern.body.armor ?? 1) < 1 && !shielded && !steps.some((step) => step.exposed)) {
+    throw new Error(`[BossPattern] Boss "${id}" is armoured but never exposed.`);
+  }
+  pattern.phases.forEach((phase, i) => {
+    if (phase.sequence.length === 0) {
+      throw new Error(`[BossPattern] Boss "${id}" phase ${i + 1} has no steps.`);
+    }
+    if (!(phase.hpFraction > 0 && phase.hpFraction <= 1)) {
+      throw new Error(`[BossPattern] Boss "${id}" phase ${i + 1} threshold must be in (0, 1].`);
+    }
+    const prev = pattern.phases[i - 1];
+    if (i > 0 && prev && phase.hpFraction >= prev.hpFraction) {
+      throw new Error(`[BossPattern] Boss "${id}" phase ${i + 1} threshold must be below phase ${i}'s.`);
+    }
+    if (phase.minions && !findEnemyDef(phase.minions.enemy)) {
+      throw new Error(`[BossPattern] Boss "${id}" phase ${i + 1} summons unknown enemy '${phase.minions.enemy}'.`);
+    }
+  });
+  validateParts(id, pattern);
+}
+
+/**
+ * Parts need unique ids, and every phase must keep a step no part
+ * powers, so it still has something to do once they're destroyed.
+ */
+function validateParts(id: string, pattern: BossPatternDef): void {
+  const parts = pattern.parts ?? [];
+  const ids = new Set<string>();
+  for (const part of parts) {
+    if (ids.has(part.id)) {
+      throw new Error(`[BossPattern] Boss "${id}" has two parts called '${part.id}'.`);
+    }
+    ids.add(part.id);
+  }
+
+  const powered = new Set(parts.flatMap((part) => part.powers ?? []));
+  pattern.phases.forEach((phase, i) => {
+    if (phase.sequence.every((step) => powered.has(step.kind))) {
+      throw new Error(`[BossPattern] Boss "${id}" phase ${i + 1} has no step left once its parts are destroyed.`);
+    }
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Elite affix registry — modifiers that promote a regular enemy to an
+ * elite.
+ *
+ * Stat affixes (health, speed, contact damage) are applied once by
+ * createEnemyEntity(); behavioural ones are carried on the enemy's
+ * EliteComponent and handled where they matter:
+ *   regenerating  EliteSystem heals it after a lull in damage
+ *   splitting     EliteSystem spawns smaller copies when it dies
+ *   reflecting    ProjectileSystem bounces some player shots back
+ *
+ * Every affix multiplies the scrap the enemy is worth. Level spawn
+ * points may force affixes; otherwise spawnEnemies() promotes enemies
+ * at random with the level difficulty's ELITE_CHANCE.
+ */
+
+import type { LevelData } from '../level/level-data.js';
+import { gameRandom } from '../core/rng.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** All elite affix identifiers. */
+export type AffixId = 'armored' | 'fast' | 'splitting' | 'regenerating' | 'reflecting';
+
+/** One affix: what it changes and how it looks. */
+export interface AffixDef {
+  id: AffixId;
+  /** Human-readable name. */
+  name: string;
+  /** Glow colour (hex) applied by EffectsSystem. */
+  color: number;
+  /** Health multiplier (default 1). */
+  healthMult?: number;
+  /** Movement speed multiplier (default 1). */
+  speedMult?: number;
+  /** Contact damage multiplier (default 1). */
+  contactDamageMult?: number;
+  /** Scrap reward multiplier. */
+  scrapMult: number;
+  /** Only rolled for enemies that move (not fixed turrets). */
+  mobileOnly?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Affix definitions
+// ---------------------------------------------------------------------------
+
+export const AFFIX_DEFS: Record<AffixId, AffixDef> = {
+  armored: {
+    id: 'armored',
+    name: 'Armored',
+    color: 0xaaaaaa,
+    healthMult: 2.5,
+    scrapMult: 2,
+  },
+  fast: {
+    id: 'fast',
+    name: 'Fast',
+    color: 0xffee44,
+    speedMult: 1.6,
+    contactDamageMult: 1.25,
+    scrapMult: 1.5,
+    mobileOnly: true,
+  },
+  splitting: {
+    id: 'splitting',
+    name: 'Splitting',
+    color: 0x66ff66,
+    healthMult: 1.5,
+    scrapMult: 2,
+    mobileOnly: true,
+  },
+  regenerating: {
+    id: 'regenerating',
+    name: 'Regenerating',
+    color: 0xff66cc,
+    healthMult: 1.5,
+    scrapMult: 2,
+  },
+  reflecting: {
+    id: 'reflecting',
+    name: 'Reflecting',
+    color: 0x66ccff,
+    healthMult: 1.25,
+    scrapMult: 2.5,
+  },
+};
+
+/** All affix ids, in registry order. */
+export const AFFIX_IDS = Object.keys(AFFIX_DEFS) as AffixId[];
+
+/** Chance a regular spawn is promoted to elite, by level difficulty. */
+export const ELITE_CHANCE: Record<LevelData['difficulty'], number> = {
+  Easy: 0.05,
+  Medium: 0.12,
+  Hard: 0.2,
+};
+
+/** Type guard for affix ids coming from level data. */
+export function isAffixId(id: string): id is AffixId {
+  return Object.prototype.hasOwnProperty.call(AFFIX_DEFS, id);
+}
+
+/**
+ * Maybe promote a spawn: with probability `chance`, one affix chosen at
+ * random among those that suit the enemy.
+ *
+ * @param mobile - whether the enemy can move (fixed bodies skip mobileOnly affixes)
+ * @returns the affixes to apply (empty = a regular enemy)
+ */
+export function rollAffixes(chance: number, mobile: boolean): AffixId[] {
+  if (chance <= 0 || gameRandom() >= chance) return [];
+  const pool = AFFIX_IDS.filter((id) => mobile || !AFFIX_DEFS[id].mobileOnly);
+  return [pool[Math.floor(gameRandom() * pool.length)]];
+}
+
+/** Product of a multiplier across affixes (missing = 1). */
+export function affixMultiplier(
+  affixes: readonly AffixId[],
+  key: 'healthMult' | 'speedMult' | 'contactDamageMult' | 'scrapMult',
+): number {
+  return affixes.reduce((m, id) => m * (AFFIX_DEFS[id][key] ?? 1), 1);
+}
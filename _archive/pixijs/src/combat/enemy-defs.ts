@@ -0,0 +1,305 @@
+/**
+ * Enemy registry — every regular enemy is declared as data.
+ *
+ * Definitions live in enemy-defs.json, keyed by enemy id. Each one
+ * names the behaviour tree to run (ai/enemy-trees.ts), how it senses
+ * the player (ai/perception.ts) and whether it path-finds (nav/), its
+ * stats, loot table (combat/loot.ts) and status-effect immunities
+ * (combat/status-effects.ts), physics body and collider, and how it
+ * looks: an animated sprite built from texture keys, or a named
+ * procedural graphic from entities/enemy-graphics.ts.
+ * createEnemyEntity() builds any of them, so a new variant (a tougher
+ * walker, a faster flyer) is a JSON edit.
+ *
+ * Level spawn points refer to enemies as `enemy-<id>`.
+ *
+ * The JSON is validated when this module loads; a bad definition fails
+ * fast with the enemy id and field rather than misbehaving in a level.
+ */
+
+import type { EnemyType } from '../components/index.js';
+import type { WeaponId } from './weapon-defs.js';
+import { WEAPON_DEFS } from './weapon-defs.js';
+import { ENEMY_GRAPHICS } from '../entities/enemy-graphics.js';
+import { isEnemyBehaviour } from '../ai/enemy-trees.js';
+import type { PerceptionDef } from '../ai/perception.js';
+import { PERCEPTION_MODES } from '../ai/perception.js';
+import type { NavMode } from '../nav/pathfinder.js';
+import type { LootTable } from './loot.js';
+import { PICKUP_KINDS } from './loot.js';
+import type { StatusEffectId } from './status-effects.js';
+import { STATUS_EFFECT_IDS, isStatusEffectId } from './status-effects.js';
+import enemyData from './enemy-defs.json';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Collider shape; sizes in metres. Restitution is always 0. */
+export type EnemyColliderDef =
+  | { shape: 'ball'; radius: number; friction: number }
+  | { shape: 'capsule'; halfHeight: number; radius: number; friction: number }
+  | { shape: 'cuboid'; halfWidth: number; halfHeight: number; friction: number };
+
+/** One animation: frames cut from a sheet, or a list of textures. */
+export type EnemyAnimationDef =
+  | {
+    /** Asset alias of a horizontal sprite sheet. */
+    texture: string;
+    frameWidth: number;
+    frameHeight: number;
+    frames: number;
+    fps: number;
+  }
+  | {
+    /** Asset aliases of individual frames, in order. */
+    textures: string[];
+    fps: number;
+  };
+
+/** How the enemy is drawn. width/height are the on-screen size (pixels). */
+export type EnemySpriteDef =
+  | {
+    kind: 'animated';
+    width: number;
+    height: number;
+    /** Display scale applied to the frames. */
+    scale: number;
+    /** Animation shown on spawn and whenever no state override applies. */
+    initial: string;
+    animations: Record<string, EnemyAnimationDef>;
+    /** AI state -> animation to play in that state. */
+    stateAnimations?: Record<string, string>;
+    /** Mirror the sprite when patrolling left. */
+    flipWithPatrol?: boolean;
+  }
+  | {
+    kind: 'procedural';
+    width: number;
+    height: number;
+    /** Key into ENEMY_GRAPHICS. */
+    graphic: string;
+    /** Starting opacity (phantoms spawn invisible). */
+    alpha?: number;
+  };
+
+/** A ranged weapon carried by the enemy (turrets). */
+export interface EnemyWeaponDef {
+  id: WeaponId;
+  damage: number;
+  /** Shots per second. */
+  fireRate: number;
+  /** Pixels. */
+  range: number;
+  /** m/s. */
+  projectileSpeed: number;
+}
+
+/** Complete enemy definition. */
+export interface EnemyDef {
+  /** Registry key (set from the JSON key). */
+  id: string;
+  /** Display name. */
+  name: string;
+  /** Behaviour tree to run. */
+  behaviour: EnemyType;
+  health: number;
+  /** Damage dealt on contact with the player (0 = harmless to touch). */
+  contactDamage: number;
+  /** Distance at which the enemy notices the player (pixels). */
+  detectionRange: number;
+  /** How it senses the player (default: omni sight). */
+  perception?: PerceptionDef;
+  /** Path-find around terrain when chasing: on foot (with jumps) or flying. */
+  navigation?: NavMode;
+  /** Scrap awarded on kill. */
+  scrap: number;
+  /** Extra drops on kill (default: loot.ts DEFAULT_LOOT). */
+  loot?: LootTable;
+  /** Status effects that never take hold on it. */
+  immune?: StatusEffectId[];
+  /** Patrol half-width from the spawn point (pixels). */
+  patrolDistance?: number;
+  body: { type: 'dynamic' | 'fixed'; gravity: boolean };
+  collider: EnemyColliderDef;
+  sprite: EnemySpriteDef;
+  weapon?: EnemyWeaponDef;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function fail(id: string, msg: string): never {
+  throw new Error(`[EnemyDefs] '${id}': ${msg}.`);
+}
+
+function isNum(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function checkNumbers(id: string, obj: Record<string, unknown>, keys: string[], where: string): void {
+  for (const key of keys) {
+    if (!isNum(obj[key]) || (obj[key] as number) < 0) fail(id, `${where}.${key} must be a number >= 0`);
+  }
+}
+
+function checkAnimation(id: string, name: string, anim: Record<string, unknown>): void {
+  const where = `sprite.animations.${name}`;
+  if (Array.isArray(anim.textures)) {
+    if (anim.textures.length === 0 || !anim.textures.every((t) => typeof t === 'string')) {
+      fail(id, `${where}.textures must be a non-empty list of texture keys`);
+    }
+    checkNumbers(id, anim, ['fps'], where);
+  } else if (typeof anim.texture === 'string') {
+    checkNumbers(id, anim, ['frameWidth', 'frameHeight', 'frames', 'fps'], where);
+  } else {
+    fail(id, `${where} needs 'texture' or 'textures'`);
+  }
+}
+
+function checkSprite(id: string, sprite: Record<string, unknown>): void {
+  checkNumbers(id, sprite, ['width', 'height'], 'sprite');
+  if (sprite.kind === 'procedural') {
+    if (typeof sprite.graphic !== 'string' || !(sprite.graphic in ENEMY_GRAPHICS)) {
+      fail(id, `unknown procedural graphic '${String(sprite.graphic)}'`);
+    }
+    return;
+  }
+  if (sprite.kind !== 'animated') fail(id, `sprite.kind must be 'animated' or 'procedural'`);
+  checkNumbers(id, sprite, ['scale'], 'sprite');
+  const animations = sprite.animations as Record<string, Record<string, unknown>> | undefined;
+  if (!animations || typeof sprite.initial !== 'string' || !(sprite.initial in animations)) {
+    fail(id, `sprite.initial must name one of sprite.animations`);
+  }
+  for (const [name, anim] of Object.entries(animations)) checkAnimation(id, name, anim);
+  for (const target of Object.values((sprite.stateAnimations ?? {}) as Record<string, unknown>)) {
+    if (typeof target !== 'string' || !(target in animations)) {
+      fail(id, `sprite.stateAnimations refers to unknown animation '${String(target)}'`);
+    }
+  }
+}
+
+function checkPerception(id: string, perception: Record<string, unknown>): void {
+  if (!PERCEPTION_MODES.includes(perception.mode as PerceptionDef['mode'])) {
+    fail(id, `perception.mode must be one of ${PERCEPTION_MODES.join(', ')}`);
+  }
+  const optional = ['coneAngle', 'hearingRange', 'memory'].filter((k) => perception[k] !== undefined);
+  checkNumbers(id, perception, optional, 'perception');
+}
+
+function checkLoot(id: string, loot: unknown): void {
+  if (!Array.isArray(loot)) fail(id, 'loot must be a list of entries');
+  loot.forEach((entry: unknown, i) => {
+    if (!isObject(entry)) fail(id, `loot[${i}] must be an object`);
+    if (!PICKUP_KINDS.includes(entry.kind as LootTable[number]['kind'])) {
+      fail(id, `loot[${i}].kind must be one of ${PICKUP_KINDS.join(', ')}`);
+    }
+    checkNumbers(id, entry, entry.amount === undefined ? ['chance'] : ['chance', 'amount'], `loot[${i}]`);
+    if ((entry.chance as number) > 1) fail(id, `loot[${i}].chance must be at most 1`);
+  });
+}
+
+function checkImmunities(id: string, immune: unknown): void {
+  if (!Array.isArray(immune) || !immune.every((e) => typeof e === 'string' && isStatusEffectId(e))) {
+    fail(id, `immune must be a list of ${STATUS_EFFECT_IDS.join(', ')}`);
+  }
+}
+
+function checkCollider(id: string, collider: Record<string, unknown>): void {
+  const sizes: Record<string, string[]> = {
+    ball: ['radius'], capsule: ['halfHeight', 'radius'], cuboid: ['halfWidth', 'halfHeight'],
+  };
+  const keys = sizes[String(collider.shape)];
+  if (!keys) fail(id, `collider.shape must be 'ball', 'capsule' or 'cuboid'`);
+  checkNumbers(id, collider, [...keys, 'friction'], 'collider');
+}
+
+/**
+ * Validate raw JSON into definitions.
+ * @throws naming the enemy and field on the first problem found
+ */
+export function parseEnemyDefs(raw: unknown): Map<string, EnemyDef> {
+  if (typeof raw !== 'object' || raw === null) throw new Error('[EnemyDefs] Root must be an object.');
+  const defs = new Map<string, EnemyDef>();
+  for (const [id, value] of Object.entries(raw)) {
+    if (!/^[a-z][a-z0-9-]*$/.test(id)) fail(id, 'ids must be lower-case kebab-case');
+    if (!isObject(value)) fail(id, 'definition must be an object');
+    if (typeof value.name !== 'string') fail(id, 'missing name');
+    if (!isEnemyBehaviour(String(value.behaviour))) {
+      fail(id, `unknown behaviour '${String(value.behaviour)}'`);
+    }
+    checkNumbers(id, value, ['health', 'contactDamage', 'detectionRange', 'scrap'], 'def');
+    if (value.patrolDistance !== undefined) checkNumbers(id, value, ['patrolDistance'], 'def');
+    if (value.loot !== undefined) checkLoot(id, value.loot);
+    if (value.immune !== undefined) checkImmunities(id, value.immune);
+    const body = value.body as Record<string, unknown> | undefined;
+    if (!body || (body.type !== 'dynamic' && body.type !== 'fixed') || typeof body.gravity !== 'boolean') {
+      fail(id, `body needs type 'dynamic' | 'fixed' and a boolean gravity`);
+    }
+    if (value.perception !== undefined) {
+      if (!isObject(value.perception)) fail(id, 'perception must be an object');
+      checkPerception(id, value.perception);
+    }
+    if (value.navigation !== undefined && value.navigation !== 'ground' && value.navigation !== 'air') {
+      fail(id, `navigation must be 'ground' or 'air'`);
+    }
+    checkCollider(id, (value.collider ?? {}) as Record<string, unknown>);
+    checkSprite(id, (value.sprite ?? {}) as Record<string, unknown>);
+    const weapon = value.weapon as Record<string, unknown> | undefined;
+    if (weapon) {
+      if (!(String(weapon.id) in WEAPON_DEFS)) fail(id, `unknown weapon '${String(weapon.id)}'`);
+      checkNumbers(id, weapon, ['damage', 'fireRate', 'range', 'projectileSpeed'], 'weapon');
+    }
+    defs.set(id, toEnemyDef(id, value));
+  }
+  return defs;
+}
+
+/** Build a definition from a JSON entry parseEnemyDefs() has checked. */
+function toEnemyDef(id: string, value: Record<string, unknown>): EnemyDef {
+  return {
+    id,
+    name: value.name as string,
+    behaviour: value.behaviour as EnemyType,
+    health: value.health as number,
+    contactDamage: value.contactDamage as number,
+    detectionRange: value.detectionRange as number,
+    perception: value.perception as PerceptionDef | undefined,
+    navigation: value.navigation as NavMode | undefined,
+    scrap: value.scrap as number,
+    loot: value.loot as LootTable | undefined,
+    immune: value.immune as StatusEffectId[] | undefined,
+    patrolDistance: value.patrolDistance as number | undefined,
+    body: value.body as EnemyDef['body'],
+    collider: value.collider as EnemyColliderDef,
+    sprite: value.sprite as EnemySpriteDef,
+    weapon: value.weapon as EnemyWeaponDef | undefined,
+  } satisfies EnemyDef;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** All enemy definitions, keyed by id. */
+export const ENEMY_DEFS: ReadonlyMap<string, EnemyDef> = parseEnemyDefs(enemyData);
+
+/** Look up a definition, or undefined if there is none with that id. */
+export function findEnemyDef(id: string): EnemyDef | undefined {
+  return ENEMY_DEFS.get(id);
+}
+
+/**
+ * Look up a definition that must exist.
+ * @throws if `id` is not a registered enemy
+ */
+export function getEnemyDef(id: string): EnemyDef {
+  const def = ENEMY_DEFS.get(id);
+  if (!def) throw new Error(`[EnemyDefs] Unknown enemy '${id}'.`);
+  return def;
+}
@@ -0,0 +1,86 @@
+/**
+ * Loot — what a dead enemy leaves behind.
+ *
+ * An enemy's scrap reward always drops, split into orbs of up to
+ * SCRAP_PER_ORB. On top of that its loot table (the `loot` list in
+ * combat/enemy-defs.json, DEFAULT_LOOT when it has none, BOSS_LOOT for
+ * bosses) is rolled entry by entry: each entry drops with its own
+ * chance. DamageSystem spawns the results as pickup entities
+ * (entities/create-pickup.ts) which PickupSystem hands out.
+ */
+
+import { gameRandom } from '../core/rng.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Everything a pickup can be. */
+export type PickupKind = 'scrap' | 'health' | 'shieldCharge' | 'repairKit';
+
+/** All pickup kinds (validation). */
+export const PICKUP_KINDS: readonly PickupKind[] = ['scrap', 'health', 'shieldCharge', 'repairKit'];
+
+/** One loot table entry. */
+export interface LootEntry {
+  kind: PickupKind;
+  /** Drop chance per kill (0-1). */
+  chance: number;
+  /** Scrap or hit points the pickup gives (ignored for consumables; default 1). */
+  amount?: number;
+}
+
+/** An enemy's loot table. */
+export type LootTable = readonly LootEntry[];
+
+/** One pickup to spawn. */
+export interface LootDrop {
+  readonly kind: PickupKind;
+  readonly amount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Tables
+// ---------------------------------------------------------------------------
+
+/** Most scrap a single orb carries. */
+export const SCRAP_PER_ORB = 5;
+
+/** Cap on scrap orbs per kill; larger rewards make heavier orbs instead. */
+const MAX_SCRAP_ORBS = 8;
+
+/** Loot for enemies whose definition has no table. */
+export const DEFAULT_LOOT: LootTable = [
+  { kind: 'health', chance: 0.1, amount: 10 },
+];
+
+/** Loot for bosses. */
+export const BOSS_LOOT: LootTable = [
+  { kind: 'health', chance: 1, amount: 40 },
+  { kind: 'shieldCharge', chance: 0.5 },
+  { kind: 'repairKit', chance: 0.5 },
+];
+
+// ---------------------------------------------------------------------------
+// Rolling
+// ---------------------------------------------------------------------------
+
+/**
+ * Roll a kill's drops.
+ * @param scrap - scrap reward to scatter as orbs
+ */
+export function rollLoot(table: LootTable, scrap: number): LootDrop[] {
+  const drops: LootDrop[] = [];
+  if (scrap > 0) {
+    const orbs = Math.min(MAX_SCRAP_ORBS, Math.ceil(scrap / SCRAP_PER_ORB));
+    const each = Math.floor(scrap / orbs);
+    for (let i = 0; i < orbs; i++) {
+      // The first orb takes the remainder
+      drops.push({ kind: 'scrap', amount: i === 0 ? scrap - each * (orbs - 1) : each });
+    }
+  }
+  for (const entry of table) {
+    if (gameRandom() < entry.chance) drops.push({ kind: entry.kind, amount: entry.amount ?? 1 });
+  }
+  return drops;
+}
@@ -0,0 +1,130 @@
+/**
+ * Status effects — timed conditions a hit can leave on an enemy.
+ *
+ * Each effect is data: how long one application lasts, how many times
+ * it stacks, and what it does per stack — damage over time, a movement
+ * slow, a stun, or extra damage taken (armor break). Reapplying an
+ * effect adds a stack (up to maxStacks) and restarts its timer.
+ *
+ * Weapons declare what their hits inflict (WeaponDef.effects); enemy
+ * definitions list what they shrug off (`immune` in enemy-defs.json).
+ * StatusEffectSystem runs the timers and damage, EnemyAISystem honours
+ * stun and slow, ProjectileSystem applies armor break.
+ */
+
+import type { StatusEffectsComponent } from '../components/index.js';
+import { gameRandom } from '../core/rng.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type StatusEffectId = 'burn' | 'freeze' | 'shock' | 'slow';
+
+/** All status effect ids (validation). */
+export const STATUS_EFFECT_IDS: readonly StatusEffectId[] = ['burn', 'freeze', 'shock', 'slow'];
+
+export interface StatusEffectDef {
+  id: StatusEffectId;
+  /** Human-readable name. */
+  name: string;
+  /** Indicator colour (hex). */
+  color: number;
+  /** Seconds one application lasts. */
+  duration: number;
+  /** Most stacks it builds up to. */
+  maxStacks: number;
+  /** Damage per second per stack. */
+  dps?: number;
+  /** Fraction of movement speed lost per stack. */
+  slow?: number;
+  /** Whether the target can't move or act while it lasts. */
+  stun?: boolean;
+  /** Extra fraction of damage taken per stack. */
+  armorBreak?: number;
+}
+
+/** A status effect a weapon's hits may inflict. */
+export interface StatusEffectChance {
+  effect: StatusEffectId;
+  /** Chance per hit (0-1). */
+  chance: number;
+}
+
+/** An effect currently on an entity. */
+export interface ActiveStatusEffect {
+  readonly id: StatusEffectId;
+  stacks: number;
+  /** Seconds left. */
+  remaining: number;
+}
+
+// ---------------------------------------------------------------------------
+// Definitions
+// ---------------------------------------------------------------------------
+
+export const STATUS_EFFECT_DEFS: Record<StatusEffectId, StatusEffectDef> = {
+  burn: { id: 'burn', name: 'Burn', color: 0xff6622, duration: 3, maxStacks: 3, dps: 4 },
+  freeze: { id: 'freeze', name: 'Freeze', color: 0x99e6ff, duration: 1.2, maxStacks: 1, stun: true },
+  shock: { id: 'shock', name: 'Shock', color: 0xffee44, duration: 4, maxStacks: 3, armorBreak: 0.15 },
+  slow: { id: 'slow', name: 'Slow', color: 0x6688ff, duration: 2.5, maxStacks: 3, slow: 0.2 },
+};
+
+/** Bosses follow scripted patterns; only damage-side effects stick to them. */
+export const BOSS_IMMUNITIES: readonly StatusEffectId[] = ['freeze', 'slow'];
+
+/** Slowest a stack of slows can make something (fraction of full speed). */
+const MIN_SPEED_SCALE = 0.3;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function isStatusEffectId(value: string): value is StatusEffectId {
+  return (STATUS_EFFECT_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Add one stack of an effect (refreshing its timer), unless immune.
+ * @returns whether it took
+ */
+export function applyStatusEffect(status: StatusEffectsComponent, id: StatusEffectId): boolean {
+  if (status.immune.includes(id)) return false;
+  const def = STATUS_EFFECT_DEFS[id];
+  const active = status.active.find((e) => e.id === id);
+  if (active) {
+    active.stacks = Math.min(def.maxStacks, active.stacks + 1);
+    active.remaining = def.duration;
+  } else {
+    status.active.push({ id, stacks: 1, remaining: def.duration });
+  }
+  return true;
+}
+
+/** Roll each of a hit's effect chances against the target. */
+export function inflictStatusEffects(
+  status: StatusEffectsComponent,
+  effects: readonly StatusEffectChance[],
+): void {
+  for (const { effect, chance } of effects) {
+    if (gameRandom() < chance) applyStatusEffect(status, effect);
+  }
+}
+
+export function isStunned(status: StatusEffectsComponent | undefined): boolean {
+  return status?.active.some((e) => STATUS_EFFECT_DEFS[e.id].stun === true) ?? false;
+}
+
+/** Movement speed multiplier (1 = unaffected). */
+export function statusSpeedScale(status: StatusEffectsComponent | undefined): number {
+  let lost = 0;
+  for (const e of status?.active ?? []) lost += (STATUS_EFFECT_DEFS[e.id].slow ?? 0) * e.stacks;
+  return Math.max(MIN_SPEED_SCALE, 1 - lost);
+}
+
+/** Damage taken multiplier (1 = unaffected). */
+export function statusDamageScale(status: StatusEffectsComponent | undefined): number {
+  let extra = 0;
+  for (const e of status?.active ?? []) extra += (STATUS_EFFECT_DEFS[e.id].armorBreak ?? 0) * e.stacks;
+  return 1 + extra;
+}
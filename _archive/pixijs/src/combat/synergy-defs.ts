@@ -0,0 +1,132 @@
+/**
+ * Synergy definitions — loadout combos that unlock bonus weapon effects.
+ *
+ * Each synergy is a declarative rule: what the loadout must contain (the
+ * equipped weapon, active consumables, and the weapon's mech modules —
+ * its bought upgrade levels) and the bonus it grants while that holds.
+ * There is no recipe list in game: players find combos by experimenting,
+ * and every synergy they trigger is logged in the Codex
+ * (GameState.codex), which survives death.
+ *
+ * SynergySystem evaluates the rules each tick (combat/synergy-engine.ts).
+ */
+
+import type { ProjectileBehaviour, WeaponId } from './weapon-defs.js';
+import type { StatusEffectChance } from './status-effects.js';
+import type { UpgradeLevels } from '../economy/upgrade-defs.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SynergyId =
+  | 'prism-storm'
+  | 'cryo-lens'
+  | 'capacitor-bleed'
+  | 'hunter-swarm'
+  | 'cluster-salvo'
+  | 'firestorm'
+  | 'overclock';
+
+/** Per-run consumables a synergy can require (GameState flags). */
+export type ConsumableFlag = 'shieldCharge' | 'repairKit';
+
+/** What the loadout must contain. Every listed part must be present. */
+export interface SynergyRequirement {
+  /** Equipped weapon (any weapon when omitted). */
+  weapon?: WeaponId;
+  /** Consumables that must be active. */
+  consumables?: readonly ConsumableFlag[];
+  /** Minimum module (upgrade track) levels on the equipped weapon. */
+  modules?: Partial<UpgradeLevels>;
+}
+
+/** What a synergy adds to the equipped weapon while active. */
+export interface SynergyBonus {
+  /** Damage multiplier. */
+  damageScale?: number;
+  /** Fire rate multiplier. */
+  fireRateScale?: number;
+  /** Range multiplier. */
+  rangeScale?: number;
+  /** Extra status effect chances, rolled alongside the weapon's own. */
+  effects?: readonly StatusEffectChance[];
+  /** Projectile behaviour laid over the weapon's (fields here win). */
+  behaviour?: ProjectileBehaviour;
+}
+
+export interface SynergyDef {
+  id: SynergyId;
+  /** Display name shown on discovery and in the Codex. */
+  name: string;
+  /** What it does, shown in the Codex once discovered. */
+  description: string;
+  requires: SynergyRequirement;
+  bonus: SynergyBonus;
+}
+
+// ---------------------------------------------------------------------------
+// Synergy registry
+// ---------------------------------------------------------------------------
+
+export const SYNERGY_DEFS: Record<SynergyId, SynergyDef> = {
+  'prism-storm': {
+    id: 'prism-storm',
+    name: 'Prism Storm',
+    description: 'Split beams refract off every surface: 3 ricochets and +10% damage.',
+    requires: { weapon: 'laser', modules: { projectileCount: 1, perk: 1 } },
+    bonus: { damageScale: 1.1, behaviour: { bounces: 3 } },
+  },
+  'cryo-lens': {
+    id: 'cryo-lens',
+    name: 'Cryo Lens',
+    description: "The repair kit's coolant loop chills the emitter: hits may freeze.",
+    requires: { weapon: 'laser', consumables: ['repairKit'] },
+    bonus: { effects: [{ effect: 'freeze', chance: 0.1 }] },
+  },
+  'capacitor-bleed': {
+    id: 'capacitor-bleed',
+    name: 'Capacitor Bleed',
+    description: 'Shield charge leaks into the coils: more shocks and +10% damage.',
+    requires: { weapon: 'plasma', consumables: ['shieldCharge'] },
+    bonus: { damageScale: 1.1, effects: [{ effect: 'shock', chance: 0.3 }] },
+  },
+  'hunter-swarm': {
+    id: 'hunter-swarm',
+    name: 'Hunter Swarm',
+    description: 'Seeking bolts punch through whole packs: pierce 4 enemies.',
+    requires: { weapon: 'plasma', modules: { projectileCount: 1, perk: 1 } },
+    bonus: { behaviour: { pierce: 4 } },
+  },
+  'cluster-salvo': {
+    id: 'cluster-salvo',
+    name: 'Cluster Salvo',
+    description: 'Heavy volleys leave targets reeling: blasts may slow, +20% range.',
+    requires: { weapon: 'rockets', modules: { projectileCount: 1, damage: 2 } },
+    bonus: { rangeScale: 1.2, effects: [{ effect: 'slow', chance: 0.5 }] },
+  },
+  firestorm: {
+    id: 'firestorm',
+    name: 'Firestorm',
+    description: 'The shield capacitor primes every warhead: +25% damage.',
+    requires: { weapon: 'rockets', consumables: ['shieldCharge'], modules: { perk: 2 } },
+    bonus: { damageScale: 1.25 },
+  },
+  overclock: {
+    id: 'overclock',
+    name: 'Overclock',
+    description: 'A fully tuned weapon runs past its limits: +15% fire rate.',
+    requires: { modules: { damage: 3, fireRate: 3 } },
+    bonus: { fireRateScale: 1.15 },
+  },
+};
+
+/** Ordered list of all synergy ids (Codex order, validation). */
+export const ALL_SYNERGY_IDS: readonly SynergyId[] = [
+  'prism-storm', 'cryo-lens', 'capacitor-bleed', 'hunter-swarm',
+  'cluster-salvo', 'firestorm', 'overclock',
+];
+
+export function isSynergyId(value: unknown): value is SynergyId {
+  return (ALL_SYNERGY_IDS as readonly unknown[]).includes(value);
+}
@@ -0,0 +1,119 @@
+/**
+ * Synergy engine — matches a loadout against the synergy rules
+ * (combat/synergy-defs.ts), folds the active bonuses into the weapon's
+ * stats, and records first-time discoveries in the Codex.
+ *
+ * Everything here is a pure function except `discoverSynergies()`,
+ * which mutates the provided GameState.
+ */
+
+import type { GameState } from '../core/game-state.js';
+import type { WeaponId } from './weapon-defs.js';
+import { getWeaponDef } from './weapon-defs.js';
+import type { UpgradeLevels } from '../economy/upgrade-defs.js';
+import { UPGRADE_TRACKS, UPGRADE_TRACK_IDS, WEAPON_PERKS } from '../economy/upgrade-defs.js';
+import type { WeaponStats } from '../economy/upgrade-logic.js';
+import type { ConsumableFlag, SynergyDef, SynergyId, SynergyRequirement } from './synergy-defs.js';
+import { ALL_SYNERGY_IDS, SYNERGY_DEFS } from './synergy-defs.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Everything a synergy rule can look at. */
+export interface Loadout {
+  weapon: WeaponId;
+  /** Consumables active this run. */
+  consumables: readonly ConsumableFlag[];
+  /** Module (upgrade track) levels on the equipped weapon. */
+  modules: UpgradeLevels;
+}
+
+/** Display names for consumables in requirement text. */
+const CONSUMABLE_NAMES: Record<ConsumableFlag, string> = {
+  shieldCharge: 'Shield Charge',
+  repairKit: 'Repair Kit',
+};
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/** The loadout a weapon makes with the state's consumables and its modules. */
+export function loadoutOf(state: GameState, weapon: WeaponId): Loadout {
+  const consumables: ConsumableFlag[] = [];
+  if (state.shieldCharge) consumables.push('shieldCharge');
+  if (state.repairKit) consumables.push('repairKit');
+  return { weapon, consumables, modules: state.weaponUpgrades[weapon] };
+}
+
+/** Whether a loadout contains everything a requirement lists. */
+export function meetsRequirement(req: SynergyRequirement, loadout: Loadout): boolean {
+  if (req.weapon && req.weapon !== loadout.weapon) return false;
+  if (req.consumables?.some((c) => !loadout.consumables.includes(c))) return false;
+  return UPGRADE_TRACK_IDS.every(
+    (track) => loadout.modules[track] >= (req.modules?.[track] ?? 0),
+  );
+}
+
+/** Every synergy the loadout triggers, in Codex order. */
+export function activeSynergies(loadout: Loadout): SynergyDef[] {
+  return ALL_SYNERGY_IDS
+    .map((id) => SYNERGY_DEFS[id])
+    .filter((def) => meetsRequirement(def.requires, loadout));
+}
+
+/**
+ * Fold synergy bonuses into a weapon's stats: multipliers stack,
+ * effects add up, and behaviours are laid over in order.
+ */
+export function applySynergies(
+  stats: WeaponStats, synergies: readonly SynergyDef[],
+): WeaponStats {
+  const out: WeaponStats = { ...stats, behaviour: { ...stats.behaviour } };
+  for (const { bonus } of synergies) {
+    out.damage *= bonus.damageScale ?? 1;
+    out.fireRate *= bonus.fireRateScale ?? 1;
+    out.range *= bonus.rangeScale ?? 1;
+    if (bonus.effects) out.effects = [...out.effects, ...bonus.effects];
+    if (bonus.behaviour) out.behaviour = { ...out.behaviour, ...bonus.behaviour };
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Codex
+// ---------------------------------------------------------------------------
+
+/**
+ * Log synergies in the Codex.
+ * @returns the ones that weren't there before (first-time discoveries)
+ */
+export function discoverSynergies(
+  state: GameState, synergies: readonly SynergyDef[],
+): SynergyDef[] {
+  const found = synergies.filter((def) => !state.codex.has(def.id));
+  for (const def of found) state.codex.add(def.id);
+  return found;
+}
+
+/** Whether the player has discovered a synergy. */
+export function isDiscovered(state: GameState, id: SynergyId): boolean {
+  return state.codex.has(id);
+}
+
+/** Recipe text for the Codex, e.g. "Laser Blaster + Ricochet 1 + Repair Kit". */
+export function describeRequirement(req: SynergyRequirement): string {
+  const parts: string[] = [req.weapon ? getWeaponDef(req.weapon).name : 'Any weapon'];
+  for (const track of UPGRADE_TRACK_IDS) {
+    const level = req.modules?.[track];
+    if (!level) continue;
+    // Name a weapon's perk track after its perk
+    const name = track === 'perk' && req.weapon
+      ? WEAPON_PERKS[req.weapon].name
+      : UPGRADE_TRACKS[track].name;
+    parts.push(`${name} ${level}`);
+  }
+  for (const c of req.consumables ?? []) parts.push(CONSUMABLE_NAMES[c]);
+  return parts.join(' + ');
+}
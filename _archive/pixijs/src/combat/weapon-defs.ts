@@ -1,10 +1,14 @@
 /**
  * Weapon registry — defines all weapon types the mech can equip.
  *
- * Each WeaponDef carries the stats used by the combat systems plus
- * a ProjectileStyle that renderers use for visual differentiation.
+ * Each WeaponDef carries the stats used by the combat systems, the
+ * status effects its hits may inflict, how its projectiles behave in
+ * flight and on impact, plus a ProjectileStyle that renderers use for
+ * visual differentiation.
  */
 
+import type { StatusEffectChance } from './status-effects.js';
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -24,6 +28,33 @@ export interface ProjectileStyle {
   height: number;
 }
 
+/** Area damage dealt when a projectile detonates. */
+export interface ExplosionDef {
+  /** Blast radius (pixels). */
+  radius: number;
+  /** Damage multiplier at the edge of the blast (1 at the centre, linear between). */
+  falloff: number;
+}
+
+/**
+ * How a projectile flies and what happens when it hits. Every field is
+ * optional; an empty behaviour flies straight and stops at the first
+ * thing it touches. Behaviours combine (a bouncing, exploding shot
+ * ricochets until it runs out of bounces or meets an enemy).
+ */
+export interface ProjectileBehaviour {
+  /** Detonate on impact or at the end of its life, damaging everything in the blast. */
+  explosion?: ExplosionDef;
+  /** Enemies it passes through before stopping. */
+  pierce?: number;
+  /** How fast it turns toward the nearest enemy (radians/s). */
+  homing?: number;
+  /** Gravity scale; above 0 it flies in an arc. */
+  gravity?: number;
+  /** Times it ricochets off terrain before stopping. */
+  bounces?: number;
+}
+
 /** Complete weapon definition — stats + visuals. */
 export interface WeaponDef {
   /** Unique identifier. */
@@ -40,6 +71,10 @@ export interface WeaponDef {
   range: number;
   /** Projectile speed (m/s). */
   projectileSpeed: number;
+  /** Status effects a hit may inflict (combat/status-effects.ts). */
+  effects?: readonly StatusEffectChance[];
+  /** How its projectiles fly and hit (default: straight, stopping at the first hit). */
+  behaviour?: ProjectileBehaviour;
   /** Visual style for projectile rendering. */
   style: ProjectileStyle;
 }
@@ -51,9 +86,9 @@ export interface WeaponDef {
 /**
  * Master registry of all weapons, keyed by WeaponId.
  *
- * Laser  — balanced default; cyan projectiles.
- * Rockets — slow, heavy hitters; orange/red projectiles.
- * Plasma — rapid-fire, short-range; purple projectiles.
+ * Laser  — balanced default, sometimes slows; cyan projectiles.
+ * Rockets — slow, explosive heavy hitters that set targets burning; orange/red projectiles.
+ * Plasma — rapid-fire, short-range, piercing shots that shock through armor; purple projectiles.
  */
 export const WEAPON_DEFS: Record<WeaponId, WeaponDef> = {
   laser: {
@@ -64,6 +99,7 @@ export const WEAPON_DEFS: Record<WeaponId, WeaponDef> = {
     fireRate: 3,
     range: 400,
     projectileSpeed: 15,
+    effects: [{ effect: 'slow', chance: 0.2 }],
     style: {
       coreColor: 0x00ffff,
       glowColor: 0x00aaff,
@@ -79,6 +115,8 @@ export const WEAPON_DEFS: Record<WeaponId, WeaponDef> = {
     fireRate: 1,
     range: 500,
     projectileSpeed: 8,
+    effects: [{ effect: 'burn', chance: 1 }],
+    behaviour: { explosion: { radius: 60, falloff: 0.35 } },
     style: {
       coreColor: 0xff6600,
       glowColor: 0xff3300,
@@ -94,6 +132,8 @@ export const WEAPON_DEFS: Record<WeaponId, WeaponDef> = {
     fireRate: 6,
     range: 250,
     projectileSpeed: 20,
+    effects: [{ effect: 'shock', chance: 0.3 }],
+    behaviour: { pierce: 2 },
     style: {
       coreColor: 0xcc44ff,
       glowColor: 0x8800cc,
@@ -0,0 +1,22 @@
+/**
+ * BehaviourTreeComponent – which behaviour tree an entity runs, and the
+ * Blackboard holding its per-entity tree state.
+ *
+ * Ticked by EnemyAISystem; trees are declared in ai/enemy-trees.ts.
+ */
+
+import type { Component } from '../core/types.js';
+import { Blackboard } from '../ai/blackboard.js';
+
+export interface BehaviourTreeComponent extends Component {
+  readonly type: 'behaviourTree';
+  /** Id of the tree to run. */
+  treeId: string;
+  /** This entity's tree state and shared values. */
+  readonly blackboard: Blackboard;
+}
+
+/** Create a BehaviourTreeComponent with a fresh blackboard. */
+export function createBehaviourTree(treeId: string): BehaviourTreeComponent {
+  return { type: 'behaviourTree', treeId, blackboard: new Blackboard() };
+}
@@ -0,0 +1,27 @@
+/**
+ * BossPartComponent – marks a destructible piece of a boss
+ * (combat/boss-parts.ts): a turret, plate or launcher with its own
+ * hitbox and HealthComponent, riding along on the boss.
+ *
+ * BossPartSystem keeps it on its boss and breaks it when its health
+ * runs out; ProjectileSystem damages it like an enemy.
+ */
+
+import type { Component, Entity } from '../core/types.js';
+import type { BossPartDef } from '../combat/boss-parts.js';
+
+export interface BossPartComponent extends Component {
+  readonly type: 'bossPart';
+  /** The boss it belongs to. */
+  readonly boss: Entity;
+  readonly def: BossPartDef;
+}
+
+/**
+ * Create a BossPartComponent.
+ * @param boss - the boss entity it rides on
+ * @param def  - the part in the boss's pattern
+ */
+export function createBossPart(boss: Entity, def: BossPartDef): BossPartComponent {
+  return { type: 'bossPart', boss, def };
+}
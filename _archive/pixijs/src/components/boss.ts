@@ -1,64 +1,80 @@
 /**
- * BossComponent — phase-based attack state machine for boss entities.
+ * BossComponent — where a boss is in its pattern (combat/boss-pattern.ts):
+ * phase, running step and timers, and which of its parts are still
+ * standing. BossAISystem interprets the pattern.
  * Separate from EnemyComponent; boss entities have BOTH components.
  */
 
-import type { Component } from '../core/types.js';
-
-/** Boss attack phases, driven by HP thresholds. */
-export type BossPhase = 1 | 2 | 3;
-
-/**
- * Boss AI states:
- * - 'patrol': slow back-and-forth across arena
- * - 'windup': pausing before charge (visual flash)
- * - 'charging': high-speed horizontal dash
- * - 'laser': firing horizontal laser sweep (Phase 2+)
- * - 'cooldown': brief recovery after attack
- */
-export type BossAttackState =
-  | 'patrol' | 'windup' | 'charging' | 'laser' | 'cooldown';
+import type { Component, Entity } from '../core/types.js';
+import type { BossId } from '../combat/boss-defs.js';
+import type { BossPhaseDef, BossStep, BossStepKind } from '../combat/boss-pattern.js';
+import type { BossArenaDef } from '../level/level-data.js';
 
 export interface BossComponent extends Component {
   readonly type: 'boss';
-  /** Current phase (1, 2, or 3). */
-  phase: BossPhase;
-  /** Current attack state. */
-  attackState: BossAttackState;
-  /** General-purpose timer for current state duration (seconds). */
+  /** Which pattern drives it. */
+  readonly bossId: BossId;
+  /** Current phase, counting from 1. */
+  phase: number;
+  /** Kind of step running now (patrol, telegraph, charge, ...). */
+  attackState: BossStepKind;
+  /** The step running now. */
+  step: BossStep;
+  /**
+   * Index of `step` in the current phase's sequence; -1 while finishing
+   * a step the phase doesn't have (after a phase change).
+   */
+  stepIndex: number;
+  /** Time left in the current step (seconds). */
   stateTimer: number;
-  /** Time spent patrolling before next attack (seconds). */
-  patrolTimer: number;
-  /** Direction of current charge: -1 = left, 1 = right. */
-  chargeDirection: -1 | 1;
+  /** Whether the step's one-off action (e.g. firing the laser) has happened. */
+  stepActed: boolean;
+  /**
+   * Where the step is headed: the dive target as [x, y], or the spots a
+   * hazard step marked and has yet to strike (pixels).
+   */
+  targets: number[];
+  /** Direction the boss faces: -1 = left, 1 = right. Set as a patrol ends. */
+  facing: -1 | 1;
   /** Left edge of the boss arena (pixels). */
   arenaMinX: number;
   /** Right edge of the boss arena (pixels). */
   arenaMaxX: number;
+  /** Arena spawn line, just above the floor (pixels). */
+  arenaY: number;
   /** Whether the boss has been activated (player crossed trigger). */
   activated: boolean;
-  /** Whether the laser has been fired in the current laser state. */
-  laserFired: boolean;
-  /** Time until next minion spawn in Phase 3 (seconds). */
+  /** Time until the phase's next minion wave (seconds). */
   minionSpawnTimer: number;
+  /**
+   * Part entities still standing, by part id (combat/boss-parts.ts).
+   * Filled in by the boss factory; BossPartSystem removes broken ones.
+   */
+  parts: Map<string, Entity>;
 }
 
-/** Create a BossComponent with default values. */
-export function createBoss(
-  arenaMinX: number,
-  arenaMaxX: number,
-): BossComponent {
+/**
+ * Create a BossComponent at the start of its pattern's first phase.
+ * @param first - phase 1 of the boss's pattern
+ */
+export function createBoss(bossId: BossId, first: BossPhaseDef, arena: BossArenaDef): BossComponent {
+  const step = first.sequence[0];
   return {
     type: 'boss',
+    bossId,
     phase: 1,
-    attackState: 'patrol',
-    stateTimer: 0,
-    patrolTimer: 3.0,
-    chargeDirection: -1,
-    arenaMinX,
-    arenaMaxX,
+    attackState: step.kind,
+    step,
+    stepIndex: 0,
+    stateTimer: step.duration,
+    stepActed: false,
+    targets: [],
+    facing: -1,
+    arenaMinX: arena.minX,
+    arenaMaxX: arena.maxX,
+    arenaY: arena.y,
     activated: false,
-    laserFired: false,
-    minionSpawnTimer: 8.0,
+    minionSpawnTimer: first.minions?.interval ?? 0,
+    parts: new Map(),
   };
 }
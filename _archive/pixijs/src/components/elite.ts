@@ -0,0 +1,42 @@
+/**
+ * EliteComponent – marks an enemy promoted by elite affixes
+ * (combat/elite-affixes.ts).
+ *
+ * Stat changes are baked into its Health/Enemy components at spawn;
+ * this keeps the affix list for the behaviours that act later
+ * (EliteSystem, ProjectileSystem) and for EffectsSystem's glow.
+ */
+
+import type { Component } from '../core/types.js';
+import type { AffixId } from '../combat/elite-affixes.js';
+
+export interface EliteComponent extends Component {
+  readonly type: 'elite';
+  readonly affixes: readonly AffixId[];
+  /** Seconds since it last lost health (regenerating). */
+  sinceDamaged: number;
+  /** Health seen last tick, to notice damage. */
+  lastHealth: number;
+  /** Whether its death has already been handled (splitting). */
+  deathHandled: boolean;
+}
+
+/**
+ * Create an EliteComponent.
+ * @param affixes - the enemy's affixes (at least one)
+ * @param health  - its starting health
+ */
+export function createElite(affixes: readonly AffixId[], health: number): EliteComponent {
+  return {
+    type: 'elite',
+    affixes,
+    sinceDamaged: 0,
+    lastHealth: health,
+    deathHandled: false,
+  };
+}
+
+/** Whether an elite has the given affix. */
+export function hasAffix(elite: EliteComponent | undefined, id: AffixId): boolean {
+  return elite !== undefined && elite.affixes.includes(id);
+}
@@ -1,28 +1,36 @@
 /**
  * EnemyComponent – AI state for hostile entities.
  *
- * Each enemy has a type identifier, a simple state machine, patrol
- * direction, and combat parameters read by the enemy AI system.
+ * Each enemy has a behaviour id, its current high-level state, patrol
+ * setup, and combat parameters. Behaviour-specific scratch state (timers,
+ * shield facing) lives on the entity's behaviour-tree blackboard.
  */
 
 import type { Component } from '../core/types.js';
+import type { PerceptionDef } from '../ai/perception.js';
+import { DEFAULT_PERCEPTION } from '../ai/perception.js';
 
-/** Broad categories of enemy behaviour. */
+/** Enemy AI behaviours (one behaviour tree each, see ai/enemy-trees.ts). */
 export type EnemyType =
   | 'walker' | 'flyer' | 'turret'
   | 'sentry' | 'crawler' | 'shielder'
   | 'phantom';
 
 /** High-level AI state. */
-export type EnemyState = 'idle' | 'patrolling' | 'chasing' | 'attacking' | 'dead';
+export type EnemyState =
+  | 'idle' | 'patrolling' | 'chasing' | 'investigating' | 'attacking' | 'dead';
 
 /** -1 = moving left, 1 = moving right. */
 export type PatrolDirection = -1 | 1;
 
 export interface EnemyComponent extends Component {
   readonly type: 'enemy';
-  /** What kind of enemy this is. */
+  /** Which AI behaviour drives this enemy. */
   enemyType: EnemyType;
+  /** Id of the enemy definition it was built from (combat/enemy-defs.json). */
+  defId: string;
+  /** Scrap awarded when it is killed. */
+  scrapReward: number;
   /** Current horizontal patrol direction. */
   patrolDirection: PatrolDirection;
   /** Maximum patrol distance from origin before reversing (pixels). */
@@ -31,25 +39,28 @@ export interface EnemyComponent extends Component {
   patrolOriginX: number;
   /** Y coordinate where the enemy was spawned (pixels). Used by sentry orbit. */
   patrolOriginY: number;
-  /** General-purpose timer for sentry dash cooldown, crawler drop delay, etc. */
-  actionTimer: number;
   /** Damage dealt on contact with the player. */
   contactDamage: number;
+  /** Multiplier on behaviour-tree movement speeds (elite 'fast' affix). */
+  speedMultiplier: number;
   /** Distance at which the enemy notices the player (pixels). */
   detectionRange: number;
-  /** Current AI state. */
+  /** How it senses the player (ai/perception.ts). */
+  perception: PerceptionDef;
+  /** Encounter that spawned it (systems/encounter-system.ts), or null for level spawns. */
+  encounterId: string | null;
+  /** Current AI state, reported by the running behaviour-tree leaf. */
   state: EnemyState;
-  /** Shield facing direction for shielders: -1 = left, 1 = right. */
-  shieldDirection: PatrolDirection;
 }
 
 /** Options for createEnemy beyond the required fields. */
 interface EnemyOptions {
+  defId?: string;
+  scrapReward?: number;
   patrolDistance?: number;
   patrolOriginX?: number;
   patrolOriginY?: number;
-  actionTimer?: number;
-  shieldDirection?: PatrolDirection;
+  perception?: PerceptionDef;
 }
 
 /** Create an EnemyComponent with sensible defaults for optional fields. */
@@ -62,14 +73,17 @@ export function createEnemy(
   return {
     type: 'enemy',
     enemyType,
+    defId: opts.defId ?? enemyType,
+    scrapReward: opts.scrapReward ?? 5,
     patrolDirection: 1,
     patrolDistance: opts.patrolDistance ?? 100,
     patrolOriginX: opts.patrolOriginX ?? 0,
     patrolOriginY: opts.patrolOriginY ?? 0,
-    actionTimer: opts.actionTimer ?? 0,
     contactDamage,
+    speedMultiplier: 1,
     detectionRange,
+    perception: opts.perception ?? DEFAULT_PERCEPTION,
+    encounterId: null,
     state: 'patrolling',
-    shieldDirection: opts.shieldDirection ?? 1,
   };
 }
@@ -9,7 +9,9 @@
 // Re-exports
 // ---------------------------------------------------------------------------
 
-export { type TransformComponent, createTransform } from './transform.js';
+export {
+  type TransformComponent, createTransform, interpolatePosition,
+} from './transform.js';
 export { type VelocityComponent, createVelocity } from './velocity.js';
 export { type SpriteComponent, createSprite } from './sprite.js';
 export {
@@ -44,12 +46,19 @@ export {
   type AnimationData,
   createAnimationState,
 } from './animation-state.js';
+export {
+  type BehaviourTreeComponent,
+  createBehaviourTree,
+} from './behaviour-tree.js';
+export { type NavAgentComponent, createNavAgent } from './nav-agent.js';
+export { type EliteComponent, createElite, hasAffix } from './elite.js';
+export { type PickupComponent, createPickup } from './pickup.js';
+export { type StatusEffectsComponent, createStatusEffects } from './status-effects.js';
 export {
   type BossComponent,
-  type BossPhase,
-  type BossAttackState,
   createBoss,
 } from './boss.js';
+export { type BossPartComponent, createBossPart } from './boss-part.js';
 
 // ---------------------------------------------------------------------------
 // ComponentMap – type-safe mapping from component type string to interface
@@ -67,6 +76,12 @@ import type { EnemyComponent } from './enemy.js';
 import type { ProjectileComponent } from './projectile.js';
 import type { AnimationStateComponent } from './animation-state.js';
 import type { BossComponent } from './boss.js';
+import type { BossPartComponent } from './boss-part.js';
+import type { BehaviourTreeComponent } from './behaviour-tree.js';
+import type { NavAgentComponent } from './nav-agent.js';
+import type { EliteComponent } from './elite.js';
+import type { PickupComponent } from './pickup.js';
+import type { StatusEffectsComponent } from './status-effects.js';
 
 /**
  * Maps each ComponentType string literal to its concrete interface.
@@ -92,4 +107,10 @@ export interface ComponentMap {
   projectile: ProjectileComponent;
   animationState: AnimationStateComponent;
   boss: BossComponent;
+  bossPart: BossPartComponent;
+  behaviourTree: BehaviourTreeComponent;
+  navAgent: NavAgentComponent;
+  elite: EliteComponent;
+  pickup: PickupComponent;
+  statusEffects: StatusEffectsComponent;
 }
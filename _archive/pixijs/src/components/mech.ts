@@ -1,9 +1,10 @@
 /**
  * MechComponent – state for the mech companion that orbits the player.
  *
- * The mech has two modes:
+ * The mech has two modes (toggled with Action.ToggleMech):
  * - **orbit** – circles the player, auto-fires at nearby enemies.
- * - **manual** – player takes direct control of the mech's aim.
+ * - **manual** – hovers beside the player, who aims with the mouse or
+ *   right stick and fires with Action.Fire.
  */
 
 import type { Component, Entity } from '../core/types.js';
@@ -23,6 +24,8 @@ export interface MechComponent extends Component {
   orbitRadius: number;
   /** Angular speed (radians / second). */
   orbitSpeed: number;
+  /** Manual-mode aim direction (radians, 0 = right, y down). */
+  aimAngle: number;
 }
 
 /**
@@ -43,5 +46,6 @@ export function createMech(
     orbitAngle: 0,
     orbitRadius,
     orbitSpeed,
+    aimAngle: 0,
   };
 }
@@ -0,0 +1,44 @@
+/**
+ * NavAgentComponent – lets an enemy find its way around terrain on the
+ * level's nav graphs (nav/pathfinder.ts).
+ *
+ * Holds the path it is following and the request for its next one;
+ * ai/enemy-navigation.ts plans, re-plans and steers along it.
+ */
+
+import type { Component } from '../core/types.js';
+import type { NavMode, NavPath, PathRequest } from '../nav/pathfinder.js';
+
+export interface NavAgentComponent extends Component {
+  readonly type: 'navAgent';
+  /** Walk (with jumps) or fly. */
+  readonly mode: NavMode;
+  /** Path being followed, or null before the first plan. */
+  path: NavPath | null;
+  /** Index of the waypoint being steered to. */
+  waypoint: number;
+  /** Path query in flight, if any. */
+  request: PathRequest | null;
+  /** Goal (pixels) of the current path or request. */
+  goalX: number;
+  goalY: number;
+  /** AI time (s) the current path was asked for; drives periodic re-planning. */
+  plannedAt: number;
+  /** Waypoint index the agent last jumped for (one jump per link). */
+  jumpedFor: number;
+}
+
+/** Create a NavAgentComponent with no path yet. */
+export function createNavAgent(mode: NavMode): NavAgentComponent {
+  return {
+    type: 'navAgent',
+    mode,
+    path: null,
+    waypoint: 0,
+    request: null,
+    goalX: 0,
+    goalY: 0,
+    plannedAt: -Infinity,
+    jumpedFor: -1,
+  };
+}
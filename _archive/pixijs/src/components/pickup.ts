@@ -0,0 +1,31 @@
+/**
+ * PickupComponent – an item lying in the level (scrap, health orb,
+ * consumable) waiting to be collected.
+ *
+ * PickupSystem counts down its lifetime, pulls it toward a nearby
+ * player or mech and applies it when collected.
+ */
+
+import type { Component } from '../core/types.js';
+import type { PickupKind } from '../combat/loot.js';
+
+export interface PickupComponent extends Component {
+  readonly type: 'pickup';
+  readonly kind: PickupKind;
+  /** Scrap or hit points it gives (1 for consumables). */
+  readonly amount: number;
+  /** Seconds left before it despawns. */
+  lifetime: number;
+  /** Whether it is being pulled toward a collector (stays on once set). */
+  magnetized: boolean;
+}
+
+/**
+ * Create a PickupComponent.
+ * @param kind     - what it gives
+ * @param amount   - how much of it
+ * @param lifetime - seconds before it despawns
+ */
+export function createPickup(kind: PickupKind, amount: number, lifetime: number): PickupComponent {
+  return { type: 'pickup', kind, amount, lifetime, magnetized: false };
+}
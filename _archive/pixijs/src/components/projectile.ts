@@ -2,10 +2,13 @@
  * ProjectileComponent – marks an entity as a projectile (laser bolt, etc.).
  *
  * The projectile system decrements `lifetime` each frame and destroys
- * the entity when it reaches zero or on collision.
+ * the entity when it reaches zero or on collision – unless its
+ * behaviour lets it pierce an enemy or ricochet off a wall.
  */
 
 import type { Component, Entity } from '../core/types.js';
+import type { StatusEffectChance } from '../combat/status-effects.js';
+import type { ProjectileBehaviour } from '../combat/weapon-defs.js';
 
 export interface ProjectileComponent extends Component {
   readonly type: 'projectile';
@@ -19,6 +22,14 @@ export interface ProjectileComponent extends Component {
   speed: number;
   /** Optional glow colour for the GlowFilter (hex). Falls back to yellow. */
   glowColor?: number;
+  /** Status effects the hit may inflict on an enemy. */
+  effects: readonly StatusEffectChance[];
+  /** How it flies and hits (see combat/weapon-defs.ts). */
+  readonly behaviour: ProjectileBehaviour;
+  /** Enemies it can still pass through. */
+  pierceLeft: number;
+  /** Terrain ricochets it has left. */
+  bouncesLeft: number;
 }
 
 /**
@@ -28,6 +39,8 @@ export interface ProjectileComponent extends Component {
  * @param lifetime    – seconds before auto-despawn
  * @param speed       – travel speed (m/s)
  * @param glowColor   – optional glow colour for the GlowFilter (hex)
+ * @param effects     – status effects the hit may inflict
+ * @param behaviour   – flight and impact behaviour
  */
 export function createProjectile(
   damage: number,
@@ -35,6 +48,12 @@ export function createProjectile(
   lifetime: number,
   speed: number,
   glowColor?: number,
+  effects: readonly StatusEffectChance[] = [],
+  behaviour: ProjectileBehaviour = {},
 ): ProjectileComponent {
-  return { type: 'projectile', damage, ownerEntity, lifetime, speed, glowColor };
+  return {
+    type: 'projectile', damage, ownerEntity, lifetime, speed, glowColor, effects, behaviour,
+    pierceLeft: behaviour.pierce ?? 0,
+    bouncesLeft: behaviour.bounces ?? 0,
+  };
 }
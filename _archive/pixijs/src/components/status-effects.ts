@@ -0,0 +1,23 @@
+/**
+ * StatusEffectsComponent – the burns, freezes, shocks and slows on an
+ * entity (see combat/status-effects.ts), and the ones it is immune to.
+ */
+
+import type { Component } from '../core/types.js';
+import type { ActiveStatusEffect, StatusEffectId } from '../combat/status-effects.js';
+
+export interface StatusEffectsComponent extends Component {
+  readonly type: 'statusEffects';
+  /** Effects that never take hold. */
+  readonly immune: readonly StatusEffectId[];
+  /** Effects currently running, one entry per effect id. */
+  active: ActiveStatusEffect[];
+}
+
+/**
+ * Create a StatusEffectsComponent with nothing active.
+ * @param immune - effects it can't be given
+ */
+export function createStatusEffects(immune: readonly StatusEffectId[] = []): StatusEffectsComponent {
+  return { type: 'statusEffects', immune, active: [] };
+}
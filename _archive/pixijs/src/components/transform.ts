@@ -3,6 +3,9 @@
  *
  * Coordinates are in **pixels** (not physics metres).
  * Rotation is in **radians**, clockwise-positive in screen space.
+ *
+ * The prev* fields hold the pose at the start of the current fixed tick,
+ * so renderers can interpolate between ticks for smooth motion.
  */
 
 import type { Component } from '../core/types.js';
@@ -19,6 +22,12 @@ export interface TransformComponent extends Component {
   scaleX: number;
   /** Vertical scale factor (1 = normal). */
   scaleY: number;
+  /** x at the start of the current tick (pixels). */
+  prevX: number;
+  /** y at the start of the current tick (pixels). */
+  prevY: number;
+  /** rotation at the start of the current tick (radians). */
+  prevRotation: number;
 }
 
 /**
@@ -36,5 +45,24 @@ export function createTransform(
   scaleX = 1,
   scaleY = 1,
 ): TransformComponent {
-  return { type: 'transform', x, y, rotation, scaleX, scaleY };
+  return {
+    type: 'transform', x, y, rotation, scaleX, scaleY,
+    prevX: x, prevY: y, prevRotation: rotation,
+  };
+}
+
+/**
+ * Render position between the previous and current tick.
+ * @param t     - the transform to sample
+ * @param alpha - interpolation factor (0 = prev tick, 1 = current tick)
+ */
+export function interpolatePosition(
+  t: TransformComponent,
+  alpha: number,
+): { x: number; y: number; rotation: number } {
+  return {
+    x: t.prevX + (t.x - t.prevX) * alpha,
+    y: t.prevY + (t.y - t.prevY) * alpha,
+    rotation: t.prevRotation + (t.rotation - t.prevRotation) * alpha,
+  };
 }
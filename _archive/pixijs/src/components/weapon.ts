@@ -6,7 +6,9 @@
  */
 
 import type { Component } from '../core/types.js';
-import type { WeaponId } from '../combat/weapon-defs.js';
+import type { ProjectileBehaviour, WeaponId } from '../combat/weapon-defs.js';
+import type { StatusEffectChance } from '../combat/status-effects.js';
+import type { SynergyId } from '../combat/synergy-defs.js';
 
 export interface WeaponComponent extends Component {
   readonly type: 'weapon';
@@ -25,6 +27,14 @@ export interface WeaponComponent extends Component {
   range: number;
   /** Projectile speed (m/s). */
   projectileSpeed: number;
+  /** Projectiles fired per shot, fanned around the aim. */
+  projectileCount: number;
+  /** How its projectiles fly and hit. */
+  behaviour: ProjectileBehaviour;
+  /** Status effects its hits may inflict. */
+  effects: readonly StatusEffectChance[];
+  /** Synergies whose bonuses are folded into these stats (SynergySystem). */
+  synergies: readonly SynergyId[];
 }
 
 /**
@@ -34,6 +44,9 @@ export interface WeaponComponent extends Component {
  * @param fireRate        – shots per second
  * @param range           – max travel distance (pixels)
  * @param projectileSpeed – projectile speed (m/s)
+ * @param projectileCount – projectiles per shot
+ * @param behaviour       – projectile flight and impact behaviour
+ * @param effects         – status effects a hit may inflict
  */
 export function createWeapon(
   weaponId: WeaponId,
@@ -41,6 +54,9 @@ export function createWeapon(
   fireRate: number,
   range: number,
   projectileSpeed: number,
+  projectileCount = 1,
+  behaviour: ProjectileBehaviour = {},
+  effects: readonly StatusEffectChance[] = [],
 ): WeaponComponent {
   return {
     type: 'weapon',
@@ -50,5 +66,9 @@ export function createWeapon(
     cooldownTimer: 0,
     range,
     projectileSpeed,
+    projectileCount,
+    behaviour,
+    effects,
+    synergies: [],
   };
 }
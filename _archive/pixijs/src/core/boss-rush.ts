@@ -0,0 +1,102 @@
+/**
+ * BossRushRun — one boss rush: every boss (ALL_BOSS_IDS) fought
+ * back-to-back in arena-only levels (level/boss-rush-arenas.ts).
+ *
+ * Game hands the run each fight's victory instead of returning to the
+ * hub. The run banks the fight's clear time and says whether another
+ * arena follows. The player's health carries over between fights,
+ * topped up by BETWEEN_FIGHT_HEAL. A death ends the run as failed.
+ *
+ * The total clear time is the sum of the fights' times (arrival to the
+ * boss's death), so warps and victory pauses don't count against it.
+ */
+
+import type { Entity } from './types.js';
+import type { World } from './world.js';
+import type { LevelData } from '../level/level-data.js';
+import type { VictoryCallbackStats } from '../systems/level-complete-system.js';
+import { ALL_BOSS_IDS, getBossDef } from '../combat/boss-defs.js';
+import { createBossRushArena } from '../level/boss-rush-arenas.js';
+
+/** Share of max health restored between fights (0.5 = half). */
+const BETWEEN_FIGHT_HEAL = 0.5;
+
+/** One won fight. */
+export interface BossRushSplit {
+  bossName: string;
+  /** Time from arriving in the arena to the boss's death (seconds). */
+  timeSeconds: number;
+}
+
+/** How a rush went, for the summary screen. */
+export interface BossRushResult {
+  /** Whether every boss was beaten. */
+  cleared: boolean;
+  /** Fights won, in order. */
+  splits: readonly BossRushSplit[];
+  /** Fights in a full rush. */
+  totalFights: number;
+  /** Sum of the splits (seconds). */
+  totalSeconds: number;
+  /** Personal best before this run (seconds), if any. */
+  previousBest: number | null;
+  /** Whether this run cleared faster than the previous best. */
+  newBest: boolean;
+}
+
+export class BossRushRun {
+  private readonly previousBest: number | null;
+  private readonly splits: BossRushSplit[] = [];
+  /** Health the player ended the last fight on; null before the first. */
+  private carriedHealth: number | null = null;
+
+  /** @param previousBest - the player's best clear so far (seconds) */
+  constructor(previousBest: number | null) {
+    this.previousBest = previousBest;
+  }
+
+  /** Arena of the fight to play next. */
+  get arena(): LevelData {
+    const round = this.splits.length;
+    return createBossRushArena(ALL_BOSS_IDS[round], round + 1, ALL_BOSS_IDS.length);
+  }
+
+  /**
+   * Set the freshly spawned player's health for this fight: what the
+   * last fight left, plus the heal. The first fight starts at full.
+   */
+  preparePlayer(world: World, player: Entity): void {
+    const health = world.getComponent(player, 'health');
+    if (!health || this.carriedHealth === null) return;
+    health.current = Math.min(health.max, this.carriedHealth + health.max * BETWEEN_FIGHT_HEAL);
+  }
+
+  /**
+   * Bank a won fight, with the health the player ends it on.
+   * @returns true if another fight follows, false once the rush is cleared
+   */
+  fightWon(world: World, stats: VictoryCallbackStats): boolean {
+    const bossId = ALL_BOSS_IDS[this.splits.length];
+    this.splits.push({ bossName: getBossDef(bossId).name, timeSeconds: stats.timeSeconds });
+
+    const [player] = world.query('player', 'health');
+    const health = player !== undefined ? world.getComponent(player, 'health') : undefined;
+    this.carriedHealth = health?.current ?? null;
+
+    return this.splits.length < ALL_BOSS_IDS.length;
+  }
+
+  /** The run's result so far; a run that ends before clearing failed. */
+  result(): BossRushResult {
+    const cleared = this.splits.length === ALL_BOSS_IDS.length;
+    const totalSeconds = this.splits.reduce((sum, split) => sum + split.timeSeconds, 0);
+    return {
+      cleared,
+      splits: [...this.splits],
+      totalFights: ALL_BOSS_IDS.length,
+      totalSeconds,
+      previousBest: this.previousBest,
+      newBest: cleared && (this.previousBest === null || totalSeconds < this.previousBest),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * CollisionEvents – Rapier collision events resolved to ECS entities.
+ *
+ * PhysicsSystem drains Rapier's EventQueue after every step and records
+ * the result here, so gameplay systems deal in entities, never collider
+ * handles. Two views are kept:
+ *   - started:  pairs that began touching / overlapping this tick
+ *               (projectile hits)
+ *   - touching: pairs currently in contact (ongoing contact damage)
+ *
+ * Only colliders on a layer with events enabled produce events, and
+ * the layers' interaction groups decide which pairs are tested at all
+ * (see collision-layers.ts).
+ */
+
+import type { Entity } from './types.js';
+
+/** Two entities whose colliders began touching. Order is arbitrary. */
+export interface CollisionPair {
+  readonly a: Entity;
+  readonly b: Entity;
+}
+
+/** No contacts: returned for entities that touch nothing. */
+const NO_CONTACTS: ReadonlySet<Entity> = new Set<Entity>();
+
+export class CollisionEvents {
+  /** Pairs that started touching during the latest step. */
+  private startedPairs: CollisionPair[] = [];
+
+  /** Entity -> entities it is currently touching (kept symmetric). */
+  private readonly contacts = new Map<Entity, Set<Entity>>();
+
+  /** Pairs that started touching during the latest physics step. */
+  get started(): readonly CollisionPair[] {
+    return this.startedPairs;
+  }
+
+  /** Entities currently touching `entity`. */
+  touching(entity: Entity): ReadonlySet<Entity> {
+    return this.contacts.get(entity) ?? NO_CONTACTS;
+  }
+
+  /** Drop last step's `started` list. Called before each step's events. */
+  beginStep(): void {
+    this.startedPairs = [];
+  }
+
+  /**
+   * Record one event from Rapier.
+   * @param started - true when contact began, false when it ended
+   */
+  record(a: Entity, b: Entity, started: boolean): void {
+    if (a === b) return;
+    if (started) {
+      this.startedPairs.push({ a, b });
+      this.link(a, b);
+      this.link(b, a);
+    } else {
+      this.contacts.get(a)?.delete(b);
+      this.contacts.get(b)?.delete(a);
+    }
+  }
+
+  /**
+   * Forget every contact involving `entity`. Called when it is destroyed,
+   * since its colliders' stop events can no longer be resolved.
+   */
+  forget(entity: Entity): void {
+    const others = this.contacts.get(entity);
+    if (!others) return;
+    for (const other of others) this.contacts.get(other)?.delete(entity);
+    this.contacts.delete(entity);
+  }
+
+  private link(from: Entity, to: Entity): void {
+    let set = this.contacts.get(from);
+    if (!set) {
+      set = new Set<Entity>();
+      this.contacts.set(from, set);
+    }
+    set.add(to);
+  }
+}
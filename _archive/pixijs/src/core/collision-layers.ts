@@ -0,0 +1,171 @@
+/**
+ * Collision layers – the registry every collider is created from.
+ *
+ * Each collider belongs to exactly one named layer. A layer lists the
+ * layers it collides with, whether its colliders are sensors (overlap
+ * events, no physical response) and whether they report collision
+ * events. From that the registry builds Rapier interaction groups:
+ * membership is the layer's own bit, the filter is every layer it
+ * interacts with. Interactions are symmetric, so a pair only has to be
+ * listed on one side.
+ *
+ * Factories call `withCollisionLayer(desc, layer)` instead of setting
+ * groups, sensor flags or active events by hand; the debug renderer
+ * reads the layer back from a collider's groups to colour it.
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+
+// ---------------------------------------------------------------------------
+// Layers
+// ---------------------------------------------------------------------------
+
+export type CollisionLayer =
+  | 'terrain'
+  | 'player'
+  | 'mech'
+  | 'enemy'
+  | 'playerProjectile'
+  | 'enemyProjectile'
+  | 'pickup'
+  | 'trigger'
+  | 'loot';
+
+/** Every layer. Index = bit position in the interaction groups. */
+export const ALL_COLLISION_LAYERS: readonly CollisionLayer[] = [
+  'terrain',
+  'player',
+  'mech',
+  'enemy',
+  'playerProjectile',
+  'enemyProjectile',
+  'pickup',
+  'trigger',
+  'loot',
+];
+
+/** How colliders on one layer behave. */
+export interface CollisionLayerDef {
+  /** Layers this one collides / overlaps with (symmetric). */
+  collidesWith: readonly CollisionLayer[];
+  /** Colliders are sensors: overlap events only, never pushed. */
+  sensor: boolean;
+  /** Colliders report collision events to the EventQueue. */
+  events: boolean;
+  /** Outline colour in the debug renderer. */
+  debugColour: number;
+}
+
+/**
+ * The layer table. Enemies don't collide with each other, and B3ANS
+ * (mech) has no collider yet, so its layer only meets terrain. A
+ * dropped pickup has two colliders: a solid 'loot' one that bounces on
+ * terrain and a 'pickup' sensor the player collects it through.
+ */
+export const COLLISION_LAYERS: Readonly<Record<CollisionLayer, CollisionLayerDef>> = {
+  terrain: {
+    collidesWith: ['player', 'mech', 'enemy', 'playerProjectile', 'enemyProjectile'],
+    sensor: false, events: false, debugColour: 0x00ff00,
+  },
+  player: {
+    collidesWith: ['terrain', 'enemy', 'enemyProjectile', 'pickup', 'trigger'],
+    sensor: false, events: true, debugColour: 0x44aaff,
+  },
+  mech: {
+    collidesWith: ['terrain'],
+    sensor: false, events: false, debugColour: 0xaaaaff,
+  },
+  enemy: {
+    collidesWith: ['terrain', 'player', 'playerProjectile'],
+    sensor: false, events: false, debugColour: 0xff4444,
+  },
+  playerProjectile: {
+    collidesWith: ['terrain', 'enemy'],
+    sensor: true, events: true, debugColour: 0xffff00,
+  },
+  enemyProjectile: {
+    collidesWith: ['terrain', 'player'],
+    sensor: true, events: true, debugColour: 0xff8800,
+  },
+  pickup: {
+    collidesWith: ['player'],
+    sensor: true, events: true, debugColour: 0xffcc00,
+  },
+  trigger: {
+    collidesWith: ['player'],
+    sensor: true, events: true, debugColour: 0xff00ff,
+  },
+  loot: {
+    collidesWith: ['terrain'],
+    sensor: false, events: false, debugColour: 0xaa8800,
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Interaction groups
+// ---------------------------------------------------------------------------
+
+/** Options for collisionGroups() / withCollisionLayer(). */
+export interface CollisionLayerOptions {
+  /** Layers to leave out of this collider's filter (one-off exceptions). */
+  ignore?: readonly CollisionLayer[];
+}
+
+/** Membership bit of a layer. */
+export function layerBit(layer: CollisionLayer): number {
+  return 1 << ALL_COLLISION_LAYERS.indexOf(layer);
+}
+
+/** Filter bits: every layer that interacts with `layer`, either way round. */
+function layerFilter(layer: CollisionLayer): number {
+  let filter = 0;
+  for (const other of ALL_COLLISION_LAYERS) {
+    if (
+      COLLISION_LAYERS[layer].collidesWith.includes(other)
+      || COLLISION_LAYERS[other].collidesWith.includes(layer)
+    ) {
+      filter |= layerBit(other);
+    }
+  }
+  return filter;
+}
+
+/**
+ * Rapier interaction groups for a layer: membership in the high 16
+ * bits, filter in the low 16. Also usable as a query filter, to see
+ * the world the way a collider on that layer would.
+ */
+export function collisionGroups(
+  layer: CollisionLayer,
+  options: CollisionLayerOptions = {},
+): number {
+  let filter = layerFilter(layer);
+  for (const ignored of options.ignore ?? []) filter &= ~layerBit(ignored);
+  return ((layerBit(layer) << 16) | filter) >>> 0;
+}
+
+/**
+ * Put a collider description on a layer: sets its interaction groups,
+ * sensor flag and collision events from the registry.
+ *
+ * @returns the same description, for chaining
+ */
+export function withCollisionLayer(
+  desc: RAPIER.ColliderDesc,
+  layer: CollisionLayer,
+  options: CollisionLayerOptions = {},
+): RAPIER.ColliderDesc {
+  const def = COLLISION_LAYERS[layer];
+  desc.setCollisionGroups(collisionGroups(layer, options)).setSensor(def.sensor);
+  if (def.events) desc.setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+  return desc;
+}
+
+/**
+ * The layer a collider was created on, from its interaction groups.
+ * @returns null for colliders made without the registry
+ */
+export function layerOfGroups(groups: number): CollisionLayer | null {
+  const membership = groups >>> 16;
+  return ALL_COLLISION_LAYERS.find((layer) => membership === layerBit(layer)) ?? null;
+}
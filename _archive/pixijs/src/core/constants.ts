@@ -5,6 +5,16 @@
  * Pixel values are explicitly labelled.
  */
 
+// ---------------------------------------------------------------------------
+// Build
+// ---------------------------------------------------------------------------
+
+/**
+ * Game version (keep in sync with package.json). Replays only play back
+ * on the exact version that recorded them.
+ */
+export const GAME_VERSION = '0.1.0';
+
 // ---------------------------------------------------------------------------
 // Rendering / Viewport
 // ---------------------------------------------------------------------------
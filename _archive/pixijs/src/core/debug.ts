@@ -3,9 +3,10 @@
  *
  * Toggle with the F1 key. Off by default.
  *
- * Colour coding:
- *   - Green  (#00ff00) = static bodies (platforms, walls)
- *   - Yellow (#ffff00) = dynamic bodies (player, projectiles, enemies)
+ * Colour coding: each collider is drawn in its collision layer's
+ * `debugColour` (see collision-layers.ts) -- terrain green, player blue,
+ * enemies red, player shots yellow, enemy shots orange, and so on.
+ * Colliders created without a layer are drawn white.
  *
  * Uses a single PixiJS Graphics object that is cleared and redrawn
  * each frame. The Graphics object is added to / removed from the
@@ -15,13 +16,11 @@
 import { Graphics, Container } from 'pixi.js';
 import type { PhysicsContext } from './physics.js';
 import { metersToPixels } from './physics.js';
+import { COLLISION_LAYERS, layerOfGroups } from './collision-layers.js';
 import RAPIER from '@dimforge/rapier2d-compat';
 
-/** Colour for static-body collider outlines (green). */
-const STATIC_COLOUR = 0x00ff00;
-
-/** Colour for dynamic/kinematic-body collider outlines (yellow). */
-const DYNAMIC_COLOUR = 0xffff00;
+/** Colour for colliders that belong to no collision layer (white). */
+const UNLAYERED_COLOUR = 0xffffff;
 
 /** Line width for debug outlines (pixels). */
 const LINE_WIDTH = 1;
@@ -104,7 +103,7 @@ export class DebugRenderer {
 
   /**
    * Draw the outline of a single Rapier collider.
-   * Determines colour from the parent body type.
+   * Determines colour from the collider's collision layer.
    */
   private drawCollider(
     physicsCtx: PhysicsContext,
@@ -116,9 +115,9 @@ export class DebugRenderer {
     const body = physicsCtx.world.getRigidBody(bodyHandle);
     if (!body) return;
 
-    // Pick colour based on body type
-    const isStatic = body.bodyType() === RAPIER.RigidBodyType.Fixed;
-    const colour = isStatic ? STATIC_COLOUR : DYNAMIC_COLOUR;
+    // Pick colour based on collision layer
+    const layer = layerOfGroups(collider.collisionGroups());
+    const colour = layer ? COLLISION_LAYERS[layer].debugColour : UNLAYERED_COLOUR;
 
     // Get collider world-space position and rotation
     const pos = collider.translation();
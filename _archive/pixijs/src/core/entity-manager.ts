@@ -8,7 +8,8 @@
  * systems run.
  *
  * Cleanup responsibilities per entity:
- *   1. Unregister all Rapier colliders from the collider-to-entity map.
+ *   1. Unregister all Rapier colliders from the collider-to-entity map
+ *      and forget the entity's tracked contacts.
  *   2. Remove the Rapier rigid body from the physics world.
  *   3. Detach the PixiJS display object from its parent container.
  *   4. Remove the ECS entity and all its components from the World.
@@ -130,6 +131,7 @@ export class EntityManager {
         }
         this.physicsCtx.world.removeRigidBody(body);
       }
+      this.physicsCtx.collisions.forget(entity);
     }
 
     // 2. Display object cleanup
@@ -1,10 +1,14 @@
 /**
  * GameState -- persistent player state that survives across levels.
- * Tracks scrap currency, equipped weapon, permanent unlocks, and
- * per-run consumables. Reset partially on death.
+ * Tracks scrap currency, equipped weapon, permanent unlocks, weapon
+ * upgrades, the synergy Codex, the boss rush record, and per-run
+ * consumables. Reset partially on death.
  */
 
 import type { WeaponId } from '../combat/weapon-defs.js';
+import type { SynergyId } from '../combat/synergy-defs.js';
+import type { WeaponUpgrades } from '../economy/upgrade-defs.js';
+import { createWeaponUpgrades } from '../economy/upgrade-defs.js';
 
 export interface GameState {
   scrap: number;
@@ -12,8 +16,14 @@ export interface GameState {
 
   /** Permanently unlocked weapons (never lost on death). */
   unlockedWeapons: Set<WeaponId>;
+  /** Bought upgrade levels per weapon (never lost on death). */
+  weaponUpgrades: WeaponUpgrades;
+  /** The Codex: synergies discovered so far (never lost on death). */
+  codex: Set<SynergyId>;
   /** Ship tier determines which planets are accessible. */
   shipTier: number;
+  /** Fastest full boss rush clear (seconds); null until one is cleared. */
+  bossRushBest: number | null;
 
   /** Per-run: absorbs the next hit, then consumed. Lost on death. */
   shieldCharge: boolean;
@@ -30,7 +40,10 @@ export function createGameState(): GameState {
     scrap: 0,
     equippedWeapon: 'laser',
     unlockedWeapons: new Set<WeaponId>(['laser']),
+    weaponUpgrades: createWeaponUpgrades(),
+    codex: new Set<SynergyId>(),
     shipTier: 1,
+    bossRushBest: null,
     shieldCharge: false,
     repairKit: false,
   };
@@ -38,7 +51,8 @@ export function createGameState(): GameState {
 
 /**
  * Apply the death penalty: lose equipped weapon, consumables, and
- * half of scrap. Permanent unlocks (weapons, ship tier) are kept.
+ * half of scrap. Permanent unlocks (weapons, weapon upgrades, ship
+ * tier), the Codex and the boss rush record are kept.
  */
 export function applyDeathPenalty(state: GameState): void {
   state.equippedWeapon = null;
@@ -1,40 +1,35 @@
 /** Game -- top-level orchestrator. Ship <-> star-map <-> gameplay. */
 import { Application, Container, TextureSource } from 'pixi.js';
-import type { System } from './types.js';
 import { World } from './world.js';
 import { PhysicsContext } from './physics.js';
 import { EntityManager } from './entity-manager.js';
-import { SCREEN_WIDTH, SCREEN_HEIGHT } from './constants.js';
+import { SCREEN_WIDTH, SCREEN_HEIGHT, PHYSICS_TIMESTEP } from './constants.js';
+import { FixedTimestepScheduler } from './scheduler.js';
 import { InputManager } from '../input/input-manager.js';
+import { loadKeyBindings } from '../input/key-bindings.js';
+import { GamepadMenuBridge } from '../input/gamepad-menu.js';
 import { loadAllAssets } from './asset-loader.js';
 import { LoadingScreen } from '../ui/loading-screen.js';
-import { PhysicsSystem } from '../systems/physics-system.js';
-import { PlayerMovementSystem } from '../systems/player-movement-system.js';
 import { CameraSystem } from '../systems/camera-system.js';
 import { RenderSystem } from '../systems/render-system.js';
-import { MechFollowSystem } from '../systems/mech-follow-system.js';
-import { WeaponSystem } from '../systems/weapon-system.js';
-import { ProjectileSystem } from '../systems/projectile-system.js';
-import { EnemyAISystem } from '../systems/enemy-ai-system.js';
-import { DamageSystem } from '../systems/damage-system.js';
-import { DeathRespawnSystem } from '../systems/death-respawn-system.js';
 import { StarfieldSystem } from '../systems/starfield-system.js';
 import { ParallaxBgSystem } from '../systems/parallax-bg-system.js';
 import { getBiomeConfig } from '../level/biome-config.js';
-import { createGameState, applyDeathPenalty, type GameState } from './game-state.js';
+import { clearTileLayerCache } from '../level/tile-layer-renderer.js';
+import { applyDeathPenalty, type GameState } from './game-state.js';
+import { SaveManager, serializeGameState, deserializeGameState } from './save-system.js';
+import { BossRushRun } from './boss-rush.js';
+import { ReplaySession } from './replay-session.js';
+import type { ReplayFile } from '../input/replay.js';
 import { HudSystem } from '../systems/hud-system.js';
 import { SoundManager } from '../audio/sound-manager.js';
 import { EffectsSystem, createWorldBloom } from '../systems/effects-system.js';
 import { AnimationSystem } from '../systems/animation-system.js';
+import { MechAimSystem } from '../systems/mech-aim-system.js';
 import type { LevelData } from '../level/level-data.js';
-import { buildLevel } from '../level/level-builder.js';
-import { createPlayerEntity } from '../entities/create-player.js';
-import { createMechEntity } from '../entities/create-mech.js';
-import { spawnEnemies } from '../level/spawn-enemies.js';
-import { BossTriggerSystem } from '../systems/boss-trigger-system.js';
-import { BossAISystem } from '../systems/boss-ai-system.js';
-import { LevelCompleteSystem } from '../systems/level-complete-system.js';
+import { populateLevel, createGameplaySystems } from './level-setup.js';
 import { VictoryScreen } from '../ui/victory-screen.js';
+import { BossRushSummary } from '../ui/boss-rush-summary.js';
 import { SceneRouter } from './scene-router.js';
 import { ShipInterior } from '../scenes/ship-interior.js';
 import { StarMap } from '../scenes/star-map.js';
@@ -49,13 +44,20 @@ export class Game {
   private world!: World;
   private physicsCtx!: PhysicsContext;
   private entityManager!: EntityManager;
-  private systems: System[] = [];
+  private scheduler!: FixedTimestepScheduler;
   private inputManager!: InputManager;
+  private menuPad!: GamepadMenuBridge;
   private soundManager!: SoundManager;
   private sceneRouter = new SceneRouter();
   private starfield!: StarfieldSystem;
   private parallaxBg: ParallaxBgSystem | null = null;
-  private gameState: GameState = createGameState();
+  private saveManager = new SaveManager();
+  private gameState: GameState = this.saveManager.loadOrCreate();
+  /** State the current level runs with: gameState, or a replay's or boss rush's copy. */
+  private runState: GameState = this.gameState;
+  /** Boss rush in progress; its victories load the next arena instead of the hub. */
+  private bossRush: BossRushRun | null = null;
+  private replay!: ReplaySession;
   private levelName = '';
   private shipInterior: ShipInterior | null = null;
   private shipOverlays: ShipOverlays | null = null;
@@ -97,22 +99,36 @@ export class Game {
     this.worldContainer.filters = [createWorldBloom()];
     // Core managers
     this.entityManager = new EntityManager(this.physicsCtx, this.worldContainer);
+    loadKeyBindings();
     this.inputManager = new InputManager();
+    this.menuPad = new GamepadMenuBridge(this.inputManager.gamepad);
     this.soundManager = new SoundManager();
     this.soundManager.loadAll();
+    this.replay = new ReplaySession(this.inputManager, (file) => this.playReplay(file));
+    // Gameplay ticks at a fixed rate; input "just pressed" lasts one tick
+    this.scheduler = new FixedTimestepScheduler(PHYSICS_TIMESTEP, {
+      beforeTick: () => {
+        this.entityManager.processDestroyQueue(this.world);
+        this.replay.beforeTick();
+      },
+      afterTick: () => this.replay.afterTick(),
+    });
     // Game loop
     this.app.ticker.add((ticker) => {
       const dt = Math.min(ticker.deltaMS / 1000, 0.1);
       const scene = this.sceneRouter.activeScene;
-      if (scene === 'ship' && this.shipInterior && !this.shipOverlays?.isOpen) {
-        this.shipInterior.update(dt);
+      // Pad drives menus via synthetic keys, gameplay via the Action API
+      this.inputManager.pollGamepad();
+      if (scene === 'gameplay') this.menuPad.releaseAll();
+      else this.menuPad.update();
+      if (scene === 'ship' && this.shipInterior) {
+        if (this.shipOverlays?.isOpen) this.shipInterior.discardInput();
+        else this.shipInterior.update(dt);
       }
       if (scene === 'star-map' && this.starMap) this.starMap.update(dt);
       if (this.warpTransition) this.warpTransition.update(dt);
       if (scene === 'gameplay') {
-        this.entityManager.processDestroyQueue(this.world);
-        for (const sys of this.systems) sys.update(this.world, dt);
-        this.inputManager.update();
+        this.scheduler.frame(this.world, dt);
       }
     });
     this.showShip();
@@ -142,6 +158,7 @@ export class Game {
     const hasWpn = this.gameState.equippedWeapon !== null;
     this.starMap = new StarMap(this.gameState.shipTier, hasWpn, (r) => {
       if (r.action === 'back') { this.hideStarMap(); this.showShip(); }
+      else if (r.action === 'boss-rush') this.startBossRush();
       else this.deployToLevel(r.starId);
     });
     this.app.stage.addChild(this.starMap.container);
@@ -152,7 +169,55 @@ export class Game {
     this.hideStarMap();
     const star = STAR_SYSTEMS.find(s => s.id === starId);
     if (!star) return;
-    const ld = getLevelForStar(star);
+    this.runState = this.gameState;
+    this.replay.record(starId, this.gameState);
+    this.warpTo(getLevelForStar(star));
+  }
+
+  /**
+   * Start a boss rush. It runs on a copy of the player's state and isn't
+   * recorded: nothing earned or lost carries back, except synergies found
+   * (the copy shares the real Codex) and a personal best.
+   */
+  private startBossRush(): void {
+    this.hideStarMap();
+    this.runState = deserializeGameState(serializeGameState(this.gameState));
+    this.runState.codex = this.gameState.codex;
+    this.bossRush = new BossRushRun(this.gameState.bossRushBest);
+    this.warpTo(this.bossRush.arena);
+  }
+
+  /** Boss rush victory: warp to the next arena, or end the run after the last. */
+  private nextBossFight(run: BossRushRun, stats: { enemiesKilled: number; timeSeconds: number }): void {
+    if (!run.fightWon(this.world, stats)) { this.endBossRush(run); return; }
+    this.unloadLevel();
+    this.warpTo(run.arena);
+  }
+
+  /** Boss rush cleared or failed: save discoveries and any new best, then show the summary. */
+  private endBossRush(run: BossRushRun): void {
+    this.bossRush = null;
+    this.sceneRouter.transitionTo('ship');
+    const result = run.result();
+    if (result.newBest) this.gameState.bossRushBest = result.totalSeconds;
+    this.saveManager.save(this.gameState);
+    const summary = new BossRushSummary(result, () => { this.unloadLevel(); this.showShip(); });
+    this.app.stage.addChild(summary.container);
+  }
+
+  /** Replay a recorded run (F3). Only starts from the ship interior. */
+  playReplay(file: ReplayFile): void {
+    const star = STAR_SYSTEMS.find(s => s.id === file.levelId);
+    if (!this.shipInterior || !star) {
+      console.warn(`[Game] Cannot play a replay of '${file.levelId}' right now.`);
+      return;
+    }
+    this.hideShip();
+    this.runState = this.replay.play(file);
+    this.warpTo(getLevelForStar(star));
+  }
+
+  private warpTo(ld: LevelData): void {
     this.warpTransition = new WarpTransition(() => {
       this.warpTransition?.destroy(); this.warpTransition = null;
       this.levelName = ld.name;
@@ -164,7 +229,10 @@ export class Game {
 
   /** Called by DeathRespawnSystem after death delay. */
   returnToShip(): void {
-    applyDeathPenalty(this.gameState);
+    if (this.replay.stop()) {
+      applyDeathPenalty(this.gameState);
+      this.saveManager.save(this.gameState);
+    }
     this.unloadLevel();
     this.showShip();
   }
@@ -172,7 +240,8 @@ export class Game {
   /** Called by LevelCompleteSystem -- show victory screen, then ship. */
   returnToHubVictory(stats: { enemiesKilled: number; timeSeconds: number }): void {
     this.sceneRouter.transitionTo('ship');
-    const s = { levelName: this.levelName, ...stats, scrapEarned: this.gameState.scrap };
+    if (this.replay.stop()) this.saveManager.save(this.gameState);
+    const s = { levelName: this.levelName, ...stats, scrapEarned: this.runState.scrap };
     const vs = new VictoryScreen(s, () => { this.unloadLevel(); this.showShip(); });
     this.app.stage.addChild(vs.container);
   }
@@ -180,71 +249,42 @@ export class Game {
   private loadLevel(levelData: LevelData): void {
     this.physicsCtx = PhysicsContext.resetWorld(this.physicsCtx);
     this.entityManager.setPhysicsContext(this.physicsCtx);
-    buildLevel(levelData, this.world, this.physicsCtx, this.worldContainer);
     const biome = getBiomeConfig(levelData.environmentTheme);
     this.parallaxBg?.destroy(this.app.stage);
     this.parallaxBg = new ParallaxBgSystem(this.app.stage, biome);
-    const playerEntity = createPlayerEntity(
-      this.world, this.physicsCtx, this.worldContainer,
-      levelData.playerSpawn.x, levelData.playerSpawn.y,
+    this.inputManager.update(); // drop menu presses (pad A = Jump) before tick 0
+    const weaponId = this.runState.equippedWeapon!;
+    const player = populateLevel(
+      levelData, this.world, this.physicsCtx, this.worldContainer,
+      weaponId, this.runState.weaponUpgrades[weaponId],
     );
-    createMechEntity(
-      this.world, this.worldContainer, playerEntity,
-      levelData.playerSpawn.x, levelData.playerSpawn.y,
-      this.gameState.equippedWeapon!,
-    );
-    spawnEnemies(
-      levelData.spawnPoints, this.world, this.physicsCtx, this.worldContainer,
-    );
-    this.systems = [];
+    const run = this.bossRush;
+    run?.preparePlayer(this.world, player);
+    this.scheduler.clear();
     const bounds = { x: 0, y: 0, width: levelData.width, height: levelData.height };
-    const cam = new CameraSystem(this.worldContainer, bounds);
-    this.addSystem(this.starfield);
-    this.addSystem(this.parallaxBg!);
-    this.addSystem(new PhysicsSystem(this.physicsCtx));
-    this.addSystem(new BossTriggerSystem(
-      this.physicsCtx, this.worldContainer, levelData, this.soundManager,
-    ));
-    this.addSystem(new BossAISystem(
-      this.physicsCtx, this.worldContainer, this.soundManager, cam,
-    ));
-    this.addSystem(new EnemyAISystem(this.physicsCtx, this.worldContainer));
-    this.addSystem(new PlayerMovementSystem(
-      this.physicsCtx, this.inputManager, this.soundManager,
-    ));
-    this.addSystem(new MechFollowSystem());
-    this.addSystem(new WeaponSystem(
-      this.physicsCtx, this.worldContainer, this.soundManager,
-    ));
-    this.addSystem(new ProjectileSystem(this.entityManager, this.soundManager));
-    this.addSystem(new DamageSystem(
-      this.physicsCtx, this.soundManager, this.entityManager,
-      this.gameState, this.worldContainer,
-    ));
-    this.addSystem(new DeathRespawnSystem(
-      this.physicsCtx, this.worldContainer,
-      levelData.playerSpawn, levelData.spawnPoints,
-      this.soundManager, () => this.returnToShip(),
-    ));
-    this.addSystem(new LevelCompleteSystem(
-      this.worldContainer, this.soundManager,
-      !!levelData.bossTriggerX, (stats) => this.returnToHubVictory(stats),
-    ));
-    this.addSystem(new HudSystem(this.uiContainer, this.gameState));
-    this.addSystem(new AnimationSystem());
-    this.addSystem(new EffectsSystem());
-    this.addSystem(cam);
-    this.addSystem(new RenderSystem(this.worldContainer));
+    const cam = new CameraSystem(this.worldContainer, bounds, this.scheduler);
+    const gameplay = createGameplaySystems({
+      levelData, physicsCtx: this.physicsCtx, worldContainer: this.worldContainer,
+      entityManager: this.entityManager, soundManager: this.soundManager,
+      input: this.replay.input, gameState: this.runState, camera: cam,
+      onDeathComplete: () => (run ? this.endBossRush(run) : this.returnToShip()),
+      onLevelComplete: (stats) => (run ? this.nextBossFight(run, stats) : this.returnToHubVictory(stats)),
+    });
+    for (const sys of gameplay) this.scheduler.addFixed(sys);
+    const pointer = this.app.renderer.events.pointer;
+    for (const sys of [
+      this.starfield, this.parallaxBg, new HudSystem(this.uiContainer, this.runState),
+      new AnimationSystem(), new EffectsSystem(), cam,
+      new MechAimSystem(this.worldContainer, this.inputManager, pointer, this.scheduler),
+      new RenderSystem(this.worldContainer, this.scheduler),
+    ]) this.scheduler.addFrame(sys);
   }
 
   private unloadLevel(): void {
-    this.systems = [];
+    this.scheduler.clear();
     this.entityManager.destroyAll(this.world);
     this.worldContainer.removeChildren(); this.uiContainer.removeChildren();
     this.worldContainer.x = 0; this.worldContainer.y = 0;
-  }
-
-  private addSystem(s: System): void {
-    this.systems.push(s); this.systems.sort((a, b) => a.priority - b.priority);
+    clearTileLayerCache();
   }
 }
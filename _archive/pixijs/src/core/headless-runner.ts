@@ -0,0 +1,162 @@
+/**
+ * HeadlessRunner -- steps the gameplay simulation without a browser.
+ *
+ * Builds a World, PhysicsContext and the gameplay system list from a
+ * LevelData (via the same level-setup helpers Game uses), then advances
+ * it with a fixed dt under scripted input. No Application, canvas or
+ * renderer is created: entity factories still make their PixiJS display
+ * objects, but they hang off a detached container that is never drawn,
+ * and presentation systems (camera, render, HUD, effects) are omitted.
+ *
+ * Intended for automated tests, bots, replays and balance simulations.
+ * Pass `replay` to re-simulate a recorded run (its seed, player state and
+ * input); the level must be the one the replay names.
+ * PixiJS reads `navigator` at import time, so on Node < 21 define
+ * `globalThis.navigator` before importing this module.
+ *
+ * Usage:
+ *   const run = await HeadlessRunner.create(PROTOTYPE_LEVEL, {
+ *     script: [{ tick: 0, press: [Action.MoveRight] }],
+ *   });
+ *   run.runUntil(() => run.outcome !== null, 60 * 120);
+ */
+
+import { Container } from 'pixi.js';
+import type { Entity } from './types.js';
+import { World } from './world.js';
+import { PhysicsContext } from './physics.js';
+import { EntityManager } from './entity-manager.js';
+import { PHYSICS_TIMESTEP } from './constants.js';
+import { FixedTimestepScheduler } from './scheduler.js';
+import { createGameState } from './game-state.js';
+import type { GameState } from './game-state.js';
+import { deserializeGameState } from './save-system.js';
+import { seedGameRandom } from './rng.js';
+import { populateLevel, createGameplaySystems } from './level-setup.js';
+import { SoundManager } from '../audio/sound-manager.js';
+import { ScriptedInput } from '../input/scripted-input.js';
+import type { ScriptedInputEvent } from '../input/scripted-input.js';
+import { ReplayPlayback } from '../input/replay-playback.js';
+import type { ReplayFile } from '../input/replay.js';
+import { CameraSystem } from '../systems/camera-system.js';
+import type { VictoryCallbackStats } from '../systems/level-complete-system.js';
+import type { LevelData } from '../level/level-data.js';
+
+/** How a headless run ended. */
+export type HeadlessOutcome =
+  | { kind: 'death' }
+  | { kind: 'victory'; stats: VictoryCallbackStats };
+
+/** Options for HeadlessRunner.create(). */
+export interface HeadlessOptions {
+  /** Player state to run with (scrap, weapon, consumables). Fresh by default. */
+  gameState?: GameState;
+  /** Fixed step in seconds. Defaults to PHYSICS_TIMESTEP (1/60). */
+  dt?: number;
+  /** Timed input events applied as the run advances. */
+  script?: ScriptedInputEvent[];
+  /** Gameplay RNG seed. Defaults to 0. */
+  seed?: number;
+  /** Recorded run to play back; overrides gameState, script and seed. */
+  replay?: ReplayFile;
+}
+
+export class HeadlessRunner {
+  readonly world: World;
+  readonly physicsCtx: PhysicsContext;
+  readonly entityManager: EntityManager;
+  readonly input: ScriptedInput;
+  readonly gameState: GameState;
+  readonly playerEntity: Entity;
+  /** Fixed step (seconds) passed to every system each tick. */
+  readonly dt: number;
+
+  /** Number of ticks stepped so far. */
+  tick = 0;
+
+  /** Set when the player's death completes or the level is cleared. */
+  outcome: HeadlessOutcome | null = null;
+
+  private readonly scheduler: FixedTimestepScheduler;
+  private readonly playback: ReplayPlayback | null;
+
+  private constructor(levelData: LevelData, physicsCtx: PhysicsContext, options: HeadlessOptions) {
+    this.physicsCtx = physicsCtx;
+    this.dt = options.dt ?? PHYSICS_TIMESTEP;
+    const replay = options.replay;
+    this.playback = replay ? new ReplayPlayback(replay) : null;
+    this.gameState = replay
+      ? deserializeGameState(replay.state)
+      : options.gameState ?? createGameState();
+    this.input = this.playback?.input ?? new ScriptedInput(options.script);
+    seedGameRandom(replay?.seed ?? options.seed ?? 0);
+    this.world = new World();
+
+    // Display objects go here and are never rendered
+    const sink = new Container();
+    this.entityManager = new EntityManager(physicsCtx, sink);
+    const weaponId = this.gameState.equippedWeapon ?? 'laser';
+    this.playerEntity = populateLevel(
+      levelData, this.world, physicsCtx, sink,
+      weaponId, this.gameState.weaponUpgrades[weaponId],
+    );
+
+    this.scheduler = new FixedTimestepScheduler(this.dt, {
+      beforeTick: () => this.entityManager.processDestroyQueue(this.world),
+      afterTick: () => this.input.update(),
+    });
+    const bounds = { x: 0, y: 0, width: levelData.width, height: levelData.height };
+    const systems = createGameplaySystems({
+      levelData,
+      physicsCtx,
+      worldContainer: sink,
+      entityManager: this.entityManager,
+      soundManager: new SoundManager(), // never loaded, so play() is silent
+      input: this.input,
+      gameState: this.gameState,
+      camera: new CameraSystem(sink, bounds),
+      onDeathComplete: () => { this.outcome = { kind: 'death' }; },
+      onLevelComplete: (stats) => { this.outcome = { kind: 'victory', stats }; },
+    });
+    for (const sys of systems) this.scheduler.addFixed(sys);
+  }
+
+  /**
+   * Create a runner for a level. Async because Rapier's WASM module
+   * must be initialised first.
+   */
+  static async create(levelData: LevelData, options: HeadlessOptions = {}): Promise<HeadlessRunner> {
+    const physicsCtx = await PhysicsContext.create();
+    return new HeadlessRunner(levelData, physicsCtx, options);
+  }
+
+  /** Simulated seconds elapsed. */
+  get elapsed(): number {
+    return this.tick * this.dt;
+  }
+
+  /** Advance the simulation by one fixed tick. */
+  step(): void {
+    if (this.playback) this.playback.apply();
+    else this.input.applyScript(this.tick);
+    this.scheduler.tick(this.world);
+    this.tick++;
+  }
+
+  /** Advance the simulation by `ticks` ticks. */
+  run(ticks: number): void {
+    for (let i = 0; i < ticks; i++) this.step();
+  }
+
+  /**
+   * Step until `done` returns true or `maxTicks` ticks have run.
+   * @returns true if `done` was satisfied, false on timeout
+   */
+  runUntil(done: (runner: HeadlessRunner) => boolean, maxTicks: number): boolean {
+    for (let i = 0; i < maxTicks; i++) {
+      if (done(this)) return true;
+      this.step();
+    }
+    return done(this);
+  }
+}
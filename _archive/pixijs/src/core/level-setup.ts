@@ -0,0 +1,132 @@
+/**
+ * Level setup -- builds a level's entities and its gameplay systems.
+ *
+ * Shared by Game (browser) and HeadlessRunner (Node) so both run the
+ * exact same simulation. Presentation-only systems (camera, render,
+ * HUD, effects, animation, parallax) are added by Game on top of the
+ * list returned here. Extracted from game.ts to keep it under 250 lines.
+ */
+
+import type { Container } from 'pixi.js';
+import type { Entity, System } from './types.js';
+import type { World } from './world.js';
+import type { PhysicsContext } from './physics.js';
+import type { EntityManager } from './entity-manager.js';
+import type { GameState } from './game-state.js';
+import type { SoundManager } from '../audio/sound-manager.js';
+import type { InputState } from '../input/actions.js';
+import type { WeaponId } from '../combat/weapon-defs.js';
+import type { UpgradeLevels } from '../economy/upgrade-defs.js';
+import type { LevelData } from '../level/level-data.js';
+import { buildLevel } from '../level/level-builder.js';
+import { spawnEnemies } from '../level/spawn-enemies.js';
+import { ELITE_CHANCE } from '../combat/elite-affixes.js';
+import { Pathfinder } from '../nav/pathfinder.js';
+import { createPlayerEntity } from '../entities/create-player.js';
+import { createMechEntity } from '../entities/create-mech.js';
+import type { CameraSystem } from '../systems/camera-system.js';
+import { PhysicsSystem } from '../systems/physics-system.js';
+import { PlayerMovementSystem } from '../systems/player-movement-system.js';
+import { MechFollowSystem } from '../systems/mech-follow-system.js';
+import { SynergySystem } from '../systems/synergy-system.js';
+import { WeaponSystem } from '../systems/weapon-system.js';
+import { ProjectileSystem } from '../systems/projectile-system.js';
+import { EnemyAISystem } from '../systems/enemy-ai-system.js';
+import { StatusEffectSystem } from '../systems/status-effect-system.js';
+import { DamageSystem } from '../systems/damage-system.js';
+import { DeathRespawnSystem } from '../systems/death-respawn-system.js';
+import { PickupSystem } from '../systems/pickup-system.js';
+import { EliteSystem } from '../systems/elite-system.js';
+import { BossTriggerSystem } from '../systems/boss-trigger-system.js';
+import { BossAISystem } from '../systems/boss-ai-system.js';
+import { BossPartSystem } from '../systems/boss-part-system.js';
+import { EncounterSystem } from '../systems/encounter-system.js';
+import { LevelCompleteSystem } from '../systems/level-complete-system.js';
+import type { VictoryCallbackStats } from '../systems/level-complete-system.js';
+
+/** Everything the gameplay systems need injected. */
+export interface GameplayDeps {
+  levelData: LevelData;
+  physicsCtx: PhysicsContext;
+  worldContainer: Container;
+  entityManager: EntityManager;
+  soundManager: SoundManager;
+  input: InputState;
+  gameState: GameState;
+  /** Receives boss screen shakes and arena locks (need not be in the system list). */
+  camera: CameraSystem;
+  /** Called by DeathRespawnSystem after the death delay. */
+  onDeathComplete: () => void;
+  /** Called by LevelCompleteSystem once the level is cleared. */
+  onLevelComplete: (stats: VictoryCallbackStats) => void;
+}
+
+/**
+ * Build terrain/platforms and spawn the player, mech and enemies.
+ *
+ * @param weaponId - weapon the mech equips
+ * @param upgrades - upgrade levels bought for that weapon
+ * @returns the player entity
+ */
+export function populateLevel(
+  levelData: LevelData,
+  world: World,
+  physicsCtx: PhysicsContext,
+  worldContainer: Container,
+  weaponId: WeaponId,
+  upgrades: UpgradeLevels,
+): Entity {
+  buildLevel(levelData, world, physicsCtx, worldContainer);
+  const { x, y } = levelData.playerSpawn;
+  const playerEntity = createPlayerEntity(world, physicsCtx, worldContainer, x, y);
+  createMechEntity(world, worldContainer, playerEntity, x, y, weaponId, upgrades);
+  spawnEnemies(
+    levelData.spawnPoints, world, physicsCtx, worldContainer,
+    ELITE_CHANCE[levelData.difficulty],
+  );
+  return playerEntity;
+}
+
+/**
+ * Create the simulation systems for a level (physics through level
+ * completion). Order in the array is irrelevant; callers sort by priority.
+ */
+export function createGameplaySystems(deps: GameplayDeps): System[] {
+  const {
+    levelData, physicsCtx, worldContainer, entityManager, soundManager,
+  } = deps;
+  const encounters = new EncounterSystem(
+    levelData, physicsCtx, worldContainer, entityManager, soundManager, deps.camera,
+  );
+  const pickups = new PickupSystem(
+    physicsCtx, entityManager, soundManager, deps.gameState, worldContainer,
+  );
+  return [
+    new PhysicsSystem(physicsCtx),
+    new BossTriggerSystem(physicsCtx, worldContainer, levelData, soundManager, encounters),
+    new BossAISystem(physicsCtx, worldContainer, soundManager, deps.camera),
+    new EnemyAISystem(physicsCtx, worldContainer, new Pathfinder(levelData)),
+    new PlayerMovementSystem(physicsCtx, deps.input, soundManager),
+    new MechFollowSystem(deps.input, soundManager),
+    new SynergySystem(deps.gameState, worldContainer, soundManager),
+    new WeaponSystem(physicsCtx, worldContainer, soundManager, deps.input),
+    new ProjectileSystem(physicsCtx, entityManager, soundManager, worldContainer),
+    new StatusEffectSystem(),
+    new DamageSystem(
+      physicsCtx, soundManager, entityManager, deps.gameState, worldContainer,
+    ),
+    new BossPartSystem(physicsCtx, entityManager, worldContainer, soundManager),
+    pickups,
+    new EliteSystem(physicsCtx, worldContainer, soundManager),
+    new DeathRespawnSystem(
+      physicsCtx, worldContainer,
+      levelData.playerSpawn, levelData.spawnPoints,
+      ELITE_CHANCE[levelData.difficulty], soundManager, deps.onDeathComplete,
+    ),
+    encounters,
+    new LevelCompleteSystem(
+      worldContainer, soundManager,
+      !!levelData.bossTriggerX, encounters, pickups, deps.onLevelComplete,
+    ),
+  ];
+}
@@ -14,6 +14,7 @@
 import RAPIER from '@dimforge/rapier2d-compat';
 import { GRAVITY, PIXELS_PER_METER } from './constants.js';
 import type { Entity } from './types.js';
+import { CollisionEvents } from './collision-events.js';
 
 // ---------------------------------------------------------------------------
 // Coordinate conversion helpers
@@ -86,15 +87,18 @@ export class PhysicsContext {
   /** The Rapier physics world. Gravity defaults to Y-down at 9.81 m/s^2. */
   readonly world: RAPIER.World;
 
-  /** Fixed-timestep accumulator (seconds). Fed by the game loop's variable dt. */
-  accumulator: number;
-
   /**
    * Maps Rapier collider handles to ECS entity IDs.
    * Used for collision callbacks / queries that return collider handles.
    */
   readonly colliderToEntity: Map<number, Entity>;
 
+  /** Receives Rapier collision events; passed to every world.step(). */
+  readonly eventQueue: RAPIER.EventQueue;
+
+  /** Collision events of the latest step, resolved to entities. */
+  readonly collisions: CollisionEvents;
+
   // -----------------------------------------------------------------------
   // Private constructor – use PhysicsContext.create()
   // -----------------------------------------------------------------------
@@ -102,8 +106,9 @@ export class PhysicsContext {
   private constructor(rapier: typeof RAPIER, world: RAPIER.World) {
     this.rapier = rapier;
     this.world = world;
-    this.accumulator = 0;
     this.colliderToEntity = new Map<number, Entity>();
+    this.eventQueue = new rapier.EventQueue(true);
+    this.collisions = new CollisionEvents();
   }
 
   /**
@@ -114,6 +119,7 @@ export class PhysicsContext {
    */
   static resetWorld(existing: PhysicsContext): PhysicsContext {
     existing.world.free();
+    existing.eventQueue.free();
     const world = new RAPIER.World({ x: 0.0, y: GRAVITY });
     return new PhysicsContext(existing.rapier, world);
   }
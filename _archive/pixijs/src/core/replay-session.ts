@@ -0,0 +1,146 @@
+/**
+ * ReplaySession -- decides where gameplay input comes from for a run.
+ *
+ * A normal deploy records: the gameplay RNG gets a fresh seed and every
+ * fixed tick's keyboard input is captured. A replay run instead reseeds
+ * the RNG from the file and feeds the recorded input back in. Game asks
+ * `input` for the InputState to give the gameplay systems and calls
+ * `beforeTick()` / `afterTick()` from the scheduler hooks.
+ *
+ * Hotkeys:
+ *   - F2 downloads the replay of the last finished run (attach it to bug
+ *     reports).
+ *   - F3 opens a replay file and hands it to `onLoad`.
+ */
+
+import type { InputState } from '../input/actions.js';
+import type { InputManager } from '../input/input-manager.js';
+import { ReplayRecorder } from '../input/replay-recorder.js';
+import { ReplayPlayback } from '../input/replay-playback.js';
+import { parseReplay, serializeReplay } from '../input/replay.js';
+import type { ReplayFile } from '../input/replay.js';
+import type { GameState } from './game-state.js';
+import { deserializeGameState } from './save-system.js';
+import { randomSeed, seedGameRandom } from './rng.js';
+
+export class ReplaySession {
+  private readonly live: InputManager;
+  private readonly onLoad: (file: ReplayFile) => void;
+  private recorder: ReplayRecorder | null = null;
+  private playback: ReplayPlayback | null = null;
+  private lastReplay: ReplayFile | null = null;
+
+  /** Bound handler reference for cleanup. */
+  private readonly handleKeyDown: (e: KeyboardEvent) => void;
+
+  /**
+   * @param live   - keyboard input, recorded during normal runs
+   * @param onLoad - called with a replay file the player opened (F3)
+   */
+  constructor(live: InputManager, onLoad: (file: ReplayFile) => void) {
+    this.live = live;
+    this.onLoad = onLoad;
+    this.handleKeyDown = this.onKeyDown.bind(this);
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /** Input the gameplay systems should read this run. */
+  get input(): InputState {
+    return this.playback?.input ?? this.live;
+  }
+
+  /** Start a live run: seed the RNG and record input. */
+  record(levelId: string, state: GameState): void {
+    const seed = randomSeed();
+    seedGameRandom(seed);
+    this.playback = null;
+    this.recorder = new ReplayRecorder(levelId, seed, state);
+  }
+
+  /**
+   * Start replaying a run.
+   * @returns the recorded player state, to run the level with instead
+   *          of the player's own save
+   */
+  play(file: ReplayFile): GameState {
+    seedGameRandom(file.seed);
+    this.recorder = null;
+    this.playback = new ReplayPlayback(file);
+    return deserializeGameState(file.state);
+  }
+
+  /**
+   * End the current run. A recording becomes the F2 download.
+   * @returns true if the run was live play, false if it was a replay
+   */
+  stop(): boolean {
+    const wasLive = this.playback === null;
+    if (this.recorder) this.lastReplay = this.recorder.finish();
+    this.recorder = null;
+    this.playback = null;
+    return wasLive;
+  }
+
+  /** Scheduler hook: capture or inject input for the coming tick. */
+  beforeTick(): void {
+    if (this.recorder) this.recorder.capture(this.live);
+    else this.playback?.apply();
+  }
+
+  /** Scheduler hook: clear per-tick "just pressed" state. */
+  afterTick(): void {
+    this.live.update();
+    this.playback?.input.update();
+  }
+
+  /** Remove the hotkey listener. */
+  destroy(): void {
+    window.removeEventListener('keydown', this.handleKeyDown);
+  }
+
+  // -----------------------------------------------------------------------
+  // Hotkeys
+  // -----------------------------------------------------------------------
+
+  private onKeyDown(e: KeyboardEvent): void {
+    if (e.code === 'F2') {
+      e.preventDefault();
+      this.download();
+    } else if (e.code === 'F3') {
+      e.preventDefault();
+      this.openFile();
+    }
+  }
+
+  /** Save the last finished run as a .replay.json download. */
+  private download(): void {
+    if (!this.lastReplay) {
+      console.warn('[Replay] No finished run to save yet.');
+      return;
+    }
+    const blob = new Blob([serializeReplay(this.lastReplay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.lastReplay.levelId}-${Date.now()}.replay.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /** Let the player pick a replay file; invalid files are reported, not played. */
+  private openFile(): void {
+    const picker = document.createElement('input');
+    picker.type = 'file';
+    picker.accept = '.json,application/json';
+    picker.onchange = async (): Promise<void> => {
+      const file = picker.files?.[0];
+      if (!file) return;
+      try {
+        this.onLoad(parseReplay(await file.text()));
+      } catch (err) {
+        console.warn(`[Replay] Could not play '${file.name}':`, err);
+      }
+    };
+    picker.click();
+  }
+}
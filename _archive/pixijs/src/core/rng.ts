@@ -0,0 +1,46 @@
+/**
+ * Seeded random numbers.
+ *
+ * Anything random that can change the outcome of a run (AI decisions,
+ * spawn jitter, loot rolls) must use `gameRandom()` instead of
+ * Math.random(), so a replay seeded with the same value plays out
+ * identically. Purely cosmetic randomness (starfield, camera shake,
+ * warp particles) may keep using Math.random().
+ */
+
+/**
+ * mulberry32 -- small, fast 32-bit PRNG.
+ *
+ * @param seed - any integer; the same seed always yields the same sequence
+ * @returns a function returning floats in [0, 1)
+ */
+export function createRng(seed: number): () => number {
+  let s = seed | 0;
+  return (): number => {
+    s = (s + 0x6d2b79f5) | 0;
+    let t = Math.imul(s ^ (s >>> 15), 1 | s);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Gameplay RNG
+// ---------------------------------------------------------------------------
+
+let gameplayRng = createRng(0);
+
+/** Reseed the gameplay RNG. Called once when each level starts. */
+export function seedGameRandom(seed: number): void {
+  gameplayRng = createRng(seed);
+}
+
+/** Next gameplay random float in [0, 1). */
+export function gameRandom(): number {
+  return gameplayRng();
+}
+
+/** A fresh 32-bit seed for a new run (not itself deterministic). */
+export function randomSeed(): number {
+  return (Math.random() * 0x100000000) >>> 0;
+}
@@ -0,0 +1,77 @@
+/**
+ * SaveStorage -- pluggable key/value backend for save data.
+ *
+ * The save system only ever reads and writes strings, so any store that
+ * can hold a string per key works. The browser build uses localStorage;
+ * tests and headless runs use the in-memory store so nothing touches
+ * the real browser profile.
+ */
+
+/** Minimal string key/value store used by the save system. */
+export interface SaveStorage {
+  /** Read the raw string for a key, or null when nothing is stored. */
+  read(key: string): string | null;
+  /** Write (or overwrite) the raw string for a key. */
+  write(key: string, data: string): void;
+  /** Delete a key. Missing keys are ignored. */
+  remove(key: string): void;
+}
+
+/**
+ * Browser localStorage backend.
+ * Storage errors (quota exceeded, private browsing) are caught and logged
+ * so a failed save never crashes the game.
+ */
+export class LocalSaveStorage implements SaveStorage {
+  read(key: string): string | null {
+    try {
+      return localStorage.getItem(key);
+    } catch (e) {
+      console.warn(`[LocalSaveStorage] Failed to read "${key}"`, e);
+      return null;
+    }
+  }
+
+  write(key: string, data: string): void {
+    try {
+      localStorage.setItem(key, data);
+    } catch (e) {
+      console.warn(`[LocalSaveStorage] Failed to write "${key}"`, e);
+    }
+  }
+
+  remove(key: string): void {
+    try {
+      localStorage.removeItem(key);
+    } catch (e) {
+      console.warn(`[LocalSaveStorage] Failed to remove "${key}"`, e);
+    }
+  }
+}
+
+/** In-memory backend -- lost on reload. Used by tests and headless runs. */
+export class MemorySaveStorage implements SaveStorage {
+  private readonly entries = new Map<string, string>();
+
+  read(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  write(key: string, data: string): void {
+    this.entries.set(key, data);
+  }
+
+  remove(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Pick the best available backend: localStorage in the browser,
+ * otherwise an in-memory store (e.g. when running under Node).
+ */
+export function createDefaultStorage(): SaveStorage {
+  return typeof localStorage !== 'undefined'
+    ? new LocalSaveStorage()
+    : new MemorySaveStorage();
+}
@@ -0,0 +1,268 @@
+/**
+ * SaveSystem -- serialises GameState to a SaveStorage backend.
+ *
+ * Every save file carries an explicit schema version. When the shape of
+ * GameState changes, bump SAVE_VERSION and add a migration that upgrades
+ * the previous version; old saves are walked up the chain one version at
+ * a time on load, so a v1 save still opens after several schema changes.
+ *
+ * Saves live in numbered slots (0..SAVE_SLOT_COUNT-1). Corrupt or
+ * unreadable slots load as null so the caller can fall back to a fresh
+ * state instead of crashing.
+ */
+
+import type { WeaponId } from '../combat/weapon-defs.js';
+import type { SynergyId } from '../combat/synergy-defs.js';
+import { isSynergyId } from '../combat/synergy-defs.js';
+import { ALL_WEAPON_IDS } from '../combat/weapon-defs.js';
+import type { UpgradeLevels, WeaponUpgrades } from '../economy/upgrade-defs.js';
+import { UPGRADE_TRACK_IDS, maxUpgradeLevel } from '../economy/upgrade-defs.js';
+import type { GameState } from './game-state.js';
+import { createGameState } from './game-state.js';
+import type { SaveStorage } from './save-storage.js';
+import { createDefaultStorage } from './save-storage.js';
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** Current save schema version. Bump when SavedGameState changes. */
+export const SAVE_VERSION = 4;
+
+/** Number of save slots available to the player. */
+export const SAVE_SLOT_COUNT = 3;
+
+/** Storage key prefix; the slot index is appended. */
+const SAVE_KEY_PREFIX = 'noahs-game/save/';
+
+/** JSON-safe GameState: Sets are stored as arrays. */
+export interface SavedGameState {
+  scrap: number;
+  equippedWeapon: WeaponId | null;
+  unlockedWeapons: WeaponId[];
+  weaponUpgrades: WeaponUpgrades;
+  codex: SynergyId[];
+  shipTier: number;
+  bossRushBest: number | null;
+  shieldCharge: boolean;
+  repairKit: boolean;
+}
+
+/** Top-level save file written to storage. */
+export interface SaveFile {
+  /** Schema version the data was written with. */
+  version: number;
+  /** Unix timestamp (ms) of the save. */
+  savedAt: number;
+  state: SavedGameState;
+}
+
+/** Summary of one slot for save/load menus. */
+export interface SaveSlotInfo {
+  slot: number;
+  savedAt: number;
+  scrap: number;
+  shipTier: number;
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+/** Loosely-typed save data while it is being migrated. */
+type RawSave = Record<string, unknown>;
+
+/**
+ * Migration chain keyed by source version: MIGRATIONS[n] upgrades a
+ * version-n save to version n+1. Every version below SAVE_VERSION
+ * needs an entry.
+ */
+const MIGRATIONS: Record<number, (data: RawSave) => RawSave> = {
+  // v2: weapon upgrade levels (none bought yet)
+  1: (data) => ({ ...data, state: { ...(data['state'] as RawSave), weaponUpgrades: {} } }),
+  // v3: synergy Codex (nothing discovered yet)
+  2: (data) => ({ ...data, state: { ...(data['state'] as RawSave), codex: [] } }),
+  // v4: boss rush personal best (none yet)
+  3: (data) => ({ ...data, state: { ...(data['state'] as RawSave), bossRushBest: null } }),
+};
+
+/**
+ * Upgrade raw save data to SAVE_VERSION.
+ * Throws if the save is from a newer build or a migration step is missing.
+ */
+export function migrateSave(data: RawSave): RawSave {
+  let version = data['version'];
+  if (typeof version !== 'number') {
+    throw new Error('[migrateSave] Save data has no schema version.');
+  }
+  if (version > SAVE_VERSION) {
+    throw new Error(
+      `[migrateSave] Save version ${version} is newer than supported (${SAVE_VERSION}).`,
+    );
+  }
+
+  let current = data;
+  while (version < SAVE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`[migrateSave] No migration from version ${version}.`);
+    }
+    current = { ...step(current), version: version + 1 };
+    version += 1;
+  }
+  return current;
+}
+
+// ---------------------------------------------------------------------------
+// Serialisation
+// ---------------------------------------------------------------------------
+
+/** Convert GameState to its JSON-safe form. */
+export function serializeGameState(state: GameState): SavedGameState {
+  return {
+    scrap: state.scrap,
+    equippedWeapon: state.equippedWeapon,
+    unlockedWeapons: [...state.unlockedWeapons],
+    weaponUpgrades: structuredClone(state.weaponUpgrades),
+    codex: [...state.codex],
+    shipTier: state.shipTier,
+    bossRushBest: state.bossRushBest,
+    shieldCharge: state.shieldCharge,
+    repairKit: state.repairKit,
+  };
+}
+
+/**
+ * Rebuild GameState from saved data. Unknown weapon and synergy ids are
+ * dropped, upgrade levels are clamped to their tracks, an invalid boss
+ * rush time is dropped, and missing fields fall back to createGameState()
+ * defaults.
+ */
+export function deserializeGameState(saved: Partial<SavedGameState>): GameState {
+  const state = createGameState();
+  const isWeapon = (id: unknown): id is WeaponId =>
+    ALL_WEAPON_IDS.includes(id as WeaponId);
+
+  if (typeof saved.scrap === 'number') state.scrap = Math.max(0, saved.scrap);
+  if (typeof saved.shipTier === 'number') state.shipTier = saved.shipTier;
+  const best = saved.bossRushBest;
+  if (typeof best === 'number' && Number.isFinite(best) && best > 0) state.bossRushBest = best;
+  if (Array.isArray(saved.unlockedWeapons)) {
+    state.unlockedWeapons = new Set(saved.unlockedWeapons.filter(isWeapon));
+  }
+  if (saved.weaponUpgrades && typeof saved.weaponUpgrades === 'object') {
+    for (const id of ALL_WEAPON_IDS) {
+      readUpgradeLevels(saved.weaponUpgrades[id], state.weaponUpgrades[id]);
+    }
+  }
+  if (Array.isArray(saved.codex)) {
+    state.codex = new Set(saved.codex.filter(isSynergyId));
+  }
+  if (saved.equippedWeapon === null || isWeapon(saved.equippedWeapon)) {
+    state.equippedWeapon = saved.equippedWeapon;
+  }
+  // Never leave a locked weapon equipped
+  if (state.equippedWeapon && !state.unlockedWeapons.has(state.equippedWeapon)) {
+    state.equippedWeapon = null;
+  }
+  state.shieldCharge = saved.shieldCharge === true;
+  state.repairKit = saved.repairKit === true;
+  return state;
+}
+
+/** Copy valid saved track levels into `levels`, clamped to each track's max. */
+function readUpgradeLevels(saved: Partial<UpgradeLevels> | undefined, levels: UpgradeLevels): void {
+  if (!saved || typeof saved !== 'object') return;
+  for (const track of UPGRADE_TRACK_IDS) {
+    const level = saved[track];
+    if (typeof level !== 'number' || !Number.isFinite(level)) continue;
+    levels[track] = Math.max(0, Math.min(maxUpgradeLevel(track), Math.floor(level)));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SaveManager
+// ---------------------------------------------------------------------------
+
+export class SaveManager {
+  /** Slot used by autosave and by load()/save() without an explicit slot. */
+  activeSlot = 0;
+
+  private readonly storage: SaveStorage;
+
+  /**
+   * @param storage - backend to read/write; defaults to localStorage in the
+   *                  browser and an in-memory store elsewhere
+   */
+  constructor(storage: SaveStorage = createDefaultStorage()) {
+    this.storage = storage;
+  }
+
+  /** Write the state to a slot (defaults to the active slot). */
+  save(state: GameState, slot = this.activeSlot): void {
+    const file: SaveFile = {
+      version: SAVE_VERSION,
+      savedAt: Date.now(),
+      state: serializeGameState(state),
+    };
+    this.storage.write(this.keyFor(slot), JSON.stringify(file));
+  }
+
+  /**
+   * Read a slot, migrating old versions. Returns null when the slot is
+   * empty or the data cannot be read.
+   */
+  load(slot = this.activeSlot): GameState | null {
+    const file = this.readFile(slot);
+    return file ? deserializeGameState(file.state) : null;
+  }
+
+  /** Load the active slot, or start a fresh game if it is empty. */
+  loadOrCreate(): GameState {
+    return this.load() ?? createGameState();
+  }
+
+  /** Erase a slot. */
+  deleteSlot(slot: number): void {
+    this.storage.remove(this.keyFor(slot));
+  }
+
+  /** Summaries for every slot; empty or unreadable slots are null. */
+  listSlots(): Array<SaveSlotInfo | null> {
+    const slots: Array<SaveSlotInfo | null> = [];
+    for (let slot = 0; slot < SAVE_SLOT_COUNT; slot++) {
+      const file = this.readFile(slot);
+      slots.push(file ? {
+        slot,
+        savedAt: file.savedAt,
+        scrap: file.state.scrap,
+        shipTier: file.state.shipTier,
+      } : null);
+    }
+    return slots;
+  }
+
+  /** Parse and migrate a slot's save file, or null if unavailable. */
+  private readFile(slot: number): SaveFile | null {
+    const raw = this.storage.read(this.keyFor(slot));
+    if (raw === null) return null;
+    try {
+      const migrated = migrateSave(JSON.parse(raw) as RawSave);
+      if (typeof migrated['state'] !== 'object' || migrated['state'] === null) {
+        throw new Error('[SaveManager] Save data has no state.');
+      }
+      return migrated as unknown as SaveFile;
+    } catch (e) {
+      console.warn(`[SaveManager] Could not load slot ${slot}`, e);
+      return null;
+    }
+  }
+
+  /** Storage key for a slot; throws on an out-of-range slot. */
+  private keyFor(slot: number): string {
+    if (!Number.isInteger(slot) || slot < 0 || slot >= SAVE_SLOT_COUNT) {
+      throw new Error(`[SaveManager] Invalid save slot ${slot}.`);
+    }
+    return `${SAVE_KEY_PREFIX}${slot}`;
+  }
+}
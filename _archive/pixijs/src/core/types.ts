@@ -3,7 +3,7 @@
  *
  * Entity  – a plain numeric ID (no class overhead)
  * Component – any object with a `type` discriminant string
- * System  – update callback driven each frame by the game loop
+ * System  – update callback driven by the game loop (fixed tick or per frame)
  * Vector2 – simple 2D vector for positions, velocities, etc.
  */
 
@@ -47,7 +47,13 @@ export type ComponentType =
   | 'enemy'
   | 'projectile'
   | 'animationState'
-  | 'boss';
+  | 'boss'
+  | 'bossPart'
+  | 'behaviourTree'
+  | 'navAgent'
+  | 'elite'
+  | 'pickup'
+  | 'statusEffects';
 
 /** Base shape every component must satisfy. */
 export interface Component {
@@ -65,17 +71,26 @@ import type { World } from './world.js';
  * A System processes entities that own a specific set of components.
  *
  * `priority` controls execution order (lower = earlier).
- * The game loop calls `update` once per frame with the current World
- * and the delta-time in seconds.
+ * Gameplay systems are called once per fixed simulation tick;
+ * presentation systems once per rendered frame (see scheduler.ts).
  */
 export interface System {
   /** Lower priority systems run first. */
   readonly priority: number;
 
   /**
-   * Called once per frame.
+   * Called once per tick (gameplay) or frame (presentation).
    * @param world  - the ECS world to query / mutate
-   * @param dt     - elapsed time since last frame (seconds)
+   * @param dt     - fixed tick length, or elapsed frame time (seconds)
    */
   update(world: World, dt: number): void;
 }
+
+/** Read-only view of the scheduler's interpolation state. */
+export interface FrameTiming {
+  /**
+   * How far (0-1) the current frame sits between the previous and the
+   * latest simulation tick. Renderers lerp prev -> current transforms by it.
+   */
+  readonly alpha: number;
+}
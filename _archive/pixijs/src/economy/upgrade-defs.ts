@@ -0,0 +1,123 @@
+/**
+ * Weapon upgrade definitions — the tracks the player buys at the ship
+ * to improve each weapon.
+ *
+ * Every weapon has the same five tracks, levelled independently:
+ *   damage          — more damage per hit
+ *   fireRate        — more shots per second
+ *   range           — longer auto-aim reach
+ *   projectileCount — extra shots per volley, fanned around the aim
+ *   perk            — a weapon-specific projectile behaviour
+ *
+ * Levels are permanent (kept on death) and stored per weapon in
+ * GameState.weaponUpgrades.
+ */
+
+import type { ProjectileBehaviour, WeaponId } from '../combat/weapon-defs.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Identifiers for the upgrade tracks every weapon has. */
+export type UpgradeTrackId = 'damage' | 'fireRate' | 'range' | 'projectileCount' | 'perk';
+
+/** Ordered list of all track ids (UI order). */
+export const UPGRADE_TRACK_IDS: readonly UpgradeTrackId[] = [
+  'damage', 'fireRate', 'range', 'projectileCount', 'perk',
+];
+
+/** Bought level on each track (0 = not upgraded). */
+export type UpgradeLevels = Record<UpgradeTrackId, number>;
+
+/** Upgrade levels for every weapon. */
+export type WeaponUpgrades = Record<WeaponId, UpgradeLevels>;
+
+/** A track shared by every weapon. */
+export interface UpgradeTrackDef {
+  id: UpgradeTrackId;
+  /** Display name shown in the loadout UI. */
+  name: string;
+  /** Scrap cost of each level; its length is the track's max level. */
+  costs: readonly number[];
+}
+
+/** A weapon's perk track: projectile behaviour unlocked level by level. */
+export interface WeaponPerkDef {
+  /** Display name shown in the loadout UI. */
+  name: string;
+  /**
+   * Behaviour at each level, laid over the weapon's own behaviour
+   * (fields here win). Length must match the perk track's costs.
+   */
+  levels: readonly ProjectileBehaviour[];
+}
+
+// ---------------------------------------------------------------------------
+// Track registry
+// ---------------------------------------------------------------------------
+
+export const UPGRADE_TRACKS: Record<UpgradeTrackId, UpgradeTrackDef> = {
+  damage: { id: 'damage', name: 'Damage', costs: [40, 80, 140] },
+  fireRate: { id: 'fireRate', name: 'Fire Rate', costs: [40, 80, 140] },
+  range: { id: 'range', name: 'Range', costs: [25, 50] },
+  projectileCount: { id: 'projectileCount', name: 'Multishot', costs: [120, 220] },
+  perk: { id: 'perk', name: 'Perk', costs: [100, 200] },
+};
+
+/** Damage gained per damage level (fraction of base). */
+export const DAMAGE_PER_LEVEL = 0.2;
+
+/** Fire rate gained per fire-rate level (fraction of base). */
+export const FIRE_RATE_PER_LEVEL = 0.15;
+
+/** Range gained per range level (fraction of base). */
+export const RANGE_PER_LEVEL = 0.25;
+
+/**
+ * Perk track per weapon.
+ *
+ * Laser   — shots ricochet off walls.
+ * Rockets — bigger blasts that stay deadlier at the edge.
+ * Plasma  — shots curve toward the nearest enemy.
+ */
+export const WEAPON_PERKS: Record<WeaponId, WeaponPerkDef> = {
+  laser: {
+    name: 'Ricochet',
+    levels: [{ bounces: 1 }, { bounces: 2 }],
+  },
+  rockets: {
+    name: 'Big Payload',
+    levels: [
+      { explosion: { radius: 80, falloff: 0.35 } },
+      { explosion: { radius: 100, falloff: 0.5 } },
+    ],
+  },
+  plasma: {
+    name: 'Seeker Coils',
+    levels: [{ homing: 3 }, { homing: 6 }],
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Levels for a weapon with nothing bought. */
+export function createUpgradeLevels(): UpgradeLevels {
+  return { damage: 0, fireRate: 0, range: 0, projectileCount: 0, perk: 0 };
+}
+
+/** Fresh upgrade levels for every weapon. */
+export function createWeaponUpgrades(): WeaponUpgrades {
+  return {
+    laser: createUpgradeLevels(),
+    rockets: createUpgradeLevels(),
+    plasma: createUpgradeLevels(),
+  };
+}
+
+/** Highest level a track can reach. */
+export function maxUpgradeLevel(track: UpgradeTrackId): number {
+  return UPGRADE_TRACKS[track].costs.length;
+}
@@ -0,0 +1,164 @@
+/**
+ * Weapon upgrade logic — resolves a weapon's upgraded stats and buys
+ * upgrade levels with scrap.
+ *
+ * Like shop-logic.ts, everything here is a pure function except
+ * `buyUpgrade()`, which mutates the provided GameState.
+ */
+
+import type { GameState } from '../core/game-state.js';
+import type { ProjectileBehaviour, WeaponId } from '../combat/weapon-defs.js';
+import type { StatusEffectChance } from '../combat/status-effects.js';
+import { getWeaponDef } from '../combat/weapon-defs.js';
+import type { UpgradeLevels, UpgradeTrackId } from './upgrade-defs.js';
+import {
+  DAMAGE_PER_LEVEL,
+  FIRE_RATE_PER_LEVEL,
+  RANGE_PER_LEVEL,
+  UPGRADE_TRACKS,
+  UPGRADE_TRACK_IDS,
+  WEAPON_PERKS,
+  createUpgradeLevels,
+  maxUpgradeLevel,
+} from './upgrade-defs.js';
+
+// ---------------------------------------------------------------------------
+// Stats
+// ---------------------------------------------------------------------------
+
+/** A weapon's combat stats after upgrades. */
+export interface WeaponStats {
+  damage: number;
+  /** Shots per second. */
+  fireRate: number;
+  /** Auto-aim reach (pixels). */
+  range: number;
+  /** Projectile speed (m/s). */
+  projectileSpeed: number;
+  /** Projectiles per volley. */
+  projectileCount: number;
+  behaviour: ProjectileBehaviour;
+  /** Status effects its hits may inflict. */
+  effects: readonly StatusEffectChance[];
+}
+
+/** Resolve a weapon's stats with the given upgrade levels applied. */
+export function getWeaponStats(id: WeaponId, levels: UpgradeLevels): WeaponStats {
+  const def = getWeaponDef(id);
+  const perk = levels.perk > 0 ? WEAPON_PERKS[id].levels[levels.perk - 1] : undefined;
+  return {
+    damage: def.damage * (1 + DAMAGE_PER_LEVEL * levels.damage),
+    fireRate: def.fireRate * (1 + FIRE_RATE_PER_LEVEL * levels.fireRate),
+    range: def.range * (1 + RANGE_PER_LEVEL * levels.range),
+    projectileSpeed: def.projectileSpeed,
+    projectileCount: 1 + levels.projectileCount,
+    behaviour: { ...def.behaviour, ...perk },
+    effects: def.effects ?? [],
+  };
+}
+
+/**
+ * What a track's level means for this weapon, as shown in the loadout
+ * UI (e.g. "12 dmg", "3.5/s", "Ricochet II").
+ */
+export function describeUpgradeLevel(
+  id: WeaponId, track: UpgradeTrackId, level: number,
+): string {
+  const levels = { ...createUpgradeLevels(), [track]: level };
+  const stats = getWeaponStats(id, levels);
+  switch (track) {
+    case 'damage':
+      return `${round1(stats.damage)} dmg`;
+    case 'fireRate':
+      return `${round1(stats.fireRate)}/s`;
+    case 'range':
+      return `${Math.round(stats.range)}px`;
+    case 'projectileCount':
+      return `${stats.projectileCount} shot${stats.projectileCount > 1 ? 's' : ''}`;
+    case 'perk':
+      return level > 0 ? `${WEAPON_PERKS[id].name} ${'I'.repeat(level)}` : 'none';
+  }
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+// ---------------------------------------------------------------------------
+// Purchasing
+// ---------------------------------------------------------------------------
+
+/** Scrap cost of a track's next level, or null once it is maxed. */
+export function nextUpgradeCost(levels: UpgradeLevels, track: UpgradeTrackId): number | null {
+  return UPGRADE_TRACKS[track].costs[levels[track]] ?? null;
+}
+
+/** What the next level costs if the player can buy it right now, or why not. */
+function priceUpgrade(
+  state: GameState, id: WeaponId, track: UpgradeTrackId,
+): { cost: number } | { reason: string } {
+  if (!state.unlockedWeapons.has(id)) return { reason: 'Weapon locked' };
+  const cost = nextUpgradeCost(state.weaponUpgrades[id], track);
+  if (cost === null) return { reason: 'Max level' };
+  if (state.scrap < cost) return { reason: 'Not enough scrap' };
+  return { cost };
+}
+
+/**
+ * Determine whether the player can buy a track's next level right now.
+ * Returns a reason string if they can't, or null if purchase is valid.
+ */
+export function canUpgrade(
+  state: GameState, id: WeaponId, track: UpgradeTrackId,
+): string | null {
+  const price = priceUpgrade(state, id, track);
+  return 'reason' in price ? price.reason : null;
+}
+
+/**
+ * Buy a track's next level: deduct scrap and raise the level.
+ * Caller should check `canUpgrade()` first — this will throw if invalid.
+ */
+export function buyUpgrade(state: GameState, id: WeaponId, track: UpgradeTrackId): void {
+  const price = priceUpgrade(state, id, track);
+  if ('reason' in price) {
+    throw new Error(`Cannot upgrade ${id} ${UPGRADE_TRACKS[track].name}: ${price.reason}`);
+  }
+  state.scrap -= price.cost;
+  state.weaponUpgrades[id][track] += 1;
+}
+
+/** One track's row in the loadout UI. */
+export interface UpgradeDisplay {
+  track: UpgradeTrackId;
+  name: string;
+  level: number;
+  maxLevel: number;
+  /** Stat at the current level. */
+  current: string;
+  /** Stat at the next level, or null when maxed. */
+  next: string | null;
+  /** Cost of the next level, or null when maxed. */
+  cost: number | null;
+  /** Why it can't be bought now, or null. */
+  reason: string | null;
+}
+
+/** Every track for a weapon with its current/next stats and buyability. */
+export function getUpgradeDisplay(state: GameState, id: WeaponId): UpgradeDisplay[] {
+  const levels = state.weaponUpgrades[id];
+  return UPGRADE_TRACK_IDS.map((track) => {
+    const level = levels[track];
+    const maxLevel = maxUpgradeLevel(track);
+    return {
+      track,
+      name: UPGRADE_TRACKS[track].name,
+      level,
+      maxLevel,
+      current: describeUpgradeLevel(id, track, level),
+      next: level < maxLevel ? describeUpgradeLevel(id, track, level + 1) : null,
+      cost: nextUpgradeCost(levels, track),
+      reason: canUpgrade(state, id, track),
+    };
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Explosion -- a hot core that swells and fades inside a shockwave ring
+ * racing out to the blast radius.
+ * Used when an explosive projectile detonates.
+ * Self-destructs after EXPLOSION_DURATION seconds.
+ */
+
+import { Graphics, Container } from 'pixi.js';
+
+/** Total animation time (seconds). */
+const EXPLOSION_DURATION = 0.35;
+
+/** Core size as a fraction of the blast radius at its largest. */
+const CORE_FRACTION = 0.6;
+
+/** Shockwave ring thickness (pixels). */
+const RING_WIDTH = 3;
+
+/**
+ * Spawn an explosion at the given position.
+ *
+ * @param container - PixiJS container to add effect to (world container)
+ * @param x - world X position (pixels)
+ * @param y - world Y position (pixels)
+ * @param radius - blast radius the shockwave reaches (pixels)
+ * @param color - colour of the fireball (the ring is white-hot)
+ */
+export function spawnExplosion(
+  container: Container,
+  x: number,
+  y: number,
+  radius: number,
+  color: number,
+): void {
+  // Headless runs have no frame loop to drive the animation
+  if (typeof requestAnimationFrame === 'undefined') return;
+
+  const gfx = new Graphics();
+  gfx.x = x;
+  gfx.y = y;
+  container.addChild(gfx);
+
+  const startTime = performance.now();
+
+  function animate(): void {
+    const elapsed = (performance.now() - startTime) / 1000;
+    // t goes from 0 to 1 over EXPLOSION_DURATION
+    const t = elapsed / EXPLOSION_DURATION;
+
+    if (t >= 1) {
+      container.removeChild(gfx);
+      gfx.destroy();
+      return;
+    }
+
+    // Ring eases out to the full radius; the core swells fast then fades
+    const ease = 1 - (1 - t) * (1 - t);
+    gfx.clear();
+    gfx.circle(0, 0, radius * CORE_FRACTION * Math.min(1, t * 3));
+    gfx.fill({ color, alpha: 0.8 * (1 - t) });
+    gfx.circle(0, 0, radius * ease);
+    gfx.stroke({ color: 0xffffff, width: RING_WIDTH, alpha: 1 - t });
+    requestAnimationFrame(animate);
+  }
+  requestAnimationFrame(animate);
+}
@@ -0,0 +1,58 @@
+/**
+ * HazardWarning -- a pulsing strip on the arena floor marking where a
+ * boss hazard is about to strike.
+ * Self-destructs after the warning time.
+ */
+
+import { Graphics, Container } from 'pixi.js';
+
+/** Warning strip height (pixels). */
+const STRIP_HEIGHT = 8;
+
+/** Pulses per second. */
+const PULSE_RATE = 6;
+
+/**
+ * Spawn a warning strip centred on (x, y) that pulses for `duration`
+ * seconds, then removes itself via requestAnimationFrame.
+ *
+ * @param container - PixiJS container to add effect to (world container)
+ * @param width - strip width (pixels)
+ * @param duration - how long it stays (seconds)
+ * @param color - strip color
+ */
+export function spawnHazardWarning(
+  container: Container,
+  x: number,
+  y: number,
+  width: number,
+  duration: number,
+  color: number,
+): void {
+  // Headless runs have no frame loop to drive the animation
+  if (typeof requestAnimationFrame === 'undefined') return;
+
+  const gfx = new Graphics();
+  gfx.x = x;
+  gfx.y = y;
+  gfx.rect(-width / 2, -STRIP_HEIGHT / 2, width, STRIP_HEIGHT);
+  gfx.fill({ color });
+  container.addChild(gfx);
+
+  const startTime = performance.now();
+
+  function animate(): void {
+    const elapsed = (performance.now() - startTime) / 1000;
+    if (elapsed >= duration) {
+      container.removeChild(gfx);
+      gfx.destroy();
+      return;
+    }
+
+    // Steady pulse, brightening as the strike nears
+    const pulse = 0.5 + 0.5 * Math.sin(elapsed * PULSE_RATE * Math.PI * 2);
+    gfx.alpha = (0.3 + 0.5 * pulse) * (0.5 + 0.5 * elapsed / duration);
+    requestAnimationFrame(animate);
+  }
+  requestAnimationFrame(animate);
+}
@@ -27,6 +27,9 @@ export function spawnFlash(
   y: number,
   color = 0xffffff,
 ): void {
+  // Headless runs have no frame loop to drive the animation
+  if (typeof requestAnimationFrame === 'undefined') return;
+
   const gfx = new Graphics();
   gfx.x = x;
   gfx.y = y;
@@ -34,6 +34,9 @@ export function spawnWarpParticles(
   x: number,
   y: number,
 ): void {
+  // No requestAnimationFrame under Node (headless runner)
+  if (typeof requestAnimationFrame === 'undefined') return;
+
   const particles: { gfx: Graphics; vx: number; vy: number }[] = [];
 
   for (let i = 0; i < PARTICLE_COUNT; i++) {
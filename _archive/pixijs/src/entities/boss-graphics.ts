@@ -0,0 +1,228 @@
+/**
+ * Procedural boss graphics, keyed by boss id (combat/boss-defs.ts), and
+ * boss part graphics, keyed by look (combat/boss-parts.ts).
+ *
+ * Each builder returns a fresh Graphics centred on the origin, drawn
+ * around the boss's (or part's) hitbox. BossAISystem tints the whole
+ * graphic, so the base colours are kept dark enough for the tints to read.
+ */
+
+import { Graphics } from 'pixi.js';
+import type { BossId } from '../combat/boss-defs.js';
+import type { BossPartLook } from '../combat/boss-parts.js';
+
+// ---------------------------------------------------------------------------
+// The Warden — large imposing cyberpunk mech
+// ---------------------------------------------------------------------------
+
+/** Warden body half-width (pixels). */
+const WARDEN_W = 36;
+
+/** Warden body half-height (pixels). */
+const WARDEN_H = 56;
+
+function buildWardenGraphic(): Graphics {
+  const g = new Graphics();
+
+  // Main body — dark gunmetal
+  g.rect(-WARDEN_W, -WARDEN_H, WARDEN_W * 2, WARDEN_H * 2);
+  g.fill({ color: 0x2a2a3a, alpha: 0.95 });
+
+  // Armour plating — lighter panels top and bottom
+  g.rect(-WARDEN_W + 4, -WARDEN_H + 4, WARDEN_W * 2 - 8, 24);
+  g.fill({ color: 0x3a3a4a, alpha: 0.9 });
+  g.rect(-WARDEN_W + 4, WARDEN_H - 28, WARDEN_W * 2 - 8, 24);
+  g.fill({ color: 0x3a3a4a, alpha: 0.9 });
+
+  // Central core — red/orange glow
+  g.rect(-12, -20, 24, 16);
+  g.fill({ color: 0xff3322, alpha: 0.9 });
+
+  // Eye visor — bright red slit
+  g.rect(-20, -WARDEN_H + 12, 40, 6);
+  g.fill({ color: 0xff0000, alpha: 1.0 });
+
+  // Shoulder pauldrons
+  g.rect(-WARDEN_W - 6, -WARDEN_H + 2, 12, 30);
+  g.fill({ color: 0x444466, alpha: 0.9 });
+  g.rect(WARDEN_W - 6, -WARDEN_H + 2, 12, 30);
+  g.fill({ color: 0x444466, alpha: 0.9 });
+
+  // Cyan accent lines (cyberpunk aesthetic)
+  g.rect(-WARDEN_W + 2, -2, WARDEN_W * 2 - 4, 4);
+  g.fill({ color: 0x44ffff, alpha: 0.6 });
+
+  return g;
+}
+
+// ---------------------------------------------------------------------------
+// The Prism Moth — crystal-winged flyer
+// ---------------------------------------------------------------------------
+
+/** Moth wingspan half-width (pixels). */
+const MOTH_WING = 64;
+
+/** Moth body half-height (pixels). */
+const MOTH_H = 28;
+
+function buildPrismMothGraphic(): Graphics {
+  const g = new Graphics();
+
+  // Crystal wings — two facets per side
+  g.poly([-8, -6, -MOTH_WING, -MOTH_H - 14, -MOTH_WING + 10, 4]);
+  g.fill({ color: 0x8844cc, alpha: 0.75 });
+  g.poly([8, -6, MOTH_WING, -MOTH_H - 14, MOTH_WING - 10, 4]);
+  g.fill({ color: 0x8844cc, alpha: 0.75 });
+  g.poly([-8, 4, -MOTH_WING + 14, MOTH_H, -24, MOTH_H - 4]);
+  g.fill({ color: 0x44aadd, alpha: 0.75 });
+  g.poly([8, 4, MOTH_WING - 14, MOTH_H, 24, MOTH_H - 4]);
+  g.fill({ color: 0x44aadd, alpha: 0.75 });
+
+  // Body — dark segmented abdomen
+  g.ellipse(0, 0, 14, MOTH_H);
+  g.fill({ color: 0x2a1a3a, alpha: 0.95 });
+
+  // Glowing prism core
+  g.poly([0, -12, 8, 0, 0, 12, -8, 0]);
+  g.fill({ color: 0xff66ff, alpha: 1.0 });
+
+  // Antennae
+  g.moveTo(-4, -MOTH_H + 2).lineTo(-14, -MOTH_H - 14);
+  g.moveTo(4, -MOTH_H + 2).lineTo(14, -MOTH_H - 14);
+  g.stroke({ color: 0xcc88ff, width: 2 });
+
+  return g;
+}
+
+// ---------------------------------------------------------------------------
+// The Bastion — fortress with a venting core (turrets are parts)
+// ---------------------------------------------------------------------------
+
+/** Bastion half-width (pixels). */
+const BASTION_W = 60;
+
+/** Bastion half-height (pixels). */
+const BASTION_H = 80;
+
+function buildBastionGraphic(): Graphics {
+  const g = new Graphics();
+
+  // Fortress block — heavy dark plating
+  g.rect(-BASTION_W, -BASTION_H, BASTION_W * 2, BASTION_H * 2);
+  g.fill({ color: 0x22262e, alpha: 0.95 });
+
+  // Battlements along the top, where the guns are mounted
+  for (let x = -BASTION_W; x < BASTION_W; x += 24) {
+    g.rect(x, -BASTION_H - 10, 14, 10);
+  }
+  g.fill({ color: 0x333a44, alpha: 0.95 });
+
+  // Core vent — the weak point, behind a grille
+  g.rect(-22, -16, 44, 40);
+  g.fill({ color: 0x00ccaa, alpha: 0.9 });
+  for (let y = -12; y < 24; y += 8) g.rect(-22, y, 44, 3);
+  g.fill({ color: 0x22262e, alpha: 1.0 });
+
+  // Neon trim
+  g.rect(-BASTION_W + 4, BASTION_H - 12, BASTION_W * 2 - 8, 4);
+  g.fill({ color: 0xff44cc, alpha: 0.7 });
+
+  return g;
+}
+
+// ---------------------------------------------------------------------------
+// The Rootmother — rooted plant beast
+// ---------------------------------------------------------------------------
+
+/** Rootmother half-width (pixels). */
+const ROOT_W = 48;
+
+/** Rootmother half-height (pixels). */
+const ROOT_H = 60;
+
+function buildRootmotherGraphic(): Graphics {
+  const g = new Graphics();
+
+  // Trailing roots
+  for (const x of [-ROOT_W, -ROOT_W / 2, ROOT_W / 2, ROOT_W]) {
+    g.moveTo(x * 0.6, ROOT_H - 16).lineTo(x, ROOT_H);
+  }
+  g.stroke({ color: 0x5a3a1a, width: 5 });
+
+  // Bark mound
+  g.ellipse(0, 8, ROOT_W, ROOT_H - 8);
+  g.fill({ color: 0x3a2a1a, alpha: 0.95 });
+
+  // Moss cap
+  g.ellipse(0, -ROOT_H + 22, ROOT_W - 6, 22);
+  g.fill({ color: 0x2f6a2a, alpha: 0.95 });
+
+  // Blossom eye
+  g.circle(0, -4, 14);
+  g.fill({ color: 0xdd4488, alpha: 0.95 });
+  g.circle(0, -4, 6);
+  g.fill({ color: 0xffee66, alpha: 1.0 });
+
+  return g;
+}
+
+// ---------------------------------------------------------------------------
+// Parts — drawn to fill a (halfWidth, halfHeight) hitbox
+// ---------------------------------------------------------------------------
+
+/** Gun housing with a barrel on each side, so it reads either way round. */
+function buildTurretGraphic(w: number, h: number): Graphics {
+  const g = new Graphics();
+  g.rect(-w - 8, -3, (w + 8) * 2, 6);
+  g.fill({ color: 0x778899, alpha: 1.0 });
+  g.roundRect(-w, -h, w * 2, h * 2, 4);
+  g.fill({ color: 0x3a4250, alpha: 1.0 });
+  g.circle(0, 0, Math.min(w, h) / 2);
+  g.fill({ color: 0xff44cc, alpha: 0.9 });
+  return g;
+}
+
+/** Riveted armour plate. */
+function buildPlateGraphic(w: number, h: number): Graphics {
+  const g = new Graphics();
+  g.rect(-w, -h, w * 2, h * 2);
+  g.fill({ color: 0x4a5262, alpha: 1.0 });
+  g.rect(-w, -h, w * 2, h * 2);
+  g.stroke({ color: 0x6a7282, width: 2 });
+  for (const x of [-w + 5, w - 5]) {
+    for (const y of [-h + 5, h - 5]) g.circle(x, y, 2);
+  }
+  g.fill({ color: 0x8a92a2, alpha: 1.0 });
+  return g;
+}
+
+/** Squat launcher with three tubes pointing up. */
+function buildLauncherGraphic(w: number, h: number): Graphics {
+  const g = new Graphics();
+  g.rect(-w, -h / 2, w * 2, h * 1.5);
+  g.fill({ color: 0x3a4250, alpha: 1.0 });
+  for (const x of [-w / 2, 0, w / 2]) g.rect(x - 4, -h, 8, h);
+  g.fill({ color: 0x778899, alpha: 1.0 });
+  g.rect(-w, h - 4, w * 2, 4);
+  g.fill({ color: 0xffaa00, alpha: 0.8 });
+  return g;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Graphic builders by boss id. */
+export const BOSS_GRAPHICS: Readonly<Record<BossId, () => Graphics>> = {
+  'warden': buildWardenGraphic,
+  'prism-moth': buildPrismMothGraphic,
+  'bastion': buildBastionGraphic,
+  'rootmother': buildRootmotherGraphic,
+};
+
+/** Graphic builders by part look, given the part's half-size (pixels). */
+export const BOSS_PART_GRAPHICS: Readonly<Record<BossPartLook, (halfWidth: number, halfHeight: number) => Graphics>> = {
+  turret: buildTurretGraphic,
+  plate: buildPlateGraphic,
+  launcher: buildLauncherGraphic,
+};
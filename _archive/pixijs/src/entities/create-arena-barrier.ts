@@ -0,0 +1,69 @@
+/**
+ * Arena barrier factory – an energy wall that seals one side of an
+ * encounter arena while it is being fought.
+ *
+ * A fixed terrain-layer cuboid (so the player, enemies and shots all
+ * stop at it) with a translucent glowing strip for a visual. Removed
+ * through the EntityManager when the encounter is cleared.
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { Graphics } from 'pixi.js';
+import type { Container } from 'pixi.js';
+import type { Entity } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import { pixelsToMeters, toPhysicsPos } from '../core/physics.js';
+import { registerCollider } from '../core/collision-utils.js';
+import { withCollisionLayer } from '../core/collision-layers.js';
+import { createPhysicsBody, createSprite, createTransform } from '../components/index.js';
+
+/** Barrier thickness (pixels). */
+const BARRIER_WIDTH = 16;
+
+/** Barrier glow colour. */
+const BARRIER_COLOR = 0x44ddff;
+
+/** Barrier fill opacity. */
+const BARRIER_ALPHA = 0.35;
+
+/**
+ * Create a vertical barrier centred on x, spanning top..top+height (pixels).
+ */
+export function createArenaBarrier(
+  world: World,
+  physicsCtx: PhysicsContext,
+  worldContainer: Container,
+  x: number,
+  top: number,
+  height: number,
+): Entity {
+  const entity = world.createEntity();
+  const y = top + height / 2;
+
+  const physPos = toPhysicsPos(x, y);
+  const body = physicsCtx.world.createRigidBody(
+    RAPIER.RigidBodyDesc.fixed().setTranslation(physPos.x, physPos.y),
+  );
+  const collider = physicsCtx.world.createCollider(
+    withCollisionLayer(
+      RAPIER.ColliderDesc.cuboid(pixelsToMeters(BARRIER_WIDTH / 2), pixelsToMeters(height / 2)),
+      'terrain',
+    ),
+    body,
+  );
+
+  const gfx = new Graphics()
+    .rect(-BARRIER_WIDTH / 2, -height / 2, BARRIER_WIDTH, height)
+    .fill({ color: BARRIER_COLOR, alpha: BARRIER_ALPHA })
+    .rect(-1, -height / 2, 2, height)
+    .fill({ color: BARRIER_COLOR, alpha: 0.9 });
+  worldContainer.addChild(gfx);
+
+  world.addComponent(entity, createTransform(x, y));
+  world.addComponent(entity, createPhysicsBody(body.handle, 'static'));
+  world.addComponent(entity, createSprite(gfx, BARRIER_WIDTH, height));
+  registerCollider(physicsCtx, collider.handle, entity);
+
+  return entity;
+}
@@ -0,0 +1,147 @@
+/**
+ * Boss terrain hazards — what a boss's hazard step (combat/boss-pattern.ts)
+ * summons where it marked the floor.
+ *
+ * Thorns burst out of the ground and linger briefly; like the boss
+ * laser they only collide with the player, so the floor can't stop
+ * them. Rocks drop from above and shatter on whatever they land on,
+ * so platforms give cover.
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { Graphics } from 'pixi.js';
+import type { Container } from 'pixi.js';
+import type { Entity } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import { toPhysicsPos } from '../core/physics.js';
+import { registerCollider } from '../core/collision-utils.js';
+import { withCollisionLayer } from '../core/collision-layers.js';
+import { GRAVITY, PIXELS_PER_METER } from '../core/constants.js';
+import type { ProjectileStyle } from '../combat/weapon-defs.js';
+import {
+  createTransform,
+  createPhysicsBody,
+  createProjectile,
+  createSprite,
+} from '../components/index.js';
+import { createProjectileEntity } from './create-projectile.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Width of a thorn burst (pixels); also the width of its warning strip. */
+export const THORN_WIDTH = 28;
+
+/** Height of a thorn burst (pixels). */
+const THORN_HEIGHT = 100;
+
+/** How long thorns stay out (seconds). */
+const THORN_LIFETIME = 0.6;
+
+/** Height above the spawn line rocks drop from (pixels). */
+const ROCK_DROP_HEIGHT = 480;
+
+/** Initial fall speed of a rock (m/s). */
+const ROCK_SPEED = 4;
+
+/**
+ * Seconds from a rock dropping to it reaching the spawn line, under
+ * full gravity; a rockfall warning lasts this much past the strike.
+ */
+export const ROCK_FALL_TIME =
+  (Math.sqrt(ROCK_SPEED ** 2 + 2 * GRAVITY * (ROCK_DROP_HEIGHT / PIXELS_PER_METER)) - ROCK_SPEED) / GRAVITY;
+
+/** Look of a falling rock. */
+const ROCK_STYLE: ProjectileStyle = {
+  coreColor: 0xaa8866,
+  glowColor: 0x554433,
+  width: 18,
+  height: 18,
+};
+
+// ---------------------------------------------------------------------------
+// Factories
+// ---------------------------------------------------------------------------
+
+/**
+ * Burst thorns out of the ground, centred on the given point.
+ *
+ * @param ownerEntity - the boss that summoned them
+ */
+export function createThornSpike(
+  world: World,
+  physicsCtx: PhysicsContext,
+  worldContainer: Container,
+  x: number,
+  y: number,
+  damage: number,
+  ownerEntity: Entity,
+): Entity {
+  const entity = world.createEntity();
+
+  // -- Physics body (dynamic, zero gravity, never moves) --
+  const physPos = toPhysicsPos(x, y);
+  const bodyDesc = RAPIER.RigidBodyDesc.dynamic()
+    .setTranslation(physPos.x, physPos.y)
+    .lockRotations()
+    .setGravityScale(0);
+  const body = physicsCtx.world.createRigidBody(bodyDesc);
+
+  const colliderDesc = withCollisionLayer(
+    RAPIER.ColliderDesc.cuboid(
+      (THORN_WIDTH / 2) / PIXELS_PER_METER,
+      (THORN_HEIGHT / 2) / PIXELS_PER_METER,
+    ),
+    'enemyProjectile',
+    { ignore: ['terrain'] },
+  );
+  const collider = physicsCtx.world.createCollider(colliderDesc, body);
+
+  // -- ECS components --
+  world.addComponent(entity, createTransform(x, y));
+  world.addComponent(entity, createPhysicsBody(body.handle, 'dynamic'));
+  world.addComponent(entity, createProjectile(damage, ownerEntity, THORN_LIFETIME, 0));
+
+  // -- Cluster of green spikes --
+  const gfx = new Graphics();
+  const half = THORN_WIDTH / 2;
+  const base = THORN_HEIGHT / 2;
+  gfx.poly([-half, base, -half / 2, -base, 0, base]);
+  gfx.poly([-half / 2, base, half / 4, -base * 0.6, half, base]);
+  gfx.fill({ color: 0x2f8a2a, alpha: 0.95 });
+  gfx.poly([-4, base, 2, -base * 0.85, 8, base]);
+  gfx.fill({ color: 0x88ee66, alpha: 1.0 });
+
+  worldContainer.addChild(gfx);
+  world.addComponent(entity, createSprite(gfx, THORN_WIDTH, THORN_HEIGHT));
+
+  // -- Register collider --
+  registerCollider(physicsCtx, collider.handle, entity);
+
+  return entity;
+}
+
+/**
+ * Drop a rock from above the given point on the spawn line.
+ *
+ * @param ownerEntity - the boss that summoned it
+ */
+export function createFallingRock(
+  world: World,
+  physicsCtx: PhysicsContext,
+  worldContainer: Container,
+  x: number,
+  y: number,
+  damage: number,
+  ownerEntity: Entity,
+): Entity {
+  return createProjectileEntity(
+    world, physicsCtx, worldContainer,
+    x, y - ROCK_DROP_HEIGHT,
+    0, ROCK_SPEED,
+    damage, ownerEntity, ROCK_STYLE,
+    [], { gravity: 1 },
+  );
+}
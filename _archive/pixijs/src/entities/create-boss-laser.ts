@@ -1,6 +1,9 @@
 /**
  * Boss laser projectile — a tall horizontal energy beam that moves
  * slowly across the boss arena. Player must jump over it.
+ *
+ * Unlike ordinary shots it only collides with the player: it sweeps
+ * along the arena floor, so terrain must not stop it.
  */
 
 import RAPIER from '@dimforge/rapier2d-compat';
@@ -11,6 +14,7 @@ import type { World } from '../core/world.js';
 import type { PhysicsContext } from '../core/physics.js';
 import { toPhysicsPos } from '../core/physics.js';
 import { registerCollider } from '../core/collision-utils.js';
+import { withCollisionLayer } from '../core/collision-layers.js';
 import { PIXELS_PER_METER } from '../core/constants.js';
 import {
   createTransform,
@@ -65,8 +69,11 @@ export function createBossLaser(
   // Tall thin collider (sensor — no physics push)
   const colliderW = (BEAM_WIDTH / 2) / PIXELS_PER_METER;
   const colliderH = (BEAM_HEIGHT / 2) / PIXELS_PER_METER;
-  const colliderDesc = RAPIER.ColliderDesc.cuboid(colliderW, colliderH)
-    .setSensor(true);
+  const colliderDesc = withCollisionLayer(
+    RAPIER.ColliderDesc.cuboid(colliderW, colliderH),
+    'enemyProjectile',
+    { ignore: ['terrain'] },
+  );
   const collider = physicsCtx.world.createCollider(colliderDesc, body);
 
   // -- ECS components --
@@ -0,0 +1,74 @@
+/**
+ * Boss part entity factory — one destructible piece of a boss
+ * (combat/boss-parts.ts): its own health, hitbox and graphic.
+ *
+ * The body is kinematic and BossPartSystem moves it with the boss each
+ * tick. Its collider sits on the enemy layer so player shots hit it,
+ * but ignores terrain and the player: the boss's own hitbox is what
+ * pushes and hurts, a part only soaks up shots.
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import type { Container } from 'pixi.js';
+import type { Entity } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import { pixelsToMeters, toPhysicsPos } from '../core/physics.js';
+import { registerCollider } from '../core/collision-utils.js';
+import { withCollisionLayer } from '../core/collision-layers.js';
+import type { BossPartDef } from '../combat/boss-parts.js';
+import {
+  createTransform,
+  createPhysicsBody,
+  createHealth,
+  createSprite,
+  createBossPart,
+} from '../components/index.js';
+import { BOSS_PART_GRAPHICS } from './boss-graphics.js';
+
+/**
+ * Create a part on a boss standing at (bossX, bossY).
+ *
+ * @param bossEntity - the boss it belongs to
+ */
+export function createBossPartEntity(
+  world: World,
+  physicsCtx: PhysicsContext,
+  worldContainer: Container,
+  bossEntity: Entity,
+  def: BossPartDef,
+  bossX: number,
+  bossY: number,
+): Entity {
+  const entity = world.createEntity();
+  const x = bossX + def.x;
+  const y = bossY + def.y;
+
+  // -- Physics body (kinematic, moved along with the boss) --
+  const physPos = toPhysicsPos(x, y);
+  const body = physicsCtx.world.createRigidBody(
+    RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(physPos.x, physPos.y),
+  );
+
+  const colliderDesc = withCollisionLayer(
+    RAPIER.ColliderDesc.cuboid(pixelsToMeters(def.halfWidth), pixelsToMeters(def.halfHeight)),
+    'enemy',
+    { ignore: ['terrain', 'player'] },
+  );
+  const collider = physicsCtx.world.createCollider(colliderDesc, body);
+
+  // -- ECS components --
+  world.addComponent(entity, createTransform(x, y));
+  world.addComponent(entity, createPhysicsBody(body.handle, 'kinematic'));
+  world.addComponent(entity, createHealth(def.hp));
+  world.addComponent(entity, createBossPart(bossEntity, def));
+
+  const gfx = BOSS_PART_GRAPHICS[def.look](def.halfWidth, def.halfHeight);
+  worldContainer.addChild(gfx);
+  world.addComponent(entity, createSprite(gfx, def.halfWidth * 2, def.halfHeight * 2));
+
+  // -- Register collider for collision lookups --
+  registerCollider(physicsCtx, collider.handle, entity);
+
+  return entity;
+}
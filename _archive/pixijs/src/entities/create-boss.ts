@@ -0,0 +1,106 @@
+/**
+ * Boss entity factory — builds any boss from its pattern in
+ * combat/boss-defs.ts: physics body sized by the pattern's body,
+ * health, enemy and boss components, its graphic from
+ * entities/boss-graphics.ts, and an entity per destructible part
+ * (create-boss-part.ts).
+ *
+ * Ground bosses fall under gravity and collide with terrain; flying
+ * bosses float and pass through it, kept in the arena by their steps.
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import type { Container } from 'pixi.js';
+import type { Entity } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import { pixelsToMeters, toPhysicsPos } from '../core/physics.js';
+import { registerCollider } from '../core/collision-utils.js';
+import { withCollisionLayer } from '../core/collision-layers.js';
+import {
+  createTransform,
+  createPhysicsBody,
+  createEnemy,
+  createHealth,
+  createSprite,
+  createStatusEffects,
+} from '../components/index.js';
+import { createBoss } from '../components/boss.js';
+import type { BossId } from '../combat/boss-defs.js';
+import { getBossDef } from '../combat/boss-defs.js';
+import { BOSS_IMMUNITIES } from '../combat/status-effects.js';
+import type { BossArenaDef } from '../level/level-data.js';
+import { BOSS_GRAPHICS } from './boss-graphics.js';
+import { createBossPartEntity } from './create-boss-part.js';
+
+/** How far bosses notice the player (pixels) — the whole arena. */
+const BOSS_DETECTION_RANGE = 600;
+
+/**
+ * Create a boss in its arena, standing on the arena's spawn line at the
+ * point across it that its pattern asks for.
+ */
+export function createBossEntity(
+  bossId: BossId,
+  world: World,
+  physicsCtx: PhysicsContext,
+  worldContainer: Container,
+  arena: BossArenaDef,
+): Entity {
+  const pattern = getBossDef(bossId);
+  const { body: def, parts = [] } = pattern;
+  const entity = world.createEntity();
+  const x = arena.minX + (arena.maxX - arena.minX) * (def.spawnAt ?? 0.5);
+  const y = arena.y - def.halfHeight;
+
+  // -- Physics body (dynamic, rotation locked) --
+  const physPos = toPhysicsPos(x, y);
+  const bodyDesc = RAPIER.RigidBodyDesc.dynamic()
+    .setTranslation(physPos.x, physPos.y)
+    .lockRotations();
+  if (def.flying) bodyDesc.setGravityScale(0);
+  const body = physicsCtx.world.createRigidBody(bodyDesc);
+
+  const colliderDesc = withCollisionLayer(
+    RAPIER.ColliderDesc.cuboid(pixelsToMeters(def.halfWidth), pixelsToMeters(def.halfHeight))
+      .setFriction(0.5).setRestitution(0),
+    'enemy',
+    def.flying ? { ignore: ['terrain'] } : {},
+  );
+  const collider = physicsCtx.world.createCollider(colliderDesc, body);
+
+  // -- ECS components --
+  world.addComponent(entity, createTransform(x, y));
+  world.addComponent(entity, createPhysicsBody(body.handle, 'dynamic'));
+  world.addComponent(entity, createHealth(def.hp));
+
+  // EnemyComponent for damage/death/scrap interop
+  // Uses 'walker' type but AI is driven by BossAISystem
+  world.addComponent(entity, createEnemy('walker', def.contactDamage, BOSS_DETECTION_RANGE, {
+    patrolOriginX: x,
+    patrolOriginY: y,
+    patrolDistance: (arena.maxX - arena.minX) / 2,
+  }));
+
+  // BossComponent — BossAISystem runs its pattern
+  const boss = createBoss(bossId, pattern.phases[0], arena);
+  world.addComponent(entity, boss);
+  world.addComponent(entity, createStatusEffects(BOSS_IMMUNITIES));
+
+  const gfx = BOSS_GRAPHICS[bossId]();
+  worldContainer.addChild(gfx);
+  world.addComponent(entity, createSprite(gfx, def.halfWidth * 2, def.halfHeight * 2));
+
+  // -- Register collider for collision lookups --
+  registerCollider(physicsCtx, collider.handle, entity);
+
+  // -- Parts, drawn over the body --
+  for (const part of parts) {
+    boss.parts.set(
+      part.id,
+      createBossPartEntity(world, physicsCtx, worldContainer, entity, part, x, y),
+    );
+  }
+
+  return entity;
+}
@@ -1,13 +1,122 @@
 /**
- * Enemy entity factories – barrel re-export for backwards compatibility.
- * Each enemy type lives in its own file to stay under the 250-line limit.
+ * Enemy entity factory – builds any regular enemy from its definition
+ * in combat/enemy-defs.json: physics body and collider, health, AI
+ * state and behaviour tree, optional nav agent and weapon, sprite and
+ * animations. Elite affixes (combat/elite-affixes.ts) scale its stats
+ * and add an EliteComponent.
+ *
+ * Bosses have their own factory and it is re-exported from here.
  */
 
-export { createWalkerEnemy } from './create-walker.js';
-export { createFlyerEnemy } from './create-flyer.js';
-export { createTurretEnemy } from './create-turret.js';
-export { createSentryEnemy } from './create-sentry.js';
-export { createCrawlerEnemy } from './create-crawler.js';
-export { createShielderEnemy } from './create-shielder.js';
-export { createPhantomEnemy } from './create-phantom.js';
-export { createBossWarden } from './create-boss-warden.js';
+import RAPIER from '@dimforge/rapier2d-compat';
+import type { Container } from 'pixi.js';
+import type { Entity } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import { toPhysicsPos } from '../core/physics.js';
+import { registerCollider } from '../core/collision-utils.js';
+import { withCollisionLayer } from '../core/collision-layers.js';
+import type { EnemyColliderDef, EnemyDef } from '../combat/enemy-defs.js';
+import type { AffixId } from '../combat/elite-affixes.js';
+import { affixMultiplier } from '../combat/elite-affixes.js';
+import {
+  createTransform,
+  createPhysicsBody,
+  createEnemy,
+  createHealth,
+  createWeapon,
+  createSprite,
+  createAnimationState,
+  createBehaviourTree,
+  createNavAgent,
+  createElite,
+  createStatusEffects,
+} from '../components/index.js';
+import { buildEnemyAnimations, buildEnemySprite } from './enemy-sprite.js';
+
+export { createBossEntity } from './create-boss.js';
+
+/**
+ * Create an enemy from its definition at the given position (pixels).
+ * The spawn point is also the centre of its patrol.
+ *
+ * @param affixes - elite affixes to promote it with (none = regular)
+ */
+export function createEnemyEntity(
+  def: EnemyDef,
+  world: World,
+  physicsCtx: PhysicsContext,
+  worldContainer: Container,
+  x: number,
+  y: number,
+  affixes: readonly AffixId[] = [],
+): Entity {
+  const entity = world.createEntity();
+
+  // -- Physics body (rotation locked) --
+  const physPos = toPhysicsPos(x, y);
+  const fixed = def.body.type === 'fixed';
+  const bodyDesc = fixed ? RAPIER.RigidBodyDesc.fixed() : RAPIER.RigidBodyDesc.dynamic();
+  bodyDesc.setTranslation(physPos.x, physPos.y).lockRotations();
+  if (!def.body.gravity) bodyDesc.setGravityScale(0);
+  const body = physicsCtx.world.createRigidBody(bodyDesc);
+
+  const colliderDesc = withCollisionLayer(
+    buildColliderDesc(def.collider).setFriction(def.collider.friction).setRestitution(0),
+    'enemy',
+  );
+  const collider = physicsCtx.world.createCollider(colliderDesc, body);
+
+  // -- ECS components --
+  world.addComponent(entity, createTransform(x, y));
+  world.addComponent(entity, createPhysicsBody(body.handle, fixed ? 'static' : 'dynamic'));
+  const health = Math.round(def.health * affixMultiplier(affixes, 'healthMult'));
+  const contactDamage = Math.round(def.contactDamage * affixMultiplier(affixes, 'contactDamageMult'));
+  world.addComponent(entity, createHealth(health));
+  const enemy = createEnemy(def.behaviour, contactDamage, def.detectionRange, {
+    defId: def.id,
+    scrapReward: Math.round(def.scrap * affixMultiplier(affixes, 'scrapMult')),
+    patrolDistance: def.patrolDistance,
+    patrolOriginX: x,
+    patrolOriginY: y,
+    perception: def.perception,
+  });
+  enemy.speedMultiplier = affixMultiplier(affixes, 'speedMult');
+  world.addComponent(entity, enemy);
+  if (affixes.length > 0) world.addComponent(entity, createElite(affixes, health));
+  world.addComponent(entity, createStatusEffects(def.immune));
+  world.addComponent(entity, createBehaviourTree(def.behaviour));
+  if (def.navigation) world.addComponent(entity, createNavAgent(def.navigation));
+  if (def.weapon) {
+    const w = def.weapon;
+    world.addComponent(entity, createWeapon(w.id, w.damage, w.fireRate, w.range, w.projectileSpeed));
+  }
+
+  // -- Sprite --
+  const display = buildEnemySprite(def.sprite);
+  worldContainer.addChild(display);
+  world.addComponent(entity, createSprite(display, def.sprite.width, def.sprite.height));
+
+  // -- Animation state --
+  const animations = buildEnemyAnimations(def.sprite);
+  if (animations.size > 0 && def.sprite.kind === 'animated') {
+    world.addComponent(entity, createAnimationState(animations, def.sprite.initial));
+  }
+
+  // -- Register collider --
+  registerCollider(physicsCtx, collider.handle, entity);
+
+  return entity;
+}
+
+/** Rapier collider description for a definition's shape (metres). */
+function buildColliderDesc(shape: EnemyColliderDef): RAPIER.ColliderDesc {
+  switch (shape.shape) {
+    case 'ball':
+      return RAPIER.ColliderDesc.ball(shape.radius);
+    case 'capsule':
+      return RAPIER.ColliderDesc.capsule(shape.halfHeight, shape.radius);
+    case 'cuboid':
+      return RAPIER.ColliderDesc.cuboid(shape.halfWidth, shape.halfHeight);
+  }
+}
@@ -10,8 +10,10 @@ import type { Container } from 'pixi.js';
 import type { Entity } from '../core/types.js';
 import type { World } from '../core/world.js';
 import { MECH_ORBIT_RADIUS, MECH_ORBIT_SPEED } from '../core/constants.js';
-import { getWeaponDef } from '../combat/weapon-defs.js';
 import type { WeaponId } from '../combat/weapon-defs.js';
+import type { UpgradeLevels } from '../economy/upgrade-defs.js';
+import { createUpgradeLevels } from '../economy/upgrade-defs.js';
+import { getWeaponStats } from '../economy/upgrade-logic.js';
 import { getTexture, hasTexture } from '../core/asset-loader.js';
 import { extractFrames } from '../core/sprite-utils.js';
 import type { AnimationData } from '../components/animation-state.js';
@@ -60,6 +62,7 @@ const BEANS_SCALE = 1.5;
  * Create the mech companion entity with orbit/weapon components
  * and an animated pixel-robot sprite. No physics body.
  * @param weaponId - Which weapon the mech should equip from the registry.
+ * @param upgrades - Upgrade levels bought for that weapon.
  */
 export function createMechEntity(
   world: World,
@@ -68,9 +71,10 @@ export function createMechEntity(
   x: number,
   y: number,
   weaponId: WeaponId,
+  upgrades: UpgradeLevels = createUpgradeLevels(),
 ): Entity {
   const entity = world.createEntity();
-  const wpn = getWeaponDef(weaponId);
+  const wpn = getWeaponStats(weaponId, upgrades);
 
   // -- ECS components --
   world.addComponent(
@@ -79,7 +83,10 @@ export function createMechEntity(
   );
   world.addComponent(
     entity,
-    createWeapon(weaponId, wpn.damage, wpn.fireRate, wpn.range, wpn.projectileSpeed),
+    createWeapon(
+      weaponId, wpn.damage, wpn.fireRate, wpn.range, wpn.projectileSpeed,
+      wpn.projectileCount, wpn.behaviour, wpn.effects,
+    ),
   );
 
   // -- Sprite: prefer B3ANS (PixelLab) over pixel-robot fallback --
@@ -0,0 +1,130 @@
+/**
+ * Pickup entity factory – scrap orbs, health orbs and consumables
+ * dropped by dead enemies (see combat/loot.ts).
+ *
+ * A pickup is a small dynamic ball that falls and bounces on terrain
+ * through its solid 'loot' collider, and is collected when the player
+ * overlaps its larger 'pickup' sensor. PickupSystem does the rest.
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { Graphics } from 'pixi.js';
+import type { Container } from 'pixi.js';
+import type { Entity } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import { pixelsToMeters, toPhysicsPos } from '../core/physics.js';
+import { registerCollider } from '../core/collision-utils.js';
+import { withCollisionLayer } from '../core/collision-layers.js';
+import { gameRandom } from '../core/rng.js';
+import type { LootDrop, PickupKind } from '../combat/loot.js';
+import {
+  createPhysicsBody,
+  createPickup,
+  createSprite,
+  createTransform,
+} from '../components/index.js';
+
+/** Radius of the bouncing body (pixels). */
+const BODY_RADIUS = 5;
+
+/** Radius of the collection sensor (pixels). */
+const SENSOR_RADIUS = 14;
+
+/** Bounciness of a dropped pickup. */
+const RESTITUTION = 0.5;
+
+/** Seconds a pickup lies around before despawning. */
+export const PICKUP_LIFETIME = 12;
+
+/** Launch speed range of a drop (m/s): sideways spread and upward pop. */
+const SCATTER_X = 3;
+const POP_MIN = 3;
+const POP_MAX = 6;
+
+/** Fill and rim colours per kind. */
+const PICKUP_COLORS: Record<PickupKind, { fill: number; rim: number }> = {
+  scrap: { fill: 0xffcc33, rim: 0xfff2aa },
+  health: { fill: 0x33ff66, rim: 0xccffdd },
+  shieldCharge: { fill: 0x33ccff, rim: 0xccf2ff },
+  repairKit: { fill: 0xff8833, rim: 0xffddbb },
+};
+
+/** Draw a pickup: a diamond for scrap, a cross for health, an orb otherwise. */
+function buildPickupGraphic(kind: PickupKind): Graphics {
+  const { fill, rim } = PICKUP_COLORS[kind];
+  const g = new Graphics();
+  if (kind === 'scrap') {
+    g.poly([0, -6, 5, 0, 0, 6, -5, 0]).fill(fill).stroke({ color: rim, width: 1 });
+  } else if (kind === 'health') {
+    g.rect(-2, -7, 4, 14).rect(-7, -2, 14, 4).fill(fill);
+    g.circle(0, 0, 9).stroke({ color: rim, width: 1, alpha: 0.6 });
+  } else {
+    g.circle(0, 0, 7).fill({ color: fill, alpha: 0.9 }).stroke({ color: rim, width: 2 });
+  }
+  return g;
+}
+
+/**
+ * Create a pickup at (x, y) pixels moving at (vx, vy) m/s.
+ * @returns the new entity
+ */
+export function createPickupEntity(
+  world: World,
+  physicsCtx: PhysicsContext,
+  worldContainer: Container,
+  drop: LootDrop,
+  x: number,
+  y: number,
+  vx: number,
+  vy: number,
+): Entity {
+  const entity = world.createEntity();
+
+  const physPos = toPhysicsPos(x, y);
+  const body = physicsCtx.world.createRigidBody(
+    RAPIER.RigidBodyDesc.dynamic()
+      .setTranslation(physPos.x, physPos.y)
+      .lockRotations()
+      .setCcdEnabled(true),
+  );
+  body.setLinvel({ x: vx, y: vy }, true);
+
+  const solid = physicsCtx.world.createCollider(
+    withCollisionLayer(RAPIER.ColliderDesc.ball(pixelsToMeters(BODY_RADIUS)), 'loot')
+      .setRestitution(RESTITUTION),
+    body,
+  );
+  const sensor = physicsCtx.world.createCollider(
+    withCollisionLayer(RAPIER.ColliderDesc.ball(pixelsToMeters(SENSOR_RADIUS)), 'pickup'),
+    body,
+  );
+
+  const gfx = buildPickupGraphic(drop.kind);
+  worldContainer.addChild(gfx);
+
+  world.addComponent(entity, createTransform(x, y));
+  world.addComponent(entity, createPhysicsBody(body.handle, 'dynamic'));
+  world.addComponent(entity, createSprite(gfx, SENSOR_RADIUS * 2, SENSOR_RADIUS * 2));
+  world.addComponent(entity, createPickup(drop.kind, drop.amount, PICKUP_LIFETIME));
+  registerCollider(physicsCtx, solid.handle, entity);
+  registerCollider(physicsCtx, sensor.handle, entity);
+
+  return entity;
+}
+
+/** Scatter a kill's drops from (x, y) pixels, each popping up at a random angle. */
+export function spawnLoot(
+  world: World,
+  physicsCtx: PhysicsContext,
+  worldContainer: Container,
+  drops: readonly LootDrop[],
+  x: number,
+  y: number,
+): void {
+  for (const drop of drops) {
+    const vx = (gameRandom() * 2 - 1) * SCATTER_X;
+    const vy = -(POP_MIN + gameRandom() * (POP_MAX - POP_MIN));
+    createPickupEntity(world, physicsCtx, worldContainer, drop, x, y, vx, vy);
+  }
+}
@@ -11,6 +11,7 @@ import type { World } from '../core/world.js';
 import type { PhysicsContext } from '../core/physics.js';
 import { toPhysicsPos } from '../core/physics.js';
 import { registerCollider } from '../core/collision-utils.js';
+import { withCollisionLayer } from '../core/collision-layers.js';
 import { PLAYER_MAX_HEALTH } from '../core/constants.js';
 import { getTexture, hasTexture } from '../core/asset-loader.js';
 import { extractFrames } from '../core/sprite-utils.js';
@@ -71,12 +72,12 @@ export function createPlayerEntity(
     .lockRotations();
   const body = physicsCtx.world.createRigidBody(bodyDesc);
 
-  const colliderDesc = RAPIER.ColliderDesc.capsule(
-    CAPSULE_HALF_HEIGHT,
-    CAPSULE_RADIUS,
-  )
-    .setFriction(0)
-    .setRestitution(0);
+  const colliderDesc = withCollisionLayer(
+    RAPIER.ColliderDesc.capsule(CAPSULE_HALF_HEIGHT, CAPSULE_RADIUS)
+      .setFriction(0)
+      .setRestitution(0),
+    'player',
+  );
   const collider = physicsCtx.world.createCollider(colliderDesc, body);
 
   // -- ECS components (scale set per-sprite below) --
@@ -3,7 +3,10 @@
  * physics body (zero gravity) and a thin yellow line visual.
  *
  * The projectile travels at a fixed velocity until its lifetime expires
- * or it collides with an enemy.
+ * or it hits a target or a wall. Its collision layer follows the side of
+ * the entity that fired it: enemy shots hit the player, everything else
+ * hits enemies. CCD is enabled so fast bolts can't skip past thin
+ * colliders between ticks.
  */
 
 import RAPIER from '@dimforge/rapier2d-compat';
@@ -14,8 +17,10 @@ import type { World } from '../core/world.js';
 import type { PhysicsContext } from '../core/physics.js';
 import { toPhysicsPos } from '../core/physics.js';
 import { registerCollider } from '../core/collision-utils.js';
+import { withCollisionLayer } from '../core/collision-layers.js';
 import { PIXELS_PER_METER } from '../core/constants.js';
-import type { ProjectileStyle } from '../combat/weapon-defs.js';
+import type { ProjectileBehaviour, ProjectileStyle } from '../combat/weapon-defs.js';
+import type { StatusEffectChance } from '../combat/status-effects.js';
 import {
   createTransform,
   createPhysicsBody,
@@ -54,6 +59,8 @@ const DEFAULT_LIFETIME = 2.0;
  * @param damage         - damage dealt on hit
  * @param ownerEntity    - entity that fired this projectile
  * @param style          - optional visual style (defaults to yellow laser bolt)
+ * @param effects        - status effects a hit may inflict
+ * @param behaviour      - flight and impact behaviour (gravity arcs are set up here)
  * @returns the newly created entity ID
  */
 export function createProjectileEntity(
@@ -67,6 +74,8 @@ export function createProjectileEntity(
   damage: number,
   ownerEntity: Entity,
   style?: ProjectileStyle,
+  effects: readonly StatusEffectChance[] = [],
+  behaviour: ProjectileBehaviour = {},
 ): Entity {
   const entity = world.createEntity();
 
@@ -76,32 +85,41 @@ export function createProjectileEntity(
   const core = style?.coreColor ?? 0xffffcc;
   const glow = style?.glowColor ?? 0xffff00;
 
-  // -- Physics body (dynamic, no gravity, locked rotation) --
+  // -- Physics body (dynamic, no gravity unless it arcs, facing its velocity) --
   const physPos = toPhysicsPos(x, y);
+  const angle = Math.atan2(vy, vx);
   const bodyDesc = RAPIER.RigidBodyDesc.dynamic()
     .setTranslation(physPos.x, physPos.y)
+    .setRotation(angle)
     .lockRotations()
-    .setGravityScale(0);
+    .setGravityScale(behaviour.gravity ?? 0)
+    .setCcdEnabled(true);
   const body = physicsCtx.world.createRigidBody(bodyDesc);
 
   // Set initial velocity in m/s
   body.setLinvel({ x: vx, y: vy }, true);
 
   // Cuboid collider scaled to projectile dimensions (sensor, no physics response)
+  const hostile = world.getComponent(ownerEntity, 'enemy') !== undefined;
   const colliderW = (w / 2) / PIXELS_PER_METER;
   const colliderH = (h / 2) / PIXELS_PER_METER;
-  const colliderDesc = RAPIER.ColliderDesc.cuboid(colliderW, colliderH).setSensor(true);
+  const colliderDesc = withCollisionLayer(
+    RAPIER.ColliderDesc.cuboid(colliderW, colliderH),
+    hostile ? 'enemyProjectile' : 'playerProjectile',
+  );
   const collider = physicsCtx.world.createCollider(colliderDesc, body);
 
   // -- ECS components --
-  world.addComponent(entity, createTransform(x, y));
+  world.addComponent(entity, createTransform(x, y, angle));
   world.addComponent(entity, createPhysicsBody(body.handle, 'dynamic'));
 
   // Compute speed from velocity magnitude for the component
   const speed = Math.sqrt(vx * vx + vy * vy);
   world.addComponent(
     entity,
-    createProjectile(damage, ownerEntity, DEFAULT_LIFETIME, speed, style?.glowColor),
+    createProjectile(
+      damage, ownerEntity, DEFAULT_LIFETIME, speed, style?.glowColor, effects, behaviour,
+    ),
   );
 
   // -- Sci-fi laser bolt sprite (styled per weapon) --
@@ -119,8 +137,6 @@ export function createProjectileEntity(
   gfx.rect(-w / 2 + 1, -0.5, w - 2, 1);
   gfx.fill(0xffffff);
 
-  // Rotate to match velocity direction: atan2(vy, vx)
-  gfx.rotation = Math.atan2(vy, vx);
   worldContainer.addChild(gfx);
 
   world.addComponent(entity, createSprite(gfx, w, h));
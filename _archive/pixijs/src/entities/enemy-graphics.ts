@@ -0,0 +1,158 @@
+/**
+ * Procedural enemy graphics, keyed by the name enemy definitions use
+ * (`sprite.graphic` in combat/enemy-defs.json).
+ *
+ * Each builder returns a fresh Graphics centred on the origin.
+ */
+
+import { Graphics } from 'pixi.js';
+
+// ---------------------------------------------------------------------------
+// Sentry — diamond with a bright core
+// ---------------------------------------------------------------------------
+
+/** Sentry half-size (pixels). */
+const SENTRY_SIZE = 16;
+
+/** Draw a diamond-shaped sentry with a cyan-yellow colour scheme. */
+function buildSentryGraphic(): Graphics {
+  const g = new Graphics();
+  const s = SENTRY_SIZE;
+
+  // Outer diamond (yellow-orange)
+  g.poly([0, -s, s, 0, 0, s, -s, 0]);
+  g.fill({ color: 0xffaa22, alpha: 0.9 });
+
+  // Inner diamond (bright yellow core)
+  const inner = s * 0.5;
+  g.poly([0, -inner, inner, 0, 0, inner, -inner, 0]);
+  g.fill({ color: 0xffff44, alpha: 1 });
+
+  return g;
+}
+
+// ---------------------------------------------------------------------------
+// Crawler — spiky bug
+// ---------------------------------------------------------------------------
+
+/** Crawler half-dimensions (pixels). */
+const CRAWLER_W = 20;
+const CRAWLER_H = 12;
+
+/** Draw a spiky, insect-like crawler shape. */
+function buildCrawlerGraphic(): Graphics {
+  const g = new Graphics();
+
+  // Body oval (dark green)
+  g.ellipse(0, 0, CRAWLER_W * 0.7, CRAWLER_H * 0.6);
+  g.fill({ color: 0x22aa44, alpha: 0.9 });
+
+  // Spiky legs (3 per side)
+  g.moveTo(-CRAWLER_W * 0.5, 0);
+  g.lineTo(-CRAWLER_W * 0.8, CRAWLER_H * 0.5);
+  g.moveTo(0, 0);
+  g.lineTo(-CRAWLER_W * 0.2, CRAWLER_H * 0.6);
+  g.moveTo(CRAWLER_W * 0.5, 0);
+  g.lineTo(CRAWLER_W * 0.8, CRAWLER_H * 0.5);
+  g.stroke({ color: 0x44ff66, width: 2 });
+
+  // Eyes (two small purple dots)
+  g.circle(-4, -3, 2);
+  g.circle(4, -3, 2);
+  g.fill({ color: 0xcc44ff });
+
+  return g;
+}
+
+// ---------------------------------------------------------------------------
+// Shielder — armoured body with an energy shield
+// ---------------------------------------------------------------------------
+
+/** Shielder body half-width (pixels). */
+const SHIELDER_W = 14;
+
+/** Shielder body half-height (pixels). */
+const SHIELDER_H = 18;
+
+/** Shield bar visual offset from body centre (pixels). */
+const SHIELD_OFFSET_X = 16;
+
+/** Shield bar height (pixels). */
+const SHIELD_HEIGHT = 30;
+
+/**
+ * Draw a blocky armoured body with a glowing energy shield on the right side.
+ * The shield visual is a child named 'shield' so it can be flipped by AI.
+ */
+function buildShielderGraphic(): Graphics {
+  const g = new Graphics();
+
+  // Body — dark purple-gray armoured rectangle
+  g.rect(-SHIELDER_W, -SHIELDER_H, SHIELDER_W * 2, SHIELDER_H * 2);
+  g.fill({ color: 0x664488, alpha: 0.9 });
+
+  // Inner core — lighter accent
+  g.rect(-SHIELDER_W + 4, -SHIELDER_H + 4, SHIELDER_W * 2 - 8, SHIELDER_H * 2 - 8);
+  g.fill({ color: 0x8866aa, alpha: 0.8 });
+
+  // Eye slit
+  g.rect(-6, -6, 12, 4);
+  g.fill({ color: 0xff4444, alpha: 1 });
+
+  // Shield bar — bright cyan energy barrier on the right side
+  const shieldG = new Graphics();
+  shieldG.rect(SHIELD_OFFSET_X - 2, -SHIELD_HEIGHT / 2, 4, SHIELD_HEIGHT);
+  shieldG.fill({ color: 0x44ffff, alpha: 0.8 });
+
+  // Shield glow (wider, semi-transparent)
+  shieldG.rect(SHIELD_OFFSET_X - 4, -SHIELD_HEIGHT / 2 - 2, 8, SHIELD_HEIGHT + 4);
+  shieldG.fill({ color: 0x44ffff, alpha: 0.3 });
+
+  shieldG.label = 'shield';
+  g.addChild(shieldG);
+
+  return g;
+}
+
+// ---------------------------------------------------------------------------
+// Phantom — ghostly shimmer
+// ---------------------------------------------------------------------------
+
+/** Phantom body half-width (pixels). */
+const PHANTOM_W = 12;
+
+/** Phantom body half-height (pixels). */
+const PHANTOM_H = 16;
+
+/** Draw a ghostly semi-transparent purple body with inner glow. */
+function buildPhantomGraphic(): Graphics {
+  const g = new Graphics();
+
+  // Outer body -- dark magenta
+  g.rect(-PHANTOM_W, -PHANTOM_H, PHANTOM_W * 2, PHANTOM_H * 2);
+  g.fill({ color: 0x8822aa, alpha: 0.7 });
+
+  // Inner core -- brighter purple glow
+  g.rect(-PHANTOM_W + 3, -PHANTOM_H + 3, PHANTOM_W * 2 - 6, PHANTOM_H * 2 - 6);
+  g.fill({ color: 0xcc44ff, alpha: 0.5 });
+
+  // Eye slits -- bright magenta
+  g.rect(-6, -4, 4, 3);
+  g.fill({ color: 0xff44ff, alpha: 1 });
+  g.rect(2, -4, 4, 3);
+  g.fill({ color: 0xff44ff, alpha: 1 });
+
+  return g;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Procedural graphic builders by name. */
+export const ENEMY_GRAPHICS: Readonly<Record<string, () => Graphics>> = {
+  sentry: buildSentryGraphic,
+  crawler: buildCrawlerGraphic,
+  shielder: buildShielderGraphic,
+  phantom: buildPhantomGraphic,
+};
@@ -0,0 +1,64 @@
+/**
+ * Enemy visuals built from an enemy definition's `sprite` block:
+ * animated sprites cut from sheets / frame lists, or a procedural
+ * graphic from enemy-graphics.ts.
+ */
+
+import { AnimatedSprite } from 'pixi.js';
+import type { Container, Texture } from 'pixi.js';
+import { getTexture, hasTexture } from '../core/asset-loader.js';
+import { extractFrames } from '../core/sprite-utils.js';
+import type { AnimationData } from '../components/animation-state.js';
+import type { EnemyAnimationDef, EnemySpriteDef } from '../combat/enemy-defs.js';
+import { ENEMY_GRAPHICS } from './enemy-graphics.js';
+
+/** Frames of one animation; empty if its textures aren't loaded. */
+function animationFrames(anim: EnemyAnimationDef): Texture[] {
+  if ('textures' in anim) {
+    return anim.textures.filter((key) => hasTexture(key)).map((key) => getTexture(key));
+  }
+  if (!hasTexture(anim.texture)) return [];
+  return extractFrames(getTexture(anim.texture), anim.frameWidth, anim.frameHeight, 0, anim.frames);
+}
+
+/** Texture key shown when an animation's frames are missing. */
+function fallbackKey(anim: EnemyAnimationDef): string {
+  return 'textures' in anim ? anim.textures[0] : anim.texture;
+}
+
+/**
+ * Create the display object for an enemy, already scaled and with its
+ * starting alpha. The caller adds it to the scene.
+ */
+export function buildEnemySprite(def: EnemySpriteDef): Container {
+  if (def.kind === 'procedural') {
+    const gfx = ENEMY_GRAPHICS[def.graphic]();
+    gfx.alpha = def.alpha ?? 1;
+    return gfx;
+  }
+
+  const initial = def.animations[def.initial];
+  const frames = animationFrames(initial);
+  const sprite = new AnimatedSprite(frames.length > 0 ? frames : [getTexture(fallbackKey(initial))]);
+  sprite.anchor.set(0.5, 0.5);
+  if (frames.length > 0) {
+    sprite.animationSpeed = initial.fps / 60;
+    sprite.play();
+  }
+  sprite.scale.set(def.scale);
+  return sprite;
+}
+
+/**
+ * Animation clips for the AnimationSystem. Empty for procedural
+ * sprites and for clips whose textures aren't loaded.
+ */
+export function buildEnemyAnimations(def: EnemySpriteDef): Map<string, AnimationData> {
+  const anims = new Map<string, AnimationData>();
+  if (def.kind !== 'animated') return anims;
+  for (const [name, anim] of Object.entries(def.animations)) {
+    const frames = animationFrames(anim);
+    if (frames.length > 0) anims.set(name, { frames, fps: anim.fps, loop: true });
+  }
+  return anims;
+}
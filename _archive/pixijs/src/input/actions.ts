@@ -2,11 +2,64 @@
  * Game actions and key bindings.
  *
  * Defines the logical actions the player can perform and maps them to
- * physical key codes. Helper functions query the InputManager using
- * the binding table so gameplay code never deals with raw key codes.
+ * physical key codes. Helper functions query an InputState (the live
+ * InputManager or a scripted source) using the binding table so
+ * gameplay code never deals with raw key codes. The keyboard table can
+ * be changed at runtime through key-bindings.ts; gamepads report virtual
+ * codes (see gamepad.ts) matched against GAMEPAD_BINDINGS.
  */
 
-import type { InputManager } from './input-manager.js';
+// ---------------------------------------------------------------------------
+// Input state
+// ---------------------------------------------------------------------------
+
+/**
+ * Read-only input state queried by gameplay code. Implemented by the
+ * keyboard/gamepad-driven InputManager and by ScriptedInput for
+ * headless runs.
+ */
+export interface InputState {
+  /** True while the key (KeyboardEvent.code or gamepad code) is held down. */
+  isDown(code: string): boolean;
+  /** True only on the frame the key was pressed. */
+  isJustPressed(code: string): boolean;
+  /**
+   * Analog horizontal movement in [-1, 1] (e.g. a stick), already
+   * quantised to 1/ANALOG_STEPS; 0 when there is none.
+   */
+  moveAxis(): number;
+  /**
+   * World-space aim direction in radians (0 = right, y down) from the
+   * mouse or right stick, quantised via quantizeAim(); null when the
+   * player isn't aiming.
+   */
+  aimAngle(): number | null;
+}
+
+/**
+ * Analog values are rounded to 1/ANALOG_STEPS at the source, so a
+ * replay can store them as small integers and reproduce them exactly.
+ */
+export const ANALOG_STEPS = 100;
+
+/** Aim directions are snapped to one of AIM_STEPS per full turn (0.1 deg). */
+export const AIM_STEPS = 3600;
+
+/** Aim angle -> integer step in [0, AIM_STEPS). */
+export function aimToSteps(angle: number): number {
+  const turn = angle / (Math.PI * 2);
+  return ((Math.round(turn * AIM_STEPS) % AIM_STEPS) + AIM_STEPS) % AIM_STEPS;
+}
+
+/** Integer step -> aim angle. The only way aim angles are built. */
+export function aimFromSteps(steps: number): number {
+  return (steps * Math.PI * 2) / AIM_STEPS;
+}
+
+/** Snap a raw angle to the aim grid (same value a replay reproduces). */
+export function quantizeAim(angle: number): number {
+  return aimFromSteps(aimToSteps(angle));
+}
 
 // ---------------------------------------------------------------------------
 // Action enum
@@ -18,56 +71,116 @@ export enum Action {
   MoveRight = 'move-right',
   Jump = 'jump',
   Down = 'down',
+  /** Switch B3ANS between auto-orbit and manual aim. */
+  ToggleMech = 'toggle-mech',
+  /** Fire B3ANS's weapon (manual mode only). */
+  Fire = 'fire',
 }
 
 // ---------------------------------------------------------------------------
 // Key bindings
 // ---------------------------------------------------------------------------
 
+/** Every action, in display order (used by the bindings screen). */
+export const ALL_ACTIONS: Action[] = [
+  Action.MoveLeft,
+  Action.MoveRight,
+  Action.Jump,
+  Action.Down,
+  Action.ToggleMech,
+  Action.Fire,
+];
+
 /**
- * Maps each action to one or more KeyboardEvent.code values.
- * Players can use either arrow keys or WASD.
+ * Factory bindings: each action maps to one or more KeyboardEvent.code
+ * values. Players can use either arrow keys or WASD. 'MouseLeft' is the
+ * left mouse button, reported by InputManager like a key.
  */
-export const KEY_BINDINGS: Record<Action, string[]> = {
+export const DEFAULT_KEY_BINDINGS: Readonly<Record<Action, readonly string[]>> = {
   [Action.MoveLeft]: ['ArrowLeft', 'KeyA'],
   [Action.MoveRight]: ['ArrowRight', 'KeyD'],
   [Action.Jump]: ['ArrowUp', 'KeyW', 'Space'],
   [Action.Down]: ['ArrowDown', 'KeyS'],
+  [Action.ToggleMech]: ['KeyQ'],
+  [Action.Fire]: ['MouseLeft', 'KeyF'],
 };
 
+/**
+ * Gamepad bindings (standard mapping). Not rebindable: the layout
+ * follows the controller's own labels.
+ */
+export const GAMEPAD_BINDINGS: Readonly<Record<Action, readonly string[]>> = {
+  [Action.MoveLeft]: ['GamepadLeft', 'GamepadStickLeft'],
+  [Action.MoveRight]: ['GamepadRight', 'GamepadStickRight'],
+  [Action.Jump]: ['GamepadA'],
+  [Action.Down]: ['GamepadDown', 'GamepadStickDown'],
+  [Action.ToggleMech]: ['GamepadY'],
+  [Action.Fire]: ['GamepadRT', 'GamepadRB'],
+};
+
+/**
+ * Active bindings, read by the helpers below. Starts as a copy of the
+ * defaults; only key-bindings.ts should modify it.
+ */
+export const KEY_BINDINGS = Object.fromEntries(
+  ALL_ACTIONS.map((action) => [action, [...DEFAULT_KEY_BINDINGS[action]]]),
+) as Record<Action, string[]>;
+
 // ---------------------------------------------------------------------------
 // Helper functions
 // ---------------------------------------------------------------------------
 
 /**
- * Check if any key bound to the given action is currently held down.
+ * Check if any key or button bound to the given action is currently
+ * held down.
  *
  * @param action - the logical game action
- * @param input  - the InputManager instance
+ * @param input  - the input state to query
  * @returns true if at least one bound key is down
  */
-export function isActionDown(action: Action, input: InputManager): boolean {
-  const keys = KEY_BINDINGS[action];
-  for (const code of keys) {
+export function isActionDown(action: Action, input: InputState): boolean {
+  for (const code of KEY_BINDINGS[action]) {
+    if (input.isDown(code)) return true;
+  }
+  for (const code of GAMEPAD_BINDINGS[action]) {
     if (input.isDown(code)) return true;
   }
   return false;
 }
 
 /**
- * Check if any key bound to the given action was just pressed this frame.
+ * Check if any key or button bound to the given action was just pressed
+ * this frame.
  *
  * @param action - the logical game action
- * @param input  - the InputManager instance
+ * @param input  - the input state to query
  * @returns true if at least one bound key was pressed this frame
  */
 export function isActionJustPressed(
   action: Action,
-  input: InputManager,
+  input: InputState,
 ): boolean {
-  const keys = KEY_BINDINGS[action];
-  for (const code of keys) {
+  for (const code of KEY_BINDINGS[action]) {
+    if (input.isJustPressed(code)) return true;
+  }
+  for (const code of GAMEPAD_BINDINGS[action]) {
     if (input.isJustPressed(code)) return true;
   }
   return false;
 }
+
+/**
+ * Horizontal movement in [-1, 1]. An analog stick outside its dead zone
+ * wins (partial tilt walks slower); otherwise MoveLeft/MoveRight give
+ * -1, 0 or 1.
+ *
+ * @param input - the input state to query
+ */
+export function getMoveAxis(input: InputState): number {
+  const analog = input.moveAxis();
+  if (analog !== 0) return analog;
+  let dir = 0;
+  if (isActionDown(Action.MoveLeft, input)) dir -= 1;
+  if (isActionDown(Action.MoveRight, input)) dir += 1;
+  return dir;
+}
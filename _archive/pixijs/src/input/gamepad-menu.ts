@@ -0,0 +1,57 @@
+/**
+ * GamepadMenuBridge -- lets a controller drive the keyboard-based menus.
+ *
+ * The ship interior, star map, overlays and victory screen all listen
+ * for keydown/keyup on window. Rather than teach each of them about
+ * gamepads, the bridge turns pad presses into the equivalent keyboard
+ * events: d-pad / left stick -> arrow keys, A / Start -> Enter,
+ * B -> Escape, Y -> B (star map boss rush). Gameplay reads the pad through the Action API instead,
+ * so the bridge is released while a level is running.
+ */
+
+import type { GamepadInput } from './gamepad.js';
+
+/** Keyboard code -> pad codes that produce it. */
+const MENU_BINDINGS: Readonly<Record<string, readonly string[]>> = {
+  ArrowUp: ['GamepadUp', 'GamepadStickUp'],
+  ArrowDown: ['GamepadDown', 'GamepadStickDown'],
+  ArrowLeft: ['GamepadLeft', 'GamepadStickLeft'],
+  ArrowRight: ['GamepadRight', 'GamepadStickRight'],
+  Enter: ['GamepadA', 'GamepadStart'],
+  Escape: ['GamepadB'],
+  KeyB: ['GamepadY'],
+};
+
+export class GamepadMenuBridge {
+  private readonly pad: GamepadInput;
+
+  /** Keyboard codes the bridge currently holds down. */
+  private readonly held = new Set<string>();
+
+  /** @param pad - the polled gamepad (InputManager.gamepad) */
+  constructor(pad: GamepadInput) {
+    this.pad = pad;
+  }
+
+  /** Emit keydown/keyup for pad changes since the last call. Once per frame. */
+  update(): void {
+    for (const [key, padCodes] of Object.entries(MENU_BINDINGS)) {
+      const down = padCodes.some((code) => this.pad.isDown(code));
+      if (down && !this.held.has(key)) {
+        this.held.add(key);
+        window.dispatchEvent(new KeyboardEvent('keydown', { code: key }));
+      } else if (!down && this.held.has(key)) {
+        this.held.delete(key);
+        window.dispatchEvent(new KeyboardEvent('keyup', { code: key }));
+      }
+    }
+  }
+
+  /** Release every held key, e.g. when gameplay takes over the pad. */
+  releaseAll(): void {
+    for (const key of this.held) {
+      window.dispatchEvent(new KeyboardEvent('keyup', { code: key }));
+    }
+    this.held.clear();
+  }
+}
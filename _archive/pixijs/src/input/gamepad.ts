@@ -0,0 +1,157 @@
+/**
+ * GamepadInput -- polls the browser Gamepad API once per frame.
+ *
+ * The Gamepad API has no events for buttons, so pads must be polled.
+ * Each poll turns the first connected pad (standard mapping) into a set
+ * of virtual codes ('GamepadA', 'GamepadLeft', 'GamepadStickLeft', ...)
+ * with the same held / just-pressed semantics InputManager gives keys.
+ * GAMEPAD_BINDINGS in actions.ts maps those codes onto Actions.
+ *
+ * The left stick also provides an analog horizontal axis, with a dead
+ * zone, rescaled so movement ramps smoothly from 0 at the edge of the
+ * dead zone to 1 at full tilt. The right stick gives an aim direction.
+ *
+ * Where pads come from is injectable (GamepadSource), so tests can
+ * drive a fake pad without a browser.
+ */
+
+import { ANALOG_STEPS } from './actions.js';
+
+// ---------------------------------------------------------------------------
+// Source
+// ---------------------------------------------------------------------------
+
+/** The parts of a browser Gamepad that we read. */
+export interface GamepadLike {
+  readonly connected: boolean;
+  readonly buttons: readonly { readonly pressed: boolean }[];
+  readonly axes: readonly number[];
+}
+
+/** Supplies the current pads (browser API in game, a fake in tests). */
+export interface GamepadSource {
+  getGamepads(): readonly (GamepadLike | null)[];
+}
+
+/** Reads navigator.getGamepads(); yields no pads where it is unsupported. */
+export const browserGamepadSource: GamepadSource = {
+  getGamepads: () =>
+    typeof navigator !== 'undefined' && typeof navigator.getGamepads === 'function'
+      ? navigator.getGamepads()
+      : [],
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Virtual codes for standard-mapping buttons, indexed by button number. */
+const BUTTON_CODES: readonly string[] = [
+  'GamepadA', 'GamepadB', 'GamepadX', 'GamepadY',
+  'GamepadLB', 'GamepadRB', 'GamepadLT', 'GamepadRT',
+  'GamepadBack', 'GamepadStart', 'GamepadLS', 'GamepadRS',
+  'GamepadUp', 'GamepadDown', 'GamepadLeft', 'GamepadRight',
+];
+
+/** Stick deflection (0-1) ignored as drift. */
+export const STICK_DEAD_ZONE = 0.2;
+
+/** Stick deflection at which it also counts as a d-pad direction. */
+export const STICK_DIGITAL_THRESHOLD = 0.5;
+
+// ---------------------------------------------------------------------------
+// GamepadInput
+// ---------------------------------------------------------------------------
+
+export class GamepadInput {
+  private readonly source: GamepadSource;
+
+  /** Virtual codes currently held. */
+  private readonly codesDown = new Set<string>();
+
+  /** Virtual codes that went down since the last update(). */
+  private codesJustPressed = new Set<string>();
+
+  /** Left stick X after dead zone, quantised to 1/ANALOG_STEPS. */
+  private axisX = 0;
+
+  /** Right stick direction (radians), or null inside the dead zone. */
+  private aim: number | null = null;
+
+  private isConnected = false;
+
+  /** @param source - where to read pads from (defaults to the browser) */
+  constructor(source: GamepadSource = browserGamepadSource) {
+    this.source = source;
+  }
+
+  /** True if a pad was found on the last poll. */
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
+  /** Analog horizontal stick value in [-1, 1]; 0 inside the dead zone. */
+  get moveAxis(): number {
+    return this.axisX;
+  }
+
+  /** Right stick direction in radians (y down), or null when centred. */
+  get aimAngle(): number | null {
+    return this.aim;
+  }
+
+  /** True while the virtual code is held. */
+  isDown(code: string): boolean {
+    return this.codesDown.has(code);
+  }
+
+  /** True if the virtual code went down since the last update(). */
+  isJustPressed(code: string): boolean {
+    return this.codesJustPressed.has(code);
+  }
+
+  /** Read the pad and record press edges. Call once per frame. */
+  poll(): void {
+    const pad = this.source.getGamepads().find((p) => p?.connected) ?? null;
+    this.isConnected = pad !== null;
+
+    const now = new Set<string>();
+    if (pad) {
+      pad.buttons.forEach((button, i) => {
+        if (button.pressed && BUTTON_CODES[i]) now.add(BUTTON_CODES[i]);
+      });
+      const x = pad.axes[0] ?? 0;
+      const y = pad.axes[1] ?? 0;
+      if (x <= -STICK_DIGITAL_THRESHOLD) now.add('GamepadStickLeft');
+      if (x >= STICK_DIGITAL_THRESHOLD) now.add('GamepadStickRight');
+      if (y <= -STICK_DIGITAL_THRESHOLD) now.add('GamepadStickUp');
+      if (y >= STICK_DIGITAL_THRESHOLD) now.add('GamepadStickDown');
+      this.axisX = applyDeadZone(x);
+      const ax = pad.axes[2] ?? 0;
+      const ay = pad.axes[3] ?? 0;
+      this.aim = Math.hypot(ax, ay) > STICK_DEAD_ZONE ? Math.atan2(ay, ax) : null;
+    } else {
+      this.axisX = 0;
+      this.aim = null;
+    }
+
+    for (const code of now) {
+      if (!this.codesDown.has(code)) this.codesJustPressed.add(code);
+    }
+    this.codesDown.clear();
+    for (const code of now) this.codesDown.add(code);
+  }
+
+  /** Clear just-pressed state. Called alongside InputManager.update(). */
+  update(): void {
+    this.codesJustPressed = new Set<string>();
+  }
+}
+
+/** Zero inside the dead zone, rescaled to [-1, 1] outside it. */
+function applyDeadZone(value: number): number {
+  const mag = Math.abs(value);
+  if (mag <= STICK_DEAD_ZONE) return 0;
+  const scaled = Math.min(1, (mag - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE));
+  return (Math.sign(value) * Math.round(scaled * ANALOG_STEPS)) / ANALOG_STEPS;
+}
@@ -1,5 +1,5 @@
 /**
- * InputManager -- tracks keyboard state for the game loop.
+ * InputManager -- tracks keyboard and gamepad state for the game loop.
  *
  * Uses `event.code` (e.g. 'KeyW', 'ArrowUp') for layout-independent
  * key detection. Maintains three sets:
@@ -7,24 +7,27 @@
  *   - keysJustPressed:  keys pressed this frame (cleared each update)
  *   - keysJustReleased: keys released this frame (cleared each update)
  *
+ * Gamepad codes come from a GamepadInput; call `pollGamepad()` once per
+ * frame. The left mouse button is reported as the code 'MouseLeft'.
+ * Queries answer for any device, so gameplay code doesn't care which
+ * one the player uses.
+ *
+ * Aim follows whichever device moved last: the mouse (its direction from
+ * B3ANS, supplied each frame via `setPointerAim()`) or the right stick.
+ *
  * Call `update()` at the START of each frame to clear the "just" sets.
  * Call `destroy()` when tearing down to remove event listeners.
  */
 
-/** Set of key codes that the game uses and should preventDefault on. */
-const GAME_KEYS = new Set<string>([
-  'ArrowUp',
-  'ArrowDown',
-  'ArrowLeft',
-  'ArrowRight',
-  'KeyW',
-  'KeyA',
-  'KeyS',
-  'KeyD',
-  'Space',
-]);
-
-export class InputManager {
+import { quantizeAim } from './actions.js';
+import type { InputState } from './actions.js';
+import { isBoundKey } from './key-bindings.js';
+import { GamepadInput } from './gamepad.js';
+
+export class InputManager implements InputState {
+  /** Polled gamepad state (also used directly by menu navigation). */
+  readonly gamepad: GamepadInput;
+
   /** Keys currently held down. */
   private readonly keysDown = new Set<string>();
 
@@ -34,16 +37,33 @@ export class InputManager {
   /** Keys that were released this frame (cleared each update()). */
   private keysJustReleased = new Set<string>();
 
+  /** Which device aimed last. */
+  private aimSource: 'mouse' | 'pad' | null = null;
+
+  /** Mouse aim angle from setPointerAim(). */
+  private pointerAim: number | null = null;
+
+  /** Last right-stick angle; held after the stick is released. */
+  private padAim: number | null = null;
+
   /** Bound handler references so we can remove them in destroy(). */
   private readonly handleKeyDown: (e: KeyboardEvent) => void;
   private readonly handleKeyUp: (e: KeyboardEvent) => void;
+  private readonly handleMouse: (e: MouseEvent) => void;
 
-  constructor() {
+  /** @param gamepad - gamepad poller (inject one with a fake source to test) */
+  constructor(gamepad: GamepadInput = new GamepadInput()) {
+    this.gamepad = gamepad;
     this.handleKeyDown = this.onKeyDown.bind(this);
     this.handleKeyUp = this.onKeyUp.bind(this);
 
+    this.handleMouse = this.onMouse.bind(this);
+
     window.addEventListener('keydown', this.handleKeyDown);
     window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('mousedown', this.handleMouse);
+    window.addEventListener('mouseup', this.handleMouse);
+    window.addEventListener('mousemove', this.handleMouse);
   }
 
   // -----------------------------------------------------------------------
@@ -55,7 +75,7 @@ export class InputManager {
    * @param code - KeyboardEvent.code value (e.g. 'KeyW', 'ArrowLeft')
    */
   isDown(code: string): boolean {
-    return this.keysDown.has(code);
+    return this.keysDown.has(code) || this.gamepad.isDown(code);
   }
 
   /**
@@ -63,7 +83,7 @@ export class InputManager {
    * @param code - KeyboardEvent.code value
    */
   isJustPressed(code: string): boolean {
-    return this.keysJustPressed.has(code);
+    return this.keysJustPressed.has(code) || this.gamepad.isJustPressed(code);
   }
 
   /**
@@ -74,6 +94,34 @@ export class InputManager {
     return this.keysJustReleased.has(code);
   }
 
+  /** Left-stick horizontal axis from the gamepad (0 without one). */
+  moveAxis(): number {
+    return this.gamepad.moveAxis;
+  }
+
+  aimAngle(): number | null {
+    const raw = this.aimSource === 'mouse' ? this.pointerAim : this.padAim;
+    return raw === null ? null : quantizeAim(raw);
+  }
+
+  /**
+   * Set the mouse aim direction (radians, world space). Game computes it
+   * each frame from the cursor and B3ANS's on-screen position.
+   */
+  setPointerAim(angle: number | null): void {
+    this.pointerAim = angle;
+  }
+
+  /** Read the gamepad. Call once per rendered frame. */
+  pollGamepad(): void {
+    this.gamepad.poll();
+    const stick = this.gamepad.aimAngle;
+    if (stick !== null) {
+      this.padAim = stick;
+      this.aimSource = 'pad';
+    }
+  }
+
   /**
    * Called at the START of each frame to clear per-frame state.
    * Must be invoked before any gameplay code reads input.
@@ -81,6 +129,7 @@ export class InputManager {
   update(): void {
     this.keysJustPressed = new Set<string>();
     this.keysJustReleased = new Set<string>();
+    this.gamepad.update();
   }
 
   /**
@@ -89,6 +138,9 @@ export class InputManager {
   destroy(): void {
     window.removeEventListener('keydown', this.handleKeyDown);
     window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('mousedown', this.handleMouse);
+    window.removeEventListener('mouseup', this.handleMouse);
+    window.removeEventListener('mousemove', this.handleMouse);
   }
 
   // -----------------------------------------------------------------------
@@ -97,12 +149,12 @@ export class InputManager {
 
   /**
    * Handle keydown events.
-   * Prevents default for game keys (arrow keys, WASD, space) to avoid
-   * browser scrolling while playing.
+   * Prevents default for any key bound to an action (arrow keys, space,
+   * ...) to avoid browser scrolling while playing.
    * Ignores repeat events (key held down) for justPressed tracking.
    */
   private onKeyDown(e: KeyboardEvent): void {
-    if (GAME_KEYS.has(e.code)) {
+    if (isBoundKey(e.code)) {
       e.preventDefault();
     }
 
@@ -118,11 +170,27 @@ export class InputManager {
    * Prevents default for game keys for consistency.
    */
   private onKeyUp(e: KeyboardEvent): void {
-    if (GAME_KEYS.has(e.code)) {
+    if (isBoundKey(e.code)) {
       e.preventDefault();
     }
 
     this.keysDown.delete(e.code);
     this.keysJustReleased.add(e.code);
   }
+
+  /**
+   * Handle mouse events: the left button acts as the 'MouseLeft' key,
+   * and any movement makes the mouse the aim source.
+   */
+  private onMouse(e: MouseEvent): void {
+    this.aimSource = 'mouse';
+    if (e.button !== 0 || e.type === 'mousemove') return;
+    if (e.type === 'mousedown') {
+      this.keysDown.add('MouseLeft');
+      this.keysJustPressed.add('MouseLeft');
+    } else {
+      this.keysDown.delete('MouseLeft');
+      this.keysJustReleased.add('MouseLeft');
+    }
+  }
 }
@@ -0,0 +1,187 @@
+/**
+ * Key bindings -- runtime rebinding, conflict checks and persistence.
+ *
+ * Edits the live KEY_BINDINGS table in place, so every isActionDown /
+ * isActionJustPressed call (and InputManager's preventDefault check)
+ * sees a change immediately. Each action keeps between one and
+ * MAX_KEYS_PER_ACTION keys, and a key may belong to only one action.
+ *
+ * Bindings are stored separately from save slots: they are a per-device
+ * preference, not part of a playthrough.
+ */
+
+import { Action, ALL_ACTIONS, DEFAULT_KEY_BINDINGS, KEY_BINDINGS } from './actions.js';
+import type { SaveStorage } from '../core/save-storage.js';
+import { createDefaultStorage } from '../core/save-storage.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Key slots per action shown on the bindings screen. */
+export const MAX_KEYS_PER_ACTION = 3;
+
+/** Keys the game uses for menus and tools; they can't be bound. */
+export const RESERVED_KEYS: readonly string[] = ['Escape', 'F1', 'F2', 'F3'];
+
+/**
+ * Ship interior hotkeys (scenes/ship-interior.ts): interact, the
+ * stations, cockpit and controls.
+ */
+const SHIP_HOTKEYS: readonly string[] = ['KeyE', 'KeyL', 'KeyS', 'KeyC', 'KeyM', 'KeyK', 'KeyX'];
+
+/**
+ * Actions the ship interior reads too (walking); they can't take a ship
+ * hotkey, or walking would open a station.
+ */
+const SHIP_ACTIONS: readonly Action[] = [Action.MoveLeft, Action.MoveRight];
+
+/** Storage key for the persisted bindings. */
+const BINDINGS_KEY = 'noahs-game/bindings';
+
+/** Persisted format version. Bump if the stored shape changes. */
+const BINDINGS_VERSION = 1;
+
+/** Result of a rebind attempt. */
+export type RebindResult =
+  | { ok: true }
+  | { ok: false; reason: 'reserved' }
+  | { ok: false; reason: 'conflict'; action: Action };
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** Whether a key is off limits for an action: reserved, or a ship hotkey it would clash with. */
+export function isReservedKey(code: string, action: Action): boolean {
+  return RESERVED_KEYS.includes(code)
+    || (SHIP_ACTIONS.includes(action) && SHIP_HOTKEYS.includes(code));
+}
+
+/**
+ * Find the action (other than `except`) that already uses a key.
+ * @returns the conflicting action, or null if the key is free
+ */
+export function findBindingConflict(code: string, except?: Action): Action | null {
+  for (const action of ALL_ACTIONS) {
+    if (action !== except && KEY_BINDINGS[action].includes(code)) return action;
+  }
+  return null;
+}
+
+/** True if any action is bound to the key (InputManager preventDefaults these). */
+export function isBoundKey(code: string): boolean {
+  return findBindingConflict(code) !== null;
+}
+
+/** Short label for a KeyboardEvent.code ('KeyA' -> 'A', 'ArrowLeft' -> 'LEFT'). */
+export function formatKeyCode(code: string): string {
+  return code
+    .replace(/^MouseLeft$/, 'LMB')
+    .replace(/^Key/, '')
+    .replace(/^Digit/, '')
+    .replace(/^Arrow/, '')
+    .replace(/^Numpad/, 'NUM ')
+    .toUpperCase();
+}
+
+// ---------------------------------------------------------------------------
+// Editing
+// ---------------------------------------------------------------------------
+
+/**
+ * Bind `code` to a slot of `action`. If the slot is past the action's
+ * last key, the key is appended. Refuses reserved keys and keys used by
+ * another action; a key already elsewhere on the same action moves.
+ *
+ * @param action - the action to rebind
+ * @param slot   - slot index, 0..MAX_KEYS_PER_ACTION-1
+ * @param code   - KeyboardEvent.code of the new key
+ */
+export function rebindAction(action: Action, slot: number, code: string): RebindResult {
+  if (slot < 0 || slot >= MAX_KEYS_PER_ACTION) {
+    throw new Error(`[KeyBindings] Slot ${slot} out of range for '${action}'.`);
+  }
+  if (isReservedKey(code, action)) return { ok: false, reason: 'reserved' };
+  const conflict = findBindingConflict(code, action);
+  if (conflict) return { ok: false, reason: 'conflict', action: conflict };
+
+  const keys = KEY_BINDINGS[action];
+  const existing = keys.indexOf(code);
+  if (slot < keys.length) keys[slot] = code;
+  else keys.push(code);
+  // Drop the old copy if the key moved between slots of this action
+  if (existing !== -1 && existing !== slot && existing < keys.length) {
+    keys.splice(existing, 1);
+  }
+  return { ok: true };
+}
+
+/**
+ * Remove the key in a slot. An action always keeps at least one key.
+ * @returns false if the slot is empty or holds the action's last key
+ */
+export function unbindKey(action: Action, slot: number): boolean {
+  const keys = KEY_BINDINGS[action];
+  if (slot >= keys.length || keys.length <= 1) return false;
+  keys.splice(slot, 1);
+  return true;
+}
+
+/** Restore every action to DEFAULT_KEY_BINDINGS. */
+export function resetKeyBindings(): void {
+  for (const action of ALL_ACTIONS) {
+    KEY_BINDINGS[action].splice(0, Infinity, ...DEFAULT_KEY_BINDINGS[action]);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** Write the current bindings to storage. */
+export function saveKeyBindings(storage: SaveStorage = createDefaultStorage()): void {
+  const data = { version: BINDINGS_VERSION, bindings: KEY_BINDINGS };
+  storage.write(BINDINGS_KEY, JSON.stringify(data));
+}
+
+/**
+ * Load stored bindings over the defaults. Actions missing from the file
+ * (e.g. added in a later version) keep their defaults. If the stored
+ * data is unreadable or would leave two actions sharing a key, it is
+ * ignored and the defaults are used.
+ */
+export function loadKeyBindings(storage: SaveStorage = createDefaultStorage()): void {
+  resetKeyBindings();
+  const raw = storage.read(BINDINGS_KEY);
+  if (raw === null) return;
+
+  try {
+    const data = JSON.parse(raw) as { version?: number; bindings?: Record<string, unknown> };
+    if (data.version !== BINDINGS_VERSION || typeof data.bindings !== 'object' || !data.bindings) {
+      throw new Error('unrecognised format');
+    }
+    const seen = new Set<string>();
+    const loaded = new Map<Action, string[]>();
+    for (const action of ALL_ACTIONS) {
+      const keys = data.bindings[action];
+      if (keys === undefined) continue;
+      if (
+        !Array.isArray(keys) || keys.length === 0 || keys.length > MAX_KEYS_PER_ACTION
+        || !keys.every((k): k is string => typeof k === 'string' && !isReservedKey(k, action))
+      ) {
+        throw new Error(`invalid keys for '${action}'`);
+      }
+      loaded.set(action, keys);
+    }
+    for (const action of ALL_ACTIONS) {
+      for (const code of loaded.get(action) ?? DEFAULT_KEY_BINDINGS[action]) {
+        if (seen.has(code)) throw new Error(`key '${code}' bound twice`);
+        seen.add(code);
+      }
+    }
+    for (const [action, keys] of loaded) KEY_BINDINGS[action].splice(0, Infinity, ...keys);
+  } catch (err) {
+    console.warn('[KeyBindings] Ignoring stored bindings:', err);
+  }
+}
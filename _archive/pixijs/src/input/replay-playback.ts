@@ -0,0 +1,64 @@
+/**
+ * ReplayPlayback -- feeds a recorded run back into the game.
+ *
+ * Drives a ScriptedInput, so playback reaches gameplay code through the
+ * same Action helpers as the keyboard. Call `apply()` once per fixed
+ * tick before the systems run (and `input.update()` after, as usual).
+ * Once the recording is exhausted every action is released and the
+ * simulation carries on with no input.
+ */
+
+import { ANALOG_STEPS, aimFromSteps } from './actions.js';
+import { ScriptedInput } from './scripted-input.js';
+import { REPLAY_ACTIONS, decodeRuns } from './replay.js';
+import type { ReplayFile, ReplayFrame } from './replay.js';
+
+export class ReplayPlayback {
+  /** InputState to hand to the gameplay systems. */
+  readonly input = new ScriptedInput();
+
+  private readonly runs: [number, ReplayFrame][];
+  private runIndex = 0;
+  private usedInRun = 0;
+
+  constructor(file: ReplayFile) {
+    this.runs = decodeRuns(file.input);
+  }
+
+  /** True once every recorded tick has been applied. */
+  get finished(): boolean {
+    return this.runIndex >= this.runs.length;
+  }
+
+  /** Apply the next recorded tick to `input`. */
+  apply(): void {
+    const frame = this.nextFrame();
+    REPLAY_ACTIONS.forEach((action, bit) => {
+      const down = (frame.down & (1 << bit)) !== 0;
+      const pressed = (frame.pressed & (1 << bit)) !== 0;
+      if (pressed) {
+        // Re-press even if held: the key went up and down between ticks
+        this.input.release(action);
+        this.input.press(action);
+        if (!down) this.input.release(action);
+      } else if (down) {
+        this.input.press(action, false);
+      } else {
+        this.input.release(action);
+      }
+    });
+    this.input.setMoveAxis(frame.axis / ANALOG_STEPS);
+    this.input.setAim(frame.aim === -1 ? null : aimFromSteps(frame.aim));
+  }
+
+  /** Advance through the runs; an all-released frame once exhausted. */
+  private nextFrame(): ReplayFrame {
+    if (this.finished) return { down: 0, pressed: 0, axis: 0, aim: -1 };
+    const [count, frame] = this.runs[this.runIndex];
+    if (++this.usedInRun >= count) {
+      this.runIndex++;
+      this.usedInRun = 0;
+    }
+    return frame;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * ReplayRecorder -- captures the input of a live run, tick by tick.
+ *
+ * Call `capture()` once per fixed tick, before the gameplay systems run,
+ * with the same InputState they read. `finish()` packs everything into
+ * a ReplayFile.
+ */
+
+import { GAME_VERSION } from '../core/constants.js';
+import type { GameState } from '../core/game-state.js';
+import { serializeGameState } from '../core/save-system.js';
+import type { SavedGameState } from '../core/save-system.js';
+import type { InputState } from './actions.js';
+import { REPLAY_FORMAT_VERSION, appendFrame, captureFrame, encodeRuns } from './replay.js';
+import type { ReplayFile, ReplayFrame } from './replay.js';
+
+export class ReplayRecorder {
+  private readonly levelId: string;
+  private readonly seed: number;
+  /** Snapshot taken at construction; later GameState changes don't leak in. */
+  private readonly state: SavedGameState;
+  private readonly runs: [number, ReplayFrame][] = [];
+  private ticks = 0;
+
+  /**
+   * @param levelId - star system id of the level being played
+   * @param seed    - gameplay RNG seed the level was started with
+   * @param state   - player state at deploy time
+   */
+  constructor(levelId: string, seed: number, state: GameState) {
+    this.levelId = levelId;
+    this.seed = seed;
+    this.state = serializeGameState(state);
+  }
+
+  /** Record the input for the tick about to run. */
+  capture(input: InputState): void {
+    appendFrame(this.runs, captureFrame(input));
+    this.ticks++;
+  }
+
+  /** Build the replay file for everything captured so far. */
+  finish(): ReplayFile {
+    return {
+      format: REPLAY_FORMAT_VERSION,
+      gameVersion: GAME_VERSION,
+      levelId: this.levelId,
+      seed: this.seed,
+      state: this.state,
+      ticks: this.ticks,
+      input: encodeRuns(this.runs),
+    };
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Replay files -- recorded input for one level run.
+ *
+ * A replay stores everything needed to re-simulate a run exactly: the
+ * level id, the gameplay RNG seed, the player's state at deploy time and
+ * the input seen by every fixed tick. Input is stored per Action (not per
+ * physical key) so a replay still plays after the player rebinds keys.
+ *
+ * Each tick is two bitmasks over REPLAY_ACTIONS -- actions held, and
+ * actions pressed that tick -- plus the analog move axis in
+ * 1/ANALOG_STEPS units and the aim direction in AIM_STEPS units (-1 for
+ * none). Consecutive identical ticks are run-length encoded as
+ * "count:down:pressed:axis:aim" in base 36. A minute of play is
+ * typically a few hundred bytes.
+ *
+ * Replays carry a format version and the game version that recorded
+ * them; parseReplay() refuses anything else, since a different build
+ * would simulate the same input differently.
+ */
+
+import { GAME_VERSION } from '../core/constants.js';
+import type { SavedGameState } from '../core/save-system.js';
+import {
+  AIM_STEPS, ANALOG_STEPS, Action, aimToSteps, isActionDown, isActionJustPressed,
+} from './actions.js';
+import type { InputState } from './actions.js';
+
+// ---------------------------------------------------------------------------
+// Format
+// ---------------------------------------------------------------------------
+
+/** Current replay file format. Bump when ReplayFile or the encoding changes. */
+export const REPLAY_FORMAT_VERSION = 3;
+
+/**
+ * Bit order of the per-tick action masks. Part of the file format:
+ * append new actions at the end, never reorder.
+ */
+export const REPLAY_ACTIONS: readonly Action[] = [
+  Action.MoveLeft,
+  Action.MoveRight,
+  Action.Jump,
+  Action.Down,
+  Action.ToggleMech,
+  Action.Fire,
+];
+
+/** One recorded level run. */
+export interface ReplayFile {
+  /** REPLAY_FORMAT_VERSION the file was written with. */
+  format: number;
+  /** GAME_VERSION of the build that recorded it. */
+  gameVersion: string;
+  /** Star system id the level was deployed from. */
+  levelId: string;
+  /** Gameplay RNG seed the level started with. */
+  seed: number;
+  /** Player state at deploy time. */
+  state: SavedGameState;
+  /** Number of recorded ticks. */
+  ticks: number;
+  /** Run-length encoded per-tick input (see module doc). */
+  input: string;
+}
+
+/** Input seen by one tick: bitmasks over REPLAY_ACTIONS plus the axis. */
+export interface ReplayFrame {
+  down: number;
+  pressed: number;
+  /** Analog move axis in 1/ANALOG_STEPS units. */
+  axis: number;
+  /** Aim direction in AIM_STEPS units, or -1 when not aiming. */
+  aim: number;
+}
+
+// ---------------------------------------------------------------------------
+// Frames
+// ---------------------------------------------------------------------------
+
+/** Sample an InputState into a frame. */
+export function captureFrame(input: InputState): ReplayFrame {
+  let down = 0;
+  let pressed = 0;
+  REPLAY_ACTIONS.forEach((action, bit) => {
+    if (isActionDown(action, input)) down |= 1 << bit;
+    if (isActionJustPressed(action, input)) pressed |= 1 << bit;
+  });
+  const aim = input.aimAngle();
+  return {
+    down,
+    pressed,
+    axis: Math.round(input.moveAxis() * ANALOG_STEPS),
+    aim: aim === null ? -1 : aimToSteps(aim),
+  };
+}
+
+/** Append a frame to a run list, extending the last run if it matches. */
+export function appendFrame(runs: [number, ReplayFrame][], frame: ReplayFrame): void {
+  const last = runs[runs.length - 1];
+  if (
+    last && last[1].down === frame.down && last[1].pressed === frame.pressed
+    && last[1].axis === frame.axis && last[1].aim === frame.aim
+  ) {
+    last[0]++;
+  } else {
+    runs.push([1, frame]);
+  }
+}
+
+/** Encode runs as "count:down:pressed:axis:aim" tokens joined by commas. */
+export function encodeRuns(runs: [number, ReplayFrame][]): string {
+  return runs
+    .map(([n, f]) => [n, f.down, f.pressed, f.axis, f.aim].map((v) => v.toString(36)).join(':'))
+    .join(',');
+}
+
+/**
+ * Decode the `input` string back into runs.
+ * @throws if a token is malformed
+ */
+export function decodeRuns(input: string): [number, ReplayFrame][] {
+  if (input === '') return [];
+  return input.split(',').map((token) => {
+    const parts = token.split(':');
+    const [n, down, pressed, axis, aim] = parts.map((p) => parseInt(p, 36));
+    if (
+      parts.length !== 5 || !(n > 0) || !(down >= 0) || !(pressed >= 0)
+      || !(Math.abs(axis) <= ANALOG_STEPS) || !(aim >= -1 && aim < AIM_STEPS)
+    ) {
+      throw new Error(`[Replay] Malformed input token '${token}'.`);
+    }
+    return [n, { down, pressed, axis, aim }];
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Serialisation
+// ---------------------------------------------------------------------------
+
+/** Serialise a replay to JSON text. */
+export function serializeReplay(file: ReplayFile): string {
+  return JSON.stringify(file);
+}
+
+/**
+ * Parse and validate replay JSON.
+ * @throws if the text is not a replay, or was recorded by another
+ *         format or game version
+ */
+export function parseReplay(text: string): ReplayFile {
+  let data: Partial<ReplayFile>;
+  try {
+    data = JSON.parse(text) as Partial<ReplayFile>;
+  } catch {
+    throw new Error('[Replay] File is not valid JSON.');
+  }
+  if (typeof data !== 'object' || data === null || typeof data.format !== 'number') {
+    throw new Error('[Replay] File has no format version.');
+  }
+  if (data.format !== REPLAY_FORMAT_VERSION) {
+    throw new Error(
+      `[Replay] Unsupported replay format ${data.format} (this build reads ${REPLAY_FORMAT_VERSION}).`,
+    );
+  }
+  if (data.gameVersion !== GAME_VERSION) {
+    throw new Error(
+      `[Replay] Recorded on game version ${String(data.gameVersion)}; this is ${GAME_VERSION}.`,
+    );
+  }
+  if (
+    typeof data.levelId !== 'string' || typeof data.seed !== 'number'
+    || typeof data.ticks !== 'number' || typeof data.input !== 'string'
+    || typeof data.state !== 'object' || data.state === null
+  ) {
+    throw new Error('[Replay] File is missing required fields.');
+  }
+  const total = decodeRuns(data.input).reduce((sum, [n]) => sum + n, 0);
+  if (total !== data.ticks) {
+    throw new Error(`[Replay] Input covers ${total} ticks but the header says ${data.ticks}.`);
+  }
+  return data as ReplayFile;
+}
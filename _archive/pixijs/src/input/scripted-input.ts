@@ -0,0 +1,117 @@
+/**
+ * ScriptedInput -- an InputState driven by code instead of the keyboard.
+ *
+ * Used by the headless runner (tests, bots, balance simulations) and by
+ * replay playback. Actions can be pressed/released directly, or queued as
+ * a script of timed events that is applied tick by tick. Pressing an
+ * action holds the first key bound to it, so gameplay code sees exactly
+ * what a keyboard would give.
+ *
+ * Like InputManager, call `update()` at the end of each tick to clear
+ * the per-tick "just pressed" state.
+ */
+
+import { ANALOG_STEPS, KEY_BINDINGS, quantizeAim } from './actions.js';
+import type { Action, InputState } from './actions.js';
+
+/** One scripted change, applied at the start of the given tick. */
+export interface ScriptedInputEvent {
+  /** Simulation tick (0-based) at which to apply the change. */
+  tick: number;
+  /** Actions to start holding. */
+  press?: Action[];
+  /** Actions to let go of. */
+  release?: Action[];
+  /** New analog move axis in [-1, 1], as if from a stick. */
+  axis?: number;
+  /** New aim angle in radians, or null to stop aiming. */
+  aim?: number | null;
+}
+
+export class ScriptedInput implements InputState {
+  /** Keys currently held down. */
+  private readonly keysDown = new Set<string>();
+
+  /** Keys pressed this tick (cleared each update()). */
+  private keysJustPressed = new Set<string>();
+
+  /** Pending script events, sorted by tick. */
+  private readonly events: ScriptedInputEvent[];
+
+  /** Index of the next unapplied script event. */
+  private nextEvent = 0;
+
+  /** Analog move axis, quantised like a real stick. */
+  private axis = 0;
+
+  /** Aim angle, quantised like the live input. */
+  private aim: number | null = null;
+
+  /** @param script - timed press/release events (any order) */
+  constructor(script: ScriptedInputEvent[] = []) {
+    this.events = [...script].sort((a, b) => a.tick - b.tick);
+  }
+
+  isDown(code: string): boolean {
+    return this.keysDown.has(code);
+  }
+
+  isJustPressed(code: string): boolean {
+    return this.keysJustPressed.has(code);
+  }
+
+  moveAxis(): number {
+    return this.axis;
+  }
+
+  aimAngle(): number | null {
+    return this.aim;
+  }
+
+  /** Set the aim angle in radians, or null for no aim. */
+  setAim(angle: number | null): void {
+    this.aim = angle === null ? null : quantizeAim(angle);
+  }
+
+  /** Set the analog move axis (clamped to [-1, 1]). */
+  setMoveAxis(value: number): void {
+    const clamped = Math.max(-1, Math.min(1, value));
+    this.axis = Math.round(clamped * ANALOG_STEPS) / ANALOG_STEPS;
+  }
+
+  /**
+   * Start holding an action. No-op if it is already held.
+   *
+   * @param action - the action to hold
+   * @param fresh  - also report it as just pressed this tick (default true);
+   *                 false models a key that was already down, e.g. at the
+   *                 start of a replay
+   */
+  press(action: Action, fresh = true): void {
+    const code = KEY_BINDINGS[action][0];
+    if (this.keysDown.has(code)) return;
+    this.keysDown.add(code);
+    if (fresh) this.keysJustPressed.add(code);
+  }
+
+  /** Stop holding an action. */
+  release(action: Action): void {
+    this.keysDown.delete(KEY_BINDINGS[action][0]);
+  }
+
+  /** Apply every script event scheduled at or before `tick`. */
+  applyScript(tick: number): void {
+    while (this.nextEvent < this.events.length && this.events[this.nextEvent].tick <= tick) {
+      const ev = this.events[this.nextEvent++];
+      for (const action of ev.release ?? []) this.release(action);
+      for (const action of ev.press ?? []) this.press(action);
+      if (ev.axis !== undefined) this.setMoveAxis(ev.axis);
+      if (ev.aim !== undefined) this.setAim(ev.aim);
+    }
+  }
+
+  /** Clear per-tick state. Call after the systems have run. */
+  update(): void {
+    this.keysJustPressed = new Set<string>();
+  }
+}
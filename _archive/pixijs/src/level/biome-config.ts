@@ -15,6 +15,11 @@ export type EnvironmentTheme =
   | 'haven'
   | 'sci-fi-interior';
 
+/** Ordered list of all environment themes (useful for validation). */
+export const ALL_ENVIRONMENT_THEMES: EnvironmentTheme[] = [
+  'alien', 'another-world', 'cyberpunk', 'haven', 'sci-fi-interior',
+];
+
 /** Visual config for a single biome. */
 export interface BiomeConfig {
   /** Texture alias for the far parallax layer (sky). */
@@ -0,0 +1,70 @@
+/**
+ * Boss rush arenas — arena-only levels for boss rush (core/boss-rush.ts).
+ *
+ * Every arena is the same walled hall: the player drops in on the left
+ * and wakes the boss a few steps in, with no enemies or encounters in
+ * the way. Only the backdrop changes, matching the boss's home level.
+ */
+
+import type { BossId } from '../combat/boss-defs.js';
+import { getBossDef } from '../combat/boss-defs.js';
+import type { EnvironmentTheme } from './biome-config.js';
+import type { LevelData } from './level-data.js';
+
+/** Arena size (pixels). */
+const ARENA_WIDTH = 1600;
+const ARENA_HEIGHT = 1000;
+
+/** Top of the floor (pixels). */
+const FLOOR_TOP = ARENA_HEIGHT - 80;
+
+/** Player start, just inside the left wall (pixels). */
+const PLAYER_X = 120;
+
+/** Crossing this wakes the boss (pixels). */
+const TRIGGER_X = 240;
+
+/** Backdrop for each boss: the theme of the level it guards. */
+const ARENA_THEMES: Record<BossId, EnvironmentTheme> = {
+  warden: 'sci-fi-interior',
+  'prism-moth': 'another-world',
+  bastion: 'cyberpunk',
+  rootmother: 'haven',
+};
+
+/**
+ * Build the arena for one fight of a rush.
+ *
+ * @param round - 1-based fight number, shown in the level name
+ * @param total - fights in the rush
+ */
+export function createBossRushArena(bossId: BossId, round: number, total: number): LevelData {
+  return {
+    name: `Boss Rush ${round}/${total}: ${getBossDef(bossId).name}`,
+    difficulty: 'Hard',
+    environmentTheme: ARENA_THEMES[bossId],
+    width: ARENA_WIDTH,
+    height: ARENA_HEIGHT,
+
+    playerSpawn: { x: PLAYER_X, y: FLOOR_TOP - 60 },
+
+    bossTriggerX: TRIGGER_X,
+    bossArena: { minX: TRIGGER_X - 60, maxX: ARENA_WIDTH - 30, y: FLOOR_TOP - 40 },
+    bossId,
+
+    platforms: [
+      // Floor
+      { x: ARENA_WIDTH / 2, y: FLOOR_TOP + 40, width: ARENA_WIDTH, height: 80 },
+      // Walls
+      { x: 10, y: ARENA_HEIGHT / 2, width: 20, height: ARENA_HEIGHT },
+      { x: ARENA_WIDTH - 10, y: ARENA_HEIGHT / 2, width: 20, height: ARENA_HEIGHT },
+
+      // Ledges to dodge onto and shoot flyers from
+      { x: 500, y: FLOOR_TOP - 150, width: 200, height: 24 },
+      { x: 800, y: FLOOR_TOP - 300, width: 220, height: 24 },
+      { x: 1100, y: FLOOR_TOP - 150, width: 200, height: 24 },
+    ],
+
+    spawnPoints: [],
+  };
+}
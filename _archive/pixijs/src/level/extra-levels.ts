@@ -1,8 +1,10 @@
 /**
  * Additional planet levels beyond the prototype station.
  *
- * Crystal Caverns: vertical-heavy, many flyers, medium difficulty.
- * Neon Outpost: tight corridors, walkers & turrets, hard difficulty.
+ * Crystal Caverns: vertical-heavy, many flyers, medium difficulty;
+ *   the Prism Moth waits in the right-hand cavern.
+ * Neon Outpost: tight corridors, walkers & turrets, hard difficulty;
+ *   the Bastion holds the far-right arena.
  */
 
 import type { LevelData } from './level-data.js';
@@ -20,6 +22,11 @@ export const CRYSTAL_CAVERNS: LevelData = {
 
   playerSpawn: { x: 200, y: 1450 },
 
+  // Boss arena: the right-hand cavern, after its swarm is survived
+  bossTriggerX: 2500,
+  bossArena: { minX: 2430, maxX: 3170, y: 1480 },
+  bossId: 'prism-moth',
+
   platforms: [
     // Ground floor
     { x: 1600, y: 1560, width: 3200, height: 80 },
@@ -73,6 +80,31 @@ export const CRYSTAL_CAVERNS: LevelData = {
     // Phantom ambusher in the centre platform area
     { x: 1600, y: 1070, type: 'enemy-phantom' },
   ],
+
+  encounters: [
+    // Hold out in the right-hand cavern while flyers swarm in
+    {
+      id: 'swarm-cavern',
+      arena: { x: 2415, y: 0, width: 765, height: 1520 },
+      trigger: { x: 2500, y: 1250, width: 600, height: 270 },
+      survive: 30,
+      waves: [
+        { delay: 1, afterClear: false, spawns: [
+          { x: 2600, y: 800, type: 'enemy-flyer' },
+          { x: 3050, y: 900, type: 'enemy-flyer' },
+        ] },
+        { delay: 8, afterClear: false, spawns: [
+          { x: 2800, y: 600, type: 'enemy-flyer' },
+          { x: 2550, y: 1100, type: 'enemy-flyer' },
+        ] },
+        { delay: 8, afterClear: false, spawns: [
+          { x: 3050, y: 500, type: 'enemy-flyer' },
+          { x: 2700, y: 1200, type: 'enemy-walker' },
+          { x: 2800, y: 900, type: 'enemy-flyer' },
+        ] },
+      ],
+    },
+  ],
 };
 
 // ---------------------------------------------------------------------------
@@ -91,6 +123,7 @@ export const NEON_OUTPOST: LevelData = {
   // Boss arena trigger + bounds
   bossTriggerX: 2850,
   bossArena: { minX: 2800, maxX: 3580, y: 1280 },
+  bossId: 'bastion',
 
   platforms: [
     // Ground (split — gaps force jumping)
@@ -143,7 +176,8 @@ export const NEON_OUTPOST: LevelData = {
     { x: 650, y: 870, type: 'enemy-walker' },
     { x: 1150, y: 820, type: 'enemy-walker' },
     { x: 1650, y: 770, type: 'enemy-walker' },
-    { x: 2150, y: 720, type: 'enemy-walker' },
+    // Elite guard at the corridor mouth
+    { x: 2150, y: 720, type: 'enemy-walker', affixes: ['armored', 'splitting'] },
     { x: 2600, y: 1070, type: 'enemy-turret' },
     { x: 800, y: 520, type: 'enemy-turret' },
     { x: 1600, y: 420, type: 'enemy-flyer' },
@@ -153,8 +187,6 @@ export const NEON_OUTPOST: LevelData = {
     { x: 2150, y: 920, type: 'enemy-shielder' },
     // Phantom ambusher in the corridor area
     { x: 1650, y: 970, type: 'enemy-phantom' },
-    // Boss (spawned dynamically by BossTriggerSystem)
-    { x: 3200, y: 1280, type: 'enemy-boss-warden' },
   ],
 };
 
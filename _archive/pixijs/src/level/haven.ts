@@ -1,7 +1,8 @@
 /**
  * Haven — first terrain-based level using PixelLab tilesets.
  *
- * A lush alien grassland with rolling hills and a few caves.
+ * A lush alien grassland with rolling hills and a few caves, ending in
+ * a flattened clearing where the Rootmother waits.
  * Easy difficulty, designed for exploring the new terrain system.
  *
  * Spawn Y positions are pre-computed from the heightmap so entities
@@ -22,6 +23,12 @@ const SEED = 42;
 const COLS = Math.ceil(LEVEL_WIDTH / CELL_SIZE);
 const BASE_Y = LEVEL_HEIGHT * 0.6; // matches terrain-builder baseY
 
+/** Left edge of the boss clearing (pixels). */
+const ARENA_X = 3360;
+
+/** Ground height in the boss clearing (pixels). */
+const ARENA_GROUND_Y = 736;
+
 // Pre-compute heightmap (same seed + params as terrain-builder)
 const heightMap = generateHeightmap(COLS, CELL_SIZE, BASE_Y, SEED);
 
@@ -61,6 +68,11 @@ export const HAVEN_LEVEL: LevelData = {
 
   playerSpawn: { x: 200, y: spawnAbove(200, 33) },
 
+  // Boss clearing at the far right (flattened by the anchors below)
+  bossTriggerX: ARENA_X + 60,
+  bossArena: { minX: ARENA_X + 20, maxX: LEVEL_WIDTH - 2 * CELL_SIZE, y: ARENA_GROUND_Y - 40 },
+  bossId: 'rootmother',
+
   terrain: {
     cellSize: CELL_SIZE,
     heightMap: 'procedural',
@@ -77,6 +89,19 @@ export const HAVEN_LEVEL: LevelData = {
         x: 0, y: 0, width: 400, height: 640,
         type: 'flat-zone', fill: 'air',
       },
+      // Boss clearing: level ground, open sky, a wall at the map edge
+      {
+        x: ARENA_X, y: ARENA_GROUND_Y, width: LEVEL_WIDTH - ARENA_X, height: LEVEL_HEIGHT - ARENA_GROUND_Y,
+        type: 'boss-arena', fill: 'solid',
+      },
+      {
+        x: ARENA_X, y: 0, width: LEVEL_WIDTH - ARENA_X - CELL_SIZE, height: ARENA_GROUND_Y,
+        type: 'boss-arena', fill: 'air',
+      },
+      {
+        x: LEVEL_WIDTH - CELL_SIZE, y: 0, width: CELL_SIZE, height: ARENA_GROUND_Y,
+        type: 'boss-arena', fill: 'solid',
+      },
     ],
     caves: [
       // Small cave system in the middle of the map
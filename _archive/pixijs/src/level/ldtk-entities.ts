@@ -0,0 +1,109 @@
+/**
+ * LDtk entity mapping -- turns the Entities layer of an LDtk level into
+ * spawn points, the player spawn and boss trigger/arena data.
+ *
+ * Entity positions are converted from LDtk's pivot point to the entity
+ * centre, which is what the entity factories expect. Enemies may carry
+ * an `affixes` array field (string or enum) to force elite affixes; the
+ * BossArena may name its boss in a `boss` field.
+ */
+
+import type { LevelData, SpawnPointDef } from './level-data.js';
+import type { LdtkEntityInstance, LdtkLayerInstance } from './ldtk-types.js';
+import { findEnemyDef } from '../combat/enemy-defs.js';
+import type { AffixId } from '../combat/elite-affixes.js';
+import { isAffixId } from '../combat/elite-affixes.js';
+import type { BossId } from '../combat/boss-defs.js';
+import { isBossId } from '../combat/boss-defs.js';
+
+// ---------------------------------------------------------------------------
+// Entity mapping
+// ---------------------------------------------------------------------------
+
+/**
+ * Spawn point type for an LDtk entity identifier, or undefined if it
+ * isn't an enemy. Identifiers are the PascalCase of the enemy id
+ * (Walker -> enemy-walker, BossWarden -> enemy-boss-warden).
+ */
+function enemySpawnType(identifier: string): SpawnPointDef['type'] | undefined {
+  const id = identifier.replace(/(?<=[a-z0-9])([A-Z])/g, '-$1').toLowerCase();
+  if (id === 'boss-warden' || findEnemyDef(id)) return `enemy-${id}`;
+  return undefined;
+}
+
+/**
+ * An enemy's forced elite affixes from its `affixes` field (a list, or
+ * a single id), or undefined when it has none.
+ * @throws on a field of another type, or an unknown affix id
+ */
+function readAffixes(ent: LdtkEntityInstance, where: string): AffixId[] | undefined {
+  const value = ent.fieldInstances?.find((f) => f.__identifier === 'affixes')?.__value;
+  if (value === undefined || value === null) return undefined;
+  const list: unknown = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(list)) {
+    throw new Error(`[LDtk] ${where} ${ent.__identifier} field 'affixes' must be a list of affix ids, not ${typeof value}.`);
+  }
+  const ids = list.map((v) => String(v).toLowerCase());
+  const bad = ids.find((id) => !isAffixId(id));
+  if (bad !== undefined) {
+    throw new Error(`[LDtk] ${where} ${ent.__identifier} has unknown affix '${bad}'.`);
+  }
+  return ids as AffixId[];
+}
+
+/** Boss named by a BossArena's `boss` field (none = the default boss). */
+function readBossId(ent: LdtkEntityInstance, where: string): BossId | undefined {
+  const value = ent.fieldInstances?.find((f) => f.__identifier === 'boss')?.__value;
+  if (value === undefined || value === null) return undefined;
+  const id = String(value).toLowerCase();
+  if (!isBossId(id)) throw new Error(`[LDtk] ${where} BossArena has unknown boss '${id}'.`);
+  return id;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Fill spawn points, player spawn and boss data from the Entities layer.
+ * @throws on unknown entities, affixes or bosses, a missing/duplicate
+ *         Player, or half a boss setup
+ */
+export function applyLdtkEntities(
+  data: LevelData, layer: LdtkLayerInstance, where: string,
+): void {
+  let hasPlayer = false;
+  for (const ent of layer.entityInstances ?? []) {
+    // Entity bounds in level pixels (px is the pivot point)
+    const left = ent.px[0] - ent.__pivot[0] * ent.width + layer.__pxTotalOffsetX;
+    const top = ent.px[1] - ent.__pivot[1] * ent.height + layer.__pxTotalOffsetY;
+    const cx = left + ent.width / 2;
+    const cy = top + ent.height / 2;
+
+    const spawnType = enemySpawnType(ent.__identifier);
+    if (spawnType) {
+      const affixes = readAffixes(ent, where);
+      data.spawnPoints.push({ x: cx, y: cy, type: spawnType, ...(affixes && { affixes }) });
+    } else if (ent.__identifier === 'Player') {
+      if (hasPlayer) throw new Error(`[LDtk] ${where} has more than one Player entity.`);
+      data.playerSpawn = { x: cx, y: cy };
+      hasPlayer = true;
+    } else if (ent.__identifier === 'BossTrigger') {
+      data.bossTriggerX = cx;
+    } else if (ent.__identifier === 'BossArena') {
+      // Boss spawns at the arena's pivot height
+      data.bossArena = { minX: left, maxX: left + ent.width, y: ent.px[1] + layer.__pxTotalOffsetY };
+      const bossId = readBossId(ent, where);
+      if (bossId) data.bossId = bossId;
+    } else {
+      throw new Error(
+        `[LDtk] ${where} has unknown entity '${ent.__identifier}' at (${ent.px[0]}, ${ent.px[1]}).`,
+      );
+    }
+  }
+
+  if (!hasPlayer) throw new Error(`[LDtk] ${where} has no Player entity.`);
+  if ((data.bossTriggerX === undefined) !== (data.bossArena === undefined)) {
+    throw new Error(`[LDtk] ${where} needs both BossTrigger and BossArena, or neither.`);
+  }
+}
@@ -1,45 +1,231 @@
 /**
- * LDtk level loader – stub for future implementation.
+ * LDtk level loader -- converts an LDtk project export into LevelData.
  *
- * LDtk (Level Designer Toolkit) will be used for hand-crafted levels
- * once the prototype is proven out. For now this module defines the
- * expected types and throws if called.
+ * Layer conventions (identifiers configurable via LdtkLoadOptions):
+ *   - IntGrid "Collision": every non-zero cell is solid. Solid cells are
+ *     greedy-meshed into PlatformDefs, the same way terrain is meshed.
+ *   - Entities "Entities": Player, enemy spawns, BossTrigger, BossArena.
+ *   - Tiles / AutoLayer layers (and IntGrid layers with auto-rules)
+ *     become TileLayerDefs. When any tile art exists the collision
+ *     platforms are marked collisionOnly so they aren't drawn twice.
+ *
+ * Level custom fields "name", "difficulty" and "theme" fill in the
+ * LevelData metadata. Anything the loader does not understand throws
+ * an error naming the level and layer, rather than being dropped.
  */
 
-import type { LevelData } from './level-data.js';
+import type { LevelData, PlatformDef, TileLayerDef } from './level-data.js';
+import type { EnvironmentTheme } from './biome-config.js';
+import { ALL_ENVIRONMENT_THEMES } from './biome-config.js';
+import { CELL_AIR, CELL_SOLID } from './terrain/terrain-types.js';
+import type { TileGrid } from './terrain/terrain-types.js';
+import { greedyMesh } from './terrain/collider-mesh.js';
+import type {
+  LdtkFieldInstance, LdtkLayerInstance, LdtkLayerType, LdtkLevel, LdtkProject,
+} from './ldtk-types.js';
+import { applyLdtkEntities } from './ldtk-entities.js';
+
+export type {
+  LdtkProject, LdtkLevel, LdtkLayerInstance, LdtkEntityInstance, LdtkFieldInstance, LdtkTile,
+} from './ldtk-types.js';
 
-/** Raw JSON structure exported by LDtk (subset we care about). */
-export interface LdtkProject {
-  /** Array of level definitions from the LDtk file. */
-  levels: LdtkLevel[];
+// ---------------------------------------------------------------------------
+// Options
+// ---------------------------------------------------------------------------
+
+/** Options for picking a level and naming its layers. */
+export interface LdtkLoadOptions {
+  /** Level identifier to load. Defaults to the first level. */
+  levelId?: string;
+  /** IntGrid layer holding collision. Default "Collision". */
+  collisionLayer?: string;
+  /** Entities layer holding spawns and triggers. Default "Entities". */
+  entityLayer?: string;
+  /**
+   * Map from LDtk tileset path to asset-loader alias. Paths not listed
+   * use the file name without extension (e.g. "tiles/cave.png" -> "cave").
+   */
+  tilesetAliases?: Record<string, string>;
 }
 
-/** A single level inside an LDtk project. */
-export interface LdtkLevel {
-  /** Unique identifier string set in LDtk. */
-  identifier: string;
-  /** Level width in pixels. */
-  pxWid: number;
-  /** Level height in pixels. */
-  pxHei: number;
-  /** Array of layer instances containing tile / entity data. */
-  layerInstances: LdtkLayerInstance[];
+/** Valid values for the level "difficulty" field. */
+const DIFFICULTIES: LevelData['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+/** Layer types the loader understands. */
+const LAYER_TYPES: LdtkLayerType[] = ['IntGrid', 'Entities', 'Tiles', 'AutoLayer'];
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch and parse an LDtk project file into our LevelData format.
+ *
+ * @param path    - URL of the .ldtk JSON file
+ * @param options - level selection and layer naming
+ */
+export async function loadLdtkLevel(
+  path: string, options: LdtkLoadOptions = {},
+): Promise<LevelData> {
+  const res = await fetch(path);
+  if (!res.ok) {
+    throw new Error(`[LDtk] Failed to fetch '${path}': ${res.status} ${res.statusText}`);
+  }
+  return parseLdtkProject((await res.json()) as LdtkProject, options);
 }
 
-/** A single layer within an LDtk level. */
-export interface LdtkLayerInstance {
-  /** Layer identifier string. */
-  __identifier: string;
-  /** Layer type: IntGrid, Tiles, Entities, AutoLayer. */
-  __type: string;
+/**
+ * Convert an already-parsed LDtk project into LevelData.
+ * @throws if the level, a required layer, or an entity is unknown
+ */
+export function parseLdtkProject(
+  project: LdtkProject, options: LdtkLoadOptions = {},
+): LevelData {
+  const level = options.levelId
+    ? project.levels.find((l) => l.identifier === options.levelId)
+    : project.levels[0];
+  if (!level) {
+    const id = options.levelId ?? '(first)';
+    throw new Error(`[LDtk] Level '${id}' not found in project.`);
+  }
+  const where = `level '${level.identifier}'`;
+  if (!level.layerInstances) {
+    throw new Error(`[LDtk] ${where} has no layer data (external level files are not supported).`);
+  }
+
+  const collisionId = options.collisionLayer ?? 'Collision';
+  const entityId = options.entityLayer ?? 'Entities';
+  const collision = findLayer(level, collisionId, 'IntGrid');
+  const entities = findLayer(level, entityId, 'Entities');
+
+  const tileLayers = parseTileLayers(level.layerInstances, where, options.tilesetAliases ?? {});
+  const platforms = parseCollision(collision, tileLayers.length > 0);
+
+  const data: LevelData = {
+    name: readStringField(level.fieldInstances, 'name') ?? level.identifier,
+    difficulty: parseDifficulty(level, where),
+    environmentTheme: parseTheme(level, where),
+    width: level.pxWid,
+    height: level.pxHei,
+    platforms,
+    spawnPoints: [],
+    playerSpawn: { x: 0, y: 0 },
+  };
+  if (tileLayers.length > 0) data.tileLayers = tileLayers;
+  applyLdtkEntities(data, entities, `${where}, layer '${entityId}'`);
+  return data;
+}
+
+// ---------------------------------------------------------------------------
+// Layers
+// ---------------------------------------------------------------------------
+
+/** Find a required layer by identifier and check its type. */
+function findLayer(level: LdtkLevel, id: string, type: LdtkLayerType): LdtkLayerInstance {
+  const layer = level.layerInstances?.find((l) => l.__identifier === id);
+  if (!layer) {
+    throw new Error(`[LDtk] Level '${level.identifier}' is missing required ${type} layer '${id}'.`);
+  }
+  if (layer.__type !== type) {
+    throw new Error(
+      `[LDtk] Layer '${id}' in level '${level.identifier}' is ${layer.__type}, expected ${type}.`,
+    );
+  }
+  return layer;
+}
+
+/** Greedy-mesh the IntGrid's solid cells into platforms (centre coords). */
+function parseCollision(layer: LdtkLayerInstance, collisionOnly: boolean): PlatformDef[] {
+  const csv = layer.intGridCsv ?? [];
+  const cols = layer.__cWid;
+  const grid: TileGrid = [];
+  for (let r = 0; r < layer.__cHei; r++) {
+    const row: number[] = [];
+    for (let c = 0; c < cols; c++) {
+      row.push((csv[r * cols + c] ?? 0) !== 0 ? CELL_SOLID : CELL_AIR);
+    }
+    grid.push(row);
+  }
+  if (grid.length === 0 || cols === 0) return [];
+
+  return greedyMesh(grid, layer.__gridSize).map((rect) => ({
+    x: rect.x + rect.width / 2 + layer.__pxTotalOffsetX,
+    y: rect.y + rect.height / 2 + layer.__pxTotalOffsetY,
+    width: rect.width,
+    height: rect.height,
+    collisionOnly,
+  }));
 }
 
 /**
- * Load and parse an LDtk project file into our LevelData format.
- *
- * @param _path - path to the .ldtk JSON file
- * @throws always – not yet implemented
+ * Collect every layer that carries tiles, back-to-front.
+ * LDtk lists layers top-most first, so the array is walked in reverse.
  */
-export function loadLdtkLevel(_path: string): LevelData {
-  throw new Error('LDtk loading not yet implemented');
+function parseTileLayers(
+  layers: LdtkLayerInstance[], where: string, aliases: Record<string, string>,
+): TileLayerDef[] {
+  const result: TileLayerDef[] = [];
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const layer = layers[i];
+    if (!LAYER_TYPES.includes(layer.__type as LdtkLayerType)) {
+      throw new Error(`[LDtk] Layer '${layer.__identifier}' in ${where} has unsupported type '${layer.__type}'.`);
+    }
+    const tiles = layer.__type === 'Tiles' ? layer.gridTiles : layer.autoLayerTiles;
+    if (!tiles || tiles.length === 0 || layer.visible === false) continue;
+
+    const relPath = layer.__tilesetRelPath;
+    if (!relPath) {
+      throw new Error(`[LDtk] Layer '${layer.__identifier}' in ${where} has tiles but no tileset.`);
+    }
+    result.push({
+      tilesetId: aliases[relPath] ?? relPath.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, ''),
+      tileSize: layer.__gridSize,
+      opacity: layer.__opacity,
+      tiles: tiles.map((t) => ({
+        x: t.px[0] + layer.__pxTotalOffsetX,
+        y: t.px[1] + layer.__pxTotalOffsetY,
+        srcX: t.src[0],
+        srcY: t.src[1],
+        flipX: (t.f & 1) !== 0,
+        flipY: (t.f & 2) !== 0,
+      })),
+    });
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Level fields
+// ---------------------------------------------------------------------------
+
+/** Read a string custom field; undefined if absent, null or not a string. */
+function readStringField(
+  fields: LdtkFieldInstance[] | undefined, id: string,
+): string | undefined {
+  const value = fields?.find((f) => f.__identifier === id)?.__value;
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** Level "difficulty" field; defaults to Easy when not set. */
+function parseDifficulty(level: LdtkLevel, where: string): LevelData['difficulty'] {
+  const value = readStringField(level.fieldInstances, 'difficulty');
+  if (value === undefined) return 'Easy';
+  const match = DIFFICULTIES.find((d) => d === value);
+  if (!match) {
+    throw new Error(`[LDtk] ${where} has invalid difficulty '${value}' (expected ${DIFFICULTIES.join(', ')}).`);
+  }
+  return match;
+}
+
+/** Level "theme" field; defaults to sci-fi-interior when not set. */
+function parseTheme(level: LdtkLevel, where: string): EnvironmentTheme {
+  const value = readStringField(level.fieldInstances, 'theme');
+  if (value === undefined) return 'sci-fi-interior';
+  const match = ALL_ENVIRONMENT_THEMES.find((t) => t === value);
+  if (!match) {
+    throw new Error(
+      `[LDtk] ${where} has invalid theme '${value}' (expected ${ALL_ENVIRONMENT_THEMES.join(', ')}).`,
+    );
+  }
+  return match;
 }
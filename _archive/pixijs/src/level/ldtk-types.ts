@@ -0,0 +1,95 @@
+/**
+ * LDtk JSON types -- the subset of the LDtk project export that the
+ * level loader reads. Field names match the LDtk file format exactly
+ * (including the double-underscore "computed" fields).
+ */
+
+/** Raw JSON structure exported by LDtk (subset we care about). */
+export interface LdtkProject {
+  /** Array of level definitions from the LDtk file. */
+  levels: LdtkLevel[];
+}
+
+/** A single level inside an LDtk project. */
+export interface LdtkLevel {
+  /** Unique identifier string set in LDtk. */
+  identifier: string;
+  /** Level width in pixels. */
+  pxWid: number;
+  /** Level height in pixels. */
+  pxHei: number;
+  /** Custom level fields (name, difficulty, theme, ...). */
+  fieldInstances?: LdtkFieldInstance[];
+  /**
+   * Array of layer instances containing tile / entity data, ordered
+   * top-most first. Null when the project uses external level files.
+   */
+  layerInstances: LdtkLayerInstance[] | null;
+}
+
+/** A custom field value on a level or entity. */
+export interface LdtkFieldInstance {
+  /** Field identifier string. */
+  __identifier: string;
+  /** Field value; type depends on the field definition. */
+  __value: unknown;
+}
+
+/** Layer type as reported by LDtk. */
+export type LdtkLayerType = 'IntGrid' | 'Entities' | 'Tiles' | 'AutoLayer';
+
+/** A single layer within an LDtk level. */
+export interface LdtkLayerInstance {
+  /** Layer identifier string. */
+  __identifier: string;
+  /** Layer type: IntGrid, Tiles, Entities, AutoLayer. */
+  __type: string;
+  /** Grid width in cells. */
+  __cWid: number;
+  /** Grid height in cells. */
+  __cHei: number;
+  /** Cell size in pixels. */
+  __gridSize: number;
+  /** Layer opacity (0-1). */
+  __opacity: number;
+  /** Total pixel offset of the layer (layer + instance offsets). */
+  __pxTotalOffsetX: number;
+  __pxTotalOffsetY: number;
+  /** Tileset image path relative to the project, if the layer has one. */
+  __tilesetRelPath?: string | null;
+  /** Whether the layer is visible in the editor. */
+  visible?: boolean;
+  /** IntGrid values, row-major, 0 = empty (IntGrid / AutoLayer only). */
+  intGridCsv?: number[];
+  /** Hand-placed tiles (Tiles layers). */
+  gridTiles?: LdtkTile[];
+  /** Rule-generated tiles (AutoLayer and IntGrid-with-rules layers). */
+  autoLayerTiles?: LdtkTile[];
+  /** Placed entities (Entities layers). */
+  entityInstances?: LdtkEntityInstance[];
+}
+
+/** A single tile instance in a Tiles or AutoLayer layer. */
+export interface LdtkTile {
+  /** Pixel position in the layer. */
+  px: [number, number];
+  /** Pixel position of the tile in the tileset image. */
+  src: [number, number];
+  /** Flip bits: bit 0 = X flip, bit 1 = Y flip. */
+  f: number;
+}
+
+/** A single entity placed in an Entities layer. */
+export interface LdtkEntityInstance {
+  /** Entity definition identifier (e.g. "Player", "Walker"). */
+  __identifier: string;
+  /** Pivot point as fractions of width/height (e.g. [0.5, 1]). */
+  __pivot: [number, number];
+  /** Pivot position in pixels, relative to the layer. */
+  px: [number, number];
+  /** Entity size in pixels. */
+  width: number;
+  height: number;
+  /** Custom entity fields. */
+  fieldInstances?: LdtkFieldInstance[];
+}
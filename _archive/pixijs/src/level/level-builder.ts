@@ -14,6 +14,7 @@ import type { World } from '../core/world.js';
 import type { PhysicsContext } from '../core/physics.js';
 import { toPhysicsPos, pixelsToMeters } from '../core/physics.js';
 import { registerCollider } from '../core/collision-utils.js';
+import { withCollisionLayer } from '../core/collision-layers.js';
 import {
   createTransform,
   createPhysicsBody,
@@ -21,6 +22,7 @@ import {
 } from '../components/index.js';
 import type { LevelData, PlatformDef } from './level-data.js';
 import { renderPlatformTiled } from './tile-renderer.js';
+import { renderTileLayers } from './tile-layer-renderer.js';
 import { getBiomeConfig } from './biome-config.js';
 import { buildTerrain } from './terrain/terrain-builder.js';
 
@@ -61,6 +63,11 @@ export function buildLevel(
     );
   }
 
+  // Pre-placed tile art (e.g. from LDtk) sits behind platform visuals
+  if (levelData.tileLayers) {
+    worldContainer.addChild(renderTileLayers(levelData.tileLayers));
+  }
+
   // Also build any explicit platforms (can coexist with terrain)
   const biome = getBiomeConfig(levelData.environmentTheme);
   for (const platform of levelData.platforms) {
@@ -96,17 +103,22 @@ function buildPlatform(
   // Cuboid collider: half-extents in metres
   const halfW = pixelsToMeters(def.width / 2);
   const halfH = pixelsToMeters(def.height / 2);
-  const colliderDesc = RAPIER.ColliderDesc.cuboid(halfW, halfH);
+  const colliderDesc = withCollisionLayer(
+    RAPIER.ColliderDesc.cuboid(halfW, halfH),
+    'terrain',
+  );
   const collider = physicsCtx.world.createCollider(colliderDesc, body);
 
   // -- ECS components --
   world.addComponent(entity, createTransform(def.x, def.y));
   world.addComponent(entity, createPhysicsBody(body.handle, 'static'));
 
-  // -- Tiled platform visual --
-  const visual = renderPlatformTiled(def.width, def.height, tint);
-  worldContainer.addChild(visual);
-  world.addComponent(entity, createSprite(visual, def.width, def.height));
+  // -- Tiled platform visual (skipped when tile layers provide the art) --
+  if (!def.collisionOnly) {
+    const visual = renderPlatformTiled(def.width, def.height, tint);
+    worldContainer.addChild(visual);
+    world.addComponent(entity, createSprite(visual, def.width, def.height));
+  }
 
   // -- Register collider handle -> entity --
   registerCollider(physicsCtx, collider.handle, entity);
@@ -7,6 +7,8 @@
 
 import type { EnvironmentTheme } from './biome-config.js';
 import type { TerrainDef } from './terrain/terrain-types.js';
+import type { AffixId } from '../combat/elite-affixes.js';
+import type { BossId } from '../combat/boss-defs.js';
 
 // ---------------------------------------------------------------------------
 // Interfaces
@@ -24,6 +26,8 @@ export interface PlatformDef {
   height: number;
   /** Optional fill colour (hex). Defaults to dark gray. */
   color?: number;
+  /** Collider only -- skip the tiled visual (art comes from tileLayers). */
+  collisionOnly?: boolean;
 }
 
 /** A spawn point for players or enemies within the level. */
@@ -32,11 +36,93 @@ export interface SpawnPointDef {
   x: number;
   /** Y position (pixels). */
   y: number;
-  /** Entity type to spawn. */
-  type:
-    | 'player' | 'enemy-walker' | 'enemy-flyer' | 'enemy-turret'
-    | 'enemy-sentry' | 'enemy-crawler' | 'enemy-shielder'
-    | 'enemy-phantom' | 'enemy-boss-warden';
+  /**
+   * Entity type to spawn: 'player', 'enemy-boss-warden', or
+   * `enemy-<id>` for an enemy definition in combat/enemy-defs.json.
+   */
+  type: 'player' | 'enemy-boss-warden' | `enemy-${string}`;
+  /**
+   * Elite affixes to force on this enemy (combat/elite-affixes.ts).
+   * Unset: promoted at random by the level's difficulty; []: never elite.
+   */
+  affixes?: AffixId[];
+}
+
+/** A single pre-placed tile sampled from a tileset texture. */
+export interface TileDef {
+  /** Top-left X position in the level (pixels). */
+  x: number;
+  /** Top-left Y position in the level (pixels). */
+  y: number;
+  /** Top-left X of the source tile in the tileset (pixels). */
+  srcX: number;
+  /** Top-left Y of the source tile in the tileset (pixels). */
+  srcY: number;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+/** A layer of tiles that all come from one tileset texture. */
+export interface TileLayerDef {
+  /** Texture alias registered in the asset loader. */
+  tilesetId: string;
+  /** Tile size in pixels. */
+  tileSize: number;
+  /** Layer opacity (0-1). */
+  opacity: number;
+  tiles: TileDef[];
+}
+
+/** A rectangle in level space; x/y is the top-left corner (pixels). */
+export interface AreaDef {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** One wave of an encounter. */
+export interface WaveDef {
+  /** Enemies to spawn (enemy spawn types only). */
+  spawns: SpawnPointDef[];
+  /** Seconds to wait before spawning (default 1). */
+  delay?: number;
+  /**
+   * Wait until the previous wave is wiped out before the delay starts
+   * (default true). false spawns on a timer regardless, for survival
+   * challenges.
+   */
+  afterClear?: boolean;
+}
+
+/**
+ * A combat room: entering the trigger seals the arena (barriers at its
+ * sides, camera held inside), spawns the waves in order and unseals
+ * once they are all beaten.
+ */
+export interface EncounterDef {
+  /** Unique within the level. */
+  id: string;
+  /** Area the fight is held in. */
+  arena: AreaDef;
+  /** Area that starts the encounter when the player enters it (default: the arena). */
+  trigger?: AreaDef;
+  waves: WaveDef[];
+  /**
+   * Survival challenge: the encounter is won by staying alive this many
+   * seconds; enemies still standing then warp out.
+   */
+  survive?: number;
+}
+
+/** Where a level's boss is fought (pixels). */
+export interface BossArenaDef {
+  /** Left edge; the boss stays right of it. */
+  minX: number;
+  /** Right edge; the boss stays left of it. */
+  maxX: number;
+  /** Spawn line, just above the floor: ground bosses spawn standing on it. */
+  y: number;
 }
 
 /** Complete level definition consumed by the level builder. */
@@ -60,9 +146,15 @@ export interface LevelData {
   /** X coordinate that triggers boss spawn when player crosses it (pixels). */
   bossTriggerX?: number;
   /** Arena bounds for boss fight (pixels). */
-  bossArena?: { minX: number; maxX: number; y: number };
+  bossArena?: BossArenaDef;
+  /** Boss fought in the arena (default: the Warden). */
+  bossId?: BossId;
   /** Terrain definition. If present, used instead of platforms[] for terrain. */
   terrain?: TerrainDef;
+  /** Pre-placed tile art, drawn back-to-front behind entities. */
+  tileLayers?: TileLayerDef[];
+  /** Wave encounters; the level is only complete once all are cleared. */
+  encounters?: EncounterDef[];
 }
 
 // ---------------------------------------------------------------------------
@@ -76,6 +168,9 @@ export interface LevelData {
  *   - Full-width ground floor
  *   - Side walls and internal walls for wall-jump practice
  *   - Staggered floating platforms at varying heights
+ *
+ * The Warden guards the reactor bay once its encounter is cleared. It
+ * used to be Neon Outpost's boss; that level has the Bastion now.
  */
 export const PROTOTYPE_LEVEL: LevelData = {
   name: 'Zeta Station',
@@ -86,6 +181,11 @@ export const PROTOTYPE_LEVEL: LevelData = {
 
   playerSpawn: { x: 200, y: 1300 },
 
+  // Boss arena: the reactor bay again, once its waves are down
+  bossTriggerX: 1700,
+  bossArena: { minX: 1640, maxX: 2530, y: 1320 },
+  bossId: 'warden',
+
   platforms: [
     // ---- Ground floor (full width) ----
     { x: 1280, y: 1400, width: 2560, height: 80 },
@@ -139,4 +239,36 @@ export const PROTOTYPE_LEVEL: LevelData = {
     { x: 750, y: 680, type: 'enemy-sentry' },
     { x: 1800, y: 480, type: 'enemy-sentry' },
   ],
+
+  encounters: [
+    // ---- Reactor bay: the floor right of the centre wall ----
+    {
+      id: 'reactor-bay',
+      arena: { x: 1620, y: 0, width: 915, height: 1360 },
+      trigger: { x: 1700, y: 1100, width: 800, height: 260 },
+      waves: [
+        {
+          spawns: [
+            { x: 1750, y: 1340, type: 'enemy-walker' },
+            { x: 2400, y: 1340, type: 'enemy-walker' },
+          ],
+        },
+        {
+          delay: 1.5,
+          spawns: [
+            { x: 1900, y: 850, type: 'enemy-flyer' },
+            { x: 2300, y: 900, type: 'enemy-flyer' },
+            { x: 2100, y: 1340, type: 'enemy-walker' },
+          ],
+        },
+        {
+          delay: 1.5,
+          spawns: [
+            { x: 2050, y: 1340, type: 'enemy-shielder' },
+            { x: 2350, y: 720, type: 'enemy-sentry' },
+          ],
+        },
+      ],
+    },
+  ],
 };
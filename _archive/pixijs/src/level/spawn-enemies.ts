@@ -3,56 +3,49 @@
  * Extracted from game.ts to keep the orchestrator under 250 lines.
  */
 
+import type { Entity } from '../core/types.js';
 import type { World } from '../core/world.js';
 import type { PhysicsContext } from '../core/physics.js';
 import type { Container } from 'pixi.js';
 import type { SpawnPointDef } from './level-data.js';
-import {
-  createWalkerEnemy,
-  createFlyerEnemy,
-  createTurretEnemy,
-  createSentryEnemy,
-  createCrawlerEnemy,
-  createShielderEnemy,
-  createPhantomEnemy,
-} from '../entities/create-enemy.js';
+import { findEnemyDef } from '../combat/enemy-defs.js';
+import { createEnemyEntity } from '../entities/create-enemy.js';
+import { rollAffixes } from '../combat/elite-affixes.js';
+
+/** Prefix of spawn point types that name an enemy definition. */
+const ENEMY_PREFIX = 'enemy-';
 
 /**
  * Iterate over a level's spawn points and create the corresponding
- * enemy entities. Player spawn is handled separately by game.ts.
+ * enemy entities, looking each one up in the enemy registry. Player
+ * spawn is handled separately by game.ts.
+ *
+ * A spawn point's `affixes` make it elite; one without them is
+ * promoted at random with probability `eliteChance`.
+ *
+ * @param eliteChance - chance a spawn without forced affixes is elite
+ *                      (combat/elite-affixes.ts ELITE_CHANCE)
+ * @returns the enemies created
  */
 export function spawnEnemies(
   spawnPoints: SpawnPointDef[],
   world: World,
   physicsCtx: PhysicsContext,
   worldContainer: Container,
-): void {
+  eliteChance = 0,
+): Entity[] {
+  const spawned: Entity[] = [];
   for (const sp of spawnPoints) {
-    switch (sp.type) {
-      case 'enemy-walker':
-        createWalkerEnemy(world, physicsCtx, worldContainer, sp.x, sp.y);
-        break;
-      case 'enemy-flyer':
-        createFlyerEnemy(world, physicsCtx, worldContainer, sp.x, sp.y);
-        break;
-      case 'enemy-turret':
-        createTurretEnemy(world, physicsCtx, worldContainer, sp.x, sp.y);
-        break;
-      case 'enemy-sentry':
-        createSentryEnemy(world, physicsCtx, worldContainer, sp.x, sp.y);
-        break;
-      case 'enemy-crawler':
-        createCrawlerEnemy(world, physicsCtx, worldContainer, sp.x, sp.y);
-        break;
-      case 'enemy-shielder':
-        createShielderEnemy(world, physicsCtx, worldContainer, sp.x, sp.y);
-        break;
-      case 'enemy-phantom':
-        createPhantomEnemy(world, physicsCtx, worldContainer, sp.x, sp.y);
-        break;
-      case 'enemy-boss-warden':
-        // Boss spawned dynamically by BossTriggerSystem — skip here
-        break;
+    // Boss spawned dynamically by BossTriggerSystem — skip here
+    if (!sp.type.startsWith(ENEMY_PREFIX) || sp.type === 'enemy-boss-warden') continue;
+
+    const def = findEnemyDef(sp.type.slice(ENEMY_PREFIX.length));
+    if (!def) {
+      console.warn(`[Spawn] No enemy definition for '${sp.type}' at (${sp.x}, ${sp.y}); skipped.`);
+      continue;
     }
+    const affixes = sp.affixes ?? rollAffixes(eliteChance, def.body.type !== 'fixed');
+    spawned.push(createEnemyEntity(def, world, physicsCtx, worldContainer, sp.x, sp.y, affixes));
   }
+  return spawned;
 }
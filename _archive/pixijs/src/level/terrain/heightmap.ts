@@ -7,6 +7,7 @@
  */
 
 import { createNoise2D } from 'simplex-noise';
+import { createRng } from '../../core/rng.js';
 import { CELL_AIR, CELL_SOLID } from './terrain-types.js';
 import type { TileGrid, TerrainDef, RegionDef, AnchorDef } from './terrain-types.js';
 
@@ -29,16 +30,8 @@ export function generateHeightmap(
   baseY: number,
   seed: number = 42,
 ): number[] {
-  // Seeded PRNG (mulberry32) — simplex-noise v4 takes a () => number
-  let s = seed | 0;
-  const seededRandom = (): number => {
-    s = (s + 0x6d2b79f5) | 0;
-    let t = Math.imul(s ^ (s >>> 15), 1 | s);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-
-  const noise = createNoise2D(seededRandom);
+  // Seeded PRNG — simplex-noise v4 takes a () => number
+  const noise = createNoise2D(createRng(seed));
   const heights: number[] = [];
 
   for (let c = 0; c < cols; c++) {
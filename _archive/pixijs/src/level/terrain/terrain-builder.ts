@@ -17,6 +17,7 @@ import type { World } from '../../core/world.js';
 import type { PhysicsContext } from '../../core/physics.js';
 import { pixelsToMeters } from '../../core/physics.js';
 import { registerCollider } from '../../core/collision-utils.js';
+import { withCollisionLayer } from '../../core/collision-layers.js';
 import {
   createTransform,
   createPhysicsBody,
@@ -190,7 +191,10 @@ function createTerrainColliders(
 
     const halfW = pixelsToMeters(rect.width / 2);
     const halfH = pixelsToMeters(rect.height / 2);
-    const colliderDesc = RAPIER.ColliderDesc.cuboid(halfW, halfH);
+    const colliderDesc = withCollisionLayer(
+      RAPIER.ColliderDesc.cuboid(halfW, halfH),
+      'terrain',
+    );
     const collider = physicsCtx.world.createCollider(colliderDesc, body);
 
     world.addComponent(entity, createTransform(cx, cy));
@@ -0,0 +1,83 @@
+/**
+ * Tile layer renderer -- draws pre-placed tile layers (authored in LDtk)
+ * as PixiJS sprites.
+ *
+ * Unlike the 9-slice platform renderer, every tile here has an explicit
+ * position and source rect, so the output matches the editor exactly.
+ * Layers whose tileset texture is missing are skipped with a warning;
+ * collision is unaffected because it comes from platforms, not tiles.
+ */
+
+import { Container, Rectangle, Sprite, Texture } from 'pixi.js';
+import { getTexture, hasTexture } from '../core/asset-loader.js';
+import type { TileLayerDef } from './level-data.js';
+
+// ---------------------------------------------------------------------------
+// Tile texture cache
+// ---------------------------------------------------------------------------
+
+/** Cache keyed by "alias:srcX:srcY:size" so tiles share textures. */
+const tileCache = new Map<string, Texture>();
+
+/** Extract (or reuse) a single tile texture from a tileset. */
+function getTile(
+  tilesetId: string, srcX: number, srcY: number, size: number,
+): Texture {
+  const key = `${tilesetId}:${srcX}:${srcY}:${size}`;
+  const cached = tileCache.get(key);
+  if (cached) return cached;
+
+  const base = getTexture(tilesetId);
+  const tex = new Texture({
+    source: base.source,
+    frame: new Rectangle(srcX, srcY, size, size),
+  });
+  tileCache.set(key, tex);
+  return tex;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Render tile layers into a single container. Layers are drawn in array
+ * order, so the first layer ends up at the back.
+ *
+ * @param layers - tile layers from LevelData.tileLayers
+ * @returns a Container in world (level pixel) coordinates
+ */
+export function renderTileLayers(layers: TileLayerDef[]): Container {
+  const container = new Container();
+
+  for (const layer of layers) {
+    if (!hasTexture(layer.tilesetId)) {
+      console.warn(`[TileLayers] Tileset '${layer.tilesetId}' not loaded, skipping layer`);
+      continue;
+    }
+
+    const layerContainer = new Container();
+    layerContainer.alpha = layer.opacity;
+    const size = layer.tileSize;
+
+    for (const tile of layer.tiles) {
+      const sprite = new Sprite(getTile(layer.tilesetId, tile.srcX, tile.srcY, size));
+      // Flips mirror around the tile centre, so anchor there
+      sprite.anchor.set(0.5);
+      sprite.x = tile.x + size / 2;
+      sprite.y = tile.y + size / 2;
+      if (tile.flipX) sprite.scale.x = -1;
+      if (tile.flipY) sprite.scale.y = -1;
+      layerContainer.addChild(sprite);
+    }
+    container.addChild(layerContainer);
+  }
+
+  return container;
+}
+
+/** Clear cached tile textures (call between levels). */
+export function clearTileLayerCache(): void {
+  for (const tex of tileCache.values()) tex.destroy();
+  tileCache.clear();
+}
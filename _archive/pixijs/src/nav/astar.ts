@@ -0,0 +1,115 @@
+/**
+ * A* search over a NavGraph.
+ *
+ * The heuristic is max(|dcol|, |drow| / 2): no link costs less than
+ * that (walks and flights cost 1 per column, falls 1 + half a row per
+ * row), so it never overestimates and paths come out optimal.
+ */
+
+import type { NavGraph } from './nav-graph.js';
+
+/** Binary min-heap of node ids keyed by f-score. */
+class MinHeap {
+  private readonly ids: number[] = [];
+  private readonly keys: number[] = [];
+
+  get size(): number {
+    return this.ids.length;
+  }
+
+  push(id: number, key: number): void {
+    this.ids.push(id);
+    this.keys.push(key);
+    let i = this.ids.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= this.keys[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.ids[0];
+    const lastId = this.ids.pop() as number;
+    const lastKey = this.keys.pop() as number;
+    if (this.ids.length > 0) {
+      this.ids[0] = lastId;
+      this.keys[0] = lastKey;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let min = i;
+        if (l < this.keys.length && this.keys[l] < this.keys[min]) min = l;
+        if (r < this.keys.length && this.keys[r] < this.keys[min]) min = r;
+        if (min === i) break;
+        this.swap(i, min);
+        i = min;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.ids[a], this.ids[b]] = [this.ids[b], this.ids[a]];
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+  }
+}
+
+/**
+ * Cheapest path between two nodes.
+ *
+ * @param maxExpansions - give up after expanding this many nodes
+ * @returns node ids from start to goal (inclusive), or null if the goal
+ *          is unreachable or too far
+ */
+export function findNodePath(
+  graph: NavGraph,
+  start: number,
+  goal: number,
+  maxExpansions: number,
+): number[] | null {
+  const { cols } = graph.grid;
+  const goalCol = goal % cols;
+  const goalRow = Math.floor(goal / cols);
+  const heuristic = (id: number): number => Math.max(
+    Math.abs((id % cols) - goalCol),
+    Math.abs(Math.floor(id / cols) - goalRow) / 2,
+  );
+
+  const cost = new Map<number, number>([[start, 0]]);
+  const cameFrom = new Map<number, number>();
+  const closed = new Set<number>();
+  const open = new MinHeap();
+  open.push(start, heuristic(start));
+
+  let expansions = 0;
+  while (open.size > 0 && expansions < maxExpansions) {
+    const current = open.pop();
+    if (current === goal) return reconstruct(cameFrom, goal);
+    if (closed.has(current)) continue;
+    closed.add(current);
+    expansions++;
+
+    const base = cost.get(current) as number;
+    for (const link of graph.links[current]) {
+      const next = base + link.cost;
+      if (next >= (cost.get(link.to) ?? Infinity)) continue;
+      cost.set(link.to, next);
+      cameFrom.set(link.to, current);
+      open.push(link.to, next + heuristic(link.to));
+    }
+  }
+  return null;
+}
+
+function reconstruct(cameFrom: Map<number, number>, goal: number): number[] {
+  const path = [goal];
+  let node = cameFrom.get(goal);
+  while (node !== undefined) {
+    path.push(node);
+    node = cameFrom.get(node);
+  }
+  return path.reverse();
+}
@@ -0,0 +1,154 @@
+/**
+ * Nav graphs over a NavGrid: which cells an agent can occupy and how it
+ * gets from one to the next.
+ *
+ *   air     every open cell, 8-connected (no cutting past solid corners);
+ *           for flyers
+ *   ground  open cells with solid ground under them and room to stand;
+ *           linked by walking to a neighbour, falling off an edge, and
+ *           jumping up or across to another standable cell when the
+ *           arc's envelope is open; for walkers
+ *
+ * Node ids are cell indices (row * cols + col); cells that aren't nodes
+ * have no links. Graphs are immutable once built.
+ */
+
+import type { NavGrid } from './nav-grid.js';
+import { isSolidCell } from './nav-grid.js';
+
+/** How an agent traverses a link. */
+export type NavLinkKind = 'walk' | 'fall' | 'jump' | 'fly';
+
+/** A directed edge to another node. */
+export interface NavLink {
+  readonly to: number;
+  readonly cost: number;
+  readonly kind: NavLinkKind;
+}
+
+export interface NavGraph {
+  readonly grid: NavGrid;
+  /** Outgoing links by node id (empty for cells that aren't nodes). */
+  readonly links: readonly (readonly NavLink[])[];
+  /** Whether a cell index is a node. */
+  readonly isNode: Uint8Array;
+}
+
+/** Open cells a walker needs above its feet cell (inclusive). */
+const GROUND_HEADROOM = 2;
+
+/** Highest jump, in rows from feet to the target's feet. */
+const MAX_JUMP_UP = 5;
+
+/** Widest jump, in columns. */
+const MAX_JUMP_ACROSS = 4;
+
+/** Deepest fall a link may take, in rows (deeper drops aren't used). */
+const MAX_FALL = 24;
+
+// ---------------------------------------------------------------------------
+// Air
+// ---------------------------------------------------------------------------
+
+/** Graph for flying agents: every open cell. */
+export function buildAirGraph(grid: NavGrid): NavGraph {
+  const { cols, rows } = grid;
+  const links: NavLink[][] = [];
+  const isNode = new Uint8Array(cols * rows);
+  const open = (c: number, r: number): boolean => !isSolidCell(grid, c, r);
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const out: NavLink[] = [];
+      links.push(out);
+      if (!open(c, r)) continue;
+      isNode[r * cols + c] = 1;
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          if ((dr === 0 && dc === 0) || !open(c + dc, r + dr)) continue;
+          const diagonal = dr !== 0 && dc !== 0;
+          if (diagonal && (!open(c + dc, r) || !open(c, r + dr))) continue;
+          out.push({ to: (r + dr) * cols + c + dc, cost: diagonal ? Math.SQRT2 : 1, kind: 'fly' });
+        }
+      }
+    }
+  }
+  return { grid, links, isNode };
+}
+
+// ---------------------------------------------------------------------------
+// Ground
+// ---------------------------------------------------------------------------
+
+/** Graph for walking agents, with walk, fall and jump links. */
+export function buildGroundGraph(grid: NavGrid): NavGraph {
+  const { cols, rows } = grid;
+  const solid = (c: number, r: number): boolean => isSolidCell(grid, c, r);
+
+  /** Open cells from row r0 to r1 (inclusive, any order) in column c. */
+  const clear = (c: number, r0: number, r1: number): boolean => {
+    for (let r = Math.min(r0, r1); r <= Math.max(r0, r1); r++) if (solid(c, r)) return false;
+    return true;
+  };
+  const standable = (c: number, r: number): boolean => (
+    solid(c, r + 1) && clear(c, r - GROUND_HEADROOM + 1, r)
+  );
+
+  const isNode = new Uint8Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) if (standable(c, r)) isNode[r * cols + c] = 1;
+  }
+  const node = (c: number, r: number): boolean => (
+    c >= 0 && r >= 0 && c < cols && r < rows && isNode[r * cols + c] === 1
+  );
+
+  const links: NavLink[][] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const out: NavLink[] = [];
+      links.push(out);
+      if (!node(c, r)) continue;
+
+      for (const dir of [-1, 1]) {
+        const nc = c + dir;
+        if (node(nc, r)) {
+          out.push({ to: r * cols + nc, cost: 1, kind: 'walk' });
+        } else if (clear(nc, r - GROUND_HEADROOM + 1, r)) {
+          // Walk off the edge and drop to the first ground below
+          let land = r + 1;
+          while (land - r <= MAX_FALL && !solid(nc, land) && !node(nc, land)) land++;
+          if (node(nc, land) && land - r <= MAX_FALL) {
+            out.push({ to: land * cols + nc, cost: 1 + (land - r) * 0.5, kind: 'fall' });
+          }
+        }
+        addJumps(out, c, r, dir);
+      }
+    }
+  }
+  return { grid, links, isNode };
+
+  /** Jumps from (c, r) toward `dir`: up to MAX_JUMP_UP rows, across up to MAX_JUMP_ACROSS. */
+  function addJumps(out: NavLink[], c: number, r: number, dir: number): void {
+    for (let across = 1; across <= MAX_JUMP_ACROSS; across++) {
+      const tc = c + dir * across;
+      for (let up = 0; up <= MAX_JUMP_UP; up++) {
+        const tr = r - up;
+        if (!node(tc, tr) || (up === 0 && across === 1)) continue;
+        const apex = jumpApex(r, tr);
+        // Rise in place, cross at the apex, drop onto the target
+        const top = apex - GROUND_HEADROOM + 1;
+        if (!clear(c, top, r) || !clear(tc, top, tr)) continue;
+        let open = true;
+        for (let k = 1; k < across && open; k++) {
+          open = clear(c + dir * k, top, apex);
+        }
+        if (open) out.push({ to: tr * cols + tc, cost: 2 + across + up, kind: 'jump' });
+      }
+    }
+  }
+}
+
+/** Highest row (feet) a jump from row `from` to row `to` passes through. */
+export function jumpApex(from: number, to: number): number {
+  return Math.min(from, to) - 1;
+}
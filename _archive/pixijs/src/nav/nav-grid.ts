@@ -0,0 +1,102 @@
+/**
+ * Navigation grid – a level's solid / open cells, the common input of
+ * the ground and air nav graphs (nav-graph.ts).
+ *
+ * Terrain levels reuse the TileGrid from level/terrain/heightmap.ts
+ * (same def, same seed, so the same cells the colliders were meshed
+ * from). Platform levels rasterise their PlatformDefs onto a grid of
+ * NAV_CELL_SIZE cells; a cell any platform overlaps counts as solid.
+ * Levels with both get both.
+ */
+
+import type { LevelData, PlatformDef } from '../level/level-data.js';
+import { buildTileGrid } from '../level/terrain/heightmap.js';
+import { CELL_SOLID } from '../level/terrain/terrain-types.js';
+
+/** Cell size for platform-only levels (pixels). */
+export const NAV_CELL_SIZE = 32;
+
+/** Platform overlap (pixels) below which a cell is left open. */
+const OVERLAP_EPSILON = 1;
+
+/** Solid / open cells of a level. */
+export interface NavGrid {
+  /** Cell size (pixels). */
+  readonly cellSize: number;
+  readonly cols: number;
+  readonly rows: number;
+  /** 1 = solid, 0 = open; index row * cols + col. */
+  readonly solid: Uint8Array;
+}
+
+/** A cell coordinate. */
+export interface NavCell {
+  col: number;
+  row: number;
+}
+
+// ---------------------------------------------------------------------------
+// Building
+// ---------------------------------------------------------------------------
+
+/** Build the navigation grid for a level. */
+export function buildNavGrid(level: LevelData): NavGrid {
+  const cellSize = level.terrain?.cellSize ?? NAV_CELL_SIZE;
+  const cols = Math.ceil(level.width / cellSize);
+  const rows = Math.ceil(level.height / cellSize);
+  const solid = new Uint8Array(cols * rows);
+
+  if (level.terrain) {
+    const tiles = buildTileGrid(level.terrain, level.width, level.height);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        if (tiles[r]?.[c] === CELL_SOLID) solid[r * cols + c] = 1;
+      }
+    }
+  }
+
+  const grid: NavGrid = { cellSize, cols, rows, solid };
+  for (const platform of level.platforms) rasterisePlatform(grid, platform);
+  return grid;
+}
+
+/** Mark every cell a platform (centre-positioned, pixels) overlaps as solid. */
+function rasterisePlatform(grid: NavGrid, p: PlatformDef): void {
+  const { cellSize, cols, rows } = grid;
+  const left = p.x - p.width / 2 + OVERLAP_EPSILON;
+  const right = p.x + p.width / 2 - OVERLAP_EPSILON;
+  const top = p.y - p.height / 2 + OVERLAP_EPSILON;
+  const bottom = p.y + p.height / 2 - OVERLAP_EPSILON;
+  if (right <= left || bottom <= top) return;
+
+  const c0 = Math.max(0, Math.floor(left / cellSize));
+  const c1 = Math.min(cols - 1, Math.floor(right / cellSize));
+  const r0 = Math.max(0, Math.floor(top / cellSize));
+  const r1 = Math.min(rows - 1, Math.floor(bottom / cellSize));
+  for (let r = r0; r <= r1; r++) {
+    for (let c = c0; c <= c1; c++) grid.solid[r * cols + c] = 1;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** Whether a cell is solid. Cells outside the level count as solid. */
+export function isSolidCell(grid: NavGrid, col: number, row: number): boolean {
+  if (col < 0 || row < 0 || col >= grid.cols || row >= grid.rows) return true;
+  return grid.solid[row * grid.cols + col] === 1;
+}
+
+/** The cell containing a point (pixels), clamped to the grid. */
+export function cellAt(grid: NavGrid, x: number, y: number): NavCell {
+  return {
+    col: Math.min(grid.cols - 1, Math.max(0, Math.floor(x / grid.cellSize))),
+    row: Math.min(grid.rows - 1, Math.max(0, Math.floor(y / grid.cellSize))),
+  };
+}
+
+/** Centre of a cell (pixels). */
+export function cellCentre(grid: NavGrid, col: number, row: number): { x: number; y: number } {
+  return { x: (col + 0.5) * grid.cellSize, y: (row + 0.5) * grid.cellSize };
+}
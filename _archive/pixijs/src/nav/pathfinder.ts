@@ -0,0 +1,196 @@
+/**
+ * Pathfinder – the navigation query API for one level.
+ *
+ * Built from the level's LevelData (terrain TileGrid and / or
+ * platforms, see nav-grid.ts); the ground and air graphs are built the
+ * first time an agent of that kind asks for a path.
+ *
+ * Queries come in two forms:
+ *   findPath()  answers immediately
+ *   request()   returns a PathRequest that is resolved by update(), at
+ *               most MAX_SEARCHES_PER_TICK searches per tick, so a crowd
+ *               re-planning at once can't stall a frame
+ *
+ * Requests are resolved in the order they were made, inside the fixed
+ * tick, so replays stay deterministic. Nothing a caller holds is shared
+ * mutable state: graphs never change after being built, paths are
+ * frozen and may be cached and handed to several agents, and a request
+ * whose owner has lost interest (re-planned, died) is simply cancelled.
+ */
+
+import type { LevelData } from '../level/level-data.js';
+import type { NavGrid } from './nav-grid.js';
+import { buildNavGrid, cellAt, cellCentre } from './nav-grid.js';
+import type { NavGraph, NavLinkKind } from './nav-graph.js';
+import { buildAirGraph, buildGroundGraph, jumpApex } from './nav-graph.js';
+import { findNodePath } from './astar.js';
+
+/** Which graph an agent moves on. */
+export type NavMode = 'ground' | 'air';
+
+/** One step of a path: a cell centre and how to get there from the previous one. */
+export interface NavWaypoint {
+  /** Cell centre (pixels). */
+  readonly x: number;
+  readonly y: number;
+  readonly kind: NavLinkKind;
+  /** For jumps: height to clear above the start (pixels); 0 otherwise. */
+  readonly jumpHeight: number;
+}
+
+/** Waypoints from the start cell to the goal cell. */
+export type NavPath = readonly NavWaypoint[];
+
+/** A queued path query. Poll `status`; `path` is set once it is 'done'. */
+export interface PathRequest {
+  status: 'pending' | 'done' | 'cancelled';
+  /** The path, or null if the goal is unreachable. */
+  path: NavPath | null;
+}
+
+/** Searches run per update() call. */
+const MAX_SEARCHES_PER_TICK = 4;
+
+/** Nodes one search may expand before giving up. */
+const MAX_EXPANSIONS = 4000;
+
+/** Most paths kept in the cache. */
+const PATH_CACHE_SIZE = 256;
+
+/** Rows below a point searched for ground to stand it on (airborne targets). */
+const GROUND_SNAP_ROWS = 8;
+
+interface QueuedRequest {
+  readonly request: PathRequest;
+  readonly mode: NavMode;
+  readonly start: number;
+  readonly goal: number;
+}
+
+export class Pathfinder {
+  private readonly grid: NavGrid;
+  private readonly graphs = new Map<NavMode, NavGraph>();
+  /** Results by `mode:start:goal` (null = unreachable), oldest first. */
+  private readonly cache = new Map<string, NavPath | null>();
+  private queue: QueuedRequest[] = [];
+
+  /** @param level - the level to navigate */
+  constructor(level: LevelData) {
+    this.grid = buildNavGrid(level);
+  }
+
+  /** Nav cell size (pixels); waypoints are this far apart. */
+  get cellSize(): number {
+    return this.grid.cellSize;
+  }
+
+  /** Find a path between two points (pixels) right away. */
+  findPath(mode: NavMode, fromX: number, fromY: number, toX: number, toY: number): NavPath | null {
+    const start = this.nearestNode(mode, fromX, fromY);
+    const goal = this.nearestNode(mode, toX, toY);
+    if (start < 0 || goal < 0) return null;
+    return this.search(mode, start, goal);
+  }
+
+  /**
+   * Queue a path query between two points (pixels). Resolved by a later
+   * update(), or at once when the answer is already known.
+   */
+  request(mode: NavMode, fromX: number, fromY: number, toX: number, toY: number): PathRequest {
+    const start = this.nearestNode(mode, fromX, fromY);
+    const goal = this.nearestNode(mode, toX, toY);
+    const key = `${mode}:${start}:${goal}`;
+    if (start < 0 || goal < 0 || this.cache.has(key)) {
+      const path = start < 0 || goal < 0 ? null : this.cache.get(key) ?? null;
+      return { status: 'done', path };
+    }
+    const request: PathRequest = { status: 'pending', path: null };
+    this.queue.push({ request, mode, start, goal });
+    return request;
+  }
+
+  /** Drop a request nobody needs any more. */
+  cancel(request: PathRequest): void {
+    if (request.status === 'pending') request.status = 'cancelled';
+  }
+
+  /** Resolve queued requests (call once per tick). */
+  update(): void {
+    let searches = 0;
+    while (this.queue.length > 0 && searches < MAX_SEARCHES_PER_TICK) {
+      const next = this.queue.shift() as QueuedRequest;
+      if (next.request.status !== 'pending') continue;
+      if (!this.cache.has(`${next.mode}:${next.start}:${next.goal}`)) searches++;
+      next.request.path = this.search(next.mode, next.start, next.goal);
+      next.request.status = 'done';
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private graph(mode: NavMode): NavGraph {
+    let graph = this.graphs.get(mode);
+    if (!graph) {
+      graph = mode === 'ground' ? buildGroundGraph(this.grid) : buildAirGraph(this.grid);
+      this.graphs.set(mode, graph);
+    }
+    return graph;
+  }
+
+  /** Cached A* between two nodes. */
+  private search(mode: NavMode, start: number, goal: number): NavPath | null {
+    const key = `${mode}:${start}:${goal}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const graph = this.graph(mode);
+    const nodes = findNodePath(graph, start, goal, MAX_EXPANSIONS);
+    const path = nodes ? this.toWaypoints(mode, graph, nodes) : null;
+
+    if (this.cache.size >= PATH_CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(key, path);
+    return path;
+  }
+
+  /** Turn node ids into waypoints, recording how each is reached. */
+  private toWaypoints(mode: NavMode, graph: NavGraph, nodes: number[]): NavPath {
+    const { cols, cellSize } = this.grid;
+    const waypoints = nodes.map((id, i): NavWaypoint => {
+      const col = id % cols;
+      const row = Math.floor(id / cols);
+      const { x, y } = cellCentre(this.grid, col, row);
+      if (i === 0) return { x, y, kind: mode === 'air' ? 'fly' : 'walk', jumpHeight: 0 };
+
+      const prev = nodes[i - 1];
+      const link = graph.links[prev].find((l) => l.to === id);
+      const kind = link?.kind ?? 'walk';
+      const prevRow = Math.floor(prev / cols);
+      const jumpHeight = kind === 'jump' ? (prevRow - jumpApex(prevRow, row)) * cellSize : 0;
+      return { x, y, kind, jumpHeight };
+    });
+    return Object.freeze(waypoints);
+  }
+
+  /** The node an agent at (x, y) pixels is on, or -1 if there's none nearby. */
+  private nearestNode(mode: NavMode, x: number, y: number): number {
+    const graph = this.graph(mode);
+    const { cols, rows } = this.grid;
+    const { col, row } = cellAt(this.grid, x, y);
+    const below = mode === 'ground' ? GROUND_SNAP_ROWS : 1;
+    for (const dc of [0, -1, 1]) {
+      // Straight down first (a standing agent's feet are in its own cell), then one up
+      for (let step = 0; step <= below + 1; step++) {
+        const c = col + dc;
+        const r = step > below ? row - 1 : row + step;
+        if (c >= 0 && r >= 0 && c < cols && r < rows && graph.isNode[r * cols + c] === 1) {
+          return r * cols + c;
+        }
+      }
+    }
+    return -1;
+  }
+}
@@ -1,11 +1,14 @@
 /**
  * ShipInterior -- walkable ship room with interactive stations.
- * Stations: Workbench (loadout), Terminal (shop), Cockpit (star map).
+ * Stations: Workbench (loadout), Codex (discovered synergies),
+ * Terminal (shop), Cockpit (star map).
+ * K opens the controls (key bindings) screen.
  */
 
 import { Container, Graphics, Text, TextStyle } from 'pixi.js';
 import { MONO } from '../ui/ui-helpers.js';
 import { InteractPrompt } from '../ui/interact-prompt.js';
+import { Action, KEY_BINDINGS } from '../input/actions.js';
 
 const ROOM_W = 800;
 const ROOM_H = 400;
@@ -16,7 +19,7 @@ const MOVE_SPEED = 200;
 const WALL_PAD = 30;
 
 interface Station {
-  id: 'loadout' | 'shop' | 'cockpit';
+  id: 'loadout' | 'codex' | 'shop' | 'cockpit';
   label: string;
   x: number;
   color: number;
@@ -25,14 +28,15 @@ interface Station {
 }
 
 const STATIONS: Station[] = [
-  { id: 'loadout', label: 'LOADOUT', x: 150, color: 0xff8844, hotkey: 'KeyL', icon: '[L]' },
-  { id: 'shop', label: 'SHOP', x: 400, color: 0x44cc44, hotkey: 'KeyS', icon: '[S]' },
-  { id: 'cockpit', label: 'COCKPIT', x: 650, color: 0x4488ff, hotkey: 'KeyC', icon: '[C]' },
+  { id: 'loadout', label: 'LOADOUT', x: 120, color: 0xff8844, hotkey: 'KeyL', icon: '[L]' },
+  { id: 'codex', label: 'CODEX', x: 300, color: 0xcc88ff, hotkey: 'KeyX', icon: '[X]' },
+  { id: 'shop', label: 'SHOP', x: 480, color: 0x44cc44, hotkey: 'KeyS', icon: '[S]' },
+  { id: 'cockpit', label: 'COCKPIT', x: 680, color: 0x4488ff, hotkey: 'KeyC', icon: '[C]' },
 ];
 
 const INTERACT_RANGE = 70;
 
-export type ShipAction = 'loadout' | 'shop' | 'cockpit';
+export type ShipAction = 'loadout' | 'codex' | 'shop' | 'cockpit' | 'controls';
 
 export class ShipInterior {
   readonly container: Container;
@@ -82,7 +86,7 @@ export class ShipInterior {
     this.roomContainer.addChild(title);
 
     const hint = new Text({
-      text: 'Arrow Keys: Move   |   E: Interact   |   L / S / C / M: Hotkeys',
+      text: 'Move Left / Right: Walk   |   E / Enter: Interact   |   L / X / S / C / M: Hotkeys   |   K: Controls',
       style: new TextStyle({ fontFamily: MONO, fontSize: 12, fill: 0x5588aa }),
     });
     hint.anchor.set(0.5, 0); hint.x = ROOM_W / 2; hint.y = ROOM_H + 16;
@@ -100,8 +104,8 @@ export class ShipInterior {
   update(dt: number): void {
     this.glowTime += dt;
     let dx = 0;
-    if (this.keysDown.has('ArrowLeft') || this.keysDown.has('KeyA')) dx -= 1;
-    if (this.keysDown.has('ArrowRight') || this.keysDown.has('KeyD')) dx += 1;
+    if (this.isHeld(Action.MoveLeft)) dx -= 1;
+    if (this.isHeld(Action.MoveRight)) dx += 1;
     this.playerX += dx * MOVE_SPEED * dt;
     this.playerX = Math.max(WALL_PAD + PLAYER_W / 2,
       Math.min(ROOM_W - WALL_PAD - PLAYER_W / 2, this.playerX));
@@ -117,11 +121,13 @@ export class ShipInterior {
     if (this.nearStation) this.prompt.show(this.nearStation.x, FLOOR_Y - PLAYER_H - 20);
     else this.prompt.hide();
 
-    if (this.nearStation && this.keysJustPressed.has('KeyE')) this.onAction(this.nearStation.id);
+    const interact = this.keysJustPressed.has('KeyE') || this.keysJustPressed.has('Enter');
+    if (this.nearStation && interact) this.onAction(this.nearStation.id);
     for (const st of STATIONS) {
       if (this.keysJustPressed.has(st.hotkey)) this.onAction(st.id);
     }
     if (this.keysJustPressed.has('KeyM')) this.onAction('cockpit');
+    if (this.keysJustPressed.has('KeyK')) this.onAction('controls');
 
     // Animate station glows
     for (let i = 0; i < this.stationGlows.length; i++) {
@@ -130,6 +136,14 @@ export class ShipInterior {
     this.keysJustPressed.clear();
   }
 
+  /**
+   * Drop presses made while an overlay had focus, so keys typed into a
+   * panel don't fire ship hotkeys once it closes.
+   */
+  discardInput(): void {
+    this.keysJustPressed.clear();
+  }
+
   destroy(): void {
     window.removeEventListener('keydown', this.handleKeyDown);
     window.removeEventListener('keyup', this.handleKeyUp);
@@ -138,6 +152,11 @@ export class ShipInterior {
     this.container.destroy({ children: true });
   }
 
+  /** True while any key bound to the action is held. */
+  private isHeld(action: Action): boolean {
+    return KEY_BINDINGS[action].some((code) => this.keysDown.has(code));
+  }
+
   private drawRoom(): void {
     const g = new Graphics();
     // Back wall
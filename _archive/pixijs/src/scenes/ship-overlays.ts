@@ -1,20 +1,24 @@
 /**
- * ShipOverlays -- manages weapon loadout and shop panels as modal overlays
- * on top of the ship interior scene.
+ * ShipOverlays -- manages weapon loadout, shop, Codex and controls panels
+ * as modal overlays on top of the ship interior scene.
  */
 
 import { Container, Graphics, TextStyle } from 'pixi.js';
 import { WeaponPanel } from '../ui/weapon-panel.js';
 import { ShopPanel } from '../ui/shop-panel.js';
+import { KeyBindingsPanel } from '../ui/key-bindings-panel.js';
+import { CodexPanel } from '../ui/codex-panel.js';
 import { centeredText, MONO } from '../ui/ui-helpers.js';
 import type { GameState } from '../core/game-state.js';
 
-export type OverlayType = 'loadout' | 'shop' | null;
+export type OverlayType = 'loadout' | 'shop' | 'codex' | 'controls' | null;
 
 export class ShipOverlays {
   readonly container: Container;
   private weaponPanel: WeaponPanel | null = null;
   private shopPanel: ShopPanel | null = null;
+  private bindingsPanel: KeyBindingsPanel | null = null;
+  private codexPanel: CodexPanel | null = null;
   private currentOverlay: OverlayType = null;
   private gameState: GameState;
   private handleKey: (e: KeyboardEvent) => void;
@@ -25,15 +29,25 @@ export class ShipOverlays {
     this.container.visible = false;
 
     this.handleKey = (e: KeyboardEvent) => {
-      if (e.code === 'Escape' && this.currentOverlay) {
+      if (!this.currentOverlay) return;
+      if (e.code === 'Escape') {
         this.close();
+      } else if (e.code === 'ArrowLeft' || e.code === 'ArrowRight') {
+        const dir = e.code === 'ArrowLeft' ? -1 : 1;
+        this.weaponPanel?.cycle(dir);
+        this.shopPanel?.moveFocus(dir);
+      } else if (e.code === 'ArrowUp' || e.code === 'ArrowDown') {
+        this.weaponPanel?.moveUpgradeFocus(e.code === 'ArrowUp' ? -1 : 1);
+      } else if (e.code === 'Enter') {
+        this.shopPanel?.buyFocused();
+        this.weaponPanel?.buyFocusedUpgrade();
       }
     };
     window.addEventListener('keydown', this.handleKey);
   }
 
-  /** Open a loadout or shop overlay panel. */
-  open(type: 'loadout' | 'shop'): void {
+  /** Open a loadout, shop, Codex or controls overlay panel. */
+  open(type: 'loadout' | 'shop' | 'codex' | 'controls'): void {
     this.close();
     this.currentOverlay = type;
     this.container.visible = true;
@@ -50,21 +64,47 @@ export class ShipOverlays {
     if (type === 'loadout') {
       centeredText(this.container, '── LOADOUT ──', new TextStyle({
         fontFamily: MONO, fontSize: 18, fill: 0xff8844,
-      }), cx, cy - 80);
+      }), cx, cy - 160);
 
       this.weaponPanel = new WeaponPanel(this.gameState, () => {
         this.weaponPanel?.refresh();
       });
       this.weaponPanel.container.x = cx;
-      this.weaponPanel.container.y = cy - 40;
+      this.weaponPanel.container.y = cy - 120;
       this.container.addChild(this.weaponPanel.container);
       if (this.gameState.equippedWeapon) {
         this.weaponPanel.select(this.gameState.equippedWeapon);
       }
 
+      centeredText(this.container, '←/→ weapon   ↑/↓ upgrade   ENTER buy   ESC to close', new TextStyle({
+        fontFamily: MONO, fontSize: 11, fill: 0x446688,
+      }), cx, cy + 150);
+    } else if (type === 'codex') {
+      centeredText(this.container, '── CODEX ──', new TextStyle({
+        fontFamily: MONO, fontSize: 18, fill: 0xcc88ff,
+      }), cx, cy - 230);
+
+      this.codexPanel = new CodexPanel(this.gameState);
+      this.codexPanel.container.x = cx;
+      this.codexPanel.container.y = cy - 200;
+      this.container.addChild(this.codexPanel.container);
+
       centeredText(this.container, 'ESC to close', new TextStyle({
         fontFamily: MONO, fontSize: 11, fill: 0x446688,
-      }), cx, cy + 70);
+      }), cx, cy - 200 + this.codexPanel.height + 10);
+    } else if (type === 'controls') {
+      centeredText(this.container, '── CONTROLS ──', new TextStyle({
+        fontFamily: MONO, fontSize: 18, fill: 0x4488ff,
+      }), cx, cy - 120);
+
+      this.bindingsPanel = new KeyBindingsPanel();
+      this.bindingsPanel.container.x = cx;
+      this.bindingsPanel.container.y = cy - 80;
+      this.container.addChild(this.bindingsPanel.container);
+
+      centeredText(this.container, 'ESC to close', new TextStyle({
+        fontFamily: MONO, fontSize: 11, fill: 0x446688,
+      }), cx, cy + 110);
     } else {
       centeredText(this.container, '── SHOP ──', new TextStyle({
         fontFamily: MONO, fontSize: 18, fill: 0x44cc44,
@@ -77,7 +117,7 @@ export class ShipOverlays {
       this.shopPanel.container.y = cy - 100;
       this.container.addChild(this.shopPanel.container);
 
-      centeredText(this.container, 'ESC to close', new TextStyle({
+      centeredText(this.container, '←/→ select   ENTER buy   ESC to close', new TextStyle({
         fontFamily: MONO, fontSize: 11, fill: 0x446688,
       }), cx, cy + 110);
     }
@@ -89,6 +129,14 @@ export class ShipOverlays {
       this.shopPanel.destroy();
       this.shopPanel = null;
     }
+    if (this.bindingsPanel) {
+      this.bindingsPanel.destroy();
+      this.bindingsPanel = null;
+    }
+    if (this.codexPanel) {
+      this.codexPanel.destroy();
+      this.codexPanel = null;
+    }
     this.weaponPanel = null;
     this.container.removeChildren();
     this.container.visible = false;
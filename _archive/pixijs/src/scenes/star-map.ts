@@ -1,6 +1,7 @@
 /**
  * StarMap — top-down star system navigator.
- * Arrow keys to select stars. Enter to deploy. ESC to return to ship.
+ * Arrow keys to select stars. Enter to deploy. B (pad Y) to start a boss rush.
+ * ESC to return to ship.
  */
 
 import { Container, Graphics, Text, TextStyle } from 'pixi.js';
@@ -14,6 +15,7 @@ const SEL_R = 18;
 
 export type StarMapResult =
   | { action: 'deploy'; starId: string }
+  | { action: 'boss-rush' }
   | { action: 'back' };
 
 export class StarMap {
@@ -79,21 +81,10 @@ export class StarMap {
     title.y = 16;
     this.container.addChild(title);
 
-    // Clickable back button
-    const backBtn = new Container();
-    backBtn.eventMode = 'static'; backBtn.cursor = 'pointer';
-    const bbg = new Graphics();
-    bbg.roundRect(0, 0, 160, 34, 6);
-    bbg.fill({ color: 0x0a0a2e, alpha: 0.8 });
-    bbg.stroke({ color: 0x446688, width: 1 });
-    backBtn.addChild(bbg);
-    const bt = new Text({ text: 'ESC  Back to Ship',
-      style: new TextStyle({ fontFamily: MONO, fontSize: 12, fill: 0x6688aa }) });
-    bt.anchor.set(0.5, 0.5); bt.x = 80; bt.y = 17;
-    backBtn.addChild(bt);
-    backBtn.x = w / 2 - 80; backBtn.y = h - 50;
-    backBtn.on('pointertap', () => this.fireResult({ action: 'back' }));
-    this.container.addChild(backBtn);
+    // Clickable buttons along the bottom
+    this.addButton('ESC  Back to Ship', w / 2 - 170, h - 50,
+      () => this.fireResult({ action: 'back' }));
+    this.addButton('B / Y  Boss Rush', w / 2 + 10, h - 50, () => this.tryBossRush());
 
     // Info panel positioned right side
     this.infoPanel = new PlanetInfoPanel();
@@ -113,6 +104,8 @@ export class StarMap {
         this.updateSelection();
       } else if (code === 'Enter') {
         this.tryDeploy();
+      } else if (code === 'KeyB') {
+        this.tryBossRush();
       } else if (code === 'Escape' || code === 'Backspace') {
         this.fireResult({ action: 'back' });
       }
@@ -142,6 +135,29 @@ export class StarMap {
     }
   }
 
+  /** Start a boss rush; like deploying, it needs a weapon. */
+  private tryBossRush(): void {
+    if (this.hasWeapon) this.fireResult({ action: 'boss-rush' });
+  }
+
+  /** Add a clickable 160x34 button with its top-left at (x, y). */
+  private addButton(label: string, x: number, y: number, onTap: () => void): void {
+    const btn = new Container();
+    btn.eventMode = 'static'; btn.cursor = 'pointer';
+    const bg = new Graphics();
+    bg.roundRect(0, 0, 160, 34, 6);
+    bg.fill({ color: 0x0a0a2e, alpha: 0.8 });
+    bg.stroke({ color: 0x446688, width: 1 });
+    btn.addChild(bg);
+    const text = new Text({ text: label,
+      style: new TextStyle({ fontFamily: MONO, fontSize: 12, fill: 0x6688aa }) });
+    text.anchor.set(0.5, 0.5); text.x = 80; text.y = 17;
+    btn.addChild(text);
+    btn.x = x; btn.y = y;
+    btn.on('pointertap', onTap);
+    this.container.addChild(btn);
+  }
+
   /** Fire a result exactly once (guards against double-fire). */
   private fireResult(r: StarMapResult): void {
     if (this.fired) return;
@@ -0,0 +1,190 @@
+/**
+ * Boss attack primitives that spawn things — laser sweeps, shot
+ * volleys, mortar shells and terrain hazards. Dispatched from
+ * runBossStep in boss-ai-behaviours.ts.
+ *
+ * Each fires once, on its step's first tick (hazards strike once their
+ * warning runs out), and holds the boss still for the rest of the step.
+ * Volleys and mortars fire from the boss's parts that power them, if
+ * it has any (combat/boss-parts.ts).
+ */
+
+import type { Vector2 } from '../core/types.js';
+import type { ProjectileStyle } from '../combat/weapon-defs.js';
+import type {
+  BossStepKind,
+  HazardStep,
+  LaserStep,
+  MortarStep,
+  VolleyStep,
+} from '../combat/boss-pattern.js';
+import { getBossDef } from '../combat/boss-defs.js';
+import { GRAVITY } from '../core/constants.js';
+import { pixelsToMeters } from '../core/physics.js';
+import { gameRandom } from '../core/rng.js';
+import { createBossLaser } from '../entities/create-boss-laser.js';
+import { createProjectileEntity } from '../entities/create-projectile.js';
+import {
+  createFallingRock,
+  createThornSpike,
+  ROCK_FALL_TIME,
+  THORN_WIDTH,
+} from '../entities/create-boss-hazard.js';
+import { spawnHazardWarning } from '../effects/hazard-warning.js';
+import type { BossStepContext } from './boss-ai-behaviours.js';
+import { countDown, stop } from './boss-ai-behaviours.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How far inside the arena edge hazards land (pixels). */
+const HAZARD_EDGE_MARGIN = 40;
+
+/** Warning strip width for falling rocks (pixels). */
+const ROCK_WARNING_WIDTH = 36;
+
+/** Warning strip colours per hazard. */
+const HAZARD_WARNING_COLORS = { thorns: 0x66ff44, rockfall: 0xffaa44 } as const;
+
+/** Look of a volley shot or mortar shell, in the step's colour. */
+function shotStyle(color: number, size: number): ProjectileStyle {
+  return { coreColor: 0xffffff, glowColor: color, width: size, height: size / 2 };
+}
+
+// ---------------------------------------------------------------------------
+// Handlers
+// ---------------------------------------------------------------------------
+
+/** Stand still and fire one laser sweep on the step's first tick. */
+export function laser(step: LaserStep, ctx: BossStepContext): boolean {
+  const { boss, transform } = ctx;
+  stop(ctx);
+
+  if (!boss.stepActed) {
+    boss.stepActed = true;
+    let dir = step.aim === 'back' ? -boss.facing : boss.facing;
+    if (step.aim === 'player') dir = ctx.player.x > transform.x ? 1 : -1;
+    createBossLaser(
+      ctx.world, ctx.physicsCtx, ctx.worldContainer,
+      transform.x, transform.y,
+      dir as -1 | 1, ctx.entity,
+    );
+  }
+  return countDown(ctx);
+}
+
+/** Stand still and fire a fan of shots centred on the player, from each muzzle. */
+export function volley(step: VolleyStep, ctx: BossStepContext): boolean {
+  const { boss, transform, player } = ctx;
+  stop(ctx);
+
+  if (!boss.stepActed) {
+    boss.stepActed = true;
+    const style = shotStyle(step.color, 10);
+    for (const from of muzzles(ctx, 'volley', transform)) {
+      const aim = Math.atan2(player.y - from.y, player.x - from.x);
+      for (let i = 0; i < step.shots; i++) {
+        const angle = aim + (i - (step.shots - 1) / 2) * step.spread;
+        createProjectileEntity(
+          ctx.world, ctx.physicsCtx, ctx.worldContainer,
+          from.x, from.y,
+          Math.cos(angle) * step.speed, Math.sin(angle) * step.speed,
+          step.damage, ctx.entity, style,
+        );
+      }
+    }
+  }
+  return countDown(ctx);
+}
+
+/**
+ * Stand still and lob shells from each muzzle (by default the boss's
+ * top) that come down around the player after `flightTime` seconds.
+ */
+export function mortar(step: MortarStep, ctx: BossStepContext): boolean {
+  const { boss, transform, player } = ctx;
+  stop(ctx);
+
+  if (!boss.stepActed) {
+    boss.stepActed = true;
+    const top = { x: transform.x, y: transform.y - ctx.bodyDef.halfHeight };
+    const t = step.flightTime;
+    const style = shotStyle(step.color, 12);
+    for (const { x, y } of muzzles(ctx, 'mortar', top)) {
+      for (let i = 0; i < step.shells; i++) {
+        const targetX = player.x + (gameRandom() * 2 - 1) * step.scatter;
+        // Ballistic launch: lands on target after t seconds under gravity
+        const vx = pixelsToMeters(targetX - x) / t;
+        const vy = pixelsToMeters(player.y - y) / t - 0.5 * GRAVITY * t;
+        createProjectileEntity(
+          ctx.world, ctx.physicsCtx, ctx.worldContainer,
+          x, y, vx, vy,
+          step.damage, ctx.entity, style,
+          [], { gravity: 1 },
+        );
+      }
+    }
+  }
+  return countDown(ctx);
+}
+
+/**
+ * Stand still and mark hazard spots on the floor (the first under the
+ * player); once the delay runs out, the hazard strikes each spot. Rock
+ * warnings stay up until the rocks land, not just until they drop.
+ */
+export function hazard(step: HazardStep, ctx: BossStepContext): boolean {
+  const { boss, player } = ctx;
+  stop(ctx);
+
+  if (!boss.stepActed) {
+    boss.stepActed = true;
+    const minX = boss.arenaMinX + HAZARD_EDGE_MARGIN;
+    const maxX = boss.arenaMaxX - HAZARD_EDGE_MARGIN;
+    boss.targets = [Math.min(Math.max(player.x, minX), maxX)];
+    while (boss.targets.length < step.count) {
+      boss.targets.push(minX + gameRandom() * (maxX - minX));
+    }
+
+    const thorns = step.hazard === 'thorns';
+    const width = thorns ? THORN_WIDTH : ROCK_WARNING_WIDTH;
+    const warning = thorns ? step.delay : step.delay + ROCK_FALL_TIME;
+    for (const x of boss.targets) {
+      spawnHazardWarning(
+        ctx.worldContainer, x, boss.arenaY, width, warning, HAZARD_WARNING_COLORS[step.hazard],
+      );
+    }
+  }
+
+  const done = countDown(ctx);
+  if (boss.targets.length > 0 && step.duration - boss.stateTimer >= step.delay) {
+    const create = step.hazard === 'thorns' ? createThornSpike : createFallingRock;
+    for (const x of boss.targets) {
+      create(
+        ctx.world, ctx.physicsCtx, ctx.worldContainer,
+        x, boss.arenaY, step.damage, ctx.entity,
+      );
+    }
+    boss.targets = [];
+  }
+  return done;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Where a step's shots come from: each standing part that powers it,
+ * or `fallback` on a boss with no parts powering it.
+ */
+function muzzles(ctx: BossStepContext, kind: BossStepKind, fallback: Vector2): Vector2[] {
+  const powering = (getBossDef(ctx.boss.bossId).parts ?? [])
+    .filter((part) => part.powers?.includes(kind));
+  if (powering.length === 0) return [fallback];
+  const { x, y } = ctx.transform;
+  return powering
+    .filter((part) => ctx.boss.parts.has(part.id))
+    .map((part) => ({ x: x + part.x, y: y + part.y }));
+}
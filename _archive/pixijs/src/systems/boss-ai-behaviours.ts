@@ -1,6 +1,11 @@
 /**
- * Boss AI state handler functions — patrol, windup, charge, laser, cooldown.
+ * Boss attack primitives — one handler per step kind in the boss
+ * pattern format (combat/boss-pattern.ts). Movement steps are here;
+ * the attacks that spawn things are in boss-ai-attacks.ts.
  * Extracted from BossAISystem to keep files under 250 lines.
+ *
+ * A handler runs its step for one tick and reports whether the step is
+ * over; BossAISystem then moves on to the next step in the sequence.
  */
 
 import type { Entity } from '../core/types.js';
@@ -8,183 +13,197 @@ import type { World } from '../core/world.js';
 import type { PhysicsContext } from '../core/physics.js';
 import type { Container } from 'pixi.js';
 import type { BossComponent } from '../components/boss.js';
-import type { TransformComponent } from '../components/index.js';
+import type { EnemyComponent, TransformComponent } from '../components/index.js';
 import type { SoundManager } from '../audio/sound-manager.js';
-import { createBossLaser } from '../entities/create-boss-laser.js';
-import {
-  P3_CHARGE_SPEED,
-  P3_COOLDOWN_DURATION,
-  P3_PATROL_INTERVAL,
-  P3_WINDUP_DURATION,
-} from './boss-phase3.js';
+import type { CameraSystem } from './camera-system.js';
+import type {
+  BossBodyDef,
+  BossStep,
+  ChargeStep,
+  DiveStep,
+  HoverStep,
+  PatrolStep,
+} from '../combat/boss-pattern.js';
+import { pixelsToMeters } from '../core/physics.js';
+import { hazard, laser, mortar, volley } from './boss-ai-attacks.js';
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-/** Patrol speed (m/s). */
-const PATROL_SPEED = 1.5;
+/** How far inside the arena edge a patrol turns around (pixels). */
+const PATROL_EDGE_MARGIN = 40;
 
-/** Charge speed (m/s) — ~2x walker chase speed. */
-const CHARGE_SPEED = 8;
+/** How far inside the arena edge a charge stops (pixels). */
+const CHARGE_EDGE_MARGIN = 20;
 
-/** Windup duration before charge (seconds). */
-const WINDUP_DURATION = 0.8;
+/** How far inside the arena edge a hovering flyer keeps (pixels). */
+const HOVER_EDGE_MARGIN = 80;
 
-/** Charge duration (seconds). */
-const CHARGE_DURATION = 0.6;
+/** Time a hovering flyer takes to close the gap to its spot (seconds). */
+const HOVER_EASE = 0.5;
 
-/** Cooldown after attack (seconds). */
-const COOLDOWN_DURATION = 1.5;
-
-/** Time between charges during patrol (seconds). */
-const PATROL_ATTACK_INTERVAL = 3.0;
-
-/** Laser state duration (seconds). */
-const LASER_DURATION = 1.2;
+/** How close a dive gets to its target before pulling up (pixels). */
+const DIVE_ARRIVE_DIST = 12;
 
 // ---------------------------------------------------------------------------
-// Rapier body shape (duck-typed for method access)
+// Context
 // ---------------------------------------------------------------------------
 
+/** Rapier body shape (duck-typed for method access). */
 type RapierBody = {
   linvel(): { x: number; y: number };
   setLinvel(v: { x: number; y: number }, w: boolean): void;
 };
 
+/** Everything a step handler may touch for one boss this tick. */
+export interface BossStepContext {
+  world: World;
+  physicsCtx: PhysicsContext;
+  worldContainer: Container;
+  soundManager: SoundManager;
+  camera: CameraSystem;
+  entity: Entity;
+  boss: BossComponent;
+  /** The boss's body from its pattern. */
+  bodyDef: BossBodyDef;
+  enemy: EnemyComponent;
+  body: RapierBody;
+  transform: TransformComponent;
+  player: TransformComponent;
+  dt: number;
+}
+
+/**
+ * Run the boss's current step for one tick.
+ * @returns true when the step is over
+ */
+export function runBossStep(step: BossStep, ctx: BossStepContext): boolean {
+  switch (step.kind) {
+    case 'patrol':
+      return patrol(step, ctx);
+    case 'charge':
+      return charge(step, ctx);
+    case 'hover':
+      return hover(step, ctx);
+    case 'dive':
+      return dive(step, ctx);
+    case 'laser':
+      return laser(step, ctx);
+    case 'volley':
+      return volley(step, ctx);
+    case 'mortar':
+      return mortar(step, ctx);
+    case 'hazard':
+      return hazard(step, ctx);
+    case 'telegraph':
+    case 'rest':
+      return holdStill(ctx);
+  }
+}
+
 // ---------------------------------------------------------------------------
-// State handlers
+// Step handlers
 // ---------------------------------------------------------------------------
 
-/** Slow patrol across arena, counting down to next attack. */
-export function handlePatrol(
-  boss: BossComponent,
-  enemy: { patrolDirection: -1 | 1 },
-  body: RapierBody,
-  transform: TransformComponent,
-  playerTransform: TransformComponent,
-  dt: number,
-  soundManager: SoundManager,
-): void {
+/** Slow patrol across the arena; turns to face the player when it ends. */
+function patrol(step: PatrolStep, ctx: BossStepContext): boolean {
+  const { boss, enemy, body, transform } = ctx;
   const vel = body.linvel();
 
   // Reverse at arena edges
-  if (transform.x <= boss.arenaMinX + 40) enemy.patrolDirection = 1;
-  if (transform.x >= boss.arenaMaxX - 40) enemy.patrolDirection = -1;
-
-  body.setLinvel({ x: enemy.patrolDirection * PATROL_SPEED, y: vel.y }, true);
-
-  boss.patrolTimer -= dt;
-  if (boss.patrolTimer <= 0) {
-    // Face toward player and begin windup
-    boss.chargeDirection = playerTransform.x > transform.x ? 1 : -1;
-    boss.attackState = 'windup';
-    boss.stateTimer = boss.phase >= 3 ? P3_WINDUP_DURATION : WINDUP_DURATION;
-    body.setLinvel({ x: 0, y: vel.y }, true);
-    soundManager.play('boss-windup');
-  }
-}
+  if (transform.x <= boss.arenaMinX + PATROL_EDGE_MARGIN) enemy.patrolDirection = 1;
+  if (transform.x >= boss.arenaMaxX - PATROL_EDGE_MARGIN) enemy.patrolDirection = -1;
 
-/** Pause before charge — visual flash telegraphs the attack. */
-export function handleWindup(
-  boss: BossComponent,
-  body: RapierBody,
-  dt: number,
-  soundManager: SoundManager,
-): void {
-  const vel = body.linvel();
+  body.setLinvel({ x: enemy.patrolDirection * step.speed, y: vel.y }, true);
+
+  if (!countDown(ctx)) return false;
+  boss.facing = ctx.player.x > transform.x ? 1 : -1;
   body.setLinvel({ x: 0, y: vel.y }, true);
+  return true;
+}
 
-  boss.stateTimer -= dt;
-  if (boss.stateTimer <= 0) {
-    boss.attackState = 'charging';
-    boss.stateTimer = CHARGE_DURATION;
-    soundManager.play('boss-charge');
-  }
+/** Stand still until the step's time is up (telegraphs, rests). */
+function holdStill(ctx: BossStepContext): boolean {
+  stop(ctx);
+  return countDown(ctx);
 }
 
-/** High-speed horizontal charge across the arena. */
-export function handleCharge(
-  boss: BossComponent,
-  body: RapierBody,
-  transform: TransformComponent,
-  dt: number,
-): void {
+/** High-speed horizontal dash the way the boss faces. */
+function charge(step: ChargeStep, ctx: BossStepContext): boolean {
+  const { boss, body, transform } = ctx;
   const vel = body.linvel();
-  // Phase 3 charges faster
-  const speed = boss.phase >= 3 ? P3_CHARGE_SPEED : CHARGE_SPEED;
-  body.setLinvel({ x: boss.chargeDirection * speed, y: vel.y }, true);
-
-  boss.stateTimer -= dt;
+  body.setLinvel({ x: boss.facing * step.speed, y: vel.y }, true);
 
+  const timeUp = countDown(ctx);
   // Stop if hitting arena edge
   const hitEdge =
-    transform.x <= boss.arenaMinX + 20
-    || transform.x >= boss.arenaMaxX - 20;
-
-  if (boss.stateTimer <= 0 || hitEdge) {
-    body.setLinvel({ x: 0, y: vel.y }, true);
-    const cooldown = boss.phase >= 3 ? P3_COOLDOWN_DURATION : COOLDOWN_DURATION;
-
-    // Phase 2+: fire laser after charge
-    if (boss.phase >= 2) {
-      boss.attackState = 'laser';
-      boss.stateTimer = LASER_DURATION;
-      boss.laserFired = false;
-    } else {
-      boss.attackState = 'cooldown';
-      boss.stateTimer = cooldown;
-    }
-  }
-}
+    transform.x <= boss.arenaMinX + CHARGE_EDGE_MARGIN
+    || transform.x >= boss.arenaMaxX - CHARGE_EDGE_MARGIN;
+  if (!timeUp && !hitEdge) return false;
 
-/** Phase 2: fire horizontal laser sweep, then cooldown. */
-export function handleLaser(
-  boss: BossComponent,
-  world: World,
-  physicsCtx: PhysicsContext,
-  worldContainer: Container,
-  transform: TransformComponent,
-  body: RapierBody,
-  dt: number,
-  entity: Entity,
-  soundManager: SoundManager,
-): void {
-  const vel = body.linvel();
   body.setLinvel({ x: 0, y: vel.y }, true);
+  if (step.shake) ctx.camera.shake(step.shake.amplitude, step.shake.duration);
+  return true;
+}
 
-  // Spawn laser on first frame of laser state
-  if (!boss.laserFired) {
-    boss.laserFired = true;
-    // Fire laser opposite to last charge direction
-    const laserDir = (boss.chargeDirection * -1) as -1 | 1;
-    createBossLaser(
-      world, physicsCtx, worldContainer,
-      transform.x, transform.y,
-      laserDir, entity,
-    );
-    soundManager.play('boss-laser');
+/** Fly to a spot above the player, easing in; turns to face the player when it ends. */
+function hover(step: HoverStep, ctx: BossStepContext): boolean {
+  const { boss, body, transform, player } = ctx;
+  const targetX = Math.min(
+    Math.max(player.x, boss.arenaMinX + HOVER_EDGE_MARGIN),
+    boss.arenaMaxX - HOVER_EDGE_MARGIN,
+  );
+  const targetY = boss.arenaY - step.altitude;
+  let vx = pixelsToMeters(targetX - transform.x) / HOVER_EASE;
+  let vy = pixelsToMeters(targetY - transform.y) / HOVER_EASE;
+
+  // Cap at top speed
+  const mag = Math.hypot(vx, vy);
+  if (mag > step.speed) {
+    vx = (vx / mag) * step.speed;
+    vy = (vy / mag) * step.speed;
   }
+  body.setLinvel({ x: vx, y: vy }, true);
 
-  boss.stateTimer -= dt;
-  if (boss.stateTimer <= 0) {
-    boss.attackState = 'cooldown';
-    boss.stateTimer = boss.phase >= 3 ? P3_COOLDOWN_DURATION : COOLDOWN_DURATION;
-  }
+  if (!countDown(ctx)) return false;
+  boss.facing = player.x > transform.x ? 1 : -1;
+  stop(ctx);
+  return true;
 }
 
-/** Brief recovery, then back to patrol. */
-export function handleCooldown(
-  boss: BossComponent,
-  body: RapierBody,
-  dt: number,
-): void {
-  const vel = body.linvel();
-  body.setLinvel({ x: 0, y: vel.y }, true);
+/** Swoop at the player's position from the dive's first tick, no lower than the floor. */
+function dive(step: DiveStep, ctx: BossStepContext): boolean {
+  const { boss, body, transform, player } = ctx;
+  if (!boss.stepActed) {
+    boss.stepActed = true;
+    boss.targets = [player.x, Math.min(player.y, boss.arenaY - ctx.bodyDef.halfHeight)];
+  }
 
-  boss.stateTimer -= dt;
-  if (boss.stateTimer <= 0) {
-    boss.attackState = 'patrol';
-    boss.patrolTimer = boss.phase >= 3 ? P3_PATROL_INTERVAL : PATROL_ATTACK_INTERVAL;
+  const dx = boss.targets[0] - transform.x;
+  const dy = boss.targets[1] - transform.y;
+  const dist = Math.hypot(dx, dy);
+  const timeUp = countDown(ctx);
+  if (timeUp || dist <= DIVE_ARRIVE_DIST) {
+    stop(ctx);
+    return true;
   }
+  body.setLinvel({ x: (dx / dist) * step.speed, y: (dy / dist) * step.speed }, true);
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Run down the step timer; true once it reaches zero. */
+export function countDown(ctx: BossStepContext): boolean {
+  ctx.boss.stateTimer -= ctx.dt;
+  return ctx.boss.stateTimer <= 0;
+}
+
+/** Kill horizontal movement (gravity still applies); flyers stop dead. */
+export function stop(ctx: BossStepContext): void {
+  const vel = ctx.body.linvel();
+  ctx.body.setLinvel({ x: 0, y: ctx.bodyDef.flying ? 0 : vel.y }, true);
 }
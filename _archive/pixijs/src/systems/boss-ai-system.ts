@@ -1,11 +1,14 @@
 /**
- * BossAISystem — drives the Warden boss through patrol, charge,
- * and laser sweep attack patterns based on HP-driven phases.
+ * BossAISystem — the generic boss runtime. Walks each boss through the
+ * pattern in combat/boss-defs.ts: enters phases as HP thresholds are
+ * crossed, loops the phase's step sequence (skipping steps whose parts
+ * are all destroyed), summons its minions and tints the boss to match.
  *
  * Priority 14: runs before EnemyAISystem (15) so boss entities
  * are handled here and skipped by EnemyAI.
  *
- * State handler logic is in boss-ai-behaviours.ts to stay under 250 lines.
+ * Step handlers are in boss-ai-behaviours.ts and boss-ai-attacks.ts,
+ * minion waves in boss-minions.ts, to stay under 250 lines.
  */
 
 import type { System, Entity } from '../core/types.js';
@@ -13,23 +16,15 @@ import type { World } from '../core/world.js';
 import type { PhysicsContext } from '../core/physics.js';
 import type { Container } from 'pixi.js';
 import type { BossComponent } from '../components/boss.js';
-import type { TransformComponent } from '../components/index.js';
-import {
-  handlePatrol,
-  handleWindup,
-  handleCharge,
-  handleLaser,
-  handleCooldown,
-} from './boss-ai-behaviours.js';
+import type { HealthComponent, TransformComponent } from '../components/index.js';
+import type { BossPhaseDef } from '../combat/boss-pattern.js';
+import { matchingStepIndex } from '../combat/boss-pattern.js';
+import { getBossDef } from '../combat/boss-defs.js';
+import { isStepDisabled } from '../combat/boss-parts.js';
+import { runBossStep } from './boss-ai-behaviours.js';
 import type { SoundManager } from '../audio/sound-manager.js';
 import type { CameraSystem } from './camera-system.js';
-import { trySpawnMinions } from './boss-phase3.js';
-
-/** Phase 2 HP threshold (60% of 300). */
-const PHASE2_HP = 180;
-
-/** Phase 3 HP threshold (25% of 300). */
-const PHASE3_HP = 75;
+import { trySpawnMinions } from './boss-minions.js';
 
 export class BossAISystem implements System {
   readonly priority = 14;
@@ -70,102 +65,84 @@ export class BossAISystem implements System {
       if (health.isDead || !boss.activated) continue;
 
       // Update phase based on HP thresholds
-      this.updatePhase(boss, health.current);
+      this.updatePhase(boss, health);
+      const def = getBossDef(boss.bossId);
+      const phase = def.phases[boss.phase - 1];
 
       const body = this.physicsCtx.world.getRigidBody(pb.bodyHandle);
       if (!body) continue;
 
-      // Delegate to state handlers
-      const prevState = boss.attackState;
-      switch (boss.attackState) {
-        case 'patrol':
-          handlePatrol(
-            boss, enemy, body, transform, playerTransform, dt,
-            this.soundManager,
-          );
-          break;
-        case 'windup':
-          handleWindup(boss, body, dt, this.soundManager);
-          break;
-        case 'charging':
-          handleCharge(boss, body, transform, dt);
-          break;
-        case 'laser':
-          handleLaser(
-            boss, world, this.physicsCtx, this.worldContainer,
-            transform, body, dt, entity, this.soundManager,
-          );
-          break;
-        case 'cooldown':
-          handleCooldown(boss, body, dt);
-          break;
-      }
-
-      // Screen shake when boss finishes a charge (wall impact)
-      if (prevState === 'charging' && boss.attackState === 'cooldown') {
-        this.camera.shake(8, 0.3);
-      }
-
-      // Phase 3: attempt minion spawning each frame
+      const done = runBossStep(boss.step, {
+        world,
+        physicsCtx: this.physicsCtx,
+        worldContainer: this.worldContainer,
+        soundManager: this.soundManager,
+        camera: this.camera,
+        entity, boss, enemy, body, transform,
+        bodyDef: def.body,
+        player: playerTransform,
+        dt,
+      });
+      if (done) this.nextStep(boss, phase);
+
       trySpawnMinions(
-        boss, transform, world, this.physicsCtx,
+        boss, phase.minions, transform, world, this.physicsCtx,
         this.worldContainer, this.soundManager, dt,
       );
 
-      // Visual: flash during windup, tint during charge/enrage
-      this.updateVisual(world, entity, boss);
+      this.updateVisual(world, entity, boss, phase);
     }
   }
 
-  /** Transition to new phase when HP drops below thresholds. */
-  private updatePhase(boss: BossComponent, currentHp: number): void {
-    if (boss.phase === 1 && currentHp <= PHASE2_HP) {
-      boss.phase = 2;
-      this.soundManager.play('boss-phase-up');
-      this.camera.shake(6, 0.5);
-    } else if (boss.phase === 2 && currentHp <= PHASE3_HP) {
-      boss.phase = 3;
-      this.soundManager.play('boss-phase-up');
-      this.camera.shake(10, 0.8);
-    }
+  /**
+   * Enter the next phase once HP reaches its threshold. The running step
+   * carries on as the new phase's step of the same kind, if it has one.
+   */
+  private updatePhase(boss: BossComponent, health: HealthComponent): void {
+    const next = getBossDef(boss.bossId).phases[boss.phase];
+    if (!next || health.current > next.hpFraction * health.max) return;
+
+    boss.phase++;
+    if (next.sound) this.soundManager.play(next.sound);
+    if (next.shake) this.camera.shake(next.shake.amplitude, next.shake.duration);
+
+    boss.stepIndex = matchingStepIndex(next, boss.step.kind);
+    if (boss.stepIndex >= 0) boss.step = next.sequence[boss.stepIndex];
+    boss.minionSpawnTimer = next.minions?.interval ?? 0;
+  }
+
+  /**
+   * Start the next step the boss can still do, looping the sequence.
+   * Every phase has a step no part powers (checked on load), so this ends.
+   */
+  private nextStep(boss: BossComponent, phase: BossPhaseDef): void {
+    do {
+      boss.stepIndex = (boss.stepIndex + 1) % phase.sequence.length;
+      boss.step = phase.sequence[boss.stepIndex];
+    } while (isStepDisabled(boss, boss.step));
+    boss.attackState = boss.step.kind;
+    boss.stateTimer = boss.step.duration;
+    boss.stepActed = false;
+    boss.targets = [];
+    if (boss.step.sound) this.soundManager.play(boss.step.sound);
   }
 
-  /** Flash during windup, orange/red tint during charge, permanent red in Phase 3. */
+  /** Flash during telegraphs; otherwise the step's tint or the phase's. */
   private updateVisual(
     world: World,
     entity: Entity,
     boss: BossComponent,
+    phase: BossPhaseDef,
   ): void {
     const sprite = world.getComponent(entity, 'sprite');
     if (!sprite) return;
 
-    const gfx = sprite.displayObject;
-
-    if (boss.phase >= 3) {
-      // Phase 3 enrage: permanent red base tint with faster flashing
-      if (boss.attackState === 'windup') {
-        const flash = Math.sin(boss.stateTimer * 25) > 0;
-        gfx.tint = flash ? 0xff0000 : 0xaa0000;
-      } else if (boss.attackState === 'charging') {
-        gfx.tint = 0xff2222;
-      } else if (boss.attackState === 'laser') {
-        gfx.tint = 0xff2222;
-      } else {
-        // Permanent red tint during patrol/cooldown in Phase 3
-        gfx.tint = 0xff2222;
-      }
+    const step = boss.step;
+    if (step.kind === 'telegraph') {
+      const flash = Math.sin(boss.stateTimer * step.flashRate) > 0;
+      sprite.displayObject.tint = flash ? step.flashColors[0] : step.flashColors[1];
     } else {
-      // Phases 1-2: existing behaviour
-      if (boss.attackState === 'windup') {
-        const flash = Math.sin(boss.stateTimer * 20) > 0;
-        gfx.tint = flash ? 0xff4444 : 0xffffff;
-      } else if (boss.attackState === 'charging') {
-        gfx.tint = 0xff6644;
-      } else if (boss.attackState === 'laser') {
-        gfx.tint = 0xff8844;
-      } else {
-        gfx.tint = 0xffffff;
-      }
+      sprite.displayObject.tint = step.tint ?? phase.tint;
     }
   }
 
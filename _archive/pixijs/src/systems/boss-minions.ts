@@ -0,0 +1,73 @@
+/**
+ * Boss minion waves — summons the enemies a boss phase declares
+ * (MinionSpawnDef in combat/boss-pattern.ts) on the phase's timer.
+ * Extracted from BossAISystem to keep files under 250 lines.
+ */
+
+import type { Container } from 'pixi.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import type { BossComponent } from '../components/boss.js';
+import type { TransformComponent } from '../components/index.js';
+import type { SoundManager } from '../audio/sound-manager.js';
+import type { MinionSpawnDef } from '../combat/boss-pattern.js';
+import { createEnemyEntity } from '../entities/create-enemy.js';
+import { getEnemyDef } from '../combat/enemy-defs.js';
+import { spawnFlash } from '../effects/spawn-flash.js';
+
+/**
+ * Attempt to spawn a minion wave for the boss's current phase.
+ *
+ * Decrements the spawn timer each frame. When it fires, spawns the
+ * wave spread around the boss position unless `maxActive` non-boss
+ * enemies are already alive. No-ops for phases without minions.
+ *
+ * @returns true if minions were spawned this frame
+ */
+export function trySpawnMinions(
+  boss: BossComponent,
+  minions: MinionSpawnDef | undefined,
+  transform: TransformComponent,
+  world: World,
+  physicsCtx: PhysicsContext,
+  worldContainer: Container,
+  soundManager: SoundManager,
+  dt: number,
+): boolean {
+  if (!minions) return false;
+
+  boss.minionSpawnTimer -= dt;
+  if (boss.minionSpawnTimer > 0) return false;
+
+  // Reset timer for next wave
+  boss.minionSpawnTimer = minions.interval;
+
+  if (countActiveMinions(world) >= minions.maxActive) return false;
+
+  // Spread the wave evenly, centred on the boss
+  const def = getEnemyDef(minions.enemy);
+  for (let i = 0; i < minions.count; i++) {
+    const offsetX = (i - (minions.count - 1) / 2) * minions.spacing;
+    createEnemyEntity(
+      def, world, physicsCtx, worldContainer,
+      transform.x + offsetX, transform.y,
+    );
+    spawnFlash(worldContainer, transform.x + offsetX, transform.y);
+  }
+
+  if (minions.sound) soundManager.play(minions.sound);
+  return true;
+}
+
+/** Count living enemies that aren't bosses. */
+function countActiveMinions(world: World): number {
+  let activeCount = 0;
+  for (const entity of world.query('enemy')) {
+    const bossComp = world.getComponent(entity, 'boss');
+    const health = world.getComponent(entity, 'health');
+    // Skip bosses and dead enemies
+    if (bossComp || (health && health.isDead)) continue;
+    activeCount++;
+  }
+  return activeCount;
+}
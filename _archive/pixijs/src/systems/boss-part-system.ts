@@ -0,0 +1,118 @@
+/**
+ * BossPartSystem — keeps boss parts (combat/boss-parts.ts) on their
+ * boss, and breaks them when their health runs out.
+ *
+ * Priority 41: after DamageSystem (40), so parts broken by this tick's
+ * hits, and the parts of a boss that just died, go the same tick.
+ *
+ * A broken part leaves its boss's `parts` map: BossAISystem then skips
+ * the steps it powered once none of their parts are left, and the boss
+ * takes weak-point damage once no shielding part is (combat/boss-parts.ts
+ * rules). Parts wear the boss's tint, so phases and telegraphs show
+ * on the whole boss.
+ */
+
+import type { Entity, System } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import type { EntityManager } from '../core/entity-manager.js';
+import type { Container } from 'pixi.js';
+import type { SoundManager } from '../audio/sound-manager.js';
+import type { BossPartComponent } from '../components/index.js';
+import { pixelsToMeters } from '../core/physics.js';
+import { spawnExplosion } from '../effects/explosion.js';
+import { spawnFloatText } from '../ui/float-text.js';
+
+/** Blast radius of a breaking part (pixels). */
+const BREAK_BLAST_RADIUS = 40;
+
+/** Colour of a breaking part's blast. */
+const BREAK_BLAST_COLOR = 0xffaa33;
+
+export class BossPartSystem implements System {
+  readonly priority = 41;
+
+  private readonly physicsCtx: PhysicsContext;
+  private readonly entityManager: EntityManager;
+  private readonly worldContainer: Container;
+  private readonly soundManager: SoundManager;
+
+  /**
+   * @param physicsCtx     - shared physics context (part bodies)
+   * @param entityManager  - deferred destruction of broken parts
+   * @param worldContainer - PixiJS container for break effects
+   * @param soundManager   - break cue
+   */
+  constructor(
+    physicsCtx: PhysicsContext,
+    entityManager: EntityManager,
+    worldContainer: Container,
+    soundManager: SoundManager,
+  ) {
+    this.physicsCtx = physicsCtx;
+    this.entityManager = entityManager;
+    this.worldContainer = worldContainer;
+    this.soundManager = soundManager;
+  }
+
+  update(world: World, dt: number): void {
+    for (const entity of world.query('bossPart', 'health')) {
+      const part = world.getComponent(entity, 'bossPart');
+      const health = world.getComponent(entity, 'health');
+      if (!part || !health) continue;
+
+      // Goes down with its boss
+      const bossHealth = world.getComponent(part.boss, 'health');
+      if (!bossHealth || bossHealth.isDead) {
+        this.entityManager.markForDestruction(entity);
+        continue;
+      }
+
+      if (health.isDead) {
+        this.breakPart(world, entity, part);
+      } else {
+        this.follow(world, entity, part, dt);
+      }
+    }
+  }
+
+  /**
+   * Move the part to its spot on the boss, leading by the boss's
+   * velocity so it keeps up during the coming physics step.
+   */
+  private follow(world: World, entity: Entity, part: BossPartComponent, dt: number): void {
+    const bossPb = world.getComponent(part.boss, 'physicsBody');
+    const pb = world.getComponent(entity, 'physicsBody');
+    const bossBody = bossPb ? this.physicsCtx.world.getRigidBody(bossPb.bodyHandle) : null;
+    const body = pb ? this.physicsCtx.world.getRigidBody(pb.bodyHandle) : null;
+    if (!bossBody || !body) return;
+
+    const pos = bossBody.translation();
+    const vel = bossBody.linvel();
+    body.setNextKinematicTranslation({
+      x: pos.x + vel.x * dt + pixelsToMeters(part.def.x),
+      y: pos.y + vel.y * dt + pixelsToMeters(part.def.y),
+    });
+
+    const bossSprite = world.getComponent(part.boss, 'sprite');
+    const sprite = world.getComponent(entity, 'sprite');
+    if (bossSprite && sprite) sprite.displayObject.tint = bossSprite.displayObject.tint;
+  }
+
+  /** Take a destroyed part off its boss, with a blast and a callout. */
+  private breakPart(world: World, entity: Entity, part: BossPartComponent): void {
+    const boss = world.getComponent(part.boss, 'boss');
+    // Already broken on an earlier tick this frame
+    if (!boss || boss.parts.get(part.def.id) !== entity) return;
+
+    boss.parts.delete(part.def.id);
+    this.entityManager.markForDestruction(entity);
+    this.soundManager.play('explosion');
+
+    const t = world.getComponent(entity, 'transform');
+    if (t) {
+      spawnExplosion(this.worldContainer, t.x, t.y, BREAK_BLAST_RADIUS, BREAK_BLAST_COLOR);
+      spawnFloatText(this.worldContainer, t.x, t.y - 20, `${part.def.label} DOWN`);
+    }
+  }
+}
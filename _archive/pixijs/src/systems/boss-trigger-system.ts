@@ -1,6 +1,7 @@
 /**
- * BossTriggerSystem — spawns the boss when the player crosses the
- * trigger line and all normal enemies have been eliminated.
+ * BossTriggerSystem — spawns the level's boss (`LevelData.bossId`) when
+ * the player crosses the trigger line and all normal enemies and wave
+ * encounters have been eliminated.
  *
  * Priority 13: runs before BossAISystem (14) and EnemyAISystem (15).
  */
@@ -11,7 +12,8 @@ import type { PhysicsContext } from '../core/physics.js';
 import type { Container } from 'pixi.js';
 import type { LevelData } from '../level/level-data.js';
 import type { SoundManager } from '../audio/sound-manager.js';
-import { createBossWarden } from '../entities/create-boss-warden.js';
+import { createBossEntity } from '../entities/create-boss.js';
+import type { EncounterProgress } from './encounter-system.js';
 
 export class BossTriggerSystem implements System {
   readonly priority = 13;
@@ -20,6 +22,7 @@ export class BossTriggerSystem implements System {
   private readonly worldContainer: Container;
   private readonly levelData: LevelData;
   private readonly soundManager: SoundManager;
+  private readonly encounters: EncounterProgress;
 
   /** Whether the player has crossed the trigger X-threshold. */
   private triggered = false;
@@ -32,11 +35,13 @@ export class BossTriggerSystem implements System {
     worldContainer: Container,
     levelData: LevelData,
     soundManager: SoundManager,
+    encounters: EncounterProgress,
   ) {
     this.physicsCtx = physicsCtx;
     this.worldContainer = worldContainer;
     this.levelData = levelData;
     this.soundManager = soundManager;
+    this.encounters = encounters;
   }
 
   update(world: World, _dt: number): void {
@@ -61,6 +66,9 @@ export class BossTriggerSystem implements System {
       }
     }
 
+    // Waves still to come (the gap between two isn't a clear)
+    if (!this.encounters.allCleared) return;
+
     // Check if all normal enemies are dead
     const enemies = world.query('enemy', 'health');
     for (const entity of enemies) {
@@ -73,13 +81,10 @@ export class BossTriggerSystem implements System {
     }
 
     // All clear — spawn the boss!
-    const arena = this.levelData.bossArena;
-    const spawnX = (arena.minX + arena.maxX) / 2;
-
-    const bossEntity = createBossWarden(
+    const bossEntity = createBossEntity(
+      this.levelData.bossId ?? 'warden',
       world, this.physicsCtx, this.worldContainer,
-      spawnX, arena.y,
-      arena.minX, arena.maxX,
+      this.levelData.bossArena,
     );
 
     // Activate the boss immediately
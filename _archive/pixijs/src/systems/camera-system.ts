@@ -15,8 +15,9 @@
  */
 
 import type { Container } from 'pixi.js';
-import type { System } from '../core/types.js';
+import type { System, FrameTiming } from '../core/types.js';
 import type { World } from '../core/world.js';
+import { interpolatePosition } from '../components/index.js';
 import { SCREEN_WIDTH, SCREEN_HEIGHT } from '../core/constants.js';
 
 /** Rectangular bounds for the level (in pixels). */
@@ -48,6 +49,9 @@ export class CameraSystem implements System {
    */
   private readonly smoothing: number;
 
+  /** Interpolation source so the camera tracks the rendered player. */
+  private readonly timing: FrameTiming | null;
+
   /** Screen shake: maximum pixel offset. */
   private shakeAmplitude = 0;
   /** Screen shake: total duration in seconds. */
@@ -58,15 +62,18 @@ export class CameraSystem implements System {
   /**
    * @param worldContainer - the PixiJS Container representing the game world
    * @param bounds         - the level bounds in pixels
+   * @param timing         - scheduler timing for tick interpolation
    * @param smoothing      - lerp speed factor (default 6)
    */
   constructor(
     worldContainer: Container,
     bounds: LevelBounds,
+    timing: FrameTiming | null = null,
     smoothing = 6,
   ) {
     this.worldContainer = worldContainer;
     this.bounds = bounds;
+    this.timing = timing;
     this.smoothing = smoothing;
   }
 
@@ -104,9 +111,10 @@ export class CameraSystem implements System {
     const transform = world.getComponent(playerEntity, 'transform');
     if (!transform) return;
 
-    // Target: centre the player on screen
-    const targetX = SCREEN_WIDTH / 2 - transform.x;
-    const targetY = SCREEN_HEIGHT / 2 - transform.y;
+    // Target: centre the (interpolated) player on screen
+    const pose = interpolatePosition(transform, this.timing?.alpha ?? 1);
+    const targetX = SCREEN_WIDTH / 2 - pose.x;
+    const targetY = SCREEN_HEIGHT / 2 - pose.y;
 
     // Lerp: move a fraction of the distance each frame (frame-rate independent)
     // t = 1 - e^(-smoothing * dt) gives a smooth, frame-rate-independent lerp
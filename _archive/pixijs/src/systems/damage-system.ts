@@ -1,7 +1,10 @@
 /**
  * DamageSystem -- contact damage, invincibility, knockback, consumable
- * effects (shield charge / repair kit), and enemy death + scrap rewards.
+ * effects (shield charge / repair kit), and enemy death + loot drops.
  * Priority 40: after ProjectileSystem (35), before RenderSystem (100).
+ *
+ * Contact damage applies while the player's collider touches an enemy's,
+ * as tracked from Rapier collision events in `physicsCtx.collisions`.
  */
 
 import type { System } from '../core/types.js';
@@ -10,21 +13,17 @@ import type { PhysicsContext } from '../core/physics.js';
 import { INVINCIBILITY_DURATION } from '../core/constants.js';
 import type { SoundManager } from '../audio/sound-manager.js';
 import type { EntityManager } from '../core/entity-manager.js';
-import { addScrap } from '../core/game-state.js';
 import type { GameState } from '../core/game-state.js';
 import type { Container } from 'pixi.js';
 import { spawnFloatText } from '../ui/float-text.js';
+import { BOSS_LOOT, DEFAULT_LOOT, rollLoot } from '../combat/loot.js';
+import { findEnemyDef } from '../combat/enemy-defs.js';
+import { spawnLoot } from '../entities/create-pickup.js';
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-/** Pixel distance at which enemy-player contact counts as a hit. */
-const CONTACT_DISTANCE = 25;
-
-/** Larger contact distance for the boss body (~3x player size). */
-const BOSS_CONTACT_DISTANCE = 48;
-
 /** Horizontal knockback impulse magnitude (m/s). */
 const KNOCKBACK_IMPULSE_X = 5;
 
@@ -101,9 +100,7 @@ export class DamageSystem implements System {
     // Skip if player is already dead
     if (playerHealth.isDead) return;
 
-    const enemies = world.query('enemy', 'transform');
-
-    for (const enemyEntity of enemies) {
+    for (const enemyEntity of this.physicsCtx.collisions.touching(playerEntity)) {
       const enemy = world.getComponent(enemyEntity, 'enemy');
       const enemyTransform = world.getComponent(enemyEntity, 'transform');
       if (!enemy || !enemyTransform) continue;
@@ -115,14 +112,8 @@ export class DamageSystem implements System {
       const enemyHealth = world.getComponent(enemyEntity, 'health');
       if (enemyHealth && enemyHealth.isDead) continue;
 
-      // Pixel distance check — boss has larger hitbox
       const dx = enemyTransform.x - playerTransform.x;
       const dy = enemyTransform.y - playerTransform.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      const isBoss = !!world.getComponent(enemyEntity, 'boss');
-      const threshold = isBoss ? BOSS_CONTACT_DISTANCE : CONTACT_DISTANCE;
-
-      if (dist >= threshold) continue;
 
       // Player must not be invincible
       if (playerHealth.invincibleTimer > 0) continue;
@@ -210,38 +201,28 @@ export class DamageSystem implements System {
       if (health.isDead) {
         this.entityManager.markForDestruction(entity);
 
-        // Boss entities get special scrap reward (200) and distinct death sound
+        // Boss entities get special scrap reward (200), loot and distinct death sound
         const bossComp = world.getComponent(entity, 'boss');
         this.soundManager.play(bossComp ? 'boss-death' : 'enemy-death');
         const enemy = world.getComponent(entity, 'enemy');
         const scrapAmount = bossComp ? 200
-          : enemy ? this.getScrapValue(enemy.enemyType) : 5;
-        addScrap(this.gameState, scrapAmount);
+          : enemy ? enemy.scrapReward : 5;
+        const table = bossComp ? BOSS_LOOT
+          : (enemy && findEnemyDef(enemy.defId)?.loot) ?? DEFAULT_LOOT;
 
-        // Spawn floating "+N" text at enemy position for visual feedback
+        // Scatter the drops from where it died; PickupSystem hands them out
         const transform = world.getComponent(entity, 'transform');
         if (transform) {
-          spawnFloatText(
+          spawnLoot(
+            world,
+            this.physicsCtx,
             this.worldContainer,
+            rollLoot(table, scrapAmount),
             transform.x,
-            transform.y - 20,
-            `+${scrapAmount}`,
+            transform.y,
           );
         }
       }
     }
   }
-
-  /** Scrap reward by enemy type. Tougher enemies = more scrap. */
-  private getScrapValue(enemyType: string): number {
-    switch (enemyType) {
-      case 'walker': return 5;
-      case 'sentry': return 7;
-      case 'flyer': return 8;
-      case 'crawler': return 9;
-      case 'turret': return 10;
-      case 'shielder': return 12;
-      default: return 5;
-    }
-  }
 }
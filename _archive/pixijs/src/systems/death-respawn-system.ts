@@ -39,6 +39,9 @@ export class DeathRespawnSystem implements System {
   /** Original enemy spawn definitions for re-spawning on player death. */
   private readonly enemySpawnPoints: SpawnPointDef[];
 
+  /** Chance a re-spawned enemy is promoted to elite. */
+  private readonly eliteChance: number;
+
   private readonly physicsCtx: PhysicsContext;
   private readonly worldContainer: Container;
   private readonly soundManager: SoundManager;
@@ -51,6 +54,7 @@ export class DeathRespawnSystem implements System {
    * @param worldContainer - PixiJS world-space container for visuals
    * @param playerSpawn    - pixel position where the player respawns
    * @param spawnPoints    - enemy spawn definitions from the level data
+   * @param eliteChance    - chance a re-spawned enemy is elite
    * @param soundManager   - audio manager for death sound
    * @param onDeathComplete - callback when death delay ends (scene transition)
    */
@@ -59,12 +63,14 @@ export class DeathRespawnSystem implements System {
     worldContainer: Container,
     playerSpawn: { x: number; y: number },
     spawnPoints: SpawnPointDef[],
+    eliteChance: number,
     soundManager: SoundManager,
     onDeathComplete?: () => void,
   ) {
     this.physicsCtx = physicsCtx;
     this.worldContainer = worldContainer;
     this.playerSpawn = playerSpawn;
+    this.eliteChance = eliteChance;
     this.soundManager = soundManager;
     this.onDeathComplete = onDeathComplete ?? null;
     // Only keep enemy spawn points (filter out player type)
@@ -194,9 +200,12 @@ export class DeathRespawnSystem implements System {
    * Compare the expected enemy spawn points against living enemies.
    * If fewer enemies exist than expected, spawn new ones at the
    * original positions. Delegates to the shared spawnEnemies helper.
+   * Encounter waves are left to EncounterSystem.
    */
   private respawnEnemies(world: World): void {
-    const livingEnemies = world.query('enemy');
+    const livingEnemies = world.query('enemy').filter(
+      (entity) => world.getComponent(entity, 'enemy')?.encounterId === null,
+    );
     if (livingEnemies.length >= this.enemySpawnPoints.length) return;
 
     // Build a set of occupied spawn X positions to avoid duplicates
@@ -210,6 +219,6 @@ export class DeathRespawnSystem implements System {
     const missing = this.enemySpawnPoints.filter(
       (sp) => !occupied.has(`${sp.x}`),
     );
-    spawnEnemies(missing, world, this.physicsCtx, this.worldContainer);
+    spawnEnemies(missing, world, this.physicsCtx, this.worldContainer, this.eliteChance);
   }
 }
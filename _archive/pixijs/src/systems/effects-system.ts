@@ -1,9 +1,11 @@
-/** EffectsSystem -- visual effects (glow, bloom, damage flash). */
+/** EffectsSystem -- visual effects (glow, bloom, elite auras, status glows, damage flash). */
 
 import { GlowFilter, AdvancedBloomFilter } from 'pixi-filters';
 import type { Container, Filter } from 'pixi.js';
 import type { System, Entity } from '../core/types.js';
 import type { World } from '../core/world.js';
+import { AFFIX_DEFS } from '../combat/elite-affixes.js';
+import { STATUS_EFFECT_DEFS } from '../combat/status-effects.js';
 
 /** Duration of the damage-flash in seconds. */
 const DAMAGE_FLASH_DURATION = 0.12;
@@ -20,6 +22,24 @@ const MECH_GLOW_AMPLITUDE = 0.8;
 /** Speed of the mech glow pulse in radians per second. */
 const MECH_GLOW_PULSE_SPEED = 3;
 
+/** Outer glow strength of an elite enemy's aura. */
+const ELITE_GLOW_STRENGTH = 2.5;
+
+/** Reach of an elite enemy's aura (pixels). */
+const ELITE_GLOW_DISTANCE = 12;
+
+/** Status glow strength per stack of the effect shown. */
+const STATUS_GLOW_PER_STACK = 1.5;
+
+/** Reach of a status glow (pixels). */
+const STATUS_GLOW_DISTANCE = 8;
+
+/** Flicker speed of a status glow in radians per second. */
+const STATUS_GLOW_FLICKER_SPEED = 12;
+
+/** Seconds the status glow shows each active effect before moving to the next. */
+const STATUS_GLOW_CYCLE = 0.4;
+
 /**
  * Create the AdvancedBloomFilter used on the world container.
  * Threshold-based bloom: only bright elements (lasers, glows, energy)
@@ -63,6 +83,12 @@ export class EffectsSystem implements System {
    */
   private readonly mechGlows = new Map<Entity, GlowFilter>();
 
+  /**
+   * Each affected entity's status GlowFilter, created on its first
+   * effect and kept (at zero strength) while it has none.
+   */
+  private readonly statusGlows = new Map<Entity, GlowFilter>();
+
   /**
    * Called once per frame.
    * @param world - the ECS world to query
@@ -73,6 +99,8 @@ export class EffectsSystem implements System {
 
     this.updateMechGlow(world);
     this.applyProjectileGlow(world);
+    this.applyEliteGlow(world);
+    this.updateStatusGlow(world);
     this.handleDamageFlash(world, dt);
     this.cleanupDestroyedEntities(world);
   }
@@ -131,6 +159,58 @@ export class EffectsSystem implements System {
     }
   }
 
+  /**
+   * Give each elite enemy an aura in the colour of its first affix, so
+   * the player can tell what it does before engaging.
+   */
+  private applyEliteGlow(world: World): void {
+    for (const entity of world.query('elite', 'sprite')) {
+      if (this.glowEntities.has(entity)) continue;
+
+      const sprite = world.getComponent(entity, 'sprite');
+      const elite = world.getComponent(entity, 'elite');
+      if (!sprite || !elite) continue;
+
+      const glow = new GlowFilter({
+        color: AFFIX_DEFS[elite.affixes[0]].color,
+        outerStrength: ELITE_GLOW_STRENGTH,
+        distance: ELITE_GLOW_DISTANCE,
+      });
+      this.applyFilter(sprite.displayObject, glow);
+      this.glowEntities.add(entity);
+    }
+  }
+
+  /**
+   * Show the status effects on an entity as a flickering glow that
+   * takes turns in the colour of each active effect (burning and slowed
+   * alternate), brighter with more stacks of the one shown.
+   */
+  private updateStatusGlow(world: World): void {
+    for (const entity of world.query('statusEffects', 'sprite')) {
+      const status = world.getComponent(entity, 'statusEffects');
+      const sprite = world.getComponent(entity, 'sprite');
+      if (!status || !sprite) continue;
+
+      let glow = this.statusGlows.get(entity);
+      if (status.active.length === 0) {
+        if (glow) glow.outerStrength = 0;
+        continue;
+      }
+      if (!glow) {
+        glow = new GlowFilter({ outerStrength: 0, distance: STATUS_GLOW_DISTANCE });
+        this.applyFilter(sprite.displayObject, glow);
+        this.statusGlows.set(entity, glow);
+      }
+
+      const turn = Math.floor(this.elapsed / STATUS_GLOW_CYCLE) % status.active.length;
+      const shown = status.active[turn];
+      glow.color = STATUS_EFFECT_DEFS[shown.id].color;
+      const flicker = 0.75 + 0.25 * Math.sin(STATUS_GLOW_FLICKER_SPEED * this.elapsed);
+      glow.outerStrength = STATUS_GLOW_PER_STACK * shown.stacks * flicker;
+    }
+  }
+
   /**
    * Flash entities red-white when they take damage.
    * Detects damage by checking for entities with health.invincibleTimer > 0
@@ -186,6 +266,10 @@ export class EffectsSystem implements System {
       }
     }
 
+    for (const entity of this.statusGlows.keys()) {
+      if (!world.hasEntity(entity)) this.statusGlows.delete(entity);
+    }
+
     for (const entity of this.flashTimers.keys()) {
       if (!world.hasEntity(entity)) {
         this.flashTimers.delete(entity);
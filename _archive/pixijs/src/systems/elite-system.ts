@@ -0,0 +1,111 @@
+/**
+ * EliteSystem — the elite affixes that act over time
+ * (combat/elite-affixes.ts).
+ *
+ * Priority 45: after DamageSystem (40) has resolved this tick's hits and
+ * queued the dead, while their entities still exist.
+ *
+ *   regenerating  heals REGEN_RATE of max health per second once it has
+ *                 gone REGEN_DELAY seconds without losing any
+ *   splitting     on death, bursts into SPLIT_COUNT regular copies of
+ *                 itself with reduced health and scrap; they inherit its
+ *                 encounter so a wave isn't beaten until they are too
+ */
+
+import type { Entity, System } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import type { Container } from 'pixi.js';
+import type { SoundManager } from '../audio/sound-manager.js';
+import type { EliteComponent, EnemyComponent, HealthComponent } from '../components/index.js';
+import { hasAffix } from '../components/index.js';
+import { findEnemyDef } from '../combat/enemy-defs.js';
+import { createEnemyEntity } from '../entities/create-enemy.js';
+import { spawnWarpParticles } from '../effects/warp-particles.js';
+
+/** Seconds without damage before regeneration starts. */
+const REGEN_DELAY = 2;
+
+/** Fraction of max health regenerated per second. */
+const REGEN_RATE = 0.08;
+
+/** Copies a splitting elite bursts into. */
+const SPLIT_COUNT = 2;
+
+/** Copies' share of the regular enemy's health and scrap. */
+const SPLIT_FRACTION = 0.5;
+
+/** Horizontal distance of each copy from the elite's position (pixels). */
+const SPLIT_OFFSET = 16;
+
+/** Launch velocity of the copies (m/s): outward and up. */
+const SPLIT_LAUNCH_X = 3;
+const SPLIT_LAUNCH_Y = -3;
+
+export class EliteSystem implements System {
+  readonly priority = 45;
+
+  private readonly physicsCtx: PhysicsContext;
+  private readonly worldContainer: Container;
+  private readonly soundManager: SoundManager;
+
+  /**
+   * @param physicsCtx     - shared physics context (split copies)
+   * @param worldContainer - PixiJS container for spawned visuals
+   * @param soundManager   - split cue
+   */
+  constructor(physicsCtx: PhysicsContext, worldContainer: Container, soundManager: SoundManager) {
+    this.physicsCtx = physicsCtx;
+    this.worldContainer = worldContainer;
+    this.soundManager = soundManager;
+  }
+
+  update(world: World, dt: number): void {
+    for (const entity of world.query('elite', 'enemy', 'health')) {
+      const elite = world.getComponent(entity, 'elite');
+      const enemy = world.getComponent(entity, 'enemy');
+      const health = world.getComponent(entity, 'health');
+      if (!elite || !enemy || !health) continue;
+
+      if (health.isDead) {
+        if (!elite.deathHandled && hasAffix(elite, 'splitting')) this.split(world, entity, enemy);
+        elite.deathHandled = true;
+        continue;
+      }
+      if (hasAffix(elite, 'regenerating')) this.regenerate(elite, health, dt);
+    }
+  }
+
+  private regenerate(elite: EliteComponent, health: HealthComponent, dt: number): void {
+    elite.sinceDamaged = health.current < elite.lastHealth ? 0 : elite.sinceDamaged + dt;
+    if (elite.sinceDamaged >= REGEN_DELAY) {
+      health.current = Math.min(health.max, health.current + health.max * REGEN_RATE * dt);
+    }
+    elite.lastHealth = health.current;
+  }
+
+  private split(world: World, entity: Entity, enemy: EnemyComponent): void {
+    const def = findEnemyDef(enemy.defId);
+    const t = world.getComponent(entity, 'transform');
+    if (!def || !t) return;
+
+    for (let i = 0; i < SPLIT_COUNT; i++) {
+      const side = i % 2 === 0 ? -1 : 1;
+      const copy = createEnemyEntity(
+        def, world, this.physicsCtx, this.worldContainer, t.x + side * SPLIT_OFFSET, t.y,
+      );
+      const health = world.getComponent(copy, 'health');
+      if (health) health.max = health.current = Math.max(1, Math.round(def.health * SPLIT_FRACTION));
+      const copyEnemy = world.getComponent(copy, 'enemy');
+      if (copyEnemy) {
+        copyEnemy.scrapReward = Math.round(def.scrap * SPLIT_FRACTION);
+        copyEnemy.encounterId = enemy.encounterId;
+      }
+      const pb = world.getComponent(copy, 'physicsBody');
+      const body = pb ? this.physicsCtx.world.getRigidBody(pb.bodyHandle) : null;
+      body?.setLinvel({ x: side * SPLIT_LAUNCH_X, y: SPLIT_LAUNCH_Y }, true);
+    }
+    spawnWarpParticles(this.worldContainer, t.x, t.y);
+    this.soundManager.play('minion-spawn');
+  }
+}
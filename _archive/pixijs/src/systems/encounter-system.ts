@@ -0,0 +1,211 @@
+/**
+ * EncounterSystem — runs a level's wave encounters (LevelData.encounters).
+ *
+ * Priority 12: after PlayerMovementSystem (10) so the trigger sees where
+ * the player is this tick, before BossTriggerSystem (13) and the AI.
+ *
+ * Each encounter is armed until the player enters its trigger. It then
+ * seals the arena (barriers at both sides, camera held inside), spawns
+ * its waves in order and unseals once the last wave is beaten, or, for
+ * survival challenges, once the timer runs out. If the player dies
+ * mid-fight the encounter's enemies warp out and it re-arms.
+ *
+ * LevelCompleteSystem asks `allCleared` before declaring victory, and
+ * BossTriggerSystem before spawning the boss, since "no enemies alive"
+ * means nothing while waves are still to come.
+ */
+
+import type { Entity, System } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import type { EntityManager } from '../core/entity-manager.js';
+import type { Container } from 'pixi.js';
+import type { SoundManager } from '../audio/sound-manager.js';
+import type { AreaDef, EncounterDef, LevelData } from '../level/level-data.js';
+import type { CameraSystem } from './camera-system.js';
+import { spawnEnemies } from '../level/spawn-enemies.js';
+import { ELITE_CHANCE } from '../combat/elite-affixes.js';
+import { createArenaBarrier } from '../entities/create-arena-barrier.js';
+import { spawnWarpParticles } from '../effects/warp-particles.js';
+import { spawnFloatText } from '../ui/float-text.js';
+
+/** Seconds before a wave spawns when its definition gives no delay. */
+const DEFAULT_WAVE_DELAY = 1;
+
+/** What LevelCompleteSystem and BossTriggerSystem need to know about encounters. */
+export interface EncounterProgress {
+  /** Whether every encounter in the level has been cleared. */
+  readonly allCleared: boolean;
+}
+
+/** Run-time state of one encounter. */
+interface EncounterRun {
+  readonly def: EncounterDef;
+  state: 'armed' | 'active' | 'cleared';
+  /** Index of the next wave to spawn. */
+  nextWave: number;
+  /** Countdown to the next wave (seconds), once it is allowed to start. */
+  waveTimer: number;
+  /** Seconds since the encounter started. */
+  elapsed: number;
+  /** Barrier entities sealing the arena. */
+  barriers: Entity[];
+}
+
+export class EncounterSystem implements System, EncounterProgress {
+  readonly priority = 12;
+
+  private readonly physicsCtx: PhysicsContext;
+  private readonly worldContainer: Container;
+  private readonly entityManager: EntityManager;
+  private readonly soundManager: SoundManager;
+  private readonly camera: CameraSystem;
+  private readonly levelBounds: AreaDef;
+  private readonly eliteChance: number;
+  private readonly runs: EncounterRun[];
+
+  /**
+   * @param levelData      - level whose encounters to run
+   * @param physicsCtx     - shared physics context (barriers, spawns)
+   * @param worldContainer - PixiJS container for spawned visuals
+   * @param entityManager  - destroys barriers and warped-out enemies
+   * @param soundManager   - wave and clear cues
+   * @param camera         - held inside the arena while sealed
+   */
+  constructor(
+    levelData: LevelData,
+    physicsCtx: PhysicsContext,
+    worldContainer: Container,
+    entityManager: EntityManager,
+    soundManager: SoundManager,
+    camera: CameraSystem,
+  ) {
+    this.physicsCtx = physicsCtx;
+    this.worldContainer = worldContainer;
+    this.entityManager = entityManager;
+    this.soundManager = soundManager;
+    this.camera = camera;
+    this.levelBounds = { x: 0, y: 0, width: levelData.width, height: levelData.height };
+    this.eliteChance = ELITE_CHANCE[levelData.difficulty];
+    this.runs = (levelData.encounters ?? []).map((def) => ({
+      def, state: 'armed', nextWave: 0, waveTimer: 0, elapsed: 0, barriers: [],
+    }));
+  }
+
+  get allCleared(): boolean {
+    return this.runs.every((run) => run.state === 'cleared');
+  }
+
+  update(world: World, dt: number): void {
+    const players = world.query('player', 'transform', 'health');
+    if (players.length === 0) return;
+    const transform = world.getComponent(players[0], 'transform');
+    const health = world.getComponent(players[0], 'health');
+    if (!transform || !health) return;
+
+    for (const run of this.runs) {
+      if (run.state === 'armed') {
+        if (!health.isDead && contains(run.def.trigger ?? run.def.arena, transform.x, transform.y)) {
+          this.start(world, run, transform.x, transform.y);
+        }
+      } else if (run.state === 'active') {
+        if (health.isDead) this.abort(world, run);
+        else this.tick(world, run, dt, transform.x, transform.y);
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Lifecycle
+  // -------------------------------------------------------------------------
+
+  private start(world: World, run: EncounterRun, px: number, py: number): void {
+    const { arena } = run.def;
+    run.state = 'active';
+    run.nextWave = 0;
+    run.elapsed = 0;
+    run.waveTimer = run.def.waves[0]?.delay ?? DEFAULT_WAVE_DELAY;
+    run.barriers = [arena.x, arena.x + arena.width].map((x) => createArenaBarrier(
+      world, this.physicsCtx, this.worldContainer, x, arena.y, arena.height,
+    ));
+    this.camera.setBounds(arena);
+    this.soundManager.play('boss-spawn');
+    spawnFloatText(this.worldContainer, px, py - 50, run.def.survive ? 'SURVIVE!' : 'ARENA LOCKED');
+  }
+
+  private tick(world: World, run: EncounterRun, dt: number, px: number, py: number): void {
+    run.elapsed += dt;
+    const alive = this.livingEnemies(world, run).length;
+
+    const wave = run.def.waves[run.nextWave];
+    if (wave && (wave.afterClear === false || alive === 0)) {
+      run.waveTimer -= dt;
+      if (run.waveTimer <= 0) {
+        this.spawnWave(world, run, run.nextWave);
+        run.nextWave++;
+        run.waveTimer = run.def.waves[run.nextWave]?.delay ?? DEFAULT_WAVE_DELAY;
+      }
+    }
+
+    const won = run.def.survive !== undefined
+      ? run.elapsed >= run.def.survive
+      : run.nextWave >= run.def.waves.length && alive === 0;
+    if (!won) return;
+
+    this.clearEnemies(world, run);
+    this.unseal(run);
+    run.state = 'cleared';
+    this.soundManager.play('powerup');
+    spawnFloatText(this.worldContainer, px, py - 50, 'ARENA CLEARED');
+  }
+
+  /** Player died mid-fight: pull the encounter down so it can be retried. */
+  private abort(world: World, run: EncounterRun): void {
+    this.clearEnemies(world, run);
+    this.unseal(run);
+    run.state = 'armed';
+  }
+
+  // -------------------------------------------------------------------------
+  // Helpers
+  // -------------------------------------------------------------------------
+
+  private spawnWave(world: World, run: EncounterRun, index: number): void {
+    const spawned = spawnEnemies(
+      run.def.waves[index].spawns, world, this.physicsCtx, this.worldContainer, this.eliteChance,
+    );
+    for (const entity of spawned) {
+      const enemy = world.getComponent(entity, 'enemy');
+      if (enemy) enemy.encounterId = run.def.id;
+      const t = world.getComponent(entity, 'transform');
+      if (t) spawnWarpParticles(this.worldContainer, t.x, t.y);
+    }
+    this.soundManager.play('minion-spawn');
+  }
+
+  /**
+   * The encounter's living enemies: everything tagged with its id, so
+   * enemies spawned by its enemies (elite splits) count too.
+   */
+  private livingEnemies(world: World, run: EncounterRun): Entity[] {
+    return world.query('enemy', 'health').filter((entity) =>
+      world.getComponent(entity, 'enemy')?.encounterId === run.def.id
+      && !world.getComponent(entity, 'health')?.isDead);
+  }
+
+  /** Warp out the encounter's remaining enemies (no scrap). */
+  private clearEnemies(world: World, run: EncounterRun): void {
+    for (const entity of this.livingEnemies(world, run)) this.entityManager.markForDestruction(entity);
+  }
+
+  private unseal(run: EncounterRun): void {
+    for (const barrier of run.barriers) this.entityManager.markForDestruction(barrier);
+    run.barriers = [];
+    this.camera.setBounds(this.levelBounds);
+  }
+}
+
+/** Whether a point (pixels) lies inside an area. */
+function contains(area: AreaDef, x: number, y: number): boolean {
+  return x >= area.x && x <= area.x + area.width && y >= area.y && y <= area.y + area.height;
+}
@@ -1,33 +1,38 @@
 /**
- * EnemyAISystem – drives enemy behaviour: patrol, chase, and turret firing.
+ * EnemyAISystem – ticks each enemy's behaviour tree.
  *
  * Priority 15: runs after PhysicsSystem (10) so positions are updated,
  * but before MechFollowSystem (20) and WeaponSystem (30).
  *
- * Per-enemy-type behaviour is delegated to functions in
- * `enemy-ai-behaviours.ts` to keep each file under 250 lines.
+ * Behaviour lives in data: trees in `ai/enemy-trees.ts`, built from the
+ * leaves in `ai/enemy-leaves-*.ts`. This system builds the per-enemy
+ * context, cools enemy weapons, updates what the enemy perceives
+ * (`ai/perception.ts`), runs the tree and then syncs the visuals that
+ * follow from AI state (animation, shield). Status effects hold it back:
+ * a stunned enemy skips its tree, stops and drops its shield, and a slow
+ * scales every movement leaf. It also owns the level's Pathfinder and
+ * resolves queued path requests at the start of each tick.
  */
 
 import type { System } from '../core/types.js';
 import type { World } from '../core/world.js';
 import type { PhysicsContext } from '../core/physics.js';
+import type { Pathfinder } from '../nav/pathfinder.js';
 import type { Container } from 'pixi.js';
 import type {
   TransformComponent,
   AnimationStateComponent,
+  EnemyComponent,
+  SpriteComponent,
 } from '../components/index.js';
-import {
-  updateWalker,
-  updateFlyer,
-  updateTurret,
-} from './enemy-ai-behaviours.js';
-import {
-  updateSentry,
-  updateCrawler,
-} from './enemy-ai-behaviours-2.js';
-import { updateShielder } from './enemy-ai-behaviours-3.js';
-import { updatePhantom } from './enemy-ai-behaviours-4.js';
-import { spawnWarpParticles } from '../effects/warp-particles.js';
+import type RAPIER from '@dimforge/rapier2d-compat';
+import type { Blackboard } from '../ai/blackboard.js';
+import { findEnemyDef } from '../combat/enemy-defs.js';
+import { getEnemyTree } from '../ai/enemy-trees.js';
+import { updatePerception } from '../ai/perception.js';
+import type { EnemyAIContext } from '../ai/enemy-ai-context.js';
+import { BB_SHIELD_RAISED, facingOf } from '../ai/enemy-ai-context.js';
+import { isStunned, statusSpeedScale } from '../combat/status-effects.js';
 
 // ---------------------------------------------------------------------------
 // System
@@ -38,21 +43,24 @@ export class EnemyAISystem implements System {
 
   private readonly physicsCtx: PhysicsContext;
   private readonly worldContainer: Container;
+  private readonly pathfinder: Pathfinder;
 
-  /** Running time accumulator for flyer sine-wave bob. */
+  /** Running time accumulator: shared phase for bobbing and orbits. */
   private time = 0;
 
   /**
    * @param physicsCtx     - shared physics context for body access
-   * @param worldContainer - PixiJS container for turret projectile visuals
+   * @param worldContainer - PixiJS container for projectiles and effects
+   * @param pathfinder     - the level's navigation queries
    */
-  constructor(physicsCtx: PhysicsContext, worldContainer: Container) {
+  constructor(physicsCtx: PhysicsContext, worldContainer: Container, pathfinder: Pathfinder) {
     this.physicsCtx = physicsCtx;
     this.worldContainer = worldContainer;
+    this.pathfinder = pathfinder;
   }
 
   /**
-   * Each frame, update AI state and movement for all enemies.
+   * Each frame, tick the behaviour tree of every living enemy.
    *
    * @param world - the ECS world to query / mutate
    * @param dt    - elapsed time since last frame (seconds)
@@ -60,125 +68,120 @@ export class EnemyAISystem implements System {
   update(world: World, dt: number): void {
     this.time += dt;
 
-    // Find player position (needed for detection and chasing)
-    const playerTransform = this.getPlayerTransform(world);
-    if (!playerTransform) return;
+    // Resolve path requests made last tick (a few per tick)
+    this.pathfinder.update();
 
-    const enemies = world.query('enemy', 'transform', 'physicsBody');
+    // Find player position and speed (needed for perception and chasing)
+    const player = this.getPlayer(world);
+    if (!player) return;
+
+    // The boss has no behaviour tree; BossAISystem drives it
+    const enemies = world.query('enemy', 'behaviourTree', 'transform', 'physicsBody');
 
     for (const entity of enemies) {
       const enemy = world.getComponent(entity, 'enemy');
+      const bt = world.getComponent(entity, 'behaviourTree');
       const transform = world.getComponent(entity, 'transform');
       const pb = world.getComponent(entity, 'physicsBody');
-      if (!enemy || !transform || !pb) continue;
+      if (!enemy || !bt || !transform || !pb) continue;
 
       // Skip dead enemies
       const health = world.getComponent(entity, 'health');
       if (health && health.isDead) continue;
 
-      // Skip boss entities — handled by BossAISystem
-      const bossComp = world.getComponent(entity, 'boss');
-      if (bossComp) continue;
-
-      // Distance to player (pixels)
-      const dx = playerTransform.x - transform.x;
-      const dy = playerTransform.y - transform.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      const inRange = dist < enemy.detectionRange;
-
-      switch (enemy.enemyType) {
-        case 'walker':
-          updateWalker(
-            this.physicsCtx, enemy, pb.bodyHandle,
-            transform, playerTransform, inRange,
-          );
-          break;
-        case 'flyer':
-          updateFlyer(
-            this.physicsCtx, enemy, pb.bodyHandle,
-            transform, playerTransform, dist, inRange, this.time,
-          );
-          break;
-        case 'turret':
-          updateTurret(
-            world, this.physicsCtx, this.worldContainer,
-            entity, transform, playerTransform, dist, inRange, dt,
-          );
-          break;
-        case 'sentry':
-          updateSentry(
-            this.physicsCtx, enemy, pb.bodyHandle,
-            transform, playerTransform, inRange, this.time, dt,
-          );
-          break;
-        case 'crawler':
-          updateCrawler(
-            this.physicsCtx, enemy, pb.bodyHandle,
-            transform, playerTransform, inRange, dt,
-          );
-          break;
-        case 'shielder':
-          updateShielder(
-            this.physicsCtx, enemy, pb.bodyHandle,
-            transform, playerTransform, inRange, dt,
-            world.getComponent(entity, 'sprite'),
-          );
-          break;
-        case 'phantom': {
-          const prevState = enemy.state;
-          updatePhantom(
-            this.physicsCtx, enemy, pb.bodyHandle,
-            transform, playerTransform, inRange, dt,
-            world.getComponent(entity, 'sprite'),
-          );
-          // Spawn warp particles on state transitions:
-          // Warp-in: particles at departure point (old hidden position)
-          // Warp-out: particles at last visible position (pre-teleport)
-          if (prevState === 'idle' && enemy.state === 'chasing') {
-            spawnWarpParticles(this.worldContainer, transform.x, transform.y);
-          } else if (prevState === 'patrolling' && enemy.state === 'idle') {
-            spawnWarpParticles(this.worldContainer, transform.x, transform.y);
-          }
-          break;
-        }
+      const body = this.physicsCtx.world.getRigidBody(pb.bodyHandle);
+      const tree = getEnemyTree(bt.treeId);
+      if (!body || !tree) continue;
+
+      // Weapons cool down whatever the tree is doing
+      const weapon = world.getComponent(entity, 'weapon');
+      if (weapon) weapon.cooldownTimer = Math.max(0, weapon.cooldownTimer - dt);
+
+      const sprite = world.getComponent(entity, 'sprite');
+      const status = world.getComponent(entity, 'statusEffects');
+      if (isStunned(status)) {
+        this.holdStunned(body, bt.blackboard);
+        if (sprite) this.syncShieldVisual(sprite, bt.blackboard);
+        continue;
       }
 
-      // Sync animation state based on AI state
-      this.syncEnemyAnimation(world, entity, enemy.enemyType, enemy.state);
+      const ctx: EnemyAIContext = {
+        world,
+        physicsCtx: this.physicsCtx,
+        nav: this.pathfinder,
+        worldContainer: this.worldContainer,
+        entity,
+        enemy,
+        body,
+        transform,
+        sprite,
+        blackboard: bt.blackboard,
+        player: player.transform,
+        playerDist: Math.hypot(player.transform.x - transform.x, player.transform.y - transform.y),
+        playerSpeed: player.speed,
+        speedScale: statusSpeedScale(status),
+        dt,
+        time: this.time,
+      };
+      updatePerception(ctx);
+      tree.tick(bt.blackboard, ctx, dt);
+
+      if (sprite) this.syncShieldVisual(sprite, bt.blackboard);
+      this.syncEnemyAnimation(world, entity, enemy);
     }
   }
 
-  /** Set the animation state for enemies that have an AnimationStateComponent. */
-  private syncEnemyAnimation(
-    world: World,
-    entity: number,
-    type: string,
-    aiState: string,
-  ): void {
+  /**
+   * Freeze a stunned enemy in place: it stops moving (still falling if
+   * it has gravity) and any raised shield drops, opening it up to fire.
+   */
+  private holdStunned(body: RAPIER.RigidBody, blackboard: Blackboard): void {
+    body.setLinvel({ x: 0, y: body.gravityScale() > 0 ? body.linvel().y : 0 }, true);
+    if (blackboard.get(BB_SHIELD_RAISED) === true) blackboard.set(BB_SHIELD_RAISED, false);
+  }
+
+  /**
+   * Flip a shield-bearing sprite to the side it faces, and hide the
+   * shield child while it is lowered so the player sees the opening.
+   */
+  private syncShieldVisual(sprite: SpriteComponent, blackboard: Blackboard): void {
+    const raised = blackboard.get(BB_SHIELD_RAISED);
+    const shieldChild = sprite.displayObject.getChildByLabel('shield');
+    if (raised === undefined || !shieldChild) return;
+
+    shieldChild.visible = raised === true;
+    sprite.displayObject.scale.x = facingOf(blackboard);
+  }
+
+  /**
+   * Set the animation for enemies that have an AnimationStateComponent,
+   * using the AI-state overrides from the enemy's definition.
+   */
+  private syncEnemyAnimation(world: World, entity: number, enemy: EnemyComponent): void {
     const animState = world.getComponent(entity, 'animationState') as
       | AnimationStateComponent
       | undefined;
-    if (!animState) return;
+    const sprite = findEnemyDef(enemy.defId)?.sprite;
+    if (!animState || sprite?.kind !== 'animated') return;
 
-    if (type === 'walker') {
-      animState.currentAnimation =
-        aiState === 'chasing' ? 'walk' : 'idle';
-      // Flip based on patrol direction
-      const enemy = world.getComponent(entity, 'enemy');
-      if (enemy) {
-        animState.flipX = enemy.patrolDirection === -1;
-      }
+    animState.currentAnimation = sprite.stateAnimations?.[enemy.state] ?? sprite.initial;
+    if (sprite.flipWithPatrol) {
+      animState.flipX = enemy.patrolDirection === -1;
     }
-    // Flyer and turret only have one animation; no switching needed
   }
 
   /**
-   * Find the player entity and return its TransformComponent.
-   * Returns undefined if no player exists.
+   * Find the player entity and return its TransformComponent and speed
+   * (m/s). Returns undefined if no player exists.
    */
-  private getPlayerTransform(world: World): TransformComponent | undefined {
+  private getPlayer(world: World): { transform: TransformComponent; speed: number } | undefined {
     const players = world.query('player', 'transform');
     if (players.length === 0) return undefined;
-    return world.getComponent(players[0], 'transform');
+    const transform = world.getComponent(players[0], 'transform');
+    if (!transform) return undefined;
+
+    const pb = world.getComponent(players[0], 'physicsBody');
+    const vel = pb ? this.physicsCtx.world.getRigidBody(pb.bodyHandle)?.linvel() : undefined;
+    return { transform, speed: vel ? Math.hypot(vel.x, vel.y) : 0 };
   }
 }
@@ -9,6 +9,7 @@
  *   - Player health bar (top-left corner)
  *   - Scrap counter (below health bar)
  *   - Active consumable icons ([SH] shield, [MED] medkit)
+ *   - B3ANS control mode (auto / manual) with its toggle key
  */
 
 import { Text, TextStyle } from 'pixi.js';
@@ -18,6 +19,9 @@ import type { World } from '../core/world.js';
 import type { GameState } from '../core/game-state.js';
 import { HealthBar } from '../ui/health-bar.js';
 import { BossHealthBar } from '../ui/boss-health-bar.js';
+import { getBossDef } from '../combat/boss-defs.js';
+import { Action, KEY_BINDINGS } from '../input/actions.js';
+import { formatKeyCode } from '../input/key-bindings.js';
 
 const SCRAP_STYLE = new TextStyle({
   fontFamily: 'monospace',
@@ -33,6 +37,16 @@ const CONSUMABLE_STYLE = new TextStyle({
   fontWeight: 'bold',
 });
 
+const MECH_MODE_STYLE = new TextStyle({
+  fontFamily: 'monospace',
+  fontSize: 12,
+  fill: 0xaaaaff,
+  fontWeight: 'bold',
+});
+
+/** Mode indicator colour while B3ANS is under manual control. */
+const MANUAL_MODE_COLOR = 0xff8844;
+
 export class HudSystem implements System {
   /** Runs just before rendering so health values are up-to-date. */
   readonly priority = 98;
@@ -42,6 +56,7 @@ export class HudSystem implements System {
   private readonly scrapText: Text;
   private readonly shieldIcon: Text;
   private readonly medkitIcon: Text;
+  private readonly mechModeText: Text;
   private readonly gameState: GameState;
 
   /**
@@ -81,6 +96,11 @@ export class HudSystem implements System {
     this.medkitIcon.y = 72;
     this.medkitIcon.visible = false;
     uiContainer.addChild(this.medkitIcon);
+
+    this.mechModeText = new Text({ text: '', style: MECH_MODE_STYLE });
+    this.mechModeText.x = 16;
+    this.mechModeText.y = 90;
+    uiContainer.addChild(this.mechModeText);
   }
 
   /**
@@ -104,10 +124,26 @@ export class HudSystem implements System {
     this.shieldIcon.visible = this.gameState.shieldCharge;
     this.medkitIcon.visible = this.gameState.repairKit;
 
+    this.updateMechMode(world);
+
     // Boss health bar: show only when an activated, living boss exists
     this.updateBossHealthBar(world);
   }
 
+  /** Show the companion's control mode and the key that toggles it. */
+  private updateMechMode(world: World): void {
+    const mechs = world.query('mech');
+    const mech = mechs.length > 0 ? world.getComponent(mechs[0], 'mech') : undefined;
+    this.mechModeText.visible = mech !== undefined;
+    if (!mech) return;
+
+    const manual = mech.mode === 'manual';
+    const key = KEY_BINDINGS[Action.ToggleMech][0];
+    const label = key ? ` [${formatKeyCode(key)}]` : '';
+    this.mechModeText.text = `B3ANS: ${manual ? 'MANUAL' : 'AUTO'}${label}`;
+    this.mechModeText.style.fill = manual ? MANUAL_MODE_COLOR : MECH_MODE_STYLE.fill;
+  }
+
   /** Show/hide boss health bar based on boss entity state. */
   private updateBossHealthBar(world: World): void {
     const bossEntities = world.query('boss', 'health');
@@ -118,8 +154,21 @@ export class HudSystem implements System {
       const bossHealth = world.getComponent(bossEntity, 'health');
 
       if (bossComp?.activated && bossHealth && !bossHealth.isDead) {
+        // The bar shows the boss and its parts together; broken parts count as empty
+        const def = getBossDef(bossComp.bossId);
+        let current = bossHealth.current;
+        let max = bossHealth.max;
+        const gauges = (def.parts ?? []).map((part) => {
+          const partEntity = bossComp.parts.get(part.id);
+          const partHealth = partEntity === undefined ? undefined : world.getComponent(partEntity, 'health');
+          const left = partHealth && !partHealth.isDead ? partHealth.current : 0;
+          current += left;
+          max += part.hp;
+          return { label: part.label, fraction: left / part.hp };
+        });
+
         this.bossHealthBar.reposition(window.innerWidth, window.innerHeight);
-        this.bossHealthBar.update(bossHealth.current, bossHealth.max, bossComp.phase);
+        this.bossHealthBar.update(def.name, current, max, bossComp.phase, gauges);
         bossVisible = true;
         break;
       }
@@ -1,6 +1,10 @@
 /**
  * LevelCompleteSystem — detects when all enemies are defeated and
  * transitions the player back to the hub screen after a short delay.
+ * Levels with wave encounters also need every encounter cleared, since
+ * their waves only exist once the player walks into the arena.
+ * Victory also collects every pickup still lying around, so the final
+ * kill's drops are never lost to the level ending.
  *
  * Priority 55: runs after DamageSystem (40) and DeathRespawnSystem (50)
  * so all death flags and destruction have been processed.
@@ -10,6 +14,8 @@ import type { System } from '../core/types.js';
 import type { World } from '../core/world.js';
 import type { Container } from 'pixi.js';
 import type { SoundManager } from '../audio/sound-manager.js';
+import type { EncounterProgress } from './encounter-system.js';
+import type { PickupCollector } from './pickup-system.js';
 import { spawnFloatText } from '../ui/float-text.js';
 
 /** Seconds to wait after enemies cleared before returning to hub. */
@@ -38,6 +44,12 @@ export class LevelCompleteSystem implements System {
   /** Whether the level has a boss that still needs to be spawned. */
   private readonly hasBoss: boolean;
 
+  /** Wave encounters that must be cleared too. */
+  private readonly encounters: EncounterProgress;
+
+  /** Hands out the drops still on the floor at victory. */
+  private readonly pickups: PickupCollector;
+
   /** Elapsed time since level start — used for grace period. */
   private elapsed = 0;
 
@@ -50,21 +62,30 @@ export class LevelCompleteSystem implements System {
   /** Entity IDs of enemies observed dead (survives entity destruction). */
   private readonly deadSeen = new Set<number>();
 
+  /** Whether the level's boss has been seen spawned. */
+  private bossSeen = false;
+
   /**
    * @param worldContainer  - PixiJS container for floating text
    * @param soundManager    - audio manager for victory sound
    * @param hasBoss         - whether the level has a boss encounter
+   * @param encounters      - wave encounter progress
+   * @param pickups         - collects leftover drops at victory
    * @param onLevelComplete - callback with stats to transition back to hub
    */
   constructor(
     worldContainer: Container,
     soundManager: SoundManager,
     hasBoss: boolean,
+    encounters: EncounterProgress,
+    pickups: PickupCollector,
     onLevelComplete: (stats: VictoryCallbackStats) => void,
   ) {
     this.worldContainer = worldContainer;
     this.soundManager = soundManager;
     this.hasBoss = hasBoss;
+    this.encounters = encounters;
+    this.pickups = pickups;
     this.onLevelComplete = onLevelComplete;
   }
 
@@ -101,6 +122,7 @@ export class LevelCompleteSystem implements System {
     this.victoryTriggered = true;
     this.victoryTimer = VICTORY_DELAY;
     this.soundManager.play('powerup');
+    this.pickups.collectAll();
 
     // Spawn floating "LEVEL COMPLETE!" text at player position
     const playerTransform = world.getComponent(players[0], 'transform');
@@ -118,18 +140,20 @@ export class LevelCompleteSystem implements System {
    * Returns true when every enemy entity is dead or destroyed.
    * On boss levels, also checks that the boss has been spawned
    * and defeated (prevents early completion before boss trigger).
+   * Encounters still to be fought count as enemies remaining.
    */
   private allEnemiesDefeated(world: World): boolean {
+    if (!this.encounters.allCleared) return false;
+
+    // On boss levels the boss must have been spawned first; once seen,
+    // it counts like any other enemy (destroyed when killed)
+    if (world.query('boss').length > 0) this.bossSeen = true;
+    if (this.hasBoss && !this.bossSeen) return false;
+
     const enemies = world.query('enemy', 'health');
 
     // No enemies at all — could be an empty level, or all destroyed
-    if (enemies.length === 0) {
-      // On boss levels, boss must have been spawned first
-      // BossTriggerSystem sets bossSpawned internally, but we can check
-      // if any boss component exists or ever existed by looking at enemies
-      // If hasBoss and zero enemies, the boss was killed (it gets destroyed)
-      return true;
-    }
+    if (enemies.length === 0) return true;
 
     // Check if any living enemies remain
     for (const entity of enemies) {
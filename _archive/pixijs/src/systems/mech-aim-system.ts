@@ -0,0 +1,94 @@
+/**
+ * MechAimSystem -- turns the mouse cursor into B3ANS's manual aim and
+ * draws the aim reticle.
+ *
+ * Priority 91: runs after the CameraSystem (90) has positioned the world
+ * container, so B3ANS's on-screen position matches what the player sees.
+ *
+ * The cursor only becomes an angle here, once per rendered frame; the
+ * simulation reads it through InputState.aimAngle() on the next tick,
+ * so replays record the resulting angle rather than the cursor.
+ */
+
+import { Graphics } from 'pixi.js';
+import type { Container, PointData } from 'pixi.js';
+import type { System, FrameTiming } from '../core/types.js';
+import type { World } from '../core/world.js';
+import { interpolatePosition } from '../components/index.js';
+import type { InputManager } from '../input/input-manager.js';
+
+/** Distance from B3ANS to the reticle (pixels). */
+const RETICLE_DISTANCE = 56;
+
+/** Reticle ring radius (pixels). */
+const RETICLE_RADIUS = 5;
+
+const RETICLE_COLOR = 0xff8844;
+
+export class MechAimSystem implements System {
+  readonly priority = 91;
+
+  private readonly worldContainer: Container;
+  private readonly input: InputManager;
+  private readonly pointer: { readonly global: PointData };
+  private readonly timing: FrameTiming | null;
+  private readonly reticle: Graphics;
+
+  /**
+   * @param worldContainer - camera-moved container; the reticle is drawn in it
+   * @param input          - receives the pointer aim each frame
+   * @param pointer        - cursor position in stage coordinates
+   *                         (app.renderer.events.pointer)
+   * @param timing         - scheduler timing for tick interpolation
+   */
+  constructor(
+    worldContainer: Container,
+    input: InputManager,
+    pointer: { readonly global: PointData },
+    timing: FrameTiming | null = null,
+  ) {
+    this.worldContainer = worldContainer;
+    this.input = input;
+    this.pointer = pointer;
+    this.timing = timing;
+
+    this.reticle = new Graphics()
+      .circle(0, 0, RETICLE_RADIUS)
+      .stroke({ width: 1.5, color: RETICLE_COLOR })
+      .rect(-0.5, -0.5, 1, 1)
+      .fill(RETICLE_COLOR);
+    this.reticle.visible = false;
+    worldContainer.addChild(this.reticle);
+  }
+
+  /**
+   * Point the pointer aim from B3ANS toward the cursor, and show the
+   * reticle along the current aim while in manual mode.
+   *
+   * @param world - the ECS world to query
+   * @param _dt   - delta time (unused)
+   */
+  update(world: World, _dt: number): void {
+    const mechs = world.query('mech', 'transform');
+    const mech = mechs.length > 0 ? world.getComponent(mechs[0], 'mech') : undefined;
+    const transform = mechs.length > 0 ? world.getComponent(mechs[0], 'transform') : undefined;
+    if (!mech || !transform) {
+      this.input.setPointerAim(null);
+      this.reticle.visible = false;
+      return;
+    }
+
+    const pose = interpolatePosition(transform, this.timing?.alpha ?? 1);
+    const onScreen = this.worldContainer.toGlobal(pose);
+    const cursor = this.pointer.global;
+    const dx = cursor.x - onScreen.x;
+    const dy = cursor.y - onScreen.y;
+    this.input.setPointerAim(dx === 0 && dy === 0 ? null : Math.atan2(dy, dx));
+
+    this.reticle.visible = mech.mode === 'manual';
+    if (this.reticle.visible) {
+      this.reticle.x = pose.x + Math.cos(mech.aimAngle) * RETICLE_DISTANCE;
+      this.reticle.y = pose.y + Math.sin(mech.aimAngle) * RETICLE_DISTANCE;
+    }
+  }
+}
@@ -2,12 +2,19 @@
  * MechFollowSystem – controls the mech companion's movement around
  * the player: orbiting when idle, trailing behind when moving.
  *
+ * Also owns the mech's mode: Action.ToggleMech switches between orbit
+ * and manual. In manual mode the mech hovers at the player's shoulder,
+ * leaning toward the aim direction read from input each tick.
+ *
  * Priority 20: runs after PlayerMovementSystem (10) so the player's
  * position and state are up-to-date when the mech tracks them.
  */
 
 import type { System } from '../core/types.js';
 import type { World } from '../core/world.js';
+import { Action, isActionJustPressed } from '../input/actions.js';
+import type { InputState } from '../input/actions.js';
+import type { SoundManager } from '../audio/sound-manager.js';
 
 /** How quickly the mech lerps toward its target (higher = snappier). */
 const LERP_SPEED = 8;
@@ -18,9 +25,27 @@ const FOLLOW_OFFSET_X = 30;
 /** Vertical offset above the player when following (pixels). */
 const FOLLOW_OFFSET_Y = -20;
 
+/** Manual mode: hover height above the player's centre (pixels). */
+const MANUAL_HOVER_Y = -28;
+
+/** Manual mode: how far the mech leans toward the aim (pixels). */
+const MANUAL_AIM_OFFSET = 18;
+
 export class MechFollowSystem implements System {
   readonly priority = 20;
 
+  private readonly input: InputState;
+  private readonly soundManager: SoundManager;
+
+  /**
+   * @param input        - player input (mode toggle and aim)
+   * @param soundManager - audio manager for the mode-switch cue
+   */
+  constructor(input: InputState, soundManager: SoundManager) {
+    this.input = input;
+    this.soundManager = soundManager;
+  }
+
   /**
    * Each frame, move every mech toward its target position relative
    * to its owner (player).
@@ -41,6 +66,15 @@ export class MechFollowSystem implements System {
       const ownerPlayer = world.getComponent(mech.ownerEntity, 'player');
       if (!ownerTransform) continue;
 
+      if (isActionJustPressed(Action.ToggleMech, this.input)) {
+        mech.mode = mech.mode === 'orbit' ? 'manual' : 'orbit';
+        // Start aiming the way the player faces
+        if (mech.mode === 'manual') {
+          mech.aimAngle = (ownerPlayer?.facingDirection ?? 1) > 0 ? 0 : Math.PI;
+        }
+        this.soundManager.play('mech-mode');
+      }
+
       // Determine if the player is moving based on their state
       const isMoving =
         ownerPlayer !== undefined &&
@@ -52,7 +86,13 @@ export class MechFollowSystem implements System {
       let targetX: number;
       let targetY: number;
 
-      if (isMoving && ownerPlayer) {
+      if (mech.mode === 'manual') {
+        const aim = this.input.aimAngle();
+        if (aim !== null) mech.aimAngle = aim;
+        targetX = ownerTransform.x + Math.cos(mech.aimAngle) * MANUAL_AIM_OFFSET;
+        targetY = ownerTransform.y + MANUAL_HOVER_Y
+          + Math.sin(mech.aimAngle) * MANUAL_AIM_OFFSET * 0.5;
+      } else if (isMoving && ownerPlayer) {
         // Follow behavior: trail behind the player
         // Position opposite to facing direction + slightly above
         targetX =
@@ -76,9 +116,12 @@ export class MechFollowSystem implements System {
       mechTransform.x += (targetX - mechTransform.x) * lerpFactor;
       mechTransform.y += (targetY - mechTransform.y) * lerpFactor;
 
-      // Flip the mech horizontally while preserving scale magnitude
-      if (ownerPlayer) {
-        const mag = Math.abs(mechTransform.scaleX) || 1;
+      // Flip the mech horizontally while preserving scale magnitude;
+      // in manual mode it faces where it aims
+      const mag = Math.abs(mechTransform.scaleX) || 1;
+      if (mech.mode === 'manual') {
+        mechTransform.scaleX = (Math.cos(mech.aimAngle) >= 0 ? 1 : -1) * mag;
+      } else if (ownerPlayer) {
         mechTransform.scaleX = ownerPlayer.facingDirection * mag;
       }
     }
@@ -1,23 +1,25 @@
 /**
- * PhysicsSystem – steps the Rapier2D simulation with a fixed timestep
+ * PhysicsSystem – steps the Rapier2D simulation once per fixed tick
  * and syncs rigid-body positions back to ECS TransformComponents.
  *
  * Priority 0: runs before all other systems so that transforms are
  * up-to-date when rendering / gameplay systems read them.
  *
- * Fixed-timestep loop:
- *   1. Accumulate the variable frame dt into an accumulator.
- *   2. While the accumulator holds at least one PHYSICS_TIMESTEP,
- *      step the world and subtract.
- *   3. After stepping, iterate all entities with ['transform', 'physicsBody']
- *      and copy the Rapier body position (metres) -> TransformComponent
- *      (pixels), plus rotation (radians).
+ * Fixed timestep: the FixedTimestepScheduler calls this once per tick
+ * with a constant dt, so each update is exactly one Rapier step of that
+ * length. After stepping, every entity with ['transform', 'physicsBody']
+ * has its Rapier body position (metres) copied into its TransformComponent
+ * (pixels), plus rotation (radians).
+ *
+ * Collision events from the step are drained from the context's
+ * EventQueue into `physicsCtx.collisions`, resolved to entities, for
+ * ProjectileSystem and DamageSystem to read later in the same tick.
  */
 
 import type { System } from '../core/types.js';
 import type { World } from '../core/world.js';
-import { PHYSICS_TIMESTEP } from '../core/constants.js';
 import { PhysicsContext, metersToPixels } from '../core/physics.js';
+import { getEntityFromCollider } from '../core/collision-utils.js';
 
 export class PhysicsSystem implements System {
   /** Lowest priority – runs first in the system pipeline. */
@@ -31,40 +33,35 @@ export class PhysicsSystem implements System {
   }
 
   /**
-   * Called once per frame by the game loop.
+   * Called once per fixed tick by the scheduler.
    *
    * @param world - the ECS world to query / mutate
-   * @param dt    - elapsed time since last frame (seconds, variable)
+   * @param dt    - fixed tick length (seconds)
    */
   update(world: World, dt: number): void {
-    this.stepPhysics(dt);
+    this.physics.world.timestep = dt;
+    this.physics.world.step(this.physics.eventQueue);
+    this.collectCollisionEvents();
     this.syncBodiesToTransforms(world);
   }
 
   // -----------------------------------------------------------------------
-  // Fixed timestep accumulator
+  // Collision events: Rapier -> ECS
   // -----------------------------------------------------------------------
 
   /**
-   * Accumulate dt and step the Rapier world in fixed increments.
-   *
-   * Capping the accumulator at 10x the timestep prevents a "spiral of
-   * death" if the game stalls for a long frame (e.g. during tab switch).
+   * Resolve this step's collision events to entities. Events for
+   * colliders with no registered entity (already destroyed) are dropped.
    */
-  private stepPhysics(dt: number): void {
-    const maxAccumulator = PHYSICS_TIMESTEP * 10;
-
-    this.physics.accumulator += dt;
-
-    // Clamp to prevent runaway catch-up
-    if (this.physics.accumulator > maxAccumulator) {
-      this.physics.accumulator = maxAccumulator;
-    }
-
-    while (this.physics.accumulator >= PHYSICS_TIMESTEP) {
-      this.physics.world.step();
-      this.physics.accumulator -= PHYSICS_TIMESTEP;
-    }
+  private collectCollisionEvents(): void {
+    const collisions = this.physics.collisions;
+    collisions.beginStep();
+    this.physics.eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+      const a = getEntityFromCollider(this.physics, handle1);
+      const b = getEntityFromCollider(this.physics, handle2);
+      if (a === undefined || b === undefined) return;
+      collisions.record(a, b, started);
+    });
   }
 
   // -----------------------------------------------------------------------
@@ -0,0 +1,211 @@
+/**
+ * PickupSystem — lifetime, magnetism and collection of dropped pickups
+ * (entities/create-pickup.ts).
+ *
+ * Priority 42: after DamageSystem (40) has dropped this tick's loot.
+ *
+ * Each tick a pickup:
+ *   - ages, blinking over its last BLINK_TIME seconds, and despawns at 0
+ *   - once the player or B3ANS (mech) comes within MAGNET_RADIUS, stops
+ *     falling and homes in on whichever of them is nearer, passing
+ *     through terrain on the way
+ *   - is collected when the player's collider overlaps its sensor, or
+ *     when it reaches the mech (which has no collider)
+ *
+ * Scrap goes to GameState, health orbs heal the player, consumables
+ * arm the GameState flags DamageSystem spends.
+ *
+ * Once the level is won, LevelCompleteSystem calls `collectAll()` so
+ * the last kill's drops (the boss's payout included) aren't left on the
+ * floor when the level ends.
+ */
+
+import type { Entity, System } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import type { EntityManager } from '../core/entity-manager.js';
+import type { GameState } from '../core/game-state.js';
+import type { Container } from 'pixi.js';
+import type { SoundManager } from '../audio/sound-manager.js';
+import type { PickupComponent, TransformComponent } from '../components/index.js';
+import { addScrap } from '../core/game-state.js';
+import { layerOfGroups } from '../core/collision-layers.js';
+import { pixelsToMeters } from '../core/physics.js';
+import { spawnFloatText } from '../ui/float-text.js';
+
+/** Distance at which a pickup starts homing in (pixels). */
+const MAGNET_RADIUS = 120;
+
+/** Homing speed (m/s). */
+const MAGNET_SPEED = 9;
+
+/** Distance from the mech's centre that counts as collected (pixels). */
+const MECH_COLLECT_RADIUS = 16;
+
+/** Seconds before despawning that a pickup starts blinking. */
+const BLINK_TIME = 3;
+
+/** Blinks per second while expiring. */
+const BLINK_RATE = 6;
+
+/** What LevelCompleteSystem needs of PickupSystem. */
+export interface PickupCollector {
+  /** Hand the player every pickup left in the level, wherever it lies, next tick. */
+  collectAll(): void;
+}
+
+export class PickupSystem implements System, PickupCollector {
+  readonly priority = 42;
+
+  private readonly physicsCtx: PhysicsContext;
+  private readonly entityManager: EntityManager;
+  private readonly soundManager: SoundManager;
+  private readonly gameState: GameState;
+  private readonly worldContainer: Container;
+
+  /** Whether the next tick collects every pickup (collectAll). */
+  private collectAllPending = false;
+
+  /**
+   * @param physicsCtx     - physics context (pickup bodies, collision events)
+   * @param entityManager  - destroys collected and expired pickups
+   * @param soundManager   - collection cues
+   * @param gameState      - receives scrap and consumables
+   * @param worldContainer - PixiJS container for floating text
+   */
+  constructor(
+    physicsCtx: PhysicsContext,
+    entityManager: EntityManager,
+    soundManager: SoundManager,
+    gameState: GameState,
+    worldContainer: Container,
+  ) {
+    this.physicsCtx = physicsCtx;
+    this.entityManager = entityManager;
+    this.soundManager = soundManager;
+    this.gameState = gameState;
+    this.worldContainer = worldContainer;
+  }
+
+  collectAll(): void {
+    this.collectAllPending = true;
+  }
+
+  update(world: World, dt: number): void {
+    const players = world.query('player', 'transform', 'health');
+    if (players.length === 0) return;
+    const player = players[0];
+    const playerT = world.getComponent(player, 'transform');
+    const playerDead = world.getComponent(player, 'health')?.isDead ?? true;
+    const mechs = world.query('mech', 'transform');
+    const mechT = mechs.length > 0 ? world.getComponent(mechs[0], 'transform') : undefined;
+    if (!playerT) return;
+
+    // Collectors (the dead collect nothing, and pull nothing in)
+    const collectors = playerDead ? [] : [playerT, ...(mechT ? [mechT] : [])];
+    const touched = playerDead ? new Set<Entity>() : this.physicsCtx.collisions.touching(player);
+    // A tick late, so pickups already collected (and marked) when it was asked are gone
+    const collectAll = this.collectAllPending && !playerDead;
+    if (collectAll) this.collectAllPending = false;
+
+    for (const entity of world.query('pickup', 'transform', 'physicsBody')) {
+      const pickup = world.getComponent(entity, 'pickup');
+      const t = world.getComponent(entity, 'transform');
+      if (!pickup || !t) continue;
+
+      const nearMech = !playerDead && mechT !== undefined
+        && Math.hypot(mechT.x - t.x, mechT.y - t.y) < MECH_COLLECT_RADIUS;
+      if (touched.has(entity) || nearMech || collectAll) {
+        this.collect(world, player, pickup, t);
+        this.entityManager.markForDestruction(entity);
+        continue;
+      }
+
+      pickup.lifetime -= dt;
+      if (pickup.lifetime <= 0) {
+        this.entityManager.markForDestruction(entity);
+        continue;
+      }
+      const sprite = world.getComponent(entity, 'sprite');
+      if (sprite) {
+        sprite.displayObject.alpha = pickup.lifetime < BLINK_TIME
+          && Math.floor(pickup.lifetime * BLINK_RATE * 2) % 2 === 0 ? 0.3 : 1;
+      }
+
+      this.attract(world, entity, pickup, t, collectors);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Helpers
+  // -------------------------------------------------------------------------
+
+  /** Home in on the nearest collector once one is in range. */
+  private attract(
+    world: World,
+    entity: Entity,
+    pickup: PickupComponent,
+    t: TransformComponent,
+    collectors: readonly TransformComponent[],
+  ): void {
+    let target: TransformComponent | null = null;
+    let best = pickup.magnetized ? Infinity : MAGNET_RADIUS;
+    for (const c of collectors) {
+      const d = Math.hypot(c.x - t.x, c.y - t.y);
+      if (d < best) {
+        best = d;
+        target = c;
+      }
+    }
+    if (!target || best < 1) return;
+
+    const pb = world.getComponent(entity, 'physicsBody');
+    const body = pb ? this.physicsCtx.world.getRigidBody(pb.bodyHandle) : null;
+    if (!body) return;
+
+    if (!pickup.magnetized) {
+      pickup.magnetized = true;
+      body.setGravityScale(0, true);
+      // Let it through walls: the solid collider stops reacting to terrain
+      for (let i = 0; i < body.numColliders(); i++) {
+        const collider = body.collider(i);
+        if (layerOfGroups(collider.collisionGroups()) === 'loot') collider.setSensor(true);
+      }
+    }
+    const scale = MAGNET_SPEED / pixelsToMeters(best);
+    body.setLinvel({
+      x: pixelsToMeters(target.x - t.x) * scale,
+      y: pixelsToMeters(target.y - t.y) * scale,
+    }, true);
+  }
+
+  /** Give the player what a pickup holds. */
+  private collect(world: World, player: Entity, pickup: PickupComponent, at: TransformComponent): void {
+    let label: string;
+    switch (pickup.kind) {
+      case 'scrap':
+        addScrap(this.gameState, pickup.amount);
+        this.soundManager.play('pickup-scrap');
+        label = `+${pickup.amount}`;
+        break;
+      case 'health': {
+        const health = world.getComponent(player, 'health');
+        if (health) health.current = Math.min(health.max, health.current + pickup.amount);
+        this.soundManager.play('heal');
+        label = `+${pickup.amount} HP`;
+        break;
+      }
+      case 'shieldCharge':
+        this.gameState.shieldCharge = true;
+        this.soundManager.play('pickup-item');
+        label = 'SHIELD CHARGE';
+        break;
+      case 'repairKit':
+        this.gameState.repairKit = true;
+        this.soundManager.play('pickup-item');
+        label = 'REPAIR KIT';
+        break;
+    }
+    spawnFloatText(this.worldContainer, at.x, at.y - 20, label);
+  }
+}
@@ -11,14 +11,15 @@ import RAPIER from '@dimforge/rapier2d-compat';
 import type { System } from '../core/types.js';
 import type { World } from '../core/world.js';
 import type { PhysicsContext } from '../core/physics.js';
-import type { InputManager } from '../input/input-manager.js';
-import { Action, isActionDown, isActionJustPressed } from '../input/actions.js';
+import { Action, getMoveAxis, isActionDown, isActionJustPressed } from '../input/actions.js';
+import type { InputState } from '../input/actions.js';
 import {
   PLAYER_SPEED, PLAYER_JUMP_IMPULSE,
   WALL_JUMP_IMPULSE_X, WALL_JUMP_IMPULSE_Y, WALL_SLIDE_SPEED,
 } from '../core/constants.js';
 import type { PlayerComponent, AnimationStateComponent } from '../components/index.js';
 import type { SoundManager } from '../audio/sound-manager.js';
+import { collisionGroups } from '../core/collision-layers.js';
 
 // Capsule geometry (metres) -- must match create-player.ts
 const CAPSULE_HALF_HEIGHT = 0.4;
@@ -28,6 +29,10 @@ const CAPSULE_RADIUS = 0.25;
 const GROUND_RAY_LENGTH = CAPSULE_HALF_HEIGHT + CAPSULE_RADIUS + 0.15;
 const WALL_RAY_LENGTH = CAPSULE_RADIUS + 0.15;
 
+/** Rays hit what the player's collider would, ignoring sensors (shots, pickups). */
+const RAY_FLAGS = RAPIER.QueryFilterFlags.EXCLUDE_SENSORS;
+const RAY_GROUPS = collisionGroups('player');
+
 /** Reduced horizontal authority while airborne. */
 const AIR_CONTROL = 0.7;
 
@@ -35,10 +40,10 @@ export class PlayerMovementSystem implements System {
   readonly priority = 10;
 
   private readonly physics: PhysicsContext;
-  private readonly input: InputManager;
+  private readonly input: InputState;
   private readonly soundManager: SoundManager;
 
-  constructor(physicsCtx: PhysicsContext, inputManager: InputManager, soundManager: SoundManager) {
+  constructor(physicsCtx: PhysicsContext, inputManager: InputState, soundManager: SoundManager) {
     this.physics = physicsCtx;
     this.input = inputManager;
     this.soundManager = soundManager;
@@ -78,7 +83,7 @@ export class PlayerMovementSystem implements System {
     const ray = new RAPIER.Ray({ x: pos.x, y: pos.y }, { x: 0, y: 1 });
     const hit = this.physics.world.castRay(
       ray, GROUND_RAY_LENGTH, true,
-      undefined, undefined, selfCollider ?? undefined,
+      RAY_FLAGS, RAY_GROUPS, selfCollider ?? undefined,
     );
 
     if (hit) {
@@ -106,13 +111,13 @@ export class PlayerMovementSystem implements System {
     const exclude = selfCollider ?? undefined;
 
     const rayL = new RAPIER.Ray({ x: pos.x, y: pos.y }, { x: -1, y: 0 });
-    if (this.physics.world.castRay(rayL, WALL_RAY_LENGTH, true, undefined, undefined, exclude)) {
+    if (this.physics.world.castRay(rayL, WALL_RAY_LENGTH, true, RAY_FLAGS, RAY_GROUPS, exclude)) {
       player.wallDirection = -1;
       return;
     }
 
     const rayR = new RAPIER.Ray({ x: pos.x, y: pos.y }, { x: 1, y: 0 });
-    if (this.physics.world.castRay(rayR, WALL_RAY_LENGTH, true, undefined, undefined, exclude)) {
+    if (this.physics.world.castRay(rayR, WALL_RAY_LENGTH, true, RAY_FLAGS, RAY_GROUPS, exclude)) {
       player.wallDirection = 1;
       return;
     }
@@ -120,14 +125,12 @@ export class PlayerMovementSystem implements System {
     player.wallDirection = 0;
   }
 
-  /** Read left/right input -> set horizontal velocity (reduced in air). */
+  /** Read left/right input (keys or stick) -> set horizontal velocity (reduced in air). */
   private applyHorizontalMovement(
     body: RAPIER.RigidBody,
     player: PlayerComponent,
   ): void {
-    let dirX = 0;
-    if (isActionDown(Action.MoveLeft, this.input)) dirX -= 1;
-    if (isActionDown(Action.MoveRight, this.input)) dirX += 1;
+    const dirX = getMoveAxis(this.input);
 
     const control = player.isGrounded ? 1.0 : AIR_CONTROL;
     const targetVx = dirX * PLAYER_SPEED * control;
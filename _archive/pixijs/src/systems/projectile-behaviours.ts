@@ -0,0 +1,204 @@
+/**
+ * Projectile behaviour helpers — homing, ricochets and explosions
+ * (ProjectileBehaviour in combat/weapon-defs.ts), plus the enemy damage
+ * they share with direct hits.
+ * Extracted from ProjectileSystem to keep files under 250 lines.
+ */
+
+import type { Entity } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
+import type { Container } from 'pixi.js';
+import type { SoundManager } from '../audio/sound-manager.js';
+import type { ProjectileComponent, TransformComponent } from '../components/index.js';
+import { bossDamageScale } from '../combat/boss-parts.js';
+import type { StatusEffectChance } from '../combat/status-effects.js';
+import { inflictStatusEffects, statusDamageScale } from '../combat/status-effects.js';
+import { collisionGroups } from '../core/collision-layers.js';
+import { PHYSICS_TIMESTEP } from '../core/constants.js';
+import { spawnExplosion } from '../effects/explosion.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How far a homing shot looks for a target (pixels). */
+const HOMING_RANGE = 350;
+
+/** Rays that only see terrain (for finding the wall a shot hit). */
+const TERRAIN_GROUPS = collisionGroups('playerProjectile', { ignore: ['enemy'] });
+
+/** Distance a ricocheting shot is put back off the wall (m). */
+const RICOCHET_CLEARANCE = 0.05;
+
+/** Fireball colour when the shot has no glow colour of its own. */
+const DEFAULT_EXPLOSION_COLOR = 0xff6600;
+
+// ---------------------------------------------------------------------------
+// Damage
+// ---------------------------------------------------------------------------
+
+/**
+ * Damage a living enemy or boss part (more while armor-broken, scaled
+ * by boss armour or weak point) and, if it survives, roll the hit's
+ * status effects on it.
+ */
+export function damageEnemy(
+  world: World,
+  enemyEntity: Entity,
+  amount: number,
+  effects: readonly StatusEffectChance[],
+): void {
+  const health = world.getComponent(enemyEntity, 'health');
+  if (!health || health.isDead || health.invincibleTimer > 0) return;
+
+  const status = world.getComponent(enemyEntity, 'statusEffects');
+  const scale = statusDamageScale(status) * bossDamageScale(world.getComponent(enemyEntity, 'boss'));
+  health.current = Math.max(0, health.current - amount * scale);
+  if (health.current <= 0) {
+    health.isDead = true;
+  } else if (status) {
+    inflictStatusEffects(status, effects);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Flight
+// ---------------------------------------------------------------------------
+
+/**
+ * Per-tick flight: turn a homing shot toward the nearest enemy, and keep
+ * any shot whose path curves (homing, arcing) pointing where it goes.
+ */
+export function steer(
+  world: World,
+  physicsCtx: PhysicsContext,
+  entity: Entity,
+  proj: ProjectileComponent,
+  dt: number,
+): void {
+  const { homing, gravity } = proj.behaviour;
+  if (!homing && !gravity) return;
+  const pb = world.getComponent(entity, 'physicsBody');
+  const t = world.getComponent(entity, 'transform');
+  const body = pb ? physicsCtx.world.getRigidBody(pb.bodyHandle) : null;
+  if (!body || !t) return;
+
+  let v = body.linvel();
+  const target = homing ? nearestEnemy(world, t) : null;
+  if (homing && target) {
+    const heading = Math.atan2(v.y, v.x);
+    // Shortest signed turn to the target, capped by the turn rate
+    let turn = Math.atan2(target.y - t.y, target.x - t.x) - heading;
+    turn = Math.atan2(Math.sin(turn), Math.cos(turn));
+    const maxTurn = homing * dt;
+    const angle = heading + Math.max(-maxTurn, Math.min(maxTurn, turn));
+    const speed = Math.hypot(v.x, v.y);
+    v = { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed };
+    body.setLinvel(v, true);
+  }
+  body.setRotation(Math.atan2(v.y, v.x), true);
+}
+
+/** Closest living enemy within HOMING_RANGE, or null. */
+function nearestEnemy(world: World, from: TransformComponent): TransformComponent | null {
+  let best: TransformComponent | null = null;
+  let bestDist = HOMING_RANGE;
+  for (const entity of world.query('enemy', 'transform', 'health')) {
+    if (world.getComponent(entity, 'health')?.isDead) continue;
+    const t = world.getComponent(entity, 'transform');
+    if (!t) continue;
+    const d = Math.hypot(t.x - from.x, t.y - from.y);
+    if (d < bestDist) {
+      bestDist = d;
+      best = t;
+    }
+  }
+  return best;
+}
+
+/**
+ * Bounce a shot off the terrain it just touched: find the wall's
+ * surface by casting back along its path, mirror the velocity about the
+ * surface normal and lift it clear. A shot that clipped a corner the
+ * ray misses turns straight back.
+ */
+export function ricochet(world: World, physicsCtx: PhysicsContext, entity: Entity): void {
+  const pb = world.getComponent(entity, 'physicsBody');
+  const body = pb ? physicsCtx.world.getRigidBody(pb.bodyHandle) : null;
+  if (!body) return;
+
+  const v = body.linvel();
+  const speed = Math.hypot(v.x, v.y);
+  if (speed === 0) return;
+  const dir = { x: v.x / speed, y: v.y / speed };
+
+  // Start a couple of steps back so the ray begins outside the wall
+  const back = speed * PHYSICS_TIMESTEP * 2;
+  const pos = body.translation();
+  const origin = { x: pos.x - dir.x * back, y: pos.y - dir.y * back };
+  const hit = physicsCtx.world.castRayAndGetNormal(
+    new physicsCtx.rapier.Ray(origin, dir),
+    back * 2,
+    true,
+    physicsCtx.rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+    TERRAIN_GROUPS,
+  );
+
+  let out = { x: -v.x, y: -v.y };
+  if (hit) {
+    const n = hit.normal;
+    const dot = v.x * n.x + v.y * n.y;
+    out = { x: v.x - 2 * dot * n.x, y: v.y - 2 * dot * n.y };
+    const toi = hit.timeOfImpact;
+    body.setTranslation({
+      x: origin.x + dir.x * toi + n.x * RICOCHET_CLEARANCE,
+      y: origin.y + dir.y * toi + n.y * RICOCHET_CLEARANCE,
+    }, true);
+  }
+  body.setLinvel(out, true);
+  body.setRotation(Math.atan2(out.y, out.x), true);
+}
+
+// ---------------------------------------------------------------------------
+// Explosions
+// ---------------------------------------------------------------------------
+
+/**
+ * Detonate an explosive shot at its position: every living enemy and
+ * boss part in the blast takes the shot's damage (and status effects),
+ * falling off linearly to the explosion's `falloff` at the edge.
+ *
+ * @param direct - enemy the shot struck, which takes full damage
+ * @param spared - enemy whose shield took the hit, which takes none
+ */
+export function explode(
+  world: World,
+  worldContainer: Container,
+  soundManager: SoundManager,
+  entity: Entity,
+  proj: ProjectileComponent,
+  direct?: Entity,
+  spared?: Entity,
+): void {
+  const explosion = proj.behaviour.explosion;
+  const t = world.getComponent(entity, 'transform');
+  if (!explosion || !t) return;
+
+  spawnExplosion(worldContainer, t.x, t.y, explosion.radius, proj.glowColor ?? DEFAULT_EXPLOSION_COLOR);
+  soundManager.play('explosion');
+
+  const targets = [
+    ...world.query('enemy', 'transform', 'health'),
+    ...world.query('bossPart', 'transform', 'health'),
+  ];
+  for (const enemy of targets) {
+    if (enemy === spared) continue;
+    const et = world.getComponent(enemy, 'transform');
+    if (!et) continue;
+    const dist = enemy === direct ? 0 : Math.hypot(et.x - t.x, et.y - t.y);
+    if (dist > explosion.radius) continue;
+    const scale = 1 - (1 - explosion.falloff) * (dist / explosion.radius);
+    damageEnemy(world, enemy, proj.damage * scale, proj.effects);
+  }
+}
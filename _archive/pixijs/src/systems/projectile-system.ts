@@ -1,153 +1,249 @@
 /**
- * ProjectileSystem -- manages projectile lifetime and hit detection.
+ * ProjectileSystem -- manages projectile lifetime and hit resolution.
  *
  * Priority 35: runs after WeaponSystem (30) so newly-spawned projectiles
  * get at least one frame before being processed.
  *
- * Hit detection uses a simple pixel-distance check rather than Rapier
- * sensor events to keep the implementation straightforward.
+ * Hits come from Rapier: PhysicsSystem records the collision events of
+ * each step in `physicsCtx.collisions`, and this system resolves every
+ * pair that started touching a projectile. Collision layers (see
+ * collision-layers.ts) already limit what a shot can touch, so the
+ * other entity is a target of the opposing side or terrain:
+ *   - enemy:   damaged (more while armor-broken) and given the shot's
+ *              status effects, unless a shielder blocks it from that
+ *              side or a reflecting elite sends it back at the player
+ *   - boss part: damaged like an enemy (BossPartSystem breaks it)
+ *   - player:  damaged, with hit invincibility
+ *   - terrain: the shot stops at the wall
+ *
+ * The weapon's ProjectileBehaviour (combat/weapon-defs.ts) changes that:
+ * explosive shots detonate on impact or expiry and damage everything in
+ * the blast, piercing shots carry on through enemies, bouncing shots
+ * ricochet off terrain, and homing or arcing shots are steered each tick
+ * (see projectile-behaviours.ts).
  *
  * Entity destruction is delegated to the centralised EntityManager,
  * which processes the destroy queue at the start of each frame.
  */
 
-import type { System } from '../core/types.js';
+import type { System, Entity } from '../core/types.js';
 import type { World } from '../core/world.js';
+import type { PhysicsContext } from '../core/physics.js';
 import type { EntityManager } from '../core/entity-manager.js';
+import type { CollisionPair } from '../core/collision-events.js';
 import type { SoundManager } from '../audio/sound-manager.js';
-
-/** Distance in pixels at which a projectile "hits" an enemy. */
-const HIT_DISTANCE = 15;
-
-/** Larger hit distance for boss laser beams (tall, wide). */
-const BOSS_LASER_HIT_DISTANCE = 30;
+import type { Container } from 'pixi.js';
+import type { ProjectileComponent } from '../components/index.js';
+import type { ProjectileStyle } from '../combat/weapon-defs.js';
+import { hasAffix } from '../components/index.js';
+import { BB_SHIELD_RAISED, facingOf } from '../ai/enemy-ai-context.js';
+import { AFFIX_DEFS } from '../combat/elite-affixes.js';
+import { damageEnemy, explode, ricochet, steer } from './projectile-behaviours.js';
+import { createProjectileEntity } from '../entities/create-projectile.js';
+import { gameRandom } from '../core/rng.js';
+
+/** Invincibility granted to the player after a projectile hit (seconds). */
+const PLAYER_HIT_INVINCIBILITY = 1.0;
+
+/** Chance a reflecting elite sends a shot back instead of taking it. */
+const REFLECT_CHANCE = 0.4;
+
+/** Look of a reflected shot. */
+const REFLECTED_STYLE: ProjectileStyle = {
+  coreColor: 0xffffff,
+  glowColor: AFFIX_DEFS.reflecting.color,
+  width: 10,
+  height: 3,
+};
 
 export class ProjectileSystem implements System {
   readonly priority = 35;
 
+  private readonly physicsCtx: PhysicsContext;
   private readonly entityManager: EntityManager;
   private readonly soundManager: SoundManager;
+  private readonly worldContainer: Container;
 
   /**
-   * @param entityManager - centralised manager for deferred entity destruction
-   * @param soundManager  - audio manager for deflect sound
+   * @param physicsCtx     - physics context whose collision events are read
+   * @param entityManager  - centralised manager for deferred entity destruction
+   * @param soundManager   - audio manager for hit / deflect sounds
+   * @param worldContainer - PixiJS container for reflected shots
    */
-  constructor(entityManager: EntityManager, soundManager: SoundManager) {
+  constructor(
+    physicsCtx: PhysicsContext,
+    entityManager: EntityManager,
+    soundManager: SoundManager,
+    worldContainer: Container,
+  ) {
+    this.physicsCtx = physicsCtx;
     this.entityManager = entityManager;
     this.soundManager = soundManager;
+    this.worldContainer = worldContainer;
   }
 
   /**
-   * Each frame: (1) decrement lifetimes, (2) check for enemy hits,
+   * Each tick: (1) decrement lifetimes, (2) resolve this step's hits,
    * and queue expired / hit projectiles for destruction via EntityManager.
    *
    * @param world - the ECS world to query / mutate
-   * @param dt    - elapsed time since last frame (seconds)
+   * @param dt    - elapsed time since last tick (seconds)
    */
   update(world: World, dt: number): void {
-    const projectiles = world.query('projectile', 'transform', 'physicsBody');
+    /** Projectiles already used up this tick (expired or hit something). */
+    const spent = new Set<Entity>();
 
-    // Gather enemy data once for all projectile hit checks
-    const enemies = world.query('enemy', 'transform');
-
-    for (const entity of projectiles) {
+    // 1. Decrement lifetime; queue for destruction if expired (explosive
+    //    shots detonate where they are), otherwise steer
+    for (const entity of world.query('projectile')) {
       const proj = world.getComponent(entity, 'projectile');
-      const projTransform = world.getComponent(entity, 'transform');
-      if (!proj || !projTransform) continue;
-
-      // 1. Decrement lifetime; queue for destruction if expired
+      if (!proj) continue;
       proj.lifetime -= dt;
       if (proj.lifetime <= 0) {
+        explode(world, this.worldContainer, this.soundManager, entity, proj);
         this.entityManager.markForDestruction(entity);
-        continue;
+        spent.add(entity);
+      } else {
+        steer(world, this.physicsCtx, entity, proj, dt);
       }
+    }
 
-      // 2a. Boss-owned projectiles skip enemy hit loop (only target player)
-      const ownerBoss = world.getComponent(proj.ownerEntity, 'boss');
-      if (ownerBoss) {
-        this.checkBossProjectileHit(world, entity, proj, projTransform);
-        continue;
-      }
+    // 2. Resolve collisions that started during this step. Parts ride on
+    //    their boss, so a shot that reached both in one step hits the part
+    const started = this.physicsCtx.collisions.started;
+    const onPart = ({ a, b }: CollisionPair): boolean =>
+      !!(world.getComponent(a, 'bossPart') || world.getComponent(b, 'bossPart'));
+    for (const { a, b } of [...started.filter(onPart), ...started.filter((pair) => !onPart(pair))]) {
+      if (world.getComponent(a, 'projectile')) this.resolveHit(world, a, b, spent);
+      else if (world.getComponent(b, 'projectile')) this.resolveHit(world, b, a, spent);
+    }
+  }
+
+  /**
+   * Apply one projectile's contact with another entity. A projectile
+   * stops at the first thing it hits unless it pierces or ricochets.
+   */
+  private resolveHit(
+    world: World,
+    projectileEntity: Entity,
+    other: Entity,
+    spent: Set<Entity>,
+  ): void {
+    const proj = world.getComponent(projectileEntity, 'projectile');
+    if (!proj || spent.has(projectileEntity) || other === proj.ownerEntity) return;
+
+    if (world.getComponent(other, 'player')) {
+      // Passes through while the player is invincible
+      if (!this.hitPlayer(world, other, proj)) return;
+    } else if (world.getComponent(other, 'enemy') || world.getComponent(other, 'bossPart')) {
+      if (!this.hitEnemy(world, projectileEntity, other, proj)) return;
+    } else if (proj.bouncesLeft > 0) {
+      // Terrain: bouncing shots ricochet off it...
+      proj.bouncesLeft--;
+      ricochet(world, this.physicsCtx, projectileEntity);
+      this.soundManager.play('ricochet');
+      return;
+    } else {
+      // ...the rest stop there (exploding if explosive)
+      explode(world, this.worldContainer, this.soundManager, projectileEntity, proj);
+    }
+
+    spent.add(projectileEntity);
+    this.entityManager.markForDestruction(projectileEntity);
+  }
 
-      // 2b. Check proximity-based hit against enemies
-      for (const enemyEntity of enemies) {
-        const enemyTransform = world.getComponent(enemyEntity, 'transform');
-        if (!enemyTransform) continue;
-
-        // Skip the owner entity (no self-damage)
-        if (enemyEntity === proj.ownerEntity) continue;
-
-        const dx = enemyTransform.x - projTransform.x;
-        const dy = enemyTransform.y - projTransform.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-
-        if (dist < HIT_DISTANCE) {
-          // Check shielder shield: block projectile if hitting shielded side
-          const enemy = world.getComponent(enemyEntity, 'enemy');
-          if (enemy && enemy.enemyType === 'shielder' && enemy.state !== 'idle') {
-            // Projectile approaching from left: dx > 0 (enemy right of proj)
-            // Shield direction 1 = facing right, -1 = facing left
-            const approachFromRight = dx < 0;
-            const approachFromLeft = dx > 0;
-            const shieldBlocksRight = enemy.shieldDirection === 1 && approachFromLeft;
-            const shieldBlocksLeft = enemy.shieldDirection === -1 && approachFromRight;
-
-            if (shieldBlocksRight || shieldBlocksLeft) {
-              // Deflected! Destroy projectile, no damage
-              this.entityManager.markForDestruction(entity);
-              this.soundManager.play('shield-break');
-              break;
-            }
-          }
-
-          // Apply damage if the enemy has a health component
-          const health = world.getComponent(enemyEntity, 'health');
-          if (health && !health.isDead && health.invincibleTimer <= 0) {
-            health.current = Math.max(0, health.current - proj.damage);
-            if (health.current <= 0) {
-              health.isDead = true;
-            }
-          }
-
-          // Queue projectile for destruction (it has hit something)
-          this.entityManager.markForDestruction(entity);
-          break; // one projectile can only hit one enemy
-        }
+  /**
+   * Damage an enemy and apply the shot's status effects, unless its
+   * shield faces the incoming shot or it reflects it. Explosive shots
+   * detonate on it instead (a raised shield still covers its bearer).
+   * @returns whether the shot is used up (false if it pierces on)
+   */
+  private hitEnemy(
+    world: World,
+    projectileEntity: Entity,
+    enemyEntity: Entity,
+    proj: ProjectileComponent,
+  ): boolean {
+    // Raised shield (shielders): block the projectile if it hits the shielded side
+    const bt = world.getComponent(enemyEntity, 'behaviourTree');
+    if (bt && bt.blackboard.get(BB_SHIELD_RAISED) === true) {
+      // Travel direction tells the side it came from (the bolt may
+      // already be past the enemy's centre after this step)
+      const vx = this.velocityX(world, projectileEntity);
+      const facing = facingOf(bt.blackboard);
+      const shieldBlocksRight = facing === 1 && vx > 0;
+      const shieldBlocksLeft = facing === -1 && vx < 0;
+
+      if (shieldBlocksRight || shieldBlocksLeft) {
+        // Deflected! No damage to it, though an explosive shot still bursts on the shield
+        this.soundManager.play('shield-break');
+        explode(
+          world, this.worldContainer, this.soundManager, projectileEntity, proj, undefined, enemyEntity,
+        );
+        return true;
       }
+    }
+
+    // Reflecting elites: some shots come straight back, now hostile
+    if (hasAffix(world.getComponent(enemyEntity, 'elite'), 'reflecting') && gameRandom() < REFLECT_CHANCE) {
+      this.reflect(world, projectileEntity, enemyEntity, proj);
+      return true;
+    }
+
+    if (proj.behaviour.explosion) {
+      explode(world, this.worldContainer, this.soundManager, projectileEntity, proj, enemyEntity);
+      return true;
+    }
 
-      // (Boss projectile → player check handled above via early continue)
+    damageEnemy(world, enemyEntity, proj.damage, proj.effects);
+    if (proj.pierceLeft > 0) {
+      proj.pierceLeft--;
+      return false;
     }
+    return true;
   }
 
   /**
-   * Check if a boss-owned projectile hits the player.
-   * Uses a larger hit distance for the wide laser beam.
+   * Damage the player with a hostile shot.
+   * @returns false if the player is dead or invincible (no hit)
    */
-  private checkBossProjectileHit(
+  private hitPlayer(world: World, playerEntity: Entity, proj: ProjectileComponent): boolean {
+    const health = world.getComponent(playerEntity, 'health');
+    if (!health || health.isDead || health.invincibleTimer > 0) return false;
+
+    health.current = Math.max(0, health.current - proj.damage);
+    if (health.current <= 0) health.isDead = true;
+    health.invincibleTimer = PLAYER_HIT_INVINCIBILITY;
+    this.soundManager.play('hit');
+    return true;
+  }
+
+  /** Fire a copy of a shot back the way it came, owned by the enemy it hit. */
+  private reflect(
     world: World,
-    projectileEntity: number,
-    proj: { damage: number },
-    projTransform: { x: number; y: number },
+    projectileEntity: Entity,
+    enemyEntity: Entity,
+    proj: ProjectileComponent,
   ): void {
-    const players = world.query('player', 'transform', 'health');
-
-    for (const playerEntity of players) {
-      const pt = world.getComponent(playerEntity, 'transform');
-      const ph = world.getComponent(playerEntity, 'health');
-      if (!pt || !ph || ph.isDead || ph.invincibleTimer > 0) continue;
-
-      const dx = pt.x - projTransform.x;
-      const dy = pt.y - projTransform.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-
-      if (dist < BOSS_LASER_HIT_DISTANCE) {
-        ph.current = Math.max(0, ph.current - proj.damage);
-        if (ph.current <= 0) ph.isDead = true;
-        ph.invincibleTimer = 1.0;
-        this.entityManager.markForDestruction(projectileEntity);
-        this.soundManager.play('hit');
-        break;
-      }
-    }
+    const t = world.getComponent(projectileEntity, 'transform');
+    const v = this.velocity(world, projectileEntity);
+    if (!t) return;
+    createProjectileEntity(
+      world, this.physicsCtx, this.worldContainer,
+      t.x, t.y, -v.x, -v.y, proj.damage, enemyEntity, REFLECTED_STYLE,
+    );
+    this.soundManager.play('shield-break');
+  }
+
+  /** Horizontal velocity of a projectile's body (m/s), 0 if it has none. */
+  private velocityX(world: World, entity: Entity): number {
+    return this.velocity(world, entity).x;
+  }
+
+  /** Velocity of an entity's body (m/s), zero if it has none. */
+  private velocity(world: World, entity: Entity): { x: number; y: number } {
+    const pb = world.getComponent(entity, 'physicsBody');
+    const body = pb ? this.physicsCtx.world.getRigidBody(pb.bodyHandle) : null;
+    return body ? body.linvel() : { x: 0, y: 0 };
   }
 }
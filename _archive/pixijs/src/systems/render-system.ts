@@ -7,14 +7,17 @@
  * Responsibilities:
  *   1. Query all entities with ['transform', 'sprite'] components.
  *   2. Copy position, rotation, and scale from TransformComponent to the
- *      SpriteComponent's PixiJS displayObject.
+ *      SpriteComponent's PixiJS displayObject. Position and rotation are
+ *      interpolated between the last two fixed ticks using the scheduler's
+ *      alpha, so motion stays smooth when frame rate != tick rate.
  *   3. Auto-add new display objects to the stage container and remove
  *      stale ones when entities are destroyed.
  */
 
 import type { Container } from 'pixi.js';
-import type { System, Entity } from '../core/types.js';
+import type { System, Entity, FrameTiming } from '../core/types.js';
 import type { World } from '../core/world.js';
+import { interpolatePosition } from '../components/index.js';
 
 export class RenderSystem implements System {
   /** Runs late so all transforms are finalised before rendering. */
@@ -30,12 +33,17 @@ export class RenderSystem implements System {
    */
   private readonly entityDisplayObjects = new Map<Entity, Container>();
 
+  /** Interpolation source; null renders the latest tick as-is. */
+  private readonly timing: FrameTiming | null;
+
   /**
-   * @param stage - the PixiJS Container (typically worldContainer) to
-   *                which sprite display objects are added
+   * @param stage  - the PixiJS Container (typically worldContainer) to
+   *                 which sprite display objects are added
+   * @param timing - scheduler timing for tick interpolation
    */
-  constructor(stage: Container) {
+  constructor(stage: Container, timing: FrameTiming | null = null) {
     this.stage = stage;
+    this.timing = timing;
   }
 
   /**
@@ -61,10 +69,11 @@ export class RenderSystem implements System {
         this.entityDisplayObjects.set(entity, sprite.displayObject);
       }
 
-      // Sync position from ECS transform -> PixiJS display object
-      sprite.displayObject.x = transform.x;
-      sprite.displayObject.y = transform.y;
-      sprite.displayObject.rotation = transform.rotation;
+      // Sync interpolated position from ECS transform -> PixiJS display object
+      const pose = interpolatePosition(transform, this.timing?.alpha ?? 1);
+      sprite.displayObject.x = pose.x;
+      sprite.displayObject.y = pose.y;
+      sprite.displayObject.rotation = pose.rotation;
 
       // Sync scale
       sprite.displayObject.scale.x = transform.scaleX;
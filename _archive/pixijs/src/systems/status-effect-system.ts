@@ -0,0 +1,47 @@
+/**
+ * StatusEffectSystem — runs the status effects on every entity that has
+ * them (combat/status-effects.ts).
+ *
+ * Priority 38: after ProjectileSystem (35) has applied this tick's new
+ * effects, before DamageSystem (40) so anything burned to death drops
+ * its loot the same tick.
+ *
+ * Each tick it deals damage-over-time and counts effects down, removing
+ * them when they run out. Stun and slow are read by EnemyAISystem and
+ * armor break by ProjectileSystem; this system only keeps time.
+ */
+
+import type { System } from '../core/types.js';
+import type { World } from '../core/world.js';
+import { STATUS_EFFECT_DEFS } from '../combat/status-effects.js';
+import { bossDamageScale } from '../combat/boss-parts.js';
+
+export class StatusEffectSystem implements System {
+  readonly priority = 38;
+
+  update(world: World, dt: number): void {
+    for (const entity of world.query('statusEffects', 'health')) {
+      const status = world.getComponent(entity, 'statusEffects');
+      const health = world.getComponent(entity, 'health');
+      if (!status || !health || status.active.length === 0) continue;
+
+      // The dead keep nothing (and stop glowing)
+      if (health.isDead) {
+        status.active = [];
+        continue;
+      }
+
+      // Boss armour soaks burns too
+      const armor = bossDamageScale(world.getComponent(entity, 'boss'));
+      for (const effect of status.active) {
+        const dps = STATUS_EFFECT_DEFS[effect.id].dps ?? 0;
+        if (dps > 0) {
+          health.current = Math.max(0, health.current - dps * effect.stacks * armor * dt);
+          if (health.current <= 0) health.isDead = true;
+        }
+        effect.remaining -= dt;
+      }
+      status.active = status.active.filter((e) => e.remaining > 0);
+    }
+  }
+}
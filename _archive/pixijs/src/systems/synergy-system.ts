@@ -0,0 +1,99 @@
+/**
+ * SynergySystem — keeps each mech weapon's synergy bonuses in step with
+ * the loadout (combat/synergy-engine.ts).
+ *
+ * Priority 25: after MechFollowSystem (20) and before WeaponSystem (30),
+ * so a shot fired this tick already has the bonuses.
+ *
+ * The loadout can change mid-level (a shield charge is used up, a
+ * pickup grants a repair kit), so the rules are re-evaluated every tick.
+ * When the active set changes the weapon's stats are rebuilt from its
+ * upgraded base (economy/upgrade-logic.ts) plus the new bonuses. First
+ * time discoveries are written to the Codex and announced over the mech.
+ */
+
+import type { Container } from 'pixi.js';
+import type { System } from '../core/types.js';
+import type { World } from '../core/world.js';
+import type { GameState } from '../core/game-state.js';
+import type { SoundManager } from '../audio/sound-manager.js';
+import type { WeaponComponent, TransformComponent } from '../components/index.js';
+import type { SynergyDef, SynergyId } from '../combat/synergy-defs.js';
+import {
+  activeSynergies,
+  applySynergies,
+  discoverSynergies,
+  loadoutOf,
+} from '../combat/synergy-engine.js';
+import { getWeaponStats } from '../economy/upgrade-logic.js';
+import { spawnFloatText } from '../ui/float-text.js';
+
+/** Height above the mech of the discovery announcement (pixels). */
+const ANNOUNCE_OFFSET_Y = 40;
+
+/** Vertical spacing between several announcements made at once (pixels). */
+const ANNOUNCE_SPACING = 18;
+
+export class SynergySystem implements System {
+  readonly priority = 25;
+
+  private readonly gameState: GameState;
+  private readonly worldContainer: Container;
+  private readonly soundManager: SoundManager;
+
+  /**
+   * @param gameState      - loadout source and Codex
+   * @param worldContainer - PixiJS container for announcements
+   * @param soundManager   - audio manager for the discovery sound
+   */
+  constructor(gameState: GameState, worldContainer: Container, soundManager: SoundManager) {
+    this.gameState = gameState;
+    this.worldContainer = worldContainer;
+    this.soundManager = soundManager;
+  }
+
+  update(world: World, _dt: number): void {
+    for (const entity of world.query('mech', 'weapon', 'transform')) {
+      const weapon = world.getComponent(entity, 'weapon');
+      const t = world.getComponent(entity, 'transform');
+      if (!weapon || !t) continue;
+
+      const synergies = activeSynergies(loadoutOf(this.gameState, weapon.weaponId));
+      if (sameIds(synergies, weapon.synergies)) continue;
+
+      this.applyTo(weapon, synergies);
+      const found = discoverSynergies(this.gameState, synergies);
+      if (found.length > 0) this.announce(found, t);
+    }
+  }
+
+  /** Rebuild the weapon's stats from its upgraded base plus the bonuses. */
+  private applyTo(weapon: WeaponComponent, synergies: readonly SynergyDef[]): void {
+    const base = getWeaponStats(weapon.weaponId, this.gameState.weaponUpgrades[weapon.weaponId]);
+    const stats = applySynergies(base, synergies);
+    weapon.damage = stats.damage;
+    weapon.fireRate = stats.fireRate;
+    weapon.range = stats.range;
+    weapon.projectileSpeed = stats.projectileSpeed;
+    weapon.projectileCount = stats.projectileCount;
+    weapon.behaviour = stats.behaviour;
+    weapon.effects = stats.effects;
+    weapon.synergies = synergies.map((def) => def.id);
+  }
+
+  private announce(found: readonly SynergyDef[], at: TransformComponent): void {
+    this.soundManager.play('powerup');
+    found.forEach((def, i) => {
+      spawnFloatText(
+        this.worldContainer, at.x, at.y - ANNOUNCE_OFFSET_Y - i * ANNOUNCE_SPACING,
+        `SYNERGY DISCOVERED: ${def.name}`,
+      );
+    });
+  }
+}
+
+/** Whether the active synergies are exactly the ones already applied. */
+function sameIds(synergies: readonly SynergyDef[], applied: readonly SynergyId[]): boolean {
+  return synergies.length === applied.length
+    && synergies.every((def, i) => def.id === applied[i]);
+}
@@ -1,6 +1,8 @@
 /**
- * WeaponSystem – the mech companion auto-fires projectiles at the
- * nearest enemy within range.
+ * WeaponSystem – fires the mech companion's weapon. Targeting depends
+ * on the mech's mode: in orbit mode it auto-fires at the nearest enemy
+ * within range; in manual mode it fires along the player's aim while
+ * Action.Fire is held.
  *
  * Priority 30: runs after MechFollowSystem (20) so the mech's
  * position is finalised before projectile spawn points are computed.
@@ -10,9 +12,21 @@ import type { System, Entity } from '../core/types.js';
 import type { World } from '../core/world.js';
 import type { PhysicsContext } from '../core/physics.js';
 import type { Container } from 'pixi.js';
+import type { MechComponent, TransformComponent } from '../components/index.js';
 import { createProjectileEntity } from '../entities/create-projectile.js';
 import { getWeaponDef } from '../combat/weapon-defs.js';
 import type { SoundManager } from '../audio/sound-manager.js';
+import { Action, isActionDown } from '../input/actions.js';
+import type { InputState } from '../input/actions.js';
+
+/** Angle between neighbouring projectiles of a multi-shot volley (radians). */
+const SPREAD_ANGLE = 0.12;
+
+/** Unit vector a shot travels along. */
+interface AimDirection {
+  x: number;
+  y: number;
+}
 
 export class WeaponSystem implements System {
   readonly priority = 30;
@@ -20,21 +34,29 @@ export class WeaponSystem implements System {
   private readonly physicsCtx: PhysicsContext;
   private readonly worldContainer: Container;
   private readonly soundManager: SoundManager;
+  private readonly input: InputState;
 
   /**
    * @param physicsCtx     - shared physics context for projectile creation
    * @param worldContainer - PixiJS container for projectile visuals
    * @param soundManager   - audio manager for firing sounds
+   * @param input          - player input (manual-mode fire button)
    */
-  constructor(physicsCtx: PhysicsContext, worldContainer: Container, soundManager: SoundManager) {
+  constructor(
+    physicsCtx: PhysicsContext,
+    worldContainer: Container,
+    soundManager: SoundManager,
+    input: InputState,
+  ) {
     this.physicsCtx = physicsCtx;
     this.worldContainer = worldContainer;
     this.soundManager = soundManager;
+    this.input = input;
   }
 
   /**
-   * Each frame, decrement cooldowns and fire at the nearest enemy
-   * for every mech entity with a weapon.
+   * Each frame, decrement cooldowns and fire for every mech entity
+   * with a weapon, aiming according to its mode.
    *
    * @param world - the ECS world to query / mutate
    * @param dt    - elapsed time since last frame (seconds)
@@ -43,56 +65,45 @@ export class WeaponSystem implements System {
     const mechs = world.query('mech', 'weapon', 'transform');
 
     for (const entity of mechs) {
+      const mech = world.getComponent(entity, 'mech');
       const weapon = world.getComponent(entity, 'weapon');
       const mechTransform = world.getComponent(entity, 'transform');
-      if (!weapon || !mechTransform) continue;
+      if (!mech || !weapon || !mechTransform) continue;
 
       // Decrement cooldown timer
       weapon.cooldownTimer -= dt;
       if (weapon.cooldownTimer > 0) continue;
 
-      // Find the nearest enemy within weapon range (pixels)
-      const target = this.findNearestEnemy(
-        world,
-        mechTransform.x,
-        mechTransform.y,
-        weapon.range,
-      );
-      if (target === null) continue;
-
-      const enemyTransform = world.getComponent(target, 'transform');
-      if (!enemyTransform) continue;
-
-      // Compute direction from mech to enemy (in pixels)
-      const dx = enemyTransform.x - mechTransform.x;
-      const dy = enemyTransform.y - mechTransform.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-
-      // Avoid division by zero for overlapping positions
-      if (dist < 1) continue;
-
-      // Normalise direction and scale to projectile speed (m/s)
-      const dirX = dx / dist;
-      const dirY = dy / dist;
-      const vx = dirX * weapon.projectileSpeed;
-      const vy = dirY * weapon.projectileSpeed;
+      const dir = mech.mode === 'manual'
+        ? this.manualAim(mech)
+        : this.autoAim(world, mechTransform, weapon.range);
+      if (!dir) continue;
 
-      // Look up the weapon definition for projectile visual style
+      // Look up the weapon definition for projectile style
       const wdef = getWeaponDef(weapon.weaponId);
 
-      // Spawn the projectile at the mech's current position
-      createProjectileEntity(
-        world,
-        this.physicsCtx,
-        this.worldContainer,
-        mechTransform.x,
-        mechTransform.y,
-        vx,
-        vy,
-        weapon.damage,
-        entity,
-        wdef.style,
-      );
+      // Fan the volley evenly around the aim, SPREAD_ANGLE apart
+      for (let i = 0; i < weapon.projectileCount; i++) {
+        const offset = (i - (weapon.projectileCount - 1) / 2) * SPREAD_ANGLE;
+        const cos = Math.cos(offset);
+        const sin = Math.sin(offset);
+
+        // Spawn the projectile at the mech's current position (velocity in m/s)
+        createProjectileEntity(
+          world,
+          this.physicsCtx,
+          this.worldContainer,
+          mechTransform.x,
+          mechTransform.y,
+          (dir.x * cos - dir.y * sin) * weapon.projectileSpeed,
+          (dir.x * sin + dir.y * cos) * weapon.projectileSpeed,
+          weapon.damage,
+          entity,
+          wdef.style,
+          weapon.effects,
+          weapon.behaviour,
+        );
+      }
 
       this.soundManager.play('laser');
 
@@ -101,8 +112,37 @@ export class WeaponSystem implements System {
     }
   }
 
+  /** Manual mode: the player's aim, only while Fire is held. */
+  private manualAim(mech: MechComponent): AimDirection | null {
+    if (!isActionDown(Action.Fire, this.input)) return null;
+    return { x: Math.cos(mech.aimAngle), y: Math.sin(mech.aimAngle) };
+  }
+
+  /** Orbit mode: toward the nearest enemy in range, or null if none. */
+  private autoAim(
+    world: World,
+    mechTransform: TransformComponent,
+    range: number,
+  ): AimDirection | null {
+    const target = this.findNearestEnemy(world, mechTransform.x, mechTransform.y, range);
+    if (target === null) return null;
+
+    const enemyTransform = world.getComponent(target, 'transform');
+    if (!enemyTransform) return null;
+
+    // Compute direction from mech to enemy (in pixels)
+    const dx = enemyTransform.x - mechTransform.x;
+    const dy = enemyTransform.y - mechTransform.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+
+    // Avoid division by zero for overlapping positions
+    if (dist < 1) return null;
+    return { x: dx / dist, y: dy / dist };
+  }
+
   /**
-   * Find the nearest enemy entity within a pixel-distance range.
+   * Find the nearest enemy entity within a pixel-distance range. Boss
+   * parts count, so auto-aim can pick off a boss's turrets.
    *
    * @param world - the ECS world to query
    * @param x     - origin X (pixels)
@@ -116,7 +156,10 @@ export class WeaponSystem implements System {
     y: number,
     range: number,
   ): Entity | null {
-    const enemies = world.query('enemy', 'transform');
+    const enemies = [
+      ...world.query('enemy', 'transform'),
+      ...world.query('bossPart', 'transform'),
+    ];
     let closest: Entity | null = null;
     let closestDist = range;
 
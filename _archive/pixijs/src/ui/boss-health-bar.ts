@@ -1,6 +1,7 @@
 /**
  * BossHealthBar — large health bar at bottom-centre of screen.
- * Shows boss name "THE WARDEN" above the bar.
+ * Shows the boss's name (its pattern's `name`) above the bar and, for
+ * bosses with destructible parts, a row of part gauges below it.
  * Only visible when a boss entity is alive and activated.
  */
 
@@ -11,6 +12,18 @@ const BAR_WIDTH = 400;
 const BAR_HEIGHT = 24;
 const MARGIN_BOTTOM = 60;
 
+/** Part gauge dimensions and layout (pixels). */
+const PART_WIDTH = 64;
+const PART_HEIGHT = 6;
+const PART_GAP = 12;
+const PART_TOP = BAR_HEIGHT + 6;
+
+/** Part gauge fill and outline. */
+const PART_COLOR = 0xffaa44;
+
+/** Label opacity of a broken part. */
+const BROKEN_ALPHA = 0.4;
+
 const NAME_STYLE = new TextStyle({
   fontFamily: 'monospace',
   fontSize: 18,
@@ -24,6 +37,19 @@ const PHASE_STYLE = new TextStyle({
   fill: 0xcccccc,
 });
 
+const PART_STYLE = new TextStyle({
+  fontFamily: 'monospace',
+  fontSize: 10,
+  fill: 0xcccccc,
+});
+
+/** One boss part's gauge under the bar. */
+export interface BossPartGauge {
+  label: string;
+  /** Share of its health left; 0 once broken. */
+  fraction: number;
+}
+
 export class BossHealthBar {
   /** Top-level container; add to uiContainer for screen-fixed positioning. */
   readonly container: Container;
@@ -33,6 +59,10 @@ export class BossHealthBar {
   private readonly border: Graphics;
   private readonly nameLabel: Text;
   private readonly phaseLabel: Text;
+  private readonly partGauges: Graphics;
+  /** Part labels, created as needed and reused. */
+  private readonly partLabels: Text[] = [];
+
   constructor() {
     this.container = new Container();
     this.container.visible = false;
@@ -51,7 +81,7 @@ export class BossHealthBar {
     this.border.stroke({ color: 0xff4444, width: 2 });
 
     // Boss name label centred above bar
-    this.nameLabel = new Text({ text: 'THE WARDEN', style: NAME_STYLE });
+    this.nameLabel = new Text({ text: '', style: NAME_STYLE });
     this.nameLabel.anchor.set(0.5, 1);
     this.nameLabel.y = -6;
 
@@ -61,9 +91,12 @@ export class BossHealthBar {
     this.phaseLabel.y = -6;
     this.phaseLabel.x = BAR_WIDTH / 2 - 40;
 
+    // Part gauges (redrawn each frame)
+    this.partGauges = new Graphics();
+
     this.container.addChild(
       this.background, this.foreground, this.border, this.nameLabel,
-      this.phaseLabel,
+      this.phaseLabel, this.partGauges,
     );
   }
 
@@ -74,14 +107,24 @@ export class BossHealthBar {
   }
 
   /**
-   * Update bar fill and phase indicator. Makes container visible.
+   * Update name, bar fill, phase indicator and part gauges. Makes
+   * container visible.
    *
-   * @param current - current boss HP
-   * @param max     - max boss HP
-   * @param phase   - current boss phase (1, 2, or 3)
+   * @param name    - boss name label
+   * @param current - current boss HP (with its parts')
+   * @param max     - max boss HP (with its parts')
+   * @param phase   - current boss phase (counting from 1)
+   * @param parts   - gauges of the boss's parts, in pattern order
    */
-  update(current: number, max: number, phase: 1 | 2 | 3 = 1): void {
+  update(
+    name: string,
+    current: number,
+    max: number,
+    phase = 1,
+    parts: readonly BossPartGauge[] = [],
+  ): void {
     this.container.visible = true;
+    this.nameLabel.text = name;
     const ratio = Math.max(0, Math.min(1, current / max));
     const width = ratio * BAR_WIDTH;
 
@@ -97,10 +140,54 @@ export class BossHealthBar {
 
     // Update phase label text and color
     this.phaseLabel.text = `PHASE ${phase}`;
-    if (phase === 3) this.phaseLabel.style.fill = 0xff2222;
+    if (phase >= 3) this.phaseLabel.style.fill = 0xff2222;
     else if (phase === 2) this.phaseLabel.style.fill = 0xffaa44;
     else this.phaseLabel.style.fill = 0xcccccc;
 
+    this.updateParts(parts);
+  }
+
+  /** Redraw the row of part gauges, centred under the bar. */
+  private updateParts(parts: readonly BossPartGauge[]): void {
+    this.partGauges.clear();
+    const rowWidth = parts.length * (PART_WIDTH + PART_GAP) - PART_GAP;
+
+    parts.forEach((part, i) => {
+      const x = -rowWidth / 2 + i * (PART_WIDTH + PART_GAP);
+      const broken = part.fraction <= 0;
+
+      this.partGauges.rect(x, PART_TOP, PART_WIDTH, PART_HEIGHT);
+      this.partGauges.fill(0x222222);
+      if (!broken) {
+        this.partGauges.rect(x, PART_TOP, PART_WIDTH * Math.min(1, part.fraction), PART_HEIGHT);
+        this.partGauges.fill(PART_COLOR);
+      }
+      this.partGauges.rect(x, PART_TOP, PART_WIDTH, PART_HEIGHT);
+      this.partGauges.stroke({ color: broken ? 0x555555 : PART_COLOR, width: 1 });
+
+      const label = this.partLabel(i);
+      label.text = part.label;
+      label.alpha = broken ? BROKEN_ALPHA : 1;
+      label.x = x + PART_WIDTH / 2;
+      label.visible = true;
+    });
+
+    for (let i = parts.length; i < this.partLabels.length; i++) {
+      this.partLabels[i].visible = false;
+    }
+  }
+
+  /** The i-th part label, creating it on first use. */
+  private partLabel(i: number): Text {
+    let label = this.partLabels[i];
+    if (!label) {
+      label = new Text({ text: '', style: PART_STYLE });
+      label.anchor.set(0.5, 0);
+      label.y = PART_TOP + PART_HEIGHT + 2;
+      this.partLabels.push(label);
+      this.container.addChild(label);
+    }
+    return label;
   }
 
   /** Hide the boss health bar. */
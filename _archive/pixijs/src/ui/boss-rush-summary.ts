@@ -0,0 +1,112 @@
+/**
+ * BossRushSummary -- full-screen overlay ending a boss rush: the time of
+ * each fight won, the total, and how it stands against the personal best.
+ * Dismissable via any key press after a short delay, like VictoryScreen.
+ */
+
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import type { BossRushResult } from '../core/boss-rush.js';
+
+const TITLE_STYLE = new TextStyle({
+  fontFamily: 'monospace', fontSize: 32, fill: 0x00ffcc, fontWeight: 'bold',
+});
+const FAILED_TITLE_STYLE = new TextStyle({
+  fontFamily: 'monospace', fontSize: 32, fill: 0xff4444, fontWeight: 'bold',
+});
+const STAT_STYLE = new TextStyle({
+  fontFamily: 'monospace', fontSize: 18, fill: 0xcccccc,
+});
+const BEST_STYLE = new TextStyle({
+  fontFamily: 'monospace', fontSize: 20, fill: 0xffcc33, fontWeight: 'bold',
+});
+const PROMPT_STYLE = new TextStyle({
+  fontFamily: 'monospace', fontSize: 16, fill: 0x888888,
+});
+
+/** Milliseconds before key input is accepted (prevents accidental dismiss). */
+const INPUT_DELAY_MS = 500;
+
+/** Format seconds as M:SS.s (tenths matter when chasing a best). */
+function formatTime(seconds: number): string {
+  // Round first so 59.96 s carries into the minute instead of reading 0:60.0
+  const tenths = Math.round(seconds * 10);
+  const mins = Math.floor(tenths / 600);
+  const secs = ((tenths % 600) / 10).toFixed(1).padStart(4, '0');
+  return `${mins}:${secs}`;
+}
+
+/**
+ * Full-screen boss rush results overlay.
+ * Automatically listens for any keypress; calls onDismiss and self-destructs.
+ */
+export class BossRushSummary {
+  readonly container: Container;
+  private readonly keyHandler: (e: KeyboardEvent) => void;
+
+  constructor(result: BossRushResult, onDismiss: () => void) {
+    this.container = new Container();
+
+    // Semi-transparent dark backdrop (oversized to cover any viewport)
+    const bg = new Graphics();
+    bg.rect(0, 0, 4000, 3000);
+    bg.fill({ color: 0x000000, alpha: 0.75 });
+    this.container.addChild(bg);
+
+    const cx = window.innerWidth / 2;
+    let y = window.innerHeight / 2 - 140;
+    const addLine = (text: string, style: TextStyle, gap: number): void => {
+      const t = new Text({ text, style });
+      t.anchor.set(0.5, 0.5);
+      t.x = cx;
+      t.y = y;
+      this.container.addChild(t);
+      y += gap;
+    };
+
+    if (result.cleared) addLine('BOSS RUSH CLEAR', TITLE_STYLE, 50);
+    else addLine('BOSS RUSH FAILED', FAILED_TITLE_STYLE, 50);
+
+    // One line per fight won
+    result.splits.forEach((split, i) => {
+      addLine(`${i + 1}. ${split.bossName.padEnd(16)} ${formatTime(split.timeSeconds)}`, STAT_STYLE, 30);
+    });
+    if (!result.cleared) {
+      addLine(`${result.splits.length + 1}. Defeated`, STAT_STYLE, 30);
+    }
+    y += 10;
+
+    if (result.cleared) {
+      addLine(`Total: ${formatTime(result.totalSeconds)}`, STAT_STYLE, 36);
+    } else {
+      addLine(`Bosses beaten: ${result.splits.length}/${result.totalFights}`, STAT_STYLE, 36);
+    }
+
+    if (result.newBest) {
+      addLine('NEW PERSONAL BEST!', BEST_STYLE, 36);
+    } else if (result.previousBest !== null) {
+      addLine(`Personal Best: ${formatTime(result.previousBest)}`, STAT_STYLE, 36);
+    }
+
+    // Dismiss prompt
+    y += 20;
+    addLine('PRESS ANY KEY TO CONTINUE', PROMPT_STYLE, 0);
+
+    // Key handler -- delayed to avoid accidental instant dismiss
+    this.keyHandler = () => {
+      window.removeEventListener('keydown', this.keyHandler);
+      this.container.destroy({ children: true });
+      onDismiss();
+    };
+    setTimeout(() => {
+      window.addEventListener('keydown', this.keyHandler, { once: true });
+    }, INPUT_DELAY_MS);
+  }
+
+  /** Remove listener if screen is destroyed externally. */
+  destroy(): void {
+    window.removeEventListener('keydown', this.keyHandler);
+    if (!this.container.destroyed) {
+      this.container.destroy({ children: true });
+    }
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * CodexPanel — the synergy Codex, browsed from the ship's Codex station.
+ *
+ * One entry per synergy. Discovered entries show the name, the recipe
+ * that triggers it and what it does; the rest stay hidden as "???" so
+ * combos are still found by experimenting.
+ */
+
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import type { GameState } from '../core/game-state.js';
+import { ALL_SYNERGY_IDS, SYNERGY_DEFS } from '../combat/synergy-defs.js';
+import type { SynergyId } from '../combat/synergy-defs.js';
+import { describeRequirement, isDiscovered } from '../combat/synergy-engine.js';
+import { centeredText, drawRect, MONO } from './ui-helpers.js';
+
+// ---------------------------------------------------------------------------
+// Layout constants
+// ---------------------------------------------------------------------------
+
+const ENTRY_W = 520;
+const ENTRY_H = 48;
+const ENTRY_GAP = 6;
+const ENTRY_R = 4;
+const PAD = 10;
+const HEADER_H = 22;
+
+const COL_FOUND = 0x1a1a3a;
+const COL_HIDDEN = 0x111122;
+const COL_FOUND_BORDER = 0xcc88ff;
+const COL_HIDDEN_BORDER = 0x444466;
+
+// ---------------------------------------------------------------------------
+// CodexPanel class
+// ---------------------------------------------------------------------------
+
+export class CodexPanel {
+  readonly container: Container;
+  private gameState: GameState;
+
+  constructor(gameState: GameState) {
+    this.gameState = gameState;
+    this.container = new Container();
+
+    const found = ALL_SYNERGY_IDS.filter((id) => isDiscovered(gameState, id)).length;
+    centeredText(this.container, `${found} / ${ALL_SYNERGY_IDS.length} synergies discovered`,
+      new TextStyle({ fontFamily: MONO, fontSize: 11, fill: 0x8866aa }), 0, 0);
+
+    ALL_SYNERGY_IDS.forEach((id, i) => {
+      const entry = this.createEntry(id);
+      entry.x = -ENTRY_W / 2; // centred around container origin
+      entry.y = HEADER_H + i * (ENTRY_H + ENTRY_GAP);
+      this.container.addChild(entry);
+    });
+  }
+
+  /** Total height of the panel (pixels), for laying out text below it. */
+  get height(): number {
+    return HEADER_H + ALL_SYNERGY_IDS.length * (ENTRY_H + ENTRY_GAP);
+  }
+
+  /** Destroy the panel and all children. */
+  destroy(): void {
+    this.container.destroy({ children: true });
+  }
+
+  // -- Internal --
+
+  private createEntry(id: SynergyId): Container {
+    const ctr = new Container();
+    const found = isDiscovered(this.gameState, id);
+    const def = SYNERGY_DEFS[id];
+
+    const bg = new Graphics();
+    drawRect(
+      bg, ENTRY_W, ENTRY_H, ENTRY_R,
+      found ? COL_FOUND : COL_HIDDEN, found ? COL_FOUND_BORDER : COL_HIDDEN_BORDER, 1,
+    );
+    ctr.addChild(bg);
+
+    this.entryText(ctr, found ? def.name : '???', 12, found ? 0xffffff : 0x555577, 6, true);
+    this.entryText(
+      ctr, found ? describeRequirement(def.requires) : 'Undiscovered — try new loadouts',
+      10, found ? 0xcc88ff : 0x555577, 22,
+    );
+    if (found) this.entryText(ctr, def.description, 9, 0x6688aa, 35);
+    return ctr;
+  }
+
+  private entryText(
+    ctr: Container, text: string, fontSize: number, fill: number, y: number, bold = false,
+  ): void {
+    const t = new Text({
+      text,
+      style: new TextStyle({
+        fontFamily: MONO, fontSize, fill, fontWeight: bold ? 'bold' : 'normal',
+      }),
+    });
+    t.x = PAD;
+    t.y = y;
+    ctr.addChild(t);
+  }
+}
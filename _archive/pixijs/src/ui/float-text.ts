@@ -33,6 +33,9 @@ export function spawnFloatText(
   y: number,
   message: string,
 ): void {
+  // Skip when headless: there is no frame loop to animate the popup
+  if (typeof requestAnimationFrame === 'undefined') return;
+
   const text = new Text({ text: message, style: FLOAT_STYLE });
   text.anchor.set(0.5, 0.5);
   text.x = x;
@@ -0,0 +1,209 @@
+/**
+ * KeyBindingsPanel — grid of actions x key slots for rebinding controls.
+ *
+ * Click a slot, then press the new key (Esc cancels, Backspace clears
+ * the slot). Conflicts and reserved keys are refused with a message on
+ * the status line. Every change is saved immediately.
+ */
+
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import { ALL_ACTIONS, KEY_BINDINGS } from '../input/actions.js';
+import type { Action } from '../input/actions.js';
+import {
+  MAX_KEYS_PER_ACTION, formatKeyCode, rebindAction, resetKeyBindings,
+  saveKeyBindings, unbindKey,
+} from '../input/key-bindings.js';
+import { drawRect, MONO } from './ui-helpers.js';
+
+// ---------------------------------------------------------------------------
+// Layout constants
+// ---------------------------------------------------------------------------
+
+const LABEL_W = 130;
+const SLOT_W = 90;
+const SLOT_H = 26;
+const GAP = 8;
+const SLOT_R = 4;
+
+const COL_SLOT = 0x1a1a3a;
+const COL_CAPTURE = 0x2a2a5a;
+const COL_BORDER = 0x00ccff;
+const COL_EMPTY_BORDER = 0x444466;
+const COL_CAPTURE_BORDER = 0xffcc44;
+
+// ---------------------------------------------------------------------------
+// KeyBindingsPanel class
+// ---------------------------------------------------------------------------
+
+interface SlotBtn {
+  bg: Graphics;
+  label: Text;
+  action: Action;
+  slot: number;
+}
+
+export class KeyBindingsPanel {
+  readonly container: Container;
+  private slots: SlotBtn[] = [];
+  private statusText: Text;
+  /** Slot waiting for a key press, if any. */
+  private capturing: SlotBtn | null = null;
+  private handleKey: (e: KeyboardEvent) => void;
+
+  constructor() {
+    this.container = new Container();
+    this.buildGrid();
+
+    const rows = ALL_ACTIONS.length;
+    const totalW = LABEL_W + MAX_KEYS_PER_ACTION * (SLOT_W + GAP);
+    this.statusText = new Text({
+      text: 'Click a slot, then press a key',
+      style: new TextStyle({ fontFamily: MONO, fontSize: 11, fill: 0x5588aa }),
+    });
+    this.statusText.anchor.set(0.5, 0);
+    this.statusText.y = rows * (SLOT_H + GAP) + 6;
+    this.container.addChild(this.statusText);
+
+    this.buildResetButton(-totalW / 2, rows * (SLOT_H + GAP) + 30);
+
+    this.handleKey = (e: KeyboardEvent) => this.onKey(e);
+    // Capture phase: while waiting for a key, swallow it before the
+    // overlay (Esc closes) or ship hotkeys can react to it
+    window.addEventListener('keydown', this.handleKey, true);
+  }
+
+  /** Redraw every slot from the live bindings. */
+  refresh(): void {
+    for (const btn of this.slots) {
+      const code = KEY_BINDINGS[btn.action][btn.slot];
+      const active = btn === this.capturing;
+      btn.label.text = active ? '...' : code ? formatKeyCode(code) : '-';
+      drawRect(
+        btn.bg, SLOT_W, SLOT_H, SLOT_R,
+        active ? COL_CAPTURE : COL_SLOT,
+        active ? COL_CAPTURE_BORDER : code ? COL_BORDER : COL_EMPTY_BORDER, 1,
+      );
+    }
+  }
+
+  /** Remove the key listener and destroy all children. */
+  destroy(): void {
+    window.removeEventListener('keydown', this.handleKey, true);
+    this.container.destroy({ children: true });
+  }
+
+  // -- Internal --
+
+  private buildGrid(): void {
+    const totalW = LABEL_W + MAX_KEYS_PER_ACTION * (SLOT_W + GAP);
+    const startX = -totalW / 2; // centred around container origin
+
+    ALL_ACTIONS.forEach((action, row) => {
+      const y = row * (SLOT_H + GAP);
+      const name = new Text({
+        text: actionLabel(action),
+        style: new TextStyle({ fontFamily: MONO, fontSize: 12, fill: 0xffffff }),
+      });
+      name.anchor.set(0, 0.5);
+      name.x = startX;
+      name.y = y + SLOT_H / 2;
+      this.container.addChild(name);
+
+      for (let slot = 0; slot < MAX_KEYS_PER_ACTION; slot++) {
+        const ctr = new Container();
+        ctr.eventMode = 'static';
+        ctr.cursor = 'pointer';
+        ctr.x = startX + LABEL_W + slot * (SLOT_W + GAP);
+        ctr.y = y;
+        const bg = new Graphics();
+        const label = new Text({
+          text: '',
+          style: new TextStyle({ fontFamily: MONO, fontSize: 11, fill: 0xffffff }),
+        });
+        label.anchor.set(0.5);
+        label.x = SLOT_W / 2;
+        label.y = SLOT_H / 2;
+        ctr.addChild(bg, label);
+        this.container.addChild(ctr);
+
+        const btn: SlotBtn = { bg, label, action, slot };
+        ctr.on('pointertap', () => this.startCapture(btn));
+        this.slots.push(btn);
+      }
+    });
+    this.refresh();
+  }
+
+  private buildResetButton(x: number, y: number): void {
+    const ctr = new Container();
+    ctr.eventMode = 'static';
+    ctr.cursor = 'pointer';
+    ctr.x = x;
+    ctr.y = y;
+    const bg = new Graphics();
+    drawRect(bg, 150, SLOT_H, SLOT_R, COL_SLOT, COL_EMPTY_BORDER, 1);
+    const label = new Text({
+      text: 'RESET DEFAULTS',
+      style: new TextStyle({ fontFamily: MONO, fontSize: 11, fill: 0xcccc44 }),
+    });
+    label.anchor.set(0.5);
+    label.x = 75;
+    label.y = SLOT_H / 2;
+    ctr.addChild(bg, label);
+    ctr.on('pointertap', () => {
+      this.capturing = null;
+      resetKeyBindings();
+      saveKeyBindings();
+      this.setStatus('Controls reset to defaults', 0x44cc44);
+      this.refresh();
+    });
+    this.container.addChild(ctr);
+  }
+
+  private startCapture(btn: SlotBtn): void {
+    this.capturing = btn;
+    this.setStatus('Press a key  (ESC cancel, BACKSPACE clear)', 0xffcc44);
+    this.refresh();
+  }
+
+  private onKey(e: KeyboardEvent): void {
+    const btn = this.capturing;
+    if (!btn || e.repeat) return;
+    e.preventDefault();
+    e.stopImmediatePropagation();
+    this.capturing = null;
+
+    if (e.code === 'Escape') {
+      this.setStatus('Cancelled', 0x5588aa);
+    } else if (e.code === 'Backspace' || e.code === 'Delete') {
+      if (unbindKey(btn.action, btn.slot)) {
+        saveKeyBindings();
+        this.setStatus('Key cleared', 0x44cc44);
+      } else {
+        this.setStatus('Every action needs at least one key', 0xcc4444);
+      }
+    } else {
+      const result = rebindAction(btn.action, btn.slot, e.code);
+      if (result.ok) {
+        saveKeyBindings();
+        this.setStatus(`${formatKeyCode(e.code)} bound`, 0x44cc44);
+      } else if (result.reason === 'conflict') {
+        const other = actionLabel(result.action);
+        this.setStatus(`${formatKeyCode(e.code)} is already used by ${other}`, 0xcc4444);
+      } else {
+        this.setStatus(`${formatKeyCode(e.code)} is reserved`, 0xcc4444);
+      }
+    }
+    this.refresh();
+  }
+
+  private setStatus(text: string, color: number): void {
+    this.statusText.text = text;
+    this.statusText.style.fill = color;
+  }
+}
+
+/** Display name for an action ('move-left' -> 'MOVE LEFT'). */
+function actionLabel(action: Action): string {
+  return action.replace(/-/g, ' ').toUpperCase();
+}
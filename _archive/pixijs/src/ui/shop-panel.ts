@@ -1,7 +1,9 @@
 /**
  * ShopPanel — renders purchasable items as a row of buttons on the hub screen.
  * Each button shows name, cost, and status (buyable / owned / too expensive).
- * Calls back on purchase so the hub can refresh all displays.
+ * Calls back on purchase so the hub can refresh all displays. Besides the
+ * mouse, a focus cursor (moveFocus / buyFocused) allows keyboard and
+ * controller shopping.
  */
 
 import { Container, Graphics, Text, TextStyle } from 'pixi.js';
@@ -44,6 +46,8 @@ export class ShopPanel {
   private gameState: GameState;
   private buttons: ShopBtn[] = [];
   private onPurchase: () => void;
+  /** Index of the keyboard/controller-focused button, or -1. */
+  private focused = -1;
 
   constructor(gameState: GameState, onPurchase: () => void) {
     this.gameState = gameState;
@@ -62,6 +66,20 @@ export class ShopPanel {
     }
   }
 
+  /** Move the focus cursor one button left (-1) or right (1), wrapping. */
+  moveFocus(dir: 1 | -1): void {
+    const n = this.buttons.length;
+    if (n === 0) return;
+    this.focused = this.focused === -1 ? 0 : (this.focused + dir + n) % n;
+    this.refresh();
+  }
+
+  /** Buy the focused item, if it can be bought. */
+  buyFocused(): void {
+    const btn = this.buttons[this.focused];
+    if (btn && this.canInteract(btn.item)) this.handleClick(btn.item);
+  }
+
   /** Destroy the panel and all children. */
   destroy(): void {
     this.container.destroy({ children: true });
@@ -176,8 +194,12 @@ export class ShopPanel {
       ? COL_OWNED_BORDER
       : canBuy ? COL_BORDER : COL_LOCKED_BORDER;
     const fillCol = owned ? COL_OWNED : COL_DEFAULT;
+    const focused = this.buttons.indexOf(btn) === this.focused;
 
-    drawRect(btn.bg, ITEM_W, ITEM_H, ITEM_R, fillCol, borderCol, 1);
+    drawRect(
+      btn.bg, ITEM_W, ITEM_H, ITEM_R,
+      focused ? COL_HOVER : fillCol, focused ? COL_BORDER : borderCol, focused ? 2 : 1,
+    );
 
     // Update status text
     if (owned) {
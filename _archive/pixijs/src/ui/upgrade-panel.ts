@@ -0,0 +1,175 @@
+/**
+ * UpgradePanel — the upgrade tracks of one weapon, listed under the
+ * weapon buttons in the hub LOADOUT section.
+ *
+ * Each row shows the track's level, its stat now and at the next level,
+ * and the cost (or why it can't be bought). Rows are bought by clicking,
+ * or with the focus cursor (moveFocus / buyFocused) from the keyboard.
+ */
+
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import type { GameState } from '../core/game-state.js';
+import type { WeaponId } from '../combat/weapon-defs.js';
+import type { UpgradeDisplay } from '../economy/upgrade-logic.js';
+import { buyUpgrade, canUpgrade, getUpgradeDisplay } from '../economy/upgrade-logic.js';
+import { UPGRADE_TRACK_IDS } from '../economy/upgrade-defs.js';
+import type { UpgradeTrackId } from '../economy/upgrade-defs.js';
+import { centeredText, drawRect, MONO } from './ui-helpers.js';
+
+// ---------------------------------------------------------------------------
+// Layout constants
+// ---------------------------------------------------------------------------
+
+const ROW_W = 452;
+const ROW_H = 24;
+const ROW_GAP = 4;
+const ROW_R = 4;
+const PAD = 10;
+const HEADER_H = 20;
+
+const COL_DEFAULT = 0x1a1a3a;
+const COL_FOCUS = 0x2a2a5a;
+const COL_BORDER = 0x00ccff;
+const COL_MAXED_BORDER = 0x44cc44;
+const COL_LOCKED_BORDER = 0x444466;
+
+// ---------------------------------------------------------------------------
+// UpgradePanel class
+// ---------------------------------------------------------------------------
+
+interface UpgradeRow {
+  track: UpgradeTrackId;
+  ctr: Container;
+  bg: Graphics;
+  nameText: Text;
+  statText: Text;
+  costText: Text;
+}
+
+export class UpgradePanel {
+  readonly container: Container;
+  private gameState: GameState;
+  private weaponId: WeaponId | null = null;
+  private rows: UpgradeRow[] = [];
+  private headerText: Text;
+  private onPurchase: () => void;
+  /** Index of the keyboard-focused row. */
+  private focused = 0;
+
+  constructor(gameState: GameState, onPurchase: () => void) {
+    this.gameState = gameState;
+    this.onPurchase = onPurchase;
+    this.container = new Container();
+
+    this.headerText = centeredText(this.container, '', new TextStyle({
+      fontFamily: MONO, fontSize: 12, fill: 0xff8844,
+    }), 0, 0);
+
+    for (let i = 0; i < UPGRADE_TRACK_IDS.length; i++) {
+      const row = this.createRow(UPGRADE_TRACK_IDS[i]);
+      row.ctr.x = -ROW_W / 2; // centred around container origin
+      row.ctr.y = HEADER_H + i * (ROW_H + ROW_GAP);
+      this.container.addChild(row.ctr);
+      this.rows.push(row);
+    }
+    this.refresh();
+  }
+
+  /** Show the tracks of a weapon (null hides them). */
+  show(weaponId: WeaponId | null): void {
+    this.weaponId = weaponId;
+    this.refresh();
+  }
+
+  /** Refresh all rows to reflect current GameState. */
+  refresh(): void {
+    this.container.visible = this.weaponId !== null;
+    if (!this.weaponId) return;
+    this.headerText.text = `UPGRADES · ${this.gameState.scrap} scrap`;
+    const display = getUpgradeDisplay(this.gameState, this.weaponId);
+    for (let i = 0; i < this.rows.length; i++) {
+      this.updateRow(this.rows[i], display[i], i === this.focused);
+    }
+  }
+
+  /** Move the focus cursor one row up (-1) or down (1), wrapping. */
+  moveFocus(dir: 1 | -1): void {
+    const n = this.rows.length;
+    this.focused = (this.focused + dir + n) % n;
+    this.refresh();
+  }
+
+  /** Buy the focused row's next level, if it can be bought. */
+  buyFocused(): void {
+    const row = this.rows[this.focused];
+    if (row && this.weaponId && canUpgrade(this.gameState, this.weaponId, row.track) === null) {
+      this.handleClick(row.track);
+    }
+  }
+
+  // -- Internal --
+
+  private createRow(track: UpgradeTrackId): UpgradeRow {
+    const ctr = new Container();
+    const bg = new Graphics();
+    ctr.addChild(bg);
+
+    const nameText = this.rowText(ctr, 0xffffff, PAD, 0);
+    const statText = this.rowText(ctr, 0xaaccee, ROW_W * 0.42, 0.5);
+    const costText = this.rowText(ctr, 0xcccc44, ROW_W - PAD, 1);
+
+    ctr.on('pointertap', () => this.handleClick(track));
+    return { track, ctr, bg, nameText, statText, costText };
+  }
+
+  /** A single-line label vertically centred in the row. */
+  private rowText(ctr: Container, fill: number, x: number, anchorX: number): Text {
+    const t = new Text({
+      text: '',
+      style: new TextStyle({ fontFamily: MONO, fontSize: 11, fill }),
+    });
+    t.anchor.set(anchorX, 0.5);
+    t.x = x;
+    t.y = ROW_H / 2;
+    ctr.addChild(t);
+    return t;
+  }
+
+  private handleClick(track: UpgradeTrackId): void {
+    if (!this.weaponId) return;
+    try {
+      buyUpgrade(this.gameState, this.weaponId, track);
+      this.onPurchase();
+    } catch (e: unknown) {
+      console.warn(`[UpgradePanel] Upgrade failed for ${this.weaponId} ${track}:`, e);
+    }
+  }
+
+  private updateRow(row: UpgradeRow, info: UpgradeDisplay, focused: boolean): void {
+    const maxed = info.next === null;
+    const canBuy = info.reason === null;
+    const border = maxed ? COL_MAXED_BORDER : canBuy ? COL_BORDER : COL_LOCKED_BORDER;
+    drawRect(
+      row.bg, ROW_W, ROW_H, ROW_R,
+      focused ? COL_FOCUS : COL_DEFAULT, focused ? COL_BORDER : border, focused ? 2 : 1,
+    );
+
+    row.nameText.text = `${info.name}  Lv ${info.level}/${info.maxLevel}`;
+    row.statText.text = maxed ? `${info.current}  (MAX)` : `${info.current} → ${info.next}`;
+
+    if (maxed) {
+      row.costText.text = 'MAXED';
+      row.costText.style.fill = 0x44cc44;
+    } else if (info.reason) {
+      row.costText.text = `${info.cost} scrap · ${info.reason}`;
+      row.costText.style.fill = 0xcc4444;
+    } else {
+      row.costText.text = `${info.cost} scrap · BUY`;
+      row.costText.style.fill = 0xcccc44;
+    }
+
+    row.ctr.eventMode = canBuy ? 'static' : 'none';
+    row.ctr.cursor = canBuy ? 'pointer' : 'default';
+    row.ctr.alpha = canBuy || maxed ? 1.0 : 0.6;
+  }
+}
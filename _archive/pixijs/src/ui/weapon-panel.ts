@@ -1,5 +1,6 @@
 /**
- * WeaponPanel — row of weapon buttons for the hub LOADOUT section.
+ * WeaponPanel — row of weapon buttons for the hub LOADOUT section, with
+ * the equipped weapon's upgrade tracks (UpgradePanel) listed below.
  * Handles selection, locked state, and visual refresh.
  */
 
@@ -9,6 +10,7 @@ import type { GameState } from '../core/game-state.js';
 import { ALL_WEAPON_IDS, getWeaponDef } from '../combat/weapon-defs.js';
 import type { WeaponId } from '../combat/weapon-defs.js';
 import { centeredText, drawRect, MONO } from './ui-helpers.js';
+import { UpgradePanel } from './upgrade-panel.js';
 
 const W = 140;
 const H = 80;
@@ -18,6 +20,8 @@ const SELECTED = 0x003344;
 const LOCKED = 0x111122;
 const BORDER = 0x00ccff;
 const LOCKED_BORDER = 0x444466;
+/** Space between the weapon buttons and the upgrade list. */
+const UPGRADES_GAP = 14;
 
 interface WpnBtn {
   id: WeaponId;
@@ -29,6 +33,7 @@ export class WeaponPanel {
   readonly container: Container;
   private gameState: GameState;
   private buttons: WpnBtn[] = [];
+  private upgrades: UpgradePanel;
   private onChange: () => void;
 
   constructor(gameState: GameState, onChange: () => void) {
@@ -45,6 +50,10 @@ export class WeaponPanel {
       this.container.addChild(wb.ctr);
       this.buttons.push(wb);
     }
+
+    this.upgrades = new UpgradePanel(gameState, () => this.onChange());
+    this.upgrades.container.y = H + UPGRADES_GAP;
+    this.container.addChild(this.upgrades.container);
     this.refresh();
   }
 
@@ -81,6 +90,30 @@ export class WeaponPanel {
     ) {
       this.gameState.equippedWeapon = null;
     }
+    this.upgrades.show(this.gameState.equippedWeapon);
+  }
+
+  /** Move the upgrade focus cursor up (-1) or down (1). */
+  moveUpgradeFocus(dir: 1 | -1): void {
+    this.upgrades.moveFocus(dir);
+  }
+
+  /** Buy the next level of the focused upgrade track. */
+  buyFocusedUpgrade(): void {
+    this.upgrades.buyFocused();
+  }
+
+  /** Equip the next (dir 1) or previous (dir -1) unlocked weapon. */
+  cycle(dir: 1 | -1): void {
+    const unlocked = ALL_WEAPON_IDS.filter((id) => this.gameState.unlockedWeapons.has(id));
+    if (unlocked.length === 0) return;
+    const current = this.gameState.equippedWeapon
+      ? unlocked.indexOf(this.gameState.equippedWeapon)
+      : -1;
+    const next = current === -1
+      ? 0
+      : (current + dir + unlocked.length) % unlocked.length;
+    this.select(unlocked[next]);
   }
 
   /** Select a specific weapon (used on constructor for pre-equipped). */